@@ -3,11 +3,13 @@
  * Main marketplace for browsing and applying to open jobs
  *
  * Features:
- * - Event-based job discovery using JobEventIndexer
- * - Real-time updates (30s auto-refresh via React Query)
- * - Advanced filtering (budget range, deadline, search)
- * - Sorting options (newest, budget, deadline)
- * - Infinite scroll with load more
+ * - Full-text search over titles, Walrus descriptions and skill tags (useJobSearch)
+ * - Category browser over the skill taxonomy
+ * - Facets: budget band, milestone count, deadline range, client rating, skills
+ * - Real-time updates (live events + 10s auto-refresh via React Query)
+ * - Sorting options (relevance, newest, budget, deadline)
+ * - Saved searches per wallet, with Navbar alerts for new matching jobs
+ * - Infinite scroll with load more, paged over the whole index
  * - Job detail modal with apply functionality
  * - Responsive grid layout
  * - Loading states and error handling
@@ -17,111 +19,138 @@
 
 import { useState, useMemo, useRef, useEffect } from "react";
 import { useCurrentAccount } from "@mysten/dapp-kit";
-import { useOpenJobs } from "@/hooks";
+import { useJobSearch, useSavedSearches } from "@/hooks";
 import { JobList } from "@/components/job/JobList";
 import { JobDetailView } from "@/components/job/JobDetailView";
-import { JobData, JobState } from "@/services/types";
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { JobData } from "@/services/types";
+import type { FacetValueCount, JobSearchFacet, JobSearchQuery, JobSearchSort, SavedSearch } from "@/services";
+import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Search, Filter, SlidersHorizontal, RefreshCw, ArrowLeft } from "lucide-react";
+import { Search, Filter, SlidersHorizontal, RefreshCw, ArrowLeft, Bookmark, X } from "lucide-react";
 
-type SortOption = "newest" | "oldest" | "budget-high" | "budget-low" | "deadline-soon" | "deadline-far";
+type FacetSelection = Partial<Record<JobSearchFacet, string[]>>;
 
-interface FilterOptions {
-  searchQuery: string;
-  minBudget: number;
-  maxBudget: number;
-  deadline: "all" | "today" | "week" | "month";
-}
+const PAGE_SIZE = 12;
+
+/** Skill values shown before "show all" */
+const TOP_SKILLS = 12;
+
+const FACET_TITLES: Record<JobSearchFacet, string> = {
+  category: "Category",
+  budget: "Budget",
+  milestones: "Milestones",
+  deadline: "Deadline",
+  clientRating: "Client rating",
+  skills: "Skills",
+};
+
+const SORT_OPTIONS: { value: JobSearchSort; label: string }[] = [
+  { value: "relevance", label: "Relevance" },
+  { value: "newest", label: "Newest" },
+  { value: "oldest", label: "Oldest" },
+  { value: "budget-high", label: "Highest Budget" },
+  { value: "budget-low", label: "Lowest Budget" },
+  { value: "deadline-soon", label: "Deadline Soon" },
+  { value: "deadline-far", label: "Deadline Far" },
+];
+
+/** Facets in the filter panel (categories have their own browser) */
+const FILTER_FACETS: JobSearchFacet[] = ["budget", "milestones", "deadline", "clientRating", "skills"];
 
 interface JobMarketplaceViewProps {
   onBack?: () => void;
 }
 
+/**
+ * Selectable values of one facet with their result counts
+ */
+function FacetGroup({
+  facet,
+  values,
+  selected,
+  onToggle,
+}: {
+  facet: JobSearchFacet;
+  values: FacetValueCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const visible = facet === "skills" && !showAll ? values.slice(0, TOP_SKILLS) : values;
+
+  return (
+    <div>
+      <p className="text-sm font-medium mb-2">{FACET_TITLES[facet]}</p>
+      {values.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {facet === "skills" ? "No tagged skills yet" : "No values"}
+        </p>
+      ) : (
+        <div className="flex flex-col gap-1">
+          {visible.map((option) => (
+            <label
+              key={option.value}
+              className={`flex items-center gap-2 text-sm ${
+                option.count === 0 && !selected.includes(option.value) ? "text-muted-foreground" : ""
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={() => onToggle(option.value)}
+              />
+              <span className="flex-1">{option.label}</span>
+              <span className="text-xs text-muted-foreground">{option.count}</span>
+            </label>
+          ))}
+          {facet === "skills" && values.length > TOP_SKILLS && (
+            <button
+              type="button"
+              className="text-xs text-blue-600 text-left mt-1"
+              onClick={() => setShowAll(!showAll)}
+            >
+              {showAll ? "Show fewer" : `Show all ${values.length}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function JobMarketplaceView({ onBack }: JobMarketplaceViewProps) {
   const currentAccount = useCurrentAccount();
-  const { jobs, isPending, error, refetch } = useOpenJobs(200);
-  const [sortBy, setSortBy] = useState<SortOption>("newest");
+  const [searchText, setSearchText] = useState("");
+  const [facets, setFacets] = useState<FacetSelection>({});
+  const [sortBy, setSortBy] = useState<JobSearchSort>("relevance");
   const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState<FilterOptions>({
-    searchQuery: "",
-    minBudget: 0,
-    maxBudget: Number.MAX_SAFE_INTEGER,
-    deadline: "all",
-  });
 
   // Infinite scroll state
-  const [displayLimit, setDisplayLimit] = useState(12);
+  const [displayLimit, setDisplayLimit] = useState(PAGE_SIZE);
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [savedSearchName, setSavedSearchName] = useState<string | null>(null);
+  const [savedSearchError, setSavedSearchError] = useState<string | null>(null);
+  const { searches: savedSearches, save: saveSearch, remove: removeSavedSearch, markSeen } = useSavedSearches();
   const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  // ======== Filtering Logic ========
-
-  const filteredAndSortedJobs = useMemo(() => {
-    if (!jobs || jobs.length === 0) return [];
-
-    let filtered = [...jobs];
+  // ======== Search ========
 
-    // Text search (title only - description requires Walrus fetch)
-    if (filters.searchQuery.trim()) {
-      const query = filters.searchQuery.toLowerCase();
-      filtered = filtered.filter((job) =>
-        job.title.toLowerCase().includes(query)
-      );
-    }
-
-    // Budget range filter
-    filtered = filtered.filter((job) => {
-      const budgetInSui = job.budget / 1_000_000_000;
-      return budgetInSui >= filters.minBudget && budgetInSui <= filters.maxBudget;
-    });
-
-    // Deadline filter
-    if (filters.deadline !== "all") {
-      const now = Date.now();
-      const deadlineThresholds = {
-        today: now + 24 * 60 * 60 * 1000,
-        week: now + 7 * 24 * 60 * 60 * 1000,
-        month: now + 30 * 24 * 60 * 60 * 1000,
-      };
-
-      const threshold = deadlineThresholds[filters.deadline];
-      filtered = filtered.filter((job) => job.deadline <= threshold);
-    }
-
-    // Sorting
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case "newest":
-          return b.createdAt - a.createdAt;
-        case "oldest":
-          return a.createdAt - b.createdAt;
-        case "budget-high":
-          return b.budget - a.budget;
-        case "budget-low":
-          return a.budget - b.budget;
-        case "deadline-soon":
-          return a.deadline - b.deadline;
-        case "deadline-far":
-          return b.deadline - a.deadline;
-        default:
-          return 0;
-      }
-    });
-
-    return filtered;
-  }, [jobs, filters, sortBy]);
+  const query = useMemo<JobSearchQuery>(
+    () => ({ text: searchText, facets, sort: sortBy, offset: 0, limit: displayLimit }),
+    [searchText, facets, sortBy, displayLimit]
+  );
+  const { jobs: displayedJobs, total, facets: facetCounts, indexSize, isPending, error, refetch } =
+    useJobSearch(query);
 
-  // Get jobs to display with limit
-  const displayedJobs = useMemo(() => {
-    return filteredAndSortedJobs.slice(0, displayLimit);
-  }, [filteredAndSortedJobs, displayLimit]);
+  const hasMoreJobs = displayLimit < total;
+  const activeFacetCount = FILTER_FACETS.reduce((count, facet) => count + (facets[facet]?.length ?? 0), 0);
 
-  const hasMoreJobs = useMemo(() => {
-    return displayLimit < filteredAndSortedJobs.length;
-  }, [displayLimit, filteredAndSortedJobs]);
+  // Start from the first page when the query changes
+  useEffect(() => {
+    setDisplayLimit(PAGE_SIZE);
+  }, [searchText, facets, sortBy]);
 
   // ======== Infinite Scroll Effect ========
 
@@ -129,7 +158,7 @@ export function JobMarketplaceView({ onBack }: JobMarketplaceViewProps) {
     const observer = new IntersectionObserver(
       (entries) => {
         if (entries[0].isIntersecting && hasMoreJobs && !isPending) {
-          setDisplayLimit((prev) => prev + 12);
+          setDisplayLimit((prev) => prev + PAGE_SIZE);
         }
       },
       { threshold: 0.1 }
@@ -148,14 +177,40 @@ export function JobMarketplaceView({ onBack }: JobMarketplaceViewProps) {
     refetch();
   };
 
-  const handleResetFilters = () => {
-    setFilters({
-      searchQuery: "",
-      minBudget: 0,
-      maxBudget: Number.MAX_SAFE_INTEGER,
-      deadline: "all",
+  const handleToggleFacet = (facet: JobSearchFacet, value: string) => {
+    setFacets((current) => {
+      const values = current[facet] ?? [];
+      return {
+        ...current,
+        [facet]: values.includes(value) ? values.filter((v) => v !== value) : [...values, value],
+      };
     });
-    setDisplayLimit(12); // Reset display limit
+  };
+
+  const handleSelectCategory = (category: string | null) => {
+    setFacets((current) => ({ ...current, category: category ? [category] : [] }));
+  };
+
+  const handleResetFilters = () => {
+    setSearchText("");
+    setFacets({});
+  };
+
+  const handleSaveSearch = () => {
+    try {
+      saveSearch(savedSearchName ?? "", { text: searchText, facets, sort: sortBy });
+      setSavedSearchName(null);
+      setSavedSearchError(null);
+    } catch (err) {
+      setSavedSearchError(err instanceof Error ? err.message : "Failed to save search");
+    }
+  };
+
+  const handleApplySavedSearch = (search: SavedSearch) => {
+    setSearchText(search.query.text);
+    setFacets(search.query.facets);
+    setSortBy(search.query.sort);
+    markSeen(search.id);
   };
 
   const handleJobClick = (job: JobData) => {
@@ -221,11 +276,9 @@ export function JobMarketplaceView({ onBack }: JobMarketplaceViewProps) {
               <div className="relative flex-1">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search jobs by title..."
-                  value={filters.searchQuery}
-                  onChange={(e) =>
-                    setFilters({ ...filters, searchQuery: e.target.value })
-                  }
+                  placeholder="Search titles, descriptions and skills..."
+                  value={searchText}
+                  onChange={(e) => setSearchText(e.target.value)}
                   className="pl-10"
                 />
               </div>
@@ -234,78 +287,94 @@ export function JobMarketplaceView({ onBack }: JobMarketplaceViewProps) {
                 onClick={() => setShowFilters(!showFilters)}
               >
                 <SlidersHorizontal className="h-4 w-4 mr-2" />
-                Filters
+                Filters{activeFacetCount > 0 && ` (${activeFacetCount})`}
               </Button>
+              {currentAccount && (
+                <Button
+                  variant="outline"
+                  onClick={() => setSavedSearchName(savedSearchName === null ? searchText.trim() : null)}
+                >
+                  <Bookmark className="h-4 w-4 mr-2" />
+                  Save search
+                </Button>
+              )}
               <Button variant="outline" onClick={handleRefresh}>
                 <RefreshCw className="h-4 w-4" />
               </Button>
             </div>
 
-            {/* Advanced Filters */}
-            {showFilters && (
-              <div className="border-t pt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
-                {/* Budget Range */}
-                <div>
-                  <label className="text-sm font-medium mb-2 block">
-                    Min Budget (SUI)
-                  </label>
+            {/* Save Search Form */}
+            {savedSearchName !== null && (
+              <div className="flex flex-col gap-1">
+                <div className="flex gap-2">
                   <Input
-                    type="number"
-                    placeholder="0"
-                    value={filters.minBudget || ""}
-                    onChange={(e) =>
-                      setFilters({
-                        ...filters,
-                        minBudget: Number(e.target.value) || 0,
-                      })
-                    }
+                    placeholder="Name this search"
+                    value={savedSearchName}
+                    onChange={(e) => setSavedSearchName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleSaveSearch()}
+                    className="max-w-sm"
                   />
-                </div>
-                <div>
-                  <label className="text-sm font-medium mb-2 block">
-                    Max Budget (SUI)
-                  </label>
-                  <Input
-                    type="number"
-                    placeholder="No limit"
-                    value={
-                      filters.maxBudget === Number.MAX_SAFE_INTEGER
-                        ? ""
-                        : filters.maxBudget
-                    }
-                    onChange={(e) =>
-                      setFilters({
-                        ...filters,
-                        maxBudget: Number(e.target.value) || Number.MAX_SAFE_INTEGER,
-                      })
-                    }
-                  />
-                </div>
-
-                {/* Deadline Filter */}
-                <div>
-                  <label className="text-sm font-medium mb-2 block">
-                    Deadline
-                  </label>
-                  <select
-                    className="w-full h-10 px-3 rounded-md border border-input bg-background"
-                    value={filters.deadline}
-                    onChange={(e) =>
-                      setFilters({
-                        ...filters,
-                        deadline: e.target.value as FilterOptions["deadline"],
-                      })
-                    }
+                  <Button onClick={handleSaveSearch} disabled={!savedSearchName.trim()}>
+                    Save
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => {
+                      setSavedSearchName(null);
+                      setSavedSearchError(null);
+                    }}
                   >
-                    <option value="all">All deadlines</option>
-                    <option value="today">Due today</option>
-                    <option value="week">Due this week</option>
-                    <option value="month">Due this month</option>
-                  </select>
+                    Cancel
+                  </Button>
                 </div>
+                {savedSearchError && <p className="text-sm text-red-500">{savedSearchError}</p>}
+                <p className="text-xs text-muted-foreground">
+                  You will get an alert when new jobs match the current search text, filters and category.
+                </p>
+              </div>
+            )}
+
+            {/* Saved Searches */}
+            {savedSearches.length > 0 && (
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-sm text-muted-foreground">Saved:</span>
+                {savedSearches.map((search) => (
+                  <span key={search.id} className="inline-flex items-center rounded-md border">
+                    <button
+                      type="button"
+                      className="px-2 py-1 text-sm hover:bg-muted"
+                      onClick={() => handleApplySavedSearch(search)}
+                    >
+                      {search.name}
+                    </button>
+                    <button
+                      type="button"
+                      className="px-1 py-1 text-muted-foreground hover:text-red-500"
+                      onClick={() => removeSavedSearch(search.id)}
+                      aria-label={`Delete saved search ${search.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {/* Facets */}
+            {showFilters && facetCounts && (
+              <div className="border-t pt-4 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                {FILTER_FACETS.map((facet) => (
+                  <FacetGroup
+                    key={facet}
+                    facet={facet}
+                    values={facetCounts[facet]}
+                    selected={facets[facet] ?? []}
+                    onToggle={(value) => handleToggleFacet(facet, value)}
+                  />
+                ))}
 
                 {/* Reset Filters */}
-                <div className="md:col-span-3">
+                <div className="md:col-span-3 lg:col-span-5">
                   <Button variant="ghost" onClick={handleResetFilters}>
                     Reset Filters
                   </Button>
@@ -313,23 +382,41 @@ export function JobMarketplaceView({ onBack }: JobMarketplaceViewProps) {
               </div>
             )}
 
+            {/* Category Browser */}
+            {facetCounts && (
+              <div className="flex items-center gap-2 flex-wrap">
+                <Button
+                  variant={(facets.category ?? []).length === 0 ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => handleSelectCategory(null)}
+                >
+                  All categories
+                </Button>
+                {facetCounts.category.map((option) => (
+                  <Button
+                    key={option.value}
+                    variant={facets.category?.includes(option.value) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleSelectCategory(option.value)}
+                    disabled={option.count === 0 && !facets.category?.includes(option.value)}
+                  >
+                    {option.label}
+                    <span className="ml-1 text-xs opacity-70">{option.count}</span>
+                  </Button>
+                ))}
+              </div>
+            )}
+
             {/* Sort Options */}
             <div className="flex items-center gap-2 flex-wrap">
               <span className="text-sm text-muted-foreground">Sort by:</span>
               <div className="flex gap-2 flex-wrap">
-                {[
-                  { value: "newest", label: "Newest" },
-                  { value: "oldest", label: "Oldest" },
-                  { value: "budget-high", label: "Highest Budget" },
-                  { value: "budget-low", label: "Lowest Budget" },
-                  { value: "deadline-soon", label: "Deadline Soon" },
-                  { value: "deadline-far", label: "Deadline Far" },
-                ].map((option) => (
+                {SORT_OPTIONS.map((option) => (
                   <Button
                     key={option.value}
                     variant={sortBy === option.value ? "default" : "outline"}
                     size="sm"
-                    onClick={() => setSortBy(option.value as SortOption)}
+                    onClick={() => setSortBy(option.value)}
                   >
                     {option.label}
                   </Button>
@@ -344,9 +431,9 @@ export function JobMarketplaceView({ onBack }: JobMarketplaceViewProps) {
       {!isPending && (
         <div className="mb-4 text-sm text-muted-foreground flex items-center justify-between">
           <span>
-            Showing {displayedJobs.length} of {filteredAndSortedJobs.length} jobs
-            {filters.searchQuery && (
-              <span> matching &quot;{filters.searchQuery}&quot;</span>
+            Showing {displayedJobs.length} of {total} jobs
+            {searchText.trim() && (
+              <span> matching &quot;{searchText.trim()}&quot;</span>
             )}
           </span>
           {hasMoreJobs && (
@@ -375,7 +462,7 @@ export function JobMarketplaceView({ onBack }: JobMarketplaceViewProps) {
       {hasMoreJobs && !isPending && (
         <div className="text-center mt-8">
           <Button
-            onClick={() => setDisplayLimit((prev) => prev + 12)}
+            onClick={() => setDisplayLimit((prev) => prev + PAGE_SIZE)}
             variant="outline"
             size="lg"
           >
@@ -385,7 +472,7 @@ export function JobMarketplaceView({ onBack }: JobMarketplaceViewProps) {
       )}
 
       {/* Empty State */}
-      {!isPending && filteredAndSortedJobs.length === 0 && jobs && jobs.length > 0 && (
+      {!isPending && total === 0 && indexSize > 0 && (
         <Card className="mt-8">
           <CardContent className="py-12 text-center">
             <Filter className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -399,7 +486,7 @@ export function JobMarketplaceView({ onBack }: JobMarketplaceViewProps) {
       )}
 
       {/* No Jobs Available */}
-      {!isPending && jobs && jobs.length === 0 && (
+      {!isPending && indexSize === 0 && (
         <Card className="mt-8">
           <CardContent className="py-12 text-center">
             <h3 className="text-lg font-semibold mb-2">No jobs available</h3>
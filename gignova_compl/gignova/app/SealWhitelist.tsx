@@ -13,13 +13,14 @@ import {
   useCurrentAccount,
   useSuiClient,
   useWallets,
-  useSignAndExecuteTransaction,
 } from "@mysten/dapp-kit";
+import { useTransactionPreview } from "./contexts/TransactionPreviewContext";
 import {
   createSealService,
   createWhitelistService,
   SEAL_TESTNET_SERVERS,
   type CapData,
+  formatTransactionError,
 } from "./services";
 import ClipLoader from "react-spinners/ClipLoader";
 import { SessionKey } from "@mysten/seal";
@@ -39,7 +40,7 @@ export function SealWhitelist() {
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
   const wallets = useWallets();
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { signAndExecute } = useTransactionPreview();
 
   // Seal server selection - must be declared before useMemo
   const [selectedSealServer, setSelectedSealServer] =
@@ -361,9 +362,7 @@ export function SealWhitelist() {
           },
           onError: (err) => {
             setError(
-              `Failed to create whitelist: ${
-                err instanceof Error ? err.message : "Unknown error"
-              }`,
+              `Failed to create whitelist: ${formatTransactionError(err, "Unknown error")}`,
             );
             setLoadingCreateWhitelist(false);
           },
@@ -371,9 +370,7 @@ export function SealWhitelist() {
       );
     } catch (err) {
       setError(
-        `Failed to create whitelist: ${
-          err instanceof Error ? err.message : "Unknown error"
-        }`,
+        `Failed to create whitelist: ${formatTransactionError(err, "Unknown error")}`,
       );
       setLoadingCreateWhitelist(false);
     }
@@ -436,9 +433,7 @@ export function SealWhitelist() {
           },
           onError: (err) => {
             setError(
-              `Failed to add address: ${
-                err instanceof Error ? err.message : "Unknown error"
-              }`,
+              `Failed to add address: ${formatTransactionError(err, "Unknown error")}`,
             );
             setLoadingAddAddress(false);
           },
@@ -446,9 +441,7 @@ export function SealWhitelist() {
       );
     } catch (err) {
       setError(
-        `Failed to add address: ${
-          err instanceof Error ? err.message : "Unknown error"
-        }`,
+        `Failed to add address: ${formatTransactionError(err, "Unknown error")}`,
       );
       setLoadingAddAddress(false);
     }
@@ -511,9 +504,7 @@ export function SealWhitelist() {
           },
           onError: (err) => {
             setError(
-              `Failed to remove address: ${
-                err instanceof Error ? err.message : "Unknown error"
-              }`,
+              `Failed to remove address: ${formatTransactionError(err, "Unknown error")}`,
             );
             setLoadingRemoveAddress(false);
           },
@@ -521,9 +512,7 @@ export function SealWhitelist() {
       );
     } catch (err) {
       setError(
-        `Failed to remove address: ${
-          err instanceof Error ? err.message : "Unknown error"
-        }`,
+        `Failed to remove address: ${formatTransactionError(err, "Unknown error")}`,
       );
       setLoadingRemoveAddress(false);
     }
@@ -2,7 +2,7 @@
 
 import * as React from "react";
 import Link from "next/link";
-import { ConnectButton, useSuiClientContext } from "@mysten/dapp-kit";
+import { ConnectButton, useCurrentAccount, useSuiClientContext } from "@mysten/dapp-kit";
 import { setCurrentNetwork, NetworkType } from "../lib/suiClient";
 import {
   NavigationMenu,
@@ -12,6 +12,8 @@ import {
 } from "./ui/navigation-menu";
 import { useView } from "../contexts/ViewContext";
 import { useZkLogin } from "../contexts/ZkLoginContext";
+import { SavedSearchAlerts } from "./SavedSearchAlerts";
+import { NotificationCenter } from "./NotificationCenter";
 import { Button } from "./ui/button";
 import { User } from "lucide-react";
 
@@ -19,6 +21,7 @@ export default function Navbar() {
   const { setView } = useView();
   const { isAuthenticated, walletAddress, login, logout, isLoading } = useZkLogin();
   const ctx = useSuiClientContext();
+  const currentAccount = useCurrentAccount();
 
   const handleNetworkChange = (network: string) => {
     ctx.selectNetwork(network);
@@ -69,6 +72,18 @@ export default function Navbar() {
             ))}
           </select>
 
+          {/* Notifications and Saved Search Alerts */}
+          {currentAccount && (
+            <>
+              <NavigationMenuItem>
+                <NotificationCenter />
+              </NavigationMenuItem>
+              <NavigationMenuItem>
+                <SavedSearchAlerts />
+              </NavigationMenuItem>
+            </>
+          )}
+
           {/* Profile Button */}
           <NavigationMenuItem>
             <Button
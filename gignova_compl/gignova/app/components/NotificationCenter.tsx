@@ -0,0 +1,108 @@
+/**
+ * NotificationCenter Component
+ * Navbar bell with the connected wallet's notifications from on-chain events
+ *
+ * Clicking a notification marks it as read and opens the job in the view that fits the
+ * user's role: the client's job view, the freelancer's job view or the public job detail.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { JobDetailView } from "@/components/job/JobDetailView";
+import { useView } from "@/contexts/ViewContext";
+import { useNotifications, type NotificationItem } from "@/hooks";
+import { getRelativeTime } from "@/utils";
+
+export function NotificationCenter() {
+  const { setView, setSelectedJobId } = useView();
+  const { notifications, unreadCount, markRead, markAllRead, isPending } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const [listingJobId, setListingJobId] = useState<string | null>(null);
+
+  const handleOpen = (notification: NotificationItem) => {
+    markRead([notification.id]);
+    setOpen(false);
+
+    if (notification.target === "profile" || !notification.jobId) {
+      setView("profile");
+    } else if (notification.target === "listing") {
+      setListingJobId(notification.jobId);
+    } else {
+      setSelectedJobId?.(notification.jobId);
+      setView(notification.target);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(!open)}
+        className="relative"
+        aria-label={`Notifications (${unreadCount} unread)`}
+      >
+        <Bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-96 max-h-[28rem] overflow-y-auto rounded-md border bg-card shadow-lg z-50 p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-semibold">Notifications</p>
+            {unreadCount > 0 && (
+              <button type="button" className="text-xs text-blue-600" onClick={markAllRead}>
+                Mark all read
+              </button>
+            )}
+          </div>
+          {isPending ? (
+            <p className="text-sm text-muted-foreground animate-pulse">Loading notifications...</p>
+          ) : notifications.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No notifications yet. Applications, assignments, reviews and payments on your jobs show up here.
+            </p>
+          ) : (
+            notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleOpen(notification)}
+                className={`w-full text-left rounded px-2 py-2 hover:bg-muted ${notification.read ? "" : "bg-blue-500/10"}`}
+              >
+                <span className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">
+                    {!notification.read && <span className="inline-block h-2 w-2 rounded-full bg-blue-500 mr-2" />}
+                    {notification.title}
+                  </span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {getRelativeTime(notification.timestamp)}
+                  </span>
+                </span>
+                <span className="block text-xs text-muted-foreground">{notification.message}</span>
+                {notification.jobTitle && (
+                  <span className="block text-xs truncate">{notification.jobTitle}</span>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {listingJobId && (
+        <JobDetailView
+          jobId={listingJobId}
+          open={!!listingJobId}
+          onClose={() => setListingJobId(null)}
+        />
+      )}
+    </div>
+  );
+}
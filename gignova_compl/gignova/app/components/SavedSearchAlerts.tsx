@@ -0,0 +1,106 @@
+/**
+ * SavedSearchAlerts Component
+ * Navbar bookmark with the number of new jobs matching the wallet's saved searches
+ *
+ * The dropdown lists new jobs per saved search; clicking one opens the job detail
+ * modal and marks the job as seen in every search it matched.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Bookmark } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { JobDetailView } from "@/components/job/JobDetailView";
+import { useSavedSearchAlerts } from "@/hooks";
+import { getRelativeTime } from "@/utils";
+
+/** Jobs listed per saved search in the dropdown */
+const JOBS_PER_ALERT = 5;
+
+export function SavedSearchAlerts() {
+  const { alerts, unreadCount, markSeen } = useSavedSearchAlerts();
+  const [open, setOpen] = useState(false);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+
+  const handleOpenJob = (jobId: string) => {
+    for (const alert of alerts) {
+      if (alert.jobs.some((job) => job.objectId === jobId)) {
+        markSeen(alert.search.id, [jobId]);
+      }
+    }
+    setSelectedJobId(jobId);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(!open)}
+        className="relative"
+        aria-label={`Saved search alerts (${unreadCount} new)`}
+      >
+        <Bookmark className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 max-h-[28rem] overflow-y-auto rounded-md border bg-card shadow-lg z-50 p-3 space-y-3">
+          <p className="text-sm font-semibold">Saved search alerts</p>
+          {alerts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No new jobs. Save a search in the marketplace to get alerts for new matches.
+            </p>
+          ) : (
+            alerts.map(({ search, jobs }) => (
+              <div key={search.id} className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">
+                    {search.name} <span className="text-muted-foreground">({jobs.length} new)</span>
+                  </span>
+                  <button
+                    type="button"
+                    className="text-xs text-blue-600"
+                    onClick={() => markSeen(search.id)}
+                  >
+                    Mark read
+                  </button>
+                </div>
+                {jobs.slice(0, JOBS_PER_ALERT).map((job) => (
+                  <button
+                    key={job.objectId}
+                    type="button"
+                    onClick={() => handleOpenJob(job.objectId)}
+                    className="w-full text-left rounded px-2 py-1 hover:bg-muted"
+                  >
+                    <span className="block text-sm truncate">{job.title}</span>
+                    <span className="block text-xs text-muted-foreground">{getRelativeTime(job.createdAt)}</span>
+                  </button>
+                ))}
+                {jobs.length > JOBS_PER_ALERT && (
+                  <p className="text-xs text-muted-foreground px-2">
+                    and {jobs.length - JOBS_PER_ALERT} more
+                  </p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {selectedJobId && (
+        <JobDetailView
+          jobId={selectedJobId}
+          open={!!selectedJobId}
+          onClose={() => setSelectedJobId(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * SchemaDriftAlert Component
+ * Warns when on-chain struct layouts no longer match the frontend decoders
+ */
+
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronUp } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useSchemaDrift } from "@/hooks";
+import { formatSchemaIssue } from "@/services";
+
+export function SchemaDriftAlert() {
+  const { issues } = useSchemaDrift();
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const structs = Array.from(new Set(issues.map((issue) => issue.struct)));
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription>
+        <div className="flex items-center justify-between gap-2">
+          <span>
+            The deployed contracts do not match this app ({structs.join(", ")}). Some data may be
+            missing or outdated.
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setShowDetails(!showDetails)}>
+            {showDetails ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </div>
+        {showDetails && (
+          <ul className="mt-2 space-y-1 text-xs font-mono">
+            {issues.map((issue, i) => (
+              <li key={`${issue.struct}-${issue.path}-${i}`}>
+                {issue.struct}: {formatSchemaIssue(issue)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
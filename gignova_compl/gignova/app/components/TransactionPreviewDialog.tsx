@@ -0,0 +1,179 @@
+/**
+ * TransactionPreviewDialog Component
+ * Confirmation dialog shown before the wallet prompt opens
+ *
+ * Features:
+ * - Estimated gas (net of storage rebate)
+ * - Predicted balance changes per owner and coin
+ * - Predicted abort (module, function, abort code) explained in plain language, with the option to sign anyway
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import { AlertCircle, ArrowDownLeft, ArrowUpRight, CheckCircle, Fuel, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCoinMetadataMap } from "@/hooks";
+import type { TransactionPreview } from "@/services/transactionPreviewService";
+import { SUI_COIN_METADATA } from "@/constants";
+import { formatCoinAmount, shortenAddress } from "@/utils";
+
+interface TransactionPreviewDialogProps {
+  open: boolean;
+  /** Simulation result (null while loading) */
+  preview: TransactionPreview | null;
+  isLoading: boolean;
+  /** Error from the simulation request itself (RPC failure) */
+  loadError: string | null;
+  /** Connected wallet address, shown as "You" in balance changes */
+  sender?: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function TransactionPreviewDialog({
+  open,
+  preview,
+  isLoading,
+  loadError,
+  sender,
+  onConfirm,
+  onCancel,
+}: TransactionPreviewDialogProps) {
+  const coinTypes = useMemo(
+    () => Array.from(new Set(preview?.balanceChanges.map((change) => change.coinType) ?? [])),
+    [preview]
+  );
+  const coinMetadataMap = useCoinMetadataMap(coinTypes);
+
+  const willFail = preview !== null && !preview.success;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review Transaction</DialogTitle>
+          <DialogDescription>
+            Simulated on the network before your wallet asks you to sign.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {isLoading && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Simulating transaction...
+            </p>
+          )}
+
+          {loadError && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Could not simulate this transaction ({loadError}). You can still sign it in your wallet.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {preview && (
+            <>
+              {/* Predicted outcome */}
+              {willFail ? (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <p>
+                      This transaction is expected to fail: {preview.decoded?.message ?? preview.error}
+                    </p>
+                    {preview.decoded?.suggestion && (
+                      <p className="mt-1">{preview.decoded.suggestion}</p>
+                    )}
+                    {preview.abort && (
+                      <p className="mt-1 text-xs font-mono">
+                        {preview.decoded?.constantName ?? `abort code ${preview.abort.code}`} in{" "}
+                        {preview.abort.module}
+                        {preview.abort.functionName ? `::${preview.abort.functionName}` : ""}
+                      </p>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <p className="text-sm text-green-500 flex items-center gap-2">
+                  <CheckCircle className="h-4 w-4" />
+                  Simulation succeeded
+                </p>
+              )}
+
+              {/* Gas estimate */}
+              {preview.gas && (
+                <div className="flex items-center gap-3 p-3 rounded-lg border">
+                  <Fuel className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm text-muted-foreground">Estimated gas</p>
+                    <p className="font-semibold">{formatCoinAmount(preview.gas.total, SUI_COIN_METADATA, 6)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Computation {formatCoinAmount(preview.gas.computationCost, SUI_COIN_METADATA, 6)} · Storage{" "}
+                      {formatCoinAmount(preview.gas.storageCost, SUI_COIN_METADATA, 6)} · Rebate{" "}
+                      {formatCoinAmount(preview.gas.storageRebate, SUI_COIN_METADATA, 6)}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {/* Balance changes (dry run only; include gas) */}
+              {preview.balanceChanges.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Balance changes</p>
+                  <ul className="space-y-1">
+                    {preview.balanceChanges.map((change, i) => {
+                      const isOutgoing = change.amount < BigInt(0);
+                      const absolute = isOutgoing ? -change.amount : change.amount;
+                      return (
+                        <li key={`${change.owner}-${change.coinType}-${i}`} className="flex items-center justify-between text-sm">
+                          <span className="flex items-center gap-2">
+                            {isOutgoing ? (
+                              <ArrowUpRight className="h-4 w-4 text-red-500" />
+                            ) : (
+                              <ArrowDownLeft className="h-4 w-4 text-green-500" />
+                            )}
+                            {change.owner === sender ? "You" : shortenAddress(change.owner)}
+                          </span>
+                          <span className={isOutgoing ? "text-red-500" : "text-green-500"}>
+                            {isOutgoing ? "-" : "+"}
+                            {formatCoinAmount(Number(absolute), coinMetadataMap[change.coinType], 4)}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={isLoading}
+            variant={willFail ? "destructive" : "default"}
+          >
+            {willFail ? "Sign Anyway" : "Continue to Wallet"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * ApplicationCard Component
+ * Displays a freelancer's application and its current status
+ *
+ * Status comes from application events (applied, withdrawn, rejected, assigned),
+ * so declined or withdrawn applications no longer show as "applied" forever.
+ */
+
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { type ApplicationData, ApplicationStatus } from "../../services";
+import { formatCoinAmount, formatDate } from "../../utils";
+import { useCoinMetadata } from "../../hooks";
+
+interface ApplicationCardProps {
+  application: ApplicationData;
+  onClick?: () => void;
+}
+
+/**
+ * Badge variant and label for each application status
+ */
+const STATUS_BADGES: Record<
+  ApplicationStatus,
+  { variant: "info" | "success" | "danger" | "secondary"; label: string }
+> = {
+  [ApplicationStatus.PENDING]: { variant: "info", label: "PENDING" },
+  [ApplicationStatus.ACCEPTED]: { variant: "success", label: "ACCEPTED" },
+  [ApplicationStatus.REJECTED]: { variant: "danger", label: "REJECTED" },
+  [ApplicationStatus.WITHDRAWN]: { variant: "secondary", label: "WITHDRAWN" },
+  [ApplicationStatus.NOT_SELECTED]: { variant: "secondary", label: "NOT SELECTED" },
+};
+
+export function ApplicationCard({ application, onClick }: ApplicationCardProps) {
+  const { job, status, appliedAt, updatedAt } = application;
+  const { metadata: coinMetadata } = useCoinMetadata(job.coinType);
+  const badge = STATUS_BADGES[status];
+
+  return (
+    <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={onClick}>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <CardTitle className="text-lg">{job.title}</CardTitle>
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+        </div>
+        <CardDescription>
+          Posted by: {job.client.slice(0, 6)}...{job.client.slice(-4)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Budget:</span>
+            <span className="font-semibold">{formatCoinAmount(job.budget, coinMetadata)}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Applied:</span>
+            <span>{formatDate(appliedAt)}</span>
+          </div>
+          {updatedAt !== appliedAt && (
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Updated:</span>
+              <span>{formatDate(updatedAt)}</span>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
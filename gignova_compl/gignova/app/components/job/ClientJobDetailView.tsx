@@ -4,18 +4,25 @@
  *
  * Features:
  * - State-based action buttons (assign, approve, cancel)
- * - Applicant list with assignment functionality
- * - Milestone approval workflow
- * - Job cancellation
+ * - Applicant proposals with assignment and rejection
+ * - Milestone approval workflow: multi-select batch approval in one transaction,
+ *   blocked when escrow can't cover unapproved milestones
+ * - Adding funded milestones while the job is open or in progress
+ * - Job editing and cancellation while OPEN
+ * - Review window display and completion claim after freelancer auto-claim
+ * - Deadline reclaim and extension requests via DeadlinePanel
+ * - Activity timeline from on-chain events with explorer links
+ * - Dispute opening, evidence and resolution via DisputePanel
+ * - Live updates: new applicants, submissions and state changes are highlighted
  * - Deliverable download (dummy for now)
  */
 
 "use client";
 
 import { useState, useMemo, useEffect } from "react";
-import { useJob, useCurrentProfile } from "@/hooks";
+import { useJob, useJobChanges, useCurrentProfile, useCoinMetadata } from "@/hooks";
 import { JobData, JobState } from "@/services/types";
-import { createJobService } from "@/services";
+import { createJobService, formatTransactionError } from "@/services";
 import {
   Dialog,
   DialogContent,
@@ -29,6 +36,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Calendar,
   DollarSign,
@@ -41,52 +50,80 @@ import {
   Target,
   Download,
   UserCheck,
+  UserX,
   ArrowLeft,
   ExternalLink,
   Lock,
   File,
   Loader2,
+  Pencil,
+  Plus,
+  Wallet,
 } from "lucide-react";
 import { MilestoneCard } from "./MilestoneCard";
+import { ProposalCard } from "./ProposalCard";
+import { DisputePanel } from "./DisputePanel";
+import { DeadlinePanel } from "./DeadlinePanel";
+import { JobDescription } from "./JobDescription";
+import { JobTimeline } from "./JobTimeline";
+import { ReceiptDownloads } from "./ReceiptDownloads";
+import { LiveChangeBadge, LiveChangeIndicator } from "./LiveChangeIndicator";
 import { DeliverableService } from "@/services/deliverableService";
 import { DeliverableDownload } from "./DeliverableDownload";
-import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useTransactionPreview } from "@/contexts/TransactionPreviewContext";
 import { useNetworkVariable } from "../../networkConfig";
+import { DEFAULT_REVIEW_WINDOW_MS, SUI_COIN_TYPE } from "@/constants";
 import {
-  formatSUI,
+  formatCoinAmount,
   formatDeadline,
   formatDate,
   shortenAddress,
   isDeadlineApproaching,
   isDeadlinePassed,
+  isJobOverdue,
+  formatDateTime,
+  toBaseUnits,
 } from "@/utils";
 
 interface ClientJobDetailViewProps {
   jobId: string;
   onBack: () => void;
+  /** Open the edit form (OPEN jobs only) */
+  onEdit?: () => void;
 }
 
-export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps) {
+export function ClientJobDetailView({ jobId, onBack, onEdit }: ClientJobDetailViewProps) {
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
   const jobPackageId = useNetworkVariable("jobEscrowPackageId");
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { signAndExecute } = useTransactionPreview();
 
   const { job, isPending, error, refetch } = useJob(jobId);
+  const changes = useJobChanges(job);
+  const { metadata: coinMetadata } = useCoinMetadata(job?.coinType);
   const { profile: clientProfile, isPending: profileLoading } = useCurrentProfile();
 
   // State for actions
   const [assigningFreelancer, setAssigningFreelancer] = useState(false);
   const [selectedFreelancer, setSelectedFreelancer] = useState<string | null>(null);
+  const [rejectingApplicant, setRejectingApplicant] = useState<string | null>(null);
   const [showAssignDialog, setShowAssignDialog] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
   const [actionSuccess, setActionSuccess] = useState<string | null>(null);
   const [jobCapId, setJobCapId] = useState<string | null>(null);
   const [loadingJobCap, setLoadingJobCap] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
+  const [isClaimingCompletion, setIsClaimingCompletion] = useState(false);
   const [isRequestingRevision, setIsRequestingRevision] = useState(false);
   const [revisionReason, setRevisionReason] = useState("");
   const [showRevisionDialog, setShowRevisionDialog] = useState(false);
+  const [revisionMilestoneId, setRevisionMilestoneId] = useState(0);
+  const [selectedMilestoneIds, setSelectedMilestoneIds] = useState<number[]>([]);
+  const [showAddMilestoneDialog, setShowAddMilestoneDialog] = useState(false);
+  const [newMilestoneDescription, setNewMilestoneDescription] = useState("");
+  const [newMilestoneAmount, setNewMilestoneAmount] = useState("");
+  const [isAddingMilestone, setIsAddingMilestone] = useState(false);
 
   const jobService = useMemo(
     () => createJobService(suiClient, jobPackageId),
@@ -124,6 +161,55 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
     return job.client === currentAccount.address;
   }, [job, currentAccount]);
 
+  // Escrow balance vs. unapproved milestones (approvals are blocked on shortfall)
+  const escrowCoverage = useMemo(
+    () => (job ? jobService.getEscrowCoverage(job) : null),
+    [job, jobService]
+  );
+  const isEscrowShort = escrowCoverage !== null && !escrowCoverage.isCovered;
+
+  // New milestone amount in base units and the escrow deposit it requires
+  const newMilestoneBaseAmount = useMemo(() => {
+    const num = parseFloat(newMilestoneAmount);
+    if (isNaN(num) || num <= 0) return null;
+    return toBaseUnits(num, coinMetadata.decimals);
+  }, [newMilestoneAmount, coinMetadata.decimals]);
+
+  const newMilestonePayment = useMemo(
+    () =>
+      job && newMilestoneBaseAmount !== null
+        ? jobService.getMilestonePaymentRequired(job, newMilestoneBaseAmount)
+        : 0,
+    [job, newMilestoneBaseAmount, jobService]
+  );
+
+  // Milestones awaiting review and the subset selected for batch approval
+  const submittedMilestones = useMemo(
+    () => job?.milestones.filter((m) => m.completed && !m.approved) ?? [],
+    [job]
+  );
+  const selectedMilestones = useMemo(
+    () => submittedMilestones.filter((m) => selectedMilestoneIds.includes(m.id)),
+    [submittedMilestones, selectedMilestoneIds]
+  );
+  const selectedPayout = selectedMilestones.reduce((sum, m) => sum + m.amount, 0);
+
+  // Select every submitted milestone by default whenever the set changes
+  useEffect(() => {
+    setSelectedMilestoneIds(submittedMilestones.map((m) => m.id));
+  }, [submittedMilestones]);
+
+  const toggleMilestoneSelection = (milestoneId: number) => {
+    setSelectedMilestoneIds((prev) =>
+      prev.includes(milestoneId) ? prev.filter((id) => id !== milestoneId) : [...prev, milestoneId]
+    );
+  };
+
+  const canAddMilestone =
+    job?.state === JobState.OPEN ||
+    job?.state === JobState.ASSIGNED ||
+    job?.state === JobState.IN_PROGRESS;
+
   // Handle freelancer assignment
   const handleAssignFreelancer = async (freelancerAddress: string) => {
     if (!job || !currentAccount || !clientProfile || !jobCapId) {
@@ -140,7 +226,8 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
       const tx = jobService.assignFreelancerTransaction(
         jobId,
         jobCapId,
-        freelancerAddress
+        freelancerAddress,
+        job.coinType
       );
 
       signAndExecute(
@@ -159,18 +246,64 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
           },
           onError: (error) => {
             console.error("Error assigning freelancer:", error);
-            setActionError(error.message || "Failed to assign freelancer");
+            setActionError(formatTransactionError(error, "Failed to assign freelancer"));
             setAssigningFreelancer(false);
           },
         }
       );
     } catch (error: any) {
       console.error("Error assigning freelancer:", error);
-      setActionError(error.message || "Failed to assign freelancer");
+      setActionError(formatTransactionError(error, "Failed to assign freelancer"));
       setAssigningFreelancer(false);
     }
   };
 
+  // Handle applicant rejection
+  const handleRejectApplicant = async (freelancerAddress: string) => {
+    if (!job || !currentAccount || !jobCapId) {
+      setActionError("Missing required data for rejection");
+      return;
+    }
+
+    setRejectingApplicant(freelancerAddress);
+    setActionError(null);
+    setActionSuccess(null);
+
+    try {
+      const tx = jobService.rejectApplicantTransaction(
+        jobId,
+        jobCapId,
+        freelancerAddress,
+        job.coinType
+      );
+
+      signAndExecute(
+        { transaction: tx },
+        {
+          onSuccess: async ({ digest }) => {
+            await suiClient.waitForTransaction({ digest });
+            setRejectingApplicant(null);
+            setActionSuccess("Applicant rejected");
+            refetch(); // Refresh job data
+
+            setTimeout(() => {
+              setActionSuccess(null);
+            }, 3000);
+          },
+          onError: (error) => {
+            console.error("Error rejecting applicant:", error);
+            setActionError(formatTransactionError(error, "Failed to reject applicant"));
+            setRejectingApplicant(null);
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error("Error rejecting applicant:", error);
+      setActionError(formatTransactionError(error, "Failed to reject applicant"));
+      setRejectingApplicant(null);
+    }
+  };
+
   // Handle cancel job
   const handleCancelJob = async () => {
     if (!job || !currentAccount || !clientProfile || !jobCapId) {
@@ -187,9 +320,10 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
             jobId,
             jobCapId,
             clientProfile.objectId,
-            "0x0" // Placeholder for freelancer profile
+            "0x0", // Placeholder for freelancer profile
+            job.coinType
           )
-        : jobService.cancelJobTransaction(jobId, jobCapId, clientProfile.objectId);
+        : jobService.cancelJobTransaction(jobId, jobCapId, clientProfile.objectId, job.coinType);
 
       signAndExecute(
         { transaction: tx },
@@ -205,32 +339,37 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
           },
           onError: (error) => {
             console.error("Error cancelling job:", error);
-            setActionError(error.message || "Failed to cancel job");
+            setActionError(formatTransactionError(error, "Failed to cancel job"));
           },
         }
       );
     } catch (error: any) {
       console.error("Error cancelling job:", error);
-      setActionError(error.message || "Failed to cancel job");
+      setActionError(formatTransactionError(error, "Failed to cancel job"));
     }
   };
 
-  // Handle approve milestone with encrypted deliverable access grant
-  const handleApproveMilestone = async (milestoneId: number = 0) => {
+  // Handle approving the selected milestones in one transaction, with encrypted deliverable access grants
+  const handleApproveMilestones = async () => {
     if (!job || !currentAccount || !clientProfile || !jobCapId) {
       setActionError("Missing required data for milestone approval");
       return;
     }
 
-    // Get milestone data to find the deliverable escrow and whitelist IDs
-    const milestone = job.milestones.find(m => m.id === milestoneId);
-    if (!milestone) {
-      setActionError("Milestone not found");
+    if (selectedMilestones.length === 0) {
+      setActionError("Select at least one milestone to approve");
       return;
     }
 
-    if (!milestone.deliverableEscrowId || !milestone.whitelistId) {
-      setActionError("Milestone missing deliverable escrow or whitelist information");
+    // Every approval needs the deliverable escrow and whitelist IDs
+    const missingEscrow = selectedMilestones.find((m) => !m.deliverableEscrowId || !m.whitelistId);
+    if (missingEscrow) {
+      setActionError(`Milestone ${missingEscrow.id + 1} missing deliverable escrow or whitelist information`);
+      return;
+    }
+
+    if (isEscrowShort) {
+      setActionError("Escrow does not cover the unapproved milestones. Add funds before approving.");
       return;
     }
 
@@ -239,14 +378,16 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
     setActionSuccess(null);
 
     try {
-      // Use the updated approve milestone transaction with encrypted deliverable support
-      const tx = jobService.approveMilestoneTransaction(
+      const tx = jobService.approveMilestonesTransaction(
         jobId,
         jobCapId,
-        milestoneId,
-        milestone.deliverableEscrowId,
-        milestone.whitelistId,
-        clientProfile.objectId
+        selectedMilestones.map((m) => ({
+          milestoneId: m.id,
+          deliverableEscrowId: m.deliverableEscrowId!,
+          whitelistId: m.whitelistId!,
+        })),
+        clientProfile.objectId,
+        job.coinType
       );
 
       signAndExecute(
@@ -255,7 +396,12 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
           onSuccess: async ({ digest }) => {
             await suiClient.waitForTransaction({ digest });
             setIsApproving(false);
-            setActionSuccess("Milestone approved! Payment has been released and you can now download the encrypted deliverable.");
+            setActionSuccess(
+              selectedMilestones.length > 1
+                ? `${selectedMilestones.length} milestones approved! ${formatCoinAmount(selectedPayout, coinMetadata)} has been released and you can now download the encrypted deliverables and payment receipts.`
+                : "Milestone approved! Payment has been released and you can now download the encrypted deliverable and payment receipt."
+            );
+            setSelectedMilestoneIds([]);
             refetch(); // Refresh job data - state may change to COMPLETED
 
             setTimeout(() => {
@@ -263,19 +409,60 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
             }, 8000);
           },
           onError: (error) => {
-            console.error("Error approving milestone:", error);
-            setActionError(error.message || "Failed to approve milestone");
+            console.error("Error approving milestones:", error);
+            setActionError(formatTransactionError(error, "Failed to approve milestones"));
             setIsApproving(false);
           },
         }
       );
     } catch (error: any) {
-      console.error("Error approving milestone:", error);
-      setActionError(error.message || "Failed to approve milestone");
+      console.error("Error approving milestones:", error);
+      setActionError(formatTransactionError(error, "Failed to approve milestones"));
       setIsApproving(false);
     }
   };
 
+  // Handle claiming job completion after the freelancer auto-claimed the final milestone
+  const handleClaimClientCompletion = async () => {
+    if (!job || !currentAccount || !clientProfile) {
+      setActionError("Missing required data to claim completion");
+      return;
+    }
+
+    setIsClaimingCompletion(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    try {
+      const tx = jobService.claimClientCompletionTransaction(jobId, clientProfile.objectId, job.coinType);
+
+      signAndExecute(
+        { transaction: tx },
+        {
+          onSuccess: async ({ digest }) => {
+            await suiClient.waitForTransaction({ digest });
+            setIsClaimingCompletion(false);
+            setActionSuccess("Job completion recorded in your profile.");
+            refetch();
+
+            setTimeout(() => {
+              setActionSuccess(null);
+            }, 5000);
+          },
+          onError: (error) => {
+            console.error("Error claiming completion:", error);
+            setActionError(formatTransactionError(error, "Failed to claim completion"));
+            setIsClaimingCompletion(false);
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error("Error claiming completion:", error);
+      setActionError(formatTransactionError(error, "Failed to claim completion"));
+      setIsClaimingCompletion(false);
+    }
+  };
+
   // Handle request revision
   const handleRequestRevision = async (milestoneId: number = 0) => {
     if (!job || !currentAccount || !jobCapId) {
@@ -297,7 +484,8 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
         jobId,
         jobCapId,
         milestoneId,
-        revisionReason.trim()
+        revisionReason.trim(),
+        job.coinType
       );
 
       signAndExecute(
@@ -317,18 +505,86 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
           },
           onError: (error) => {
             console.error("Error requesting revision:", error);
-            setActionError(error.message || "Failed to request revision");
+            setActionError(formatTransactionError(error, "Failed to request revision"));
             setIsRequestingRevision(false);
           },
         }
       );
     } catch (error: any) {
       console.error("Error requesting revision:", error);
-      setActionError(error.message || "Failed to request revision");
+      setActionError(formatTransactionError(error, "Failed to request revision"));
       setIsRequestingRevision(false);
     }
   };
 
+  // Handle adding a milestone, depositing any amount the escrow is missing
+  const handleAddMilestone = async () => {
+    if (!job || !currentAccount || !jobCapId) {
+      setActionError("Missing required data to add milestone");
+      return;
+    }
+
+    if (!newMilestoneDescription.trim() || newMilestoneBaseAmount === null) {
+      setActionError("Please provide a description and a valid amount");
+      return;
+    }
+
+    setIsAddingMilestone(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    try {
+      // Non-SUI payments are funded from the client's coins of that type
+      const coinObjectIds =
+        newMilestonePayment > 0 && job.coinType !== SUI_COIN_TYPE
+          ? await jobService.selectCoinsForAmount(currentAccount.address, job.coinType, newMilestonePayment)
+          : [];
+
+      const tx = jobService.addMilestoneTransaction(
+        jobId,
+        jobCapId,
+        newMilestoneDescription.trim(),
+        newMilestoneBaseAmount,
+        undefined,
+        job.coinType,
+        newMilestonePayment,
+        coinObjectIds
+      );
+
+      signAndExecute(
+        { transaction: tx },
+        {
+          onSuccess: async ({ digest }) => {
+            await suiClient.waitForTransaction({ digest });
+            setIsAddingMilestone(false);
+            setActionSuccess(
+              newMilestonePayment > 0
+                ? `Milestone added and ${formatCoinAmount(newMilestonePayment, coinMetadata)} deposited into escrow.`
+                : "Milestone added."
+            );
+            setShowAddMilestoneDialog(false);
+            setNewMilestoneDescription("");
+            setNewMilestoneAmount("");
+            refetch();
+
+            setTimeout(() => {
+              setActionSuccess(null);
+            }, 5000);
+          },
+          onError: (error) => {
+            console.error("Error adding milestone:", error);
+            setActionError(formatTransactionError(error, "Failed to add milestone"));
+            setIsAddingMilestone(false);
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error("Error adding milestone:", error);
+      setActionError(formatTransactionError(error, "Failed to add milestone"));
+      setIsAddingMilestone(false);
+    }
+  };
+
   // Get state badge - colors match header counters
   const getStateBadge = (state: JobState) => {
     switch (state) {
@@ -424,12 +680,18 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
                 <Badge variant={badge.variant}>
                   {badge.label}
                 </Badge>
+                {changes.has("state") && <LiveChangeBadge />}
                 {isDeadlineApproaching(job.deadline) && !isDeadlinePassed(job.deadline) && (
                   <Badge variant="warning">Urgent</Badge>
                 )}
-                {isDeadlinePassed(job.deadline) && (
+                {isJobOverdue(job.deadline, job.state) ? (
+                  <Badge variant="destructive">Overdue</Badge>
+                ) : isDeadlinePassed(job.deadline) && (
                   <Badge variant="destructive">Deadline Passed</Badge>
                 )}
+                {job.pendingExtension && (
+                  <Badge variant="info">Extension Requested</Badge>
+                )}
               </CardDescription>
             </div>
           </div>
@@ -459,7 +721,7 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
               <DollarSign className="h-5 w-5 text-green-600" />
               <div>
                 <p className="text-sm text-muted-foreground">Budget</p>
-                <p className="text-xl font-bold">{formatSUI(job.budget)}</p>
+                <p className="text-xl font-bold">{formatCoinAmount(job.budget, coinMetadata)}</p>
               </div>
             </div>
           </CardContent>
@@ -478,30 +740,76 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
           </CardContent>
         </Card>
 
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-3">
-              <Users className="h-5 w-5 text-purple-600" />
-              <div>
-                <p className="text-sm text-muted-foreground">Applicants</p>
-                <p className="text-xl font-bold">{job.applicants.length}</p>
+        <LiveChangeIndicator changed={changes.has("applicants")}>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-3">
+                <Users className="h-5 w-5 text-purple-600" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Applicants</p>
+                  <p className="text-xl font-bold">{job.applicants.length}</p>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        </LiveChangeIndicator>
+
+        <LiveChangeIndicator changed={changes.has("milestones")}>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-3">
+                <Target className="h-5 w-5 text-orange-600" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Milestones</p>
+                  <p className="text-xl font-bold">{job.milestoneCount}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </LiveChangeIndicator>
+      </div>
 
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-3">
-              <Target className="h-5 w-5 text-orange-600" />
+      {/* Escrow coverage: balance vs. unapproved milestones */}
+      {escrowCoverage && job.milestones.length > 0 &&
+        job.state !== JobState.COMPLETED && job.state !== JobState.CANCELLED && (
+        <Card className={isEscrowShort ? "border-red-500/50" : "border-green-500/50"}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5" />
+              Escrow coverage
+            </CardTitle>
+            <CardDescription>
+              Escrow balance compared to the milestones still to be paid
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Escrow balance</p>
+                <p className="text-lg font-semibold">{formatCoinAmount(escrowCoverage.escrowBalance, coinMetadata)}</p>
+              </div>
               <div>
-                <p className="text-sm text-muted-foreground">Milestones</p>
-                <p className="text-xl font-bold">{job.milestoneCount}</p>
+                <p className="text-sm text-muted-foreground">Unapproved milestones</p>
+                <p className="text-lg font-semibold">{formatCoinAmount(escrowCoverage.unapprovedTotal, coinMetadata)}</p>
               </div>
             </div>
+            {isEscrowShort ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Escrow is short by {formatCoinAmount(escrowCoverage.shortfall, coinMetadata)}. Approvals are
+                  blocked until the escrow covers every unapproved milestone.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <p className="text-xs text-green-500 flex items-center gap-1">
+                <CheckCircle className="h-3 w-3" />
+                All unapproved milestones are covered by escrow
+              </p>
+            )}
           </CardContent>
         </Card>
-      </div>
+      )}
 
       {/* Description */}
       <Card>
@@ -512,11 +820,7 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="prose prose-sm max-w-none">
-            <p className="whitespace-pre-wrap text-foreground">
-              {job.descriptionBlobId || "No description available"}
-            </p>
-          </div>
+          <JobDescription descriptionBlobId={job.descriptionBlobId} />
         </CardContent>
       </Card>
 
@@ -529,45 +833,51 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
             <CardTitle className="flex items-center gap-2">
               <Users className="h-5 w-5" />
               Applicants ({job.applicants.length})
+              {changes.has("applicants") && <LiveChangeBadge />}
             </CardTitle>
             <CardDescription>
-              Review and assign a freelancer to your job
+              Review proposals and assign a freelancer to your job
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-2">
-              {job.applicants.map((applicant, index) => (
-                <div
+            <div className="space-y-4">
+              {job.applicants.map((applicant) => (
+                <ProposalCard
                   key={applicant}
-                  className="flex items-center justify-between p-3 border rounded-lg hover:bg-accent"
-                >
-                  <div className="flex items-center gap-3">
-                    <div className="h-10 w-10 rounded-full bg-gradient-to-br from-purple-400 to-pink-600 flex items-center justify-center text-white font-bold">
-                      {index + 1}
-                    </div>
-                    <div>
-                      <p className="font-mono text-sm">{shortenAddress(applicant)}</p>
-                      <p className="text-xs text-muted-foreground">Freelancer</p>
-                    </div>
-                  </div>
-                  <div className="flex gap-2">
-                    <Button size="sm" variant="outline">
-                      View Profile
-                    </Button>
-                    <Button
-                      size="sm"
-                      onClick={() => {
-                        setSelectedFreelancer(applicant);
-                        setShowAssignDialog(true);
-                      }}
-                      className="bg-blue-600 hover:bg-blue-700"
-                      disabled={loadingJobCap || !jobCapId}
-                    >
-                      <UserCheck className="h-4 w-4 mr-1" />
-                      Assign
-                    </Button>
-                  </div>
-                </div>
+                  applicant={applicant}
+                  proposal={job.proposals?.find((p) => p.freelancer === applicant)}
+                  coinType={job.coinType}
+                  actions={
+                    <>
+                      <Button
+                        size="sm"
+                        onClick={() => {
+                          setSelectedFreelancer(applicant);
+                          setShowAssignDialog(true);
+                        }}
+                        className="bg-blue-600 hover:bg-blue-700"
+                        disabled={loadingJobCap || !jobCapId || rejectingApplicant !== null}
+                      >
+                        <UserCheck className="h-4 w-4 mr-1" />
+                        Assign
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRejectApplicant(applicant)}
+                        className="text-red-500 border-red-500/50"
+                        disabled={loadingJobCap || !jobCapId || rejectingApplicant !== null}
+                      >
+                        {rejectingApplicant === applicant ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <UserX className="h-4 w-4 mr-1" />
+                        )}
+                        Reject
+                      </Button>
+                    </>
+                  }
+                />
               ))}
             </div>
           </CardContent>
@@ -605,119 +915,107 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
         </Card>
       )}
 
-      {/* SUBMITTED/AWAITING_REVIEW: Show Preview and Review Options */}
-      {(job.state === JobState.SUBMITTED || job.state === JobState.AWAITING_REVIEW) && (() => {
-        // Get the submitted milestone data
-        console.log("🔍 Looking for submitted milestone in:", {
-          milestones: job.milestones,
-          milestoneCount: job.milestones.length,
-        });
-        const submittedMilestone = job.milestones.find(m => m.completed && !m.approved);
-        console.log("📋 Found submitted milestone:", submittedMilestone);
-
-        return (
-          <Card className="border-orange-500/50 bg-orange-500/10">
-            <CardHeader>
-              <CardTitle className="text-orange-400">Milestone submitted for review</CardTitle>
-              <CardDescription>Review the preview and approve to release payment and access the full deliverable</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {/* Milestone Details */}
-                {submittedMilestone && (
-                  <MilestoneCard milestone={submittedMilestone} variant="detailed" />
-                )}
-
-                {/* Preview URL Section */}
-                {submittedMilestone?.previewUrl && (
-                  <div className="p-4 bg-background/50 rounded-lg border border-blue-500/30">
-                    <p className="text-sm font-medium mb-2 flex items-center gap-2">
-                      <ExternalLink className="h-4 w-4 text-blue-400" />
-                      Preview URL
-                    </p>
-                    <a
-                      href={submittedMilestone.previewUrl}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-400 hover:text-blue-300 underline break-all"
-                    >
-                      {submittedMilestone.previewUrl}
-                    </a>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="mt-3"
-                      onClick={() => window.open(submittedMilestone.previewUrl, '_blank')}
-                    >
-                      <ExternalLink className="h-4 w-4 mr-2" />
-                      Open Preview in New Tab
-                    </Button>
-                  </div>
-                )}
-
-                {/* Encrypted Deliverable Info */}
-                {submittedMilestone?.originalFileName && (
-                  <div className="p-4 bg-background/50 rounded-lg border border-yellow-500/30">
-                    <p className="text-sm font-medium mb-2 flex items-center gap-2">
-                      <Lock className="h-4 w-4 text-yellow-400" />
-                      Encrypted Deliverable
-                    </p>
-                    <div className="flex items-center gap-3">
-                      <File className="h-8 w-8 text-yellow-400" />
-                      <div>
-                        <p className="text-sm font-medium">{submittedMilestone.originalFileName}</p>
-                        <p className="text-xs text-muted-foreground flex items-center gap-1">
-                          <Lock className="h-3 w-3" />
-                          Encrypted - Will unlock after approval
-                        </p>
+      {/* SUBMITTED/AWAITING_REVIEW: Show Previews and Review Options */}
+      {(job.state === JobState.SUBMITTED || job.state === JobState.AWAITING_REVIEW) && (
+        <Card className="border-orange-500/50 bg-orange-500/10">
+          <CardHeader>
+            <CardTitle className="text-orange-400 flex items-center gap-2">
+              {submittedMilestones.length === 1
+                ? "Milestone submitted for review"
+                : `${submittedMilestones.length} milestones submitted for review`}
+              {changes.has("milestones") && <LiveChangeBadge />}
+            </CardTitle>
+            <CardDescription>
+              Review the previews and approve to release payment and access the full deliverables.
+              Selected milestones are approved together in one transaction.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {submittedMilestones.map((milestone) => (
+                <div key={milestone.id} className="space-y-3 p-4 rounded-lg border bg-background/30">
+                  {/* Selection */}
+                  <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      checked={selectedMilestoneIds.includes(milestone.id)}
+                      onChange={() => toggleMilestoneSelection(milestone.id)}
+                      disabled={isApproving}
+                    />
+                    Approve milestone {milestone.id + 1}
+                  </label>
+
+                  {/* Milestone Details */}
+                  <MilestoneCard milestone={milestone} variant="detailed" coinType={job.coinType} />
+
+                  {/* Preview URL Section */}
+                  {milestone.previewUrl && (
+                    <div className="p-4 bg-background/50 rounded-lg border border-blue-500/30">
+                      <p className="text-sm font-medium mb-2 flex items-center gap-2">
+                        <ExternalLink className="h-4 w-4 text-blue-400" />
+                        Preview URL
+                      </p>
+                      <a
+                        href={milestone.previewUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-400 hover:text-blue-300 underline break-all"
+                      >
+                        {milestone.previewUrl}
+                      </a>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-3"
+                        onClick={() => window.open(milestone.previewUrl, '_blank')}
+                      >
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Open Preview in New Tab
+                      </Button>
+                    </div>
+                  )}
+
+                  {/* Encrypted Deliverable Info */}
+                  {milestone.originalFileName && (
+                    <div className="p-4 bg-background/50 rounded-lg border border-yellow-500/30">
+                      <p className="text-sm font-medium mb-2 flex items-center gap-2">
+                        <Lock className="h-4 w-4 text-yellow-400" />
+                        Encrypted Deliverable
+                      </p>
+                      <div className="flex items-center gap-3">
+                        <File className="h-8 w-8 text-yellow-400" />
+                        <div>
+                          <p className="text-sm font-medium">{milestone.originalFileName}</p>
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Lock className="h-3 w-3" />
+                            Encrypted - Will unlock after approval
+                          </p>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                )}
+                  )}
 
-                {/* Legacy deliverable display (for jobs without encrypted deliverables) */}
-                {!submittedMilestone?.originalFileName && job.deliverableBlobIds.length > 0 && (
-                  <div>
-                    <p className="text-sm font-medium mb-2">Deliverable:</p>
-                    <p className="text-xs font-mono text-muted-foreground">
-                      {job.deliverableBlobIds[0]}
+                  {milestone.submittedAt !== undefined && (
+                    <p className="text-xs text-muted-foreground">
+                      Please respond by {formatDateTime(milestone.submittedAt + (job.reviewWindowMs ?? DEFAULT_REVIEW_WINDOW_MS))}.
+                      After that the freelancer can claim the payment without your approval.
                     </p>
-                  </div>
-                )}
-
-                {/* Info Alert */}
-                <Alert className="bg-blue-500/10 border-blue-500/30">
-                  <AlertCircle className="h-4 w-4 text-blue-400" />
-                  <AlertDescription className="text-blue-200">
-                    Review the preview to verify the work quality. Approving will release payment and grant you access to download the full deliverable.
-                  </AlertDescription>
-                </Alert>
+                  )}
 
-                {/* Action Buttons */}
-                <div className="flex gap-2 flex-wrap">
-                  <Button
-                    className="bg-green-600 hover:bg-green-700"
-                    disabled={loadingJobCap || !jobCapId || isApproving}
-                    onClick={() => handleApproveMilestone(submittedMilestone?.id ?? 0)}
-                  >
-                    {isApproving ? (
-                      <>
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                        Approving & Granting Access...
-                      </>
-                    ) : (
-                      <>
-                        <CheckCircle className="h-4 w-4 mr-2" />
-                        Approve & Unlock Deliverable
-                      </>
-                    )}
-                  </Button>
                   <Button
                     variant="outline"
-                    disabled={loadingJobCap || !jobCapId || isApproving || isRequestingRevision}
-                    onClick={() => setShowRevisionDialog(true)}
+                    size="sm"
+                    disabled={
+                      loadingJobCap || !jobCapId || isApproving || isRequestingRevision || isDeadlinePassed(job.deadline)
+                    }
+                    title={isDeadlinePassed(job.deadline) ? "Revisions can't be requested after the deadline" : undefined}
+                    onClick={() => {
+                      setRevisionMilestoneId(milestone.id);
+                      setShowRevisionDialog(true);
+                    }}
                   >
-                    {isRequestingRevision ? (
+                    {isRequestingRevision && revisionMilestoneId === milestone.id ? (
                       <>
                         <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                         Requesting...
@@ -727,11 +1025,60 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
                     )}
                   </Button>
                 </div>
+              ))}
+
+              {/* Legacy deliverable display (for jobs without encrypted deliverables) */}
+              {submittedMilestones.every((m) => !m.originalFileName) && job.deliverableBlobIds.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium mb-2">Deliverable:</p>
+                  <p className="text-xs font-mono text-muted-foreground">
+                    {job.deliverableBlobIds[0]}
+                  </p>
+                </div>
+              )}
+
+              {/* Info Alert */}
+              <Alert className="bg-blue-500/10 border-blue-500/30">
+                <AlertCircle className="h-4 w-4 text-blue-400" />
+                <AlertDescription className="text-blue-200">
+                  Review the previews to verify the work quality. Approving will release payment and grant you access to download the full deliverables.
+                </AlertDescription>
+              </Alert>
+
+              {/* Total payout and approval */}
+              <div className="flex items-center justify-between gap-4 flex-wrap p-4 rounded-lg border">
+                <div>
+                  <p className="text-sm text-muted-foreground">
+                    Total payout ({selectedMilestones.length} of {submittedMilestones.length} selected)
+                  </p>
+                  <p className="text-xl font-bold">{formatCoinAmount(selectedPayout, coinMetadata)}</p>
+                </div>
+                <Button
+                  className="bg-green-600 hover:bg-green-700"
+                  disabled={
+                    loadingJobCap || !jobCapId || isApproving || isEscrowShort || selectedMilestones.length === 0
+                  }
+                  onClick={handleApproveMilestones}
+                >
+                  {isApproving ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Approving & Granting Access...
+                    </>
+                  ) : (
+                    <>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      {selectedMilestones.length > 1
+                        ? `Approve ${selectedMilestones.length} Milestones & Unlock Deliverables`
+                        : "Approve & Unlock Deliverable"}
+                    </>
+                  )}
+                </Button>
               </div>
-            </CardContent>
-          </Card>
-        );
-      })()}
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {/* COMPLETED: Show Download */}
       {job.state === JobState.COMPLETED && (
@@ -748,6 +1095,30 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
                   Job completed successfully. Payment has been released to the freelancer.
                 </AlertDescription>
               </Alert>
+
+              {/* Freelancer claimed after review window: client records completion */}
+              {job.pendingClientCompletion !== undefined && (
+                <div className="space-y-2 mt-4">
+                  <p className="text-sm text-muted-foreground">
+                    The freelancer claimed the final milestone after the review window expired.
+                    Claim the completion to update your profile stats.
+                  </p>
+                  <Button
+                    onClick={handleClaimClientCompletion}
+                    disabled={isClaimingCompletion || !clientProfile}
+                    className="bg-purple-600 hover:bg-purple-700"
+                  >
+                    {isClaimingCompletion ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Claiming...
+                      </>
+                    ) : (
+                      "Claim Completion"
+                    )}
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -759,7 +1130,7 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
             </h3>
             {job.milestones.map((milestone) => (
               <div key={milestone.id} className="space-y-3">
-                <MilestoneCard milestone={milestone} variant="compact" />
+                <MilestoneCard milestone={milestone} variant="compact" coinType={job.coinType} />
                 <DeliverableDownload milestone={milestone} />
               </div>
             ))}
@@ -775,10 +1146,48 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
         </div>
       )}
 
+      {/* PDF invoices / receipts of approved milestones */}
+      <ReceiptDownloads job={job} audience="client" />
+
+      {/* On-chain activity history */}
+      <JobTimeline jobId={job.objectId} coinType={job.coinType} />
+
+      {/* Deadline: reclaim, extension request/acceptance */}
+      <DeadlinePanel
+        job={job}
+        role="client"
+        profileId={clientProfile?.objectId}
+        jobCapId={jobCapId}
+        onUpdated={() => refetch()}
+      />
+
+      {/* Dispute: open action, evidence and resolution */}
+      <DisputePanel job={job} profileId={clientProfile?.objectId} onUpdated={() => refetch()} />
+
       {/* Action Buttons */}
       <Card>
         <CardContent className="pt-6">
           <div className="flex gap-2">
+            {job.state === JobState.OPEN && onEdit && (
+              <Button
+                variant="outline"
+                onClick={onEdit}
+                disabled={loadingJobCap || !jobCapId}
+              >
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit Job
+              </Button>
+            )}
+            {canAddMilestone && (
+              <Button
+                variant="outline"
+                onClick={() => setShowAddMilestoneDialog(true)}
+                disabled={loadingJobCap || !jobCapId}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Milestone
+              </Button>
+            )}
             {job.state === JobState.OPEN && (
               <Button
                 variant="destructive"
@@ -846,6 +1255,69 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
         </DialogContent>
       </Dialog>
 
+      {/* Add Milestone Dialog */}
+      <Dialog open={showAddMilestoneDialog} onOpenChange={setShowAddMilestoneDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Milestone</DialogTitle>
+            <DialogDescription>
+              Any amount not covered by the remaining budget is deposited into escrow with the milestone.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="milestone-description">Description</Label>
+              <Textarea
+                id="milestone-description"
+                placeholder="What will be delivered in this milestone?"
+                value={newMilestoneDescription}
+                onChange={(e) => setNewMilestoneDescription(e.target.value)}
+                rows={3}
+                className="resize-none"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="milestone-amount">Amount ({coinMetadata.symbol})</Label>
+              <Input
+                id="milestone-amount"
+                type="number"
+                min="0"
+                step="any"
+                value={newMilestoneAmount}
+                onChange={(e) => setNewMilestoneAmount(e.target.value)}
+              />
+            </div>
+            {newMilestoneBaseAmount !== null && (
+              <p className="text-sm text-muted-foreground">
+                {newMilestonePayment > 0
+                  ? `${formatCoinAmount(newMilestonePayment, coinMetadata)} will be deposited into escrow.`
+                  : "The remaining budget covers this milestone; no deposit needed."}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAddMilestoneDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleAddMilestone}
+              disabled={isAddingMilestone || !newMilestoneDescription.trim() || newMilestoneBaseAmount === null}
+            >
+              {isAddingMilestone ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Adding...
+                </>
+              ) : (
+                "Add Milestone"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Request Revision Dialog */}
       <Dialog open={showRevisionDialog} onOpenChange={setShowRevisionDialog}>
         <DialogContent>
@@ -876,7 +1348,7 @@ export function ClientJobDetailView({ jobId, onBack }: ClientJobDetailViewProps)
               Cancel
             </Button>
             <Button
-              onClick={() => handleRequestRevision(0)}
+              onClick={() => handleRequestRevision(revisionMilestoneId)}
               disabled={isRequestingRevision || !revisionReason.trim()}
               className="bg-yellow-600 hover:bg-yellow-700"
             >
@@ -4,39 +4,49 @@
  *
  * Features:
  * - 4-step wizard (Info → Budget → Milestones → Review)
- * - Walrus integration for job description upload (TEMPORARILY DISABLED - see TODO below)
+ * - Edit mode for OPEN jobs (Info → Budget & Deadline → Review): title, description,
+ *   skills, deadline and escrow top-up in a single transaction, applicants are kept
+ * - Category and required skills from the skill taxonomy (SkillPicker)
+ * - Markdown description with reference attachments, stored on Walrus as a quilt
+ *   (JobDescriptionService); edits re-upload the brief only when it changed
  * - Milestone management with validation
  * - Budget allocation and escrow setup
  * - Profile requirement check
  * - Real-time form validation
  * - Preview before submission
- *
- * ============================================================================
- * TODO: WALRUS INTEGRATION (Currently using dummy blob IDs for hackathon)
- * ============================================================================
- *
- * Current Status: Walrus upload is COMMENTED OUT to speed up development.
- * Using dummy blob IDs instead (format: dummy-job-{timestamp}-{random})
- *
- * To RESTORE Walrus Integration:
- * 1. Uncomment walrusService creation (line ~110)
- * 2. Uncomment state variables: uploadingDescription, uploadProgress, descriptionBlobId (lines ~95-97)
- * 3. Uncomment Walrus upload flow in handleSubmit (lines ~226-304)
- * 4. Remove generateDummyBlobId() call (line ~228)
- * 5. Uncomment progress UI (lines ~843-890)
- * 6. Update submit button text (lines ~917-923)
- *
- * All Walrus code is preserved below with TODO markers for easy restoration.
- * ============================================================================
  */
 
 "use client";
 
-import { useState, useMemo } from "react";
-import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
+import { useState, useMemo, useEffect, type ChangeEvent } from "react";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSuiClient,
+  useSuiClientContext,
+} from "@mysten/dapp-kit";
+import { Transaction } from "@mysten/sui/transactions";
+import { useTransactionPreview } from "@/contexts/TransactionPreviewContext";
 import { useNetworkVariable } from "../../networkConfig";
-import { useCurrentProfile, useSuiBalance } from "@/hooks";
-import { createJobService } from "@/services"; // createWalrusService removed temporarily
+import {
+  useCurrentProfile,
+  useCoinBalance,
+  useCoinMetadataMap,
+  useJob,
+  useJobDescription,
+} from "@/hooks";
+import {
+  createJobService,
+  createJobDescriptionService,
+  formatTransactionError,
+  getCategoryLabel,
+  getSkillLabel,
+  JobState,
+  MAX_JOB_ATTACHMENTS,
+  MAX_JOB_ATTACHMENTS_BYTES,
+  type JobAttachmentInput,
+} from "@/services";
+import { DeliverableService } from "@/services/deliverableService";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -56,78 +66,192 @@ import {
   Trash2,
   Eye,
   Upload,
+  Paperclip,
+  X,
 } from "lucide-react";
-import { formatSUI, suiToMist, isValidSuiAmount } from "@/utils";
+import { MarkdownContent } from "./MarkdownContent";
+import { SkillPicker } from "./SkillPicker";
+import { formatCoinAmount, toBaseUnits, isValidSuiAmount } from "@/utils";
+import { DEFAULT_REVIEW_WINDOW_MS, MAX_JOB_SKILLS, REVIEW_WINDOW_OPTIONS, SUI_COIN_TYPE } from "@/constants";
 
 type Step = 1 | 2 | 3 | 4;
 
+/** Maximum description length (Markdown source) */
+const MAX_DESCRIPTION_LENGTH = 20000;
+
 interface Milestone {
   description: string;
-  amount: number; // in MIST
-  amountSui?: string; // User input in SUI (preserves decimal format)
+  amount: number; // in base units of the escrow coin
+  amountInput?: string; // User input in whole coins (preserves decimal format)
 }
 
 interface JobFormData {
   title: string;
-  description: string;
-  budgetSui: string; // User input in SUI
+  description: string; // Markdown
+  attachments: JobAttachmentInput[]; // Reference files stored with the description
+  category: string; // Category ID from the skill taxonomy
+  skills: string[]; // Required skill IDs from the skill taxonomy
+  coinType: string; // Escrow coin type
+  budgetInput: string; // User input in whole coins
   deadline: string; // Date string (YYYY-MM-DD)
   deadlineTime: string; // Time string (HH:MM)
+  reviewWindowMs: number; // Client review window per submission
   milestones: Milestone[];
 }
 
 interface CreateJobViewProps {
   onBack?: () => void;
   onSuccess?: (jobId: string) => void;
+  /** Edit this OPEN job instead of posting a new one */
+  editJobId?: string;
+}
+
+/**
+ * Split a timestamp into date (YYYY-MM-DD) and time (HH:MM) input values in local time
+ */
+function toDeadlineInputs(timestamp: number): { deadline: string; deadlineTime: string } {
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return {
+    deadline: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    deadlineTime: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+  };
 }
 
-export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
+export function CreateJobView({ onBack, onSuccess, editJobId }: CreateJobViewProps) {
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
   const jobPackageId = useNetworkVariable("jobEscrowPackageId");
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { signAndExecute } = useTransactionPreview();
+  const { mutate: walletSignAndExecute } = useSignAndExecuteTransaction();
   const { profile, hasProfile, isPending: profileLoading } = useCurrentProfile();
-  const { balance: walletBalance, isPending: balanceLoading } = useSuiBalance();
+  const escrowCoinTypes = useNetworkVariable("escrowCoinTypes");
+  const coinMetadataMap = useCoinMetadataMap(escrowCoinTypes);
+
+  // Edit mode: load the job being edited
+  const isEditMode = !!editJobId;
+  const { job: editJob, isPending: editJobLoading } = useJob(editJobId);
+  const {
+    description: editDescription,
+    isPending: editDescriptionLoading,
+    error: editDescriptionError,
+  } = useJobDescription(editJob?.descriptionBlobId);
+  const [editJobCapId, setEditJobCapId] = useState<string | null>(null);
+  const [prefilled, setPrefilled] = useState(false);
 
   // Multi-step state
   const [currentStep, setCurrentStep] = useState<Step>(1);
   const [formData, setFormData] = useState<JobFormData>({
     title: "",
     description: "",
-    budgetSui: "",
+    attachments: [],
+    category: "",
+    skills: [],
+    coinType: SUI_COIN_TYPE,
+    budgetInput: "",
     deadline: "",
     deadlineTime: "23:59",
+    reviewWindowMs: DEFAULT_REVIEW_WINDOW_MS,
     milestones: [],
   });
 
+  const [descriptionTab, setDescriptionTab] = useState<"write" | "preview">("write");
+
   // Submission state
   const [isSubmitting, setIsSubmitting] = useState(false);
-  // TODO: RESTORE WALRUS - Uncomment these state variables when restoring Walrus integration
-  // const [uploadingDescription, setUploadingDescription] = useState(false);
-  // const [uploadProgress, setUploadProgress] = useState<string>("");
-  // const [descriptionBlobId, setDescriptionBlobId] = useState<string | null>(null);
+  const [uploadingDescription, setUploadingDescription] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<string>("");
+  const [descriptionBlobId, setDescriptionBlobId] = useState<string | null>(null);
   const [creatingJob, setCreatingJob] = useState(false);
   const [addingMilestones, setAddingMilestones] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
 
+  // Escrow currency
+  const coinMetadata = coinMetadataMap[formData.coinType];
+  const isSuiBudget = formData.coinType === SUI_COIN_TYPE;
+  const { balance: walletBalance, isPending: balanceLoading } = useCoinBalance(formData.coinType);
+
+  // Prefill the form once with the job being edited (after its description has loaded)
+  useEffect(() => {
+    if (!editJob || prefilled || editDescriptionLoading) return;
+    setFormData((prev) => ({
+      ...prev,
+      title: editJob.title,
+      description: editDescription?.markdown ?? "",
+      attachments: editDescription?.attachments ?? [],
+      category: editJob.category,
+      skills: editJob.skills,
+      coinType: editJob.coinType,
+      budgetInput: "", // Top-up amount in edit mode
+      ...toDeadlineInputs(editJob.deadline),
+      reviewWindowMs: editJob.reviewWindowMs ?? DEFAULT_REVIEW_WINDOW_MS,
+    }));
+    setPrefilled(true);
+  }, [editJob, prefilled, editDescription, editDescriptionLoading]);
+
+  // An uploaded brief no longer matches once the description or attachments change
+  useEffect(() => {
+    setDescriptionBlobId(null);
+  }, [formData.description, formData.attachments]);
+
+  // Re-derive milestone base-unit amounts when the currency (decimals) changes
+  useEffect(() => {
+    setFormData((prev) => ({
+      ...prev,
+      milestones: prev.milestones.map((m) => ({
+        ...m,
+        amount: toBaseUnits(parseFloat(m.amountInput ?? "") || 0, coinMetadata.decimals),
+      })),
+    }));
+  }, [coinMetadata.decimals]);
+
   // Services
   const jobService = useMemo(
     () => createJobService(suiClient, jobPackageId),
     [suiClient, jobPackageId]
   );
 
-  // TODO: RESTORE WALRUS - Uncomment walrusService when restoring Walrus integration
-  // const walrusService = useMemo(
-  //   () => createWalrusService({ network: "testnet", epochs: 10 }),
-  //   []
-  // );
+  // Fetch JobCap for the job being edited
+  useEffect(() => {
+    async function fetchJobCap() {
+      if (!currentAccount || !editJobId) return;
+      try {
+        const caps = await jobService.getJobCapsByOwner(currentAccount.address);
+        const cap = caps.find((c) => c.jobId === editJobId);
+        setEditJobCapId(cap ? cap.objectId : null);
+      } catch (error) {
+        console.error("Error fetching JobCap:", error);
+      }
+    }
+
+    fetchJobCap();
+  }, [currentAccount, editJobId, jobService]);
+
+  // Only create on client-side (Walrus SDK loads WASM)
+  const jobDescriptionService = useMemo(() => {
+    if (typeof window === "undefined") {
+      return null;
+    }
+    return createJobDescriptionService({ network: network === "mainnet" ? "mainnet" : "testnet" });
+  }, [network]);
+
+  // Combined size of the attached reference files
+  const attachmentsBytes = useMemo(
+    () => formData.attachments.reduce((sum, file) => sum + file.bytes.length, 0),
+    [formData.attachments]
+  );
+
+  // Calculate total budget in base units of the escrow coin
+  // (in edit mode: the additional escrow deposit)
+  const budgetAmount = useMemo(() => {
+    if (!formData.budgetInput || !isValidSuiAmount(formData.budgetInput)) return 0;
+    return toBaseUnits(parseFloat(formData.budgetInput), coinMetadata.decimals);
+  }, [formData.budgetInput, coinMetadata.decimals]);
 
-  // Calculate total budget in MIST
-  const budgetMist = useMemo(() => {
-    if (!formData.budgetSui || !isValidSuiAmount(formData.budgetSui)) return 0;
-    return suiToMist(parseFloat(formData.budgetSui));
-  }, [formData.budgetSui]);
+  // Budget shown on the review step (existing budget plus top-up when editing)
+  const totalBudget = (editJob && isEditMode ? editJob.budget : 0) + budgetAmount;
 
   // Calculate total milestone amount
   const totalMilestoneAmount = useMemo(() => {
@@ -136,22 +260,26 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
 
   // Calculate remaining budget
   const remainingBudget = useMemo(() => {
-    return budgetMist - totalMilestoneAmount;
-  }, [budgetMist, totalMilestoneAmount]);
+    return budgetAmount - totalMilestoneAmount;
+  }, [budgetAmount, totalMilestoneAmount]);
 
   // Validation for each step
   const isStep1Valid = useMemo(() => {
     return formData.title.trim().length > 0 && formData.description.trim().length > 0;
   }, [formData.title, formData.description]);
 
-  // Check if budget exceeds wallet balance
+  // Check if budget exceeds wallet balance (SUI budgets must leave some for gas)
   const budgetExceedsBalance = useMemo(() => {
-    if (balanceLoading || !budgetMist) return false;
-    return budgetMist >= Number(walletBalance);
-  }, [budgetMist, walletBalance, balanceLoading]);
+    if (balanceLoading || !budgetAmount) return false;
+    return isSuiBudget
+      ? budgetAmount >= Number(walletBalance)
+      : budgetAmount > Number(walletBalance);
+  }, [budgetAmount, walletBalance, balanceLoading, isSuiBudget]);
 
   const isStep2Valid = useMemo(() => {
-    if (!formData.budgetSui || !isValidSuiAmount(formData.budgetSui)) return false;
+    // Top-up is optional when editing
+    const budgetRequired = !isEditMode || formData.budgetInput.length > 0;
+    if (budgetRequired && (!formData.budgetInput || !isValidSuiAmount(formData.budgetInput))) return false;
     if (!formData.deadline) return false;
 
     // Check deadline is in the future
@@ -162,7 +290,52 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
     if (budgetExceedsBalance) return false;
 
     return true;
-  }, [formData.budgetSui, formData.deadline, formData.deadlineTime, budgetExceedsBalance]);
+  }, [isEditMode, formData.budgetInput, formData.deadline, formData.deadlineTime, budgetExceedsBalance]);
+
+  // Edit mode: the description or attachments differ from the stored brief (needs a re-upload)
+  const descriptionChanged = useMemo(() => {
+    if (!editJob) return false;
+    const original = editDescription?.attachments ?? [];
+    return (
+      formData.description !== (editDescription?.markdown ?? "") ||
+      formData.attachments.length !== original.length ||
+      formData.attachments.some((file, i) => file.bytes !== original[i].bytes)
+    );
+  }, [editJob, editDescription, formData.description, formData.attachments]);
+
+  // Changes to submit in edit mode
+  // (descriptionBlobId is replaced with the re-uploaded brief when the description changed)
+  const jobUpdate = useMemo(() => {
+    if (!editJob) return null;
+    const deadlineTimestamp = new Date(`${formData.deadline}T${formData.deadlineTime}`).getTime();
+    const detailsChanged = formData.title !== editJob.title || descriptionChanged;
+    const skillsChanged =
+      formData.category !== editJob.category || formData.skills.join(",") !== editJob.skills.join(",");
+    return {
+      title: detailsChanged ? formData.title : undefined,
+      descriptionBlobId: detailsChanged ? editJob.descriptionBlobId : undefined,
+      category: skillsChanged ? formData.category : undefined,
+      skills: skillsChanged ? formData.skills : undefined,
+      deadline: deadlineTimestamp !== editJob.deadline ? deadlineTimestamp : undefined,
+      topUpAmount: budgetAmount > 0 ? budgetAmount : undefined,
+    };
+  }, [
+    editJob,
+    formData.title,
+    descriptionChanged,
+    formData.category,
+    formData.skills,
+    formData.deadline,
+    formData.deadlineTime,
+    budgetAmount,
+  ]);
+
+  const hasJobChanges =
+    !!jobUpdate &&
+    (jobUpdate.title !== undefined ||
+      jobUpdate.skills !== undefined ||
+      jobUpdate.deadline !== undefined ||
+      jobUpdate.topUpAmount !== undefined);
 
   const isStep3Valid = useMemo(() => {
     // At least one milestone is required
@@ -174,8 +347,8 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
     );
 
     // Total must not exceed budget
-    return allValid && totalMilestoneAmount <= budgetMist;
-  }, [formData.milestones, totalMilestoneAmount, budgetMist]);
+    return allValid && totalMilestoneAmount <= budgetAmount;
+  }, [formData.milestones, totalMilestoneAmount, budgetAmount]);
 
   const canProceed = useMemo(() => {
     switch (currentStep) {
@@ -186,24 +359,29 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
       case 3:
         return isStep3Valid;
       case 4:
-        return isStep1Valid && isStep2Valid && isStep3Valid;
+        return isEditMode
+          ? isStep1Valid && isStep2Valid && hasJobChanges
+          : isStep1Valid && isStep2Valid && isStep3Valid;
       default:
         return false;
     }
-  }, [currentStep, isStep1Valid, isStep2Valid, isStep3Valid]);
+  }, [currentStep, isEditMode, isStep1Valid, isStep2Valid, isStep3Valid, hasJobChanges]);
+
+  // Milestones are managed on the job page, so edit mode skips step 3
+  const steps: Step[] = isEditMode ? [1, 2, 4] : [1, 2, 3, 4];
 
   // ======== Event Handlers ========
 
   const handleNext = () => {
     if (canProceed && currentStep < 4) {
-      setCurrentStep((prev) => (prev + 1) as Step);
+      setCurrentStep(steps[steps.indexOf(currentStep) + 1]);
       setError(null);
     }
   };
 
   const handleBack = () => {
     if (currentStep > 1) {
-      setCurrentStep((prev) => (prev - 1) as Step);
+      setCurrentStep(steps[steps.indexOf(currentStep) - 1]);
       setError(null);
     } else if (onBack) {
       onBack();
@@ -233,108 +411,164 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
     }));
   };
 
+  const handleAddAttachments = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ""; // Allow selecting the same file again after removing it
+    if (files.length === 0) return;
+
+    if (formData.attachments.length + files.length > MAX_JOB_ATTACHMENTS) {
+      setError(`You can attach at most ${MAX_JOB_ATTACHMENTS} files`);
+      return;
+    }
+    const addedBytes = files.reduce((sum, file) => sum + file.size, 0);
+    if (attachmentsBytes + addedBytes > MAX_JOB_ATTACHMENTS_BYTES) {
+      setError(`Attachments can be at most ${DeliverableService.formatFileSize(MAX_JOB_ATTACHMENTS_BYTES)} in total`);
+      return;
+    }
+
+    const attachments = await Promise.all(
+      files.map(async (file) => ({
+        name: file.name,
+        contentType: file.type || "application/octet-stream",
+        bytes: new Uint8Array(await file.arrayBuffer()),
+      }))
+    );
+    setError(null);
+    setFormData((prev) => ({ ...prev, attachments: [...prev.attachments, ...attachments] }));
+  };
+
+  const handleRemoveAttachment = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      attachments: prev.attachments.filter((_, i) => i !== index),
+    }));
+  };
+
+  // Sign and wait for confirmation (used by the Walrus upload flow)
+  const executeTransaction = (params: { transaction: Transaction }): Promise<{ digest: string }> =>
+    new Promise((resolve, reject) => {
+      walletSignAndExecute(
+        { transaction: params.transaction },
+        {
+          onSuccess: async ({ digest }) => {
+            try {
+              await suiClient.waitForTransaction({ digest });
+              resolve({ digest });
+            } catch (err) {
+              reject(err);
+            }
+          },
+          onError: reject,
+        }
+      );
+    });
+
+  // Upload the description and attachments to Walrus (register and certify are signed by the wallet)
+  const uploadDescription = async (ownerAddress: string): Promise<string> => {
+    if (!jobDescriptionService) {
+      throw new Error("Walrus is not available");
+    }
+
+    setUploadingDescription(true);
+    try {
+      const blobId = await jobDescriptionService.uploadDescription(
+        formData.description,
+        formData.attachments,
+        ownerAddress,
+        executeTransaction,
+        (stage) => setUploadProgress(stage)
+      );
+      setDescriptionBlobId(blobId);
+      return blobId;
+    } finally {
+      setUploadingDescription(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!currentAccount || !editJob || !editJobCapId || !jobUpdate) {
+      setError("Missing required data for job update");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      // Step 1: Re-upload the brief if the description or attachments changed
+      const update = descriptionChanged
+        ? {
+            ...jobUpdate,
+            descriptionBlobId: descriptionBlobId ?? (await uploadDescription(currentAccount.address)),
+          }
+        : jobUpdate;
+
+      // Step 2: Update job
+      setCreatingJob(true);
+
+      // Non-SUI top-ups are funded from the client's coins of that type
+      const coinObjectIds =
+        update.topUpAmount && !isSuiBudget
+          ? await jobService.selectCoinsForAmount(currentAccount.address, formData.coinType, update.topUpAmount)
+          : [];
+
+      const tx = jobService.updateJobTransaction(
+        editJob.objectId,
+        editJobCapId,
+        update,
+        formData.coinType,
+        coinObjectIds
+      );
+
+      signAndExecute(
+        { transaction: tx },
+        {
+          onSuccess: async ({ digest }) => {
+            await suiClient.waitForTransaction({ digest });
+            setCreatingJob(false);
+            setSuccess(true);
+            setIsSubmitting(false);
+
+            // Redirect after 2 seconds
+            setTimeout(() => {
+              if (onSuccess) {
+                onSuccess(editJob.objectId);
+              }
+            }, 2000);
+          },
+          onError: (error) => {
+            console.error("Error updating job:", error);
+            setError(formatTransactionError(error, "Failed to update job"));
+            setIsSubmitting(false);
+            setCreatingJob(false);
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error("Error updating job:", error);
+      setError(formatTransactionError(error, "Failed to update job"));
+      setIsSubmitting(false);
+      setCreatingJob(false);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!currentAccount || !hasProfile || !profile) {
       setError("You need a profile to post jobs");
       return;
     }
 
+    if (isEditMode) {
+      await handleUpdate();
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
     try {
-      // TODO: RESTORE WALRUS - Step 1: Upload description to Walrus
-      // Currently storing description text directly (not using Walrus)
-      const descriptionText = formData.description;
-      console.log('📝 Using description text directly (length:', descriptionText.length, 'chars)');
-
-      /* ============================================================================
-       * TODO: RESTORE WALRUS UPLOAD - Uncomment this entire section
-       * ============================================================================
-       *
-       * // Step 1: Upload description to Walrus using writeFilesFlow
-       * setUploadingDescription(true);
-       *
-       * // Create upload flow for browser environment (avoids popup blocking)
-       * const flow = walrusService.uploadWithFlow(
-       *   [
-       *     {
-       *       contents: formData.description,
-       *       identifier: `job-${Date.now()}.txt`,
-       *       tags: {
-       *         "content-type": "text/plain",
-       *         "job-title": formData.title,
-       *         "created-at": new Date().toISOString(),
-       *       },
-       *     },
-       *   ],
-       *   {
-       *     epochs: 10, // ~30 days storage on testnet
-       *     deletable: false, // Permanent job description
-       *   }
-       * );
-       *
-       * // Encode files
-       * setUploadProgress("Encoding description...");
-       * await flow.encode();
-       *
-       * // Register on blockchain
-       * setUploadProgress("Registering on blockchain...");
-       * const registerTx = flow.register({
-       *   owner: currentAccount.address,
-       *   epochs: 10,
-       *   deletable: false,
-       * });
-       *
-       * // Execute register transaction
-       * await new Promise<void>((resolve, reject) => {
-       *   signAndExecute(
-       *     { transaction: registerTx },
-       *     {
-       *       onSuccess: async ({ digest }) => {
-       *         await suiClient.waitForTransaction({ digest });
-       *
-       *         // Upload to storage nodes
-       *         setUploadProgress("Uploading to Walrus storage...");
-       *         await flow.upload({ digest });
-       *
-       *         // Certify on blockchain
-       *         setUploadProgress("Certifying upload...");
-       *         const certifyTx = flow.certify();
-       *
-       *         signAndExecute(
-       *           { transaction: certifyTx },
-       *           {
-       *             onSuccess: async ({ digest: certifyDigest }) => {
-       *               await suiClient.waitForTransaction({ digest: certifyDigest });
-       *               setUploadProgress("Upload complete!");
-       *               resolve();
-       *             },
-       *             onError: (error) => {
-       *               console.error("Certify transaction failed:", error);
-       *               reject(error);
-       *             },
-       *           }
-       *         );
-       *       },
-       *       onError: (error) => {
-       *         console.error("Register transaction failed:", error);
-       *         reject(error);
-       *       },
-       *     }
-       *   );
-       * });
-       *
-       * // Get blob ID from completed upload
-       * const uploadedFiles = await flow.listFiles();
-       * const blobId = uploadedFiles[0].blobId;
-       * setDescriptionBlobId(blobId);
-       * setUploadingDescription(false);
-       *
-       * ============================================================================
-       * END OF WALRUS UPLOAD CODE
-       * ============================================================================
-       */
+      // Step 1: Upload description and attachments to Walrus (reused when retrying after a failed step)
+      const blobId = descriptionBlobId ?? (await uploadDescription(currentAccount.address));
 
       // Step 2: Calculate deadline timestamp
       const deadlineDate = new Date(`${formData.deadline}T${formData.deadlineTime}`);
@@ -342,12 +576,23 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
 
       // Step 3: Create job transaction
       setCreatingJob(true);
+
+      // Non-SUI budgets are funded from the client's coins of that type
+      const coinObjectIds = isSuiBudget
+        ? []
+        : await jobService.selectCoinsForAmount(currentAccount.address, formData.coinType, budgetAmount);
+
       const tx = jobService.createJobTransaction(
         profile.objectId,
         formData.title,
-        descriptionText, // Pass actual description text instead of blob ID
-        budgetMist,
-        deadlineTimestamp
+        blobId,
+        formData.category,
+        formData.skills,
+        budgetAmount,
+        deadlineTimestamp,
+        formData.reviewWindowMs,
+        formData.coinType,
+        coinObjectIds
       );
 
       // Step 4: Sign and execute
@@ -389,7 +634,8 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                       jobCapId,
                       milestone.description,
                       milestone.amount,
-                      jobSharedObjectRef
+                      jobSharedObjectRef,
+                      formData.coinType
                     );
 
                     await new Promise<void>((resolve, reject) => {
@@ -465,7 +711,7 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
           },
           onError: (error) => {
             console.error("Error creating job:", error);
-            setError(error.message || "Failed to create job");
+            setError(formatTransactionError(error, "Failed to create job"));
             setIsSubmitting(false);
             setCreatingJob(false);
             setAddingMilestones(false);
@@ -474,7 +720,7 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
       );
     } catch (error: any) {
       console.error("Error creating job:", error);
-      setError(error.message || "Failed to create job");
+      setError(formatTransactionError(error, "Failed to create job"));
       setIsSubmitting(false);
       setCreatingJob(false);
       setAddingMilestones(false);
@@ -492,6 +738,30 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
     );
   }
 
+  if (isEditMode && (editJobLoading || (editJob && !prefilled))) {
+    return (
+      <div className="py-12 text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+        <p className="text-muted-foreground">Loading job...</p>
+      </div>
+    );
+  }
+
+  if (isEditMode && (!editJob || editJob.state !== JobState.OPEN || editJob.client !== currentAccount?.address)) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <AlertCircle className="h-12 w-12 mx-auto text-yellow-600 mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Job Cannot Be Edited</h3>
+          <p className="text-muted-foreground mb-6">
+            Only the client can edit a job, and only while it is open
+          </p>
+          <Button onClick={onBack}>Go Back</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!hasProfile) {
     return (
       <Card>
@@ -519,11 +789,13 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
             Back
           </Button>
           <div className="flex-1">
-            <h1 className="text-4xl font-bold">Post a job</h1>
+            <h1 className="text-4xl font-bold">{isEditMode ? "Edit job" : "Post a job"}</h1>
           </div>
         </div>
         <p className="text-muted-foreground">
-          Create a new job posting with escrow payment protection
+          {isEditMode
+            ? "Update your open job. Applicants keep their applications."
+            : "Create a new job posting with escrow payment protection"}
         </p>
       </div>
 
@@ -532,7 +804,9 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
         <Alert className="mb-6 bg-green-50 border-green-200">
           <CheckCircle className="h-4 w-4 text-green-600" />
           <AlertDescription className="text-green-800">
-            Job created successfully! Redirecting to marketplace...
+            {isEditMode
+              ? "Job updated successfully! Redirecting to the job..."
+              : "Job created successfully! Redirecting to marketplace..."}
           </AlertDescription>
         </Alert>
       )}
@@ -548,7 +822,7 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
       {/* Progress Steps */}
       <div className="mb-8">
         <div className="flex items-center justify-between">
-          {[1, 2, 3, 4].map((step) => (
+          {steps.map((step, index) => (
             <div key={step} className="flex items-center flex-1">
               <div className="flex items-center gap-2">
                 <div
@@ -558,7 +832,7 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                       : "bg-gray-200 text-gray-600"
                   }`}
                 >
-                  {currentStep > step ? <CheckCircle className="h-5 w-5" /> : step}
+                  {currentStep > step ? <CheckCircle className="h-5 w-5" /> : index + 1}
                 </div>
                 <span
                   className={`hidden md:inline text-sm font-medium ${
@@ -571,7 +845,7 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                   {step === 4 && "Review"}
                 </span>
               </div>
-              {step < 4 && (
+              {index < steps.length - 1 && (
                 <div
                   className={`h-1 flex-1 mx-2 ${
                     currentStep > step ? "bg-blue-600" : "bg-gray-200"
@@ -617,21 +891,113 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
               </div>
 
               <div>
-                <label className="text-sm font-medium mb-2 block">
-                  Job description <span className="text-red-500">*</span>
-                </label>
-                <textarea
-                  className="w-full min-h-[200px] px-3 py-2 rounded-md border border-input bg-background text-sm"
-                  placeholder="Describe the job requirements, skills needed, deliverables, etc..."
-                  value={formData.description}
-                  onChange={(e) =>
-                    setFormData({ ...formData, description: e.target.value })
-                  }
-                  maxLength={5000}
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium">
+                    Job description <span className="text-red-500">*</span>
+                  </label>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={descriptionTab === "write" ? "secondary" : "ghost"}
+                      onClick={() => setDescriptionTab("write")}
+                    >
+                      Write
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={descriptionTab === "preview" ? "secondary" : "ghost"}
+                      onClick={() => setDescriptionTab("preview")}
+                    >
+                      Preview
+                    </Button>
+                  </div>
+                </div>
+                {isEditMode && editDescriptionError && (
+                  <Alert variant="destructive" className="mb-2">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      The current description couldn&apos;t be loaded from Walrus. Saving will replace
+                      it with the description below.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {descriptionTab === "write" ? (
+                  <textarea
+                    className="w-full min-h-[240px] px-3 py-2 rounded-md border border-input bg-background text-sm font-mono"
+                    placeholder={"## Overview\nDescribe the job requirements, skills needed, deliverables, etc...\n\n- Use **Markdown** for headings, lists and links"}
+                    value={formData.description}
+                    onChange={(e) =>
+                      setFormData({ ...formData, description: e.target.value })
+                    }
+                    maxLength={MAX_DESCRIPTION_LENGTH}
+                  />
+                ) : (
+                  <div className="min-h-[240px] px-3 py-2 rounded-md border border-input bg-background">
+                    {formData.description.trim() ? (
+                      <MarkdownContent markdown={formData.description} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Nothing to preview</p>
+                    )}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formData.description.length}/{MAX_DESCRIPTION_LENGTH} characters • Markdown
+                  supported • Will be stored on Walrus
+                </p>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">Attachments</label>
+                {formData.attachments.length > 0 && (
+                  <div className="space-y-2 mb-2">
+                    {formData.attachments.map((file, index) => (
+                      <div
+                        key={`${file.name}-${index}`}
+                        className="flex items-center justify-between gap-2 p-2 bg-muted rounded"
+                      >
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Paperclip className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          <span className="text-sm truncate">{file.name}</span>
+                          <span className="text-xs text-muted-foreground shrink-0">
+                            {DeliverableService.formatFileSize(file.bytes.length)}
+                          </span>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveAttachment(index)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <Input
+                  type="file"
+                  multiple
+                  onChange={handleAddAttachments}
+                  disabled={formData.attachments.length >= MAX_JOB_ATTACHMENTS}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Optional reference files (briefs, mockups, specs) • Up to {MAX_JOB_ATTACHMENTS} files,{" "}
+                  {DeliverableService.formatFileSize(MAX_JOB_ATTACHMENTS_BYTES)} in total
+                </p>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">Category & Required Skills</label>
+                <SkillPicker
+                  category={formData.category}
+                  skills={formData.skills}
+                  onChange={({ category, skills }) => setFormData({ ...formData, category, skills })}
+                  maxSkills={MAX_JOB_SKILLS}
                 />
                 <p className="text-xs text-muted-foreground mt-1">
-                  {formData.description.length}/5000 characters
-                  {/* TODO: RESTORE WALRUS - Add back: • Will be stored on Walrus */}
+                  Helps freelancers with matching skills find your job in the marketplace
                 </p>
               </div>
             </div>
@@ -652,8 +1018,40 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
 
               <div>
                 <label className="text-sm font-medium mb-2 block">
-                  Total budget (SUI) <span className="text-red-500">*</span>
+                  Currency
                 </label>
+                <select
+                  value={formData.coinType}
+                  onChange={(e) =>
+                    setFormData({ ...formData, coinType: e.target.value })
+                  }
+                  disabled={isEditMode}
+                  className="w-full px-3 py-2 bg-muted rounded-md text-sm border border-input focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {escrowCoinTypes.map((coinType) => (
+                    <option key={coinType} value={coinType}>
+                      {coinMetadataMap[coinType].symbol}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {isEditMode
+                    ? "The escrow currency cannot be changed after posting."
+                    : "The budget is held in escrow and paid out in this currency."}
+                </p>
+              </div>
+
+              <div>
+                {isEditMode && editJob ? (
+                  <label className="text-sm font-medium mb-2 block">
+                    Add to escrow ({coinMetadata.symbol}) — current budget{" "}
+                    {formatCoinAmount(editJob.budget, coinMetadata)}
+                  </label>
+                ) : (
+                  <label className="text-sm font-medium mb-2 block">
+                    Total budget ({coinMetadata.symbol}) <span className="text-red-500">*</span>
+                  </label>
+                )}
                 <div className="relative">
                   <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                   <Input
@@ -661,28 +1059,30 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                     step="0.01"
                     min="0"
                     placeholder="0.00"
-                    value={formData.budgetSui}
+                    value={formData.budgetInput}
                     onChange={(e) =>
-                      setFormData({ ...formData, budgetSui: e.target.value })
+                      setFormData({ ...formData, budgetInput: e.target.value })
                     }
                     className="pl-10"
                   />
                 </div>
                 <div className="flex justify-between items-center mt-1">
-                  {formData.budgetSui && budgetMist > 0 && (
+                  {formData.budgetInput && budgetAmount > 0 && (
                     <p className="text-xs text-muted-foreground">
-                      = {budgetMist.toLocaleString()} MIST (smallest unit)
+                      = {budgetAmount.toLocaleString()} {isSuiBudget ? "MIST" : "base units"} (smallest unit)
                     </p>
                   )}
                   <p className="text-xs text-muted-foreground ml-auto">
-                    Wallet: {formatSUI(Number(walletBalance))}
+                    Wallet: {formatCoinAmount(Number(walletBalance), coinMetadata)}
                   </p>
                 </div>
                 {budgetExceedsBalance && (
                   <Alert variant="destructive" className="mt-2">
                     <AlertCircle className="h-4 w-4" />
                     <AlertDescription>
-                      Budget exceeds your wallet balance. You need to leave some SUI for gas fees.
+                      {isSuiBudget
+                        ? "Budget exceeds your wallet balance. You need to leave some SUI for gas fees."
+                        : `Budget exceeds your ${coinMetadata.symbol} balance.`}
                     </AlertDescription>
                   </Alert>
                 )}
@@ -746,6 +1146,29 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                   </p>
                 </div>
               )}
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Review Window
+                </label>
+                <select
+                  value={formData.reviewWindowMs}
+                  onChange={(e) =>
+                    setFormData({ ...formData, reviewWindowMs: Number(e.target.value) })
+                  }
+                  disabled={isEditMode}
+                  className="w-full px-3 py-2 bg-muted rounded-md text-sm border border-input focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  {REVIEW_WINDOW_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Time you have to review each submission. After it expires, the freelancer can claim the milestone payment.
+                </p>
+              </div>
             </div>
           )}
 
@@ -767,14 +1190,14 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                 <Card>
                   <CardContent className="pt-4">
                     <p className="text-xs text-muted-foreground">Total budget</p>
-                    <p className="text-lg font-bold">{formatSUI(budgetMist)}</p>
+                    <p className="text-lg font-bold">{formatCoinAmount(budgetAmount, coinMetadata)}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="pt-4">
                     <p className="text-xs text-muted-foreground">Allocated</p>
                     <p className="text-lg font-bold text-blue-600">
-                      {formatSUI(totalMilestoneAmount)}
+                      {formatCoinAmount(totalMilestoneAmount, coinMetadata)}
                     </p>
                   </CardContent>
                 </Card>
@@ -787,8 +1210,8 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                       }`}
                     >
                       {remainingBudget < 0
-                        ? `-${formatSUI(Math.abs(remainingBudget))}`
-                        : formatSUI(remainingBudget)}
+                        ? `-${formatCoinAmount(Math.abs(remainingBudget), coinMetadata)}`
+                        : formatCoinAmount(remainingBudget, coinMetadata)}
                     </p>
                   </CardContent>
                 </Card>
@@ -798,7 +1221,7 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                 <Alert variant="destructive">
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>
-                    Milestone total exceeds budget by {formatSUI(Math.abs(remainingBudget))}
+                    Milestone total exceeds budget by {formatCoinAmount(Math.abs(remainingBudget), coinMetadata)}
                   </AlertDescription>
                 </Alert>
               )}
@@ -824,18 +1247,18 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                           </div>
                           <div>
                             <label className="text-xs font-medium mb-1 block">
-                              Amount (SUI)
+                              Amount ({coinMetadata.symbol})
                             </label>
                             <Input
                               type="number"
                               step="0.01"
                               min="0"
                               placeholder="0.00"
-                              value={milestone.amountSui ?? (milestone.amount > 0 ? (milestone.amount / 1_000_000_000).toString() : "")}
+                              value={milestone.amountInput ?? (milestone.amount > 0 ? (milestone.amount / Math.pow(10, coinMetadata.decimals)).toString() : "")}
                               onChange={(e) => {
-                                const sui = parseFloat(e.target.value) || 0;
-                                handleUpdateMilestone(index, "amountSui", e.target.value);
-                                handleUpdateMilestone(index, "amount", suiToMist(sui));
+                                const value = parseFloat(e.target.value) || 0;
+                                handleUpdateMilestone(index, "amountInput", e.target.value);
+                                handleUpdateMilestone(index, "amount", toBaseUnits(value, coinMetadata.decimals));
                               }}
                             />
                           </div>
@@ -883,7 +1306,9 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                   Review & Submit
                 </CardTitle>
                 <CardDescription>
-                  Review your job posting before submitting to the blockchain
+                  {isEditMode
+                    ? "Review your changes before submitting to the blockchain"
+                    : "Review your job posting before submitting to the blockchain"}
                 </CardDescription>
               </div>
 
@@ -893,23 +1318,62 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                   <CardTitle className="text-2xl">{formData.title}</CardTitle>
                   <div className="flex gap-2 flex-wrap">
                     <Badge variant="default">OPEN</Badge>
-                    <Badge variant="secondary">{formatSUI(budgetMist)}</Badge>
+                    <Badge variant="secondary">{formatCoinAmount(totalBudget, coinMetadata)}</Badge>
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
                     <h4 className="font-semibold mb-2">Description</h4>
-                    <p className="text-sm text-foreground whitespace-pre-wrap bg-muted p-4 rounded">
-                      {formData.description}
-                    </p>
+                    <div className="bg-muted p-4 rounded">
+                      <MarkdownContent markdown={formData.description} />
+                    </div>
                   </div>
 
+                  {(formData.category || formData.skills.length > 0) && (
+                    <div>
+                      <h4 className="font-semibold mb-2">
+                        {formData.category ? getCategoryLabel(formData.category) : "Skills"}
+                      </h4>
+                      <div className="flex flex-wrap gap-2">
+                        {formData.skills.map((skillId) => (
+                          <Badge key={skillId} variant="info">
+                            {getSkillLabel(skillId)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {formData.attachments.length > 0 && (
+                    <div>
+                      <h4 className="font-semibold mb-2">
+                        Attachments ({formData.attachments.length})
+                      </h4>
+                      <ul className="space-y-1 text-sm">
+                        {formData.attachments.map((file, index) => (
+                          <li key={`${file.name}-${index}`} className="flex items-center gap-2">
+                            <Paperclip className="h-4 w-4 text-muted-foreground" />
+                            {file.name}
+                            <span className="text-xs text-muted-foreground">
+                              {DeliverableService.formatFileSize(file.bytes.length)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                       <h4 className="font-semibold mb-2">Budget</h4>
                       <p className="text-lg font-bold text-green-600">
-                        {formatSUI(budgetMist)}
+                        {formatCoinAmount(totalBudget, coinMetadata)}
                       </p>
+                      {isEditMode && budgetAmount > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          +{formatCoinAmount(budgetAmount, coinMetadata)} deposited with this update
+                        </p>
+                      )}
                     </div>
                     <div>
                       <h4 className="font-semibold mb-2">Deadline</h4>
@@ -917,6 +1381,12 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                         {new Date(`${formData.deadline}T${formData.deadlineTime}`).toLocaleString()}
                       </p>
                     </div>
+                    <div>
+                      <h4 className="font-semibold mb-2">Review Window</h4>
+                      <p className="text-sm">
+                        {REVIEW_WINDOW_OPTIONS.find((o) => o.value === formData.reviewWindowMs)?.label}
+                      </p>
+                    </div>
                   </div>
 
                   {formData.milestones.length > 0 && (
@@ -931,25 +1401,32 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                             className="flex justify-between items-center p-3 bg-muted rounded"
                           >
                             <span className="text-sm text-foreground">{m.description}</span>
-                            <span className="font-semibold text-foreground">{formatSUI(m.amount)}</span>
+                            <span className="font-semibold text-foreground">{formatCoinAmount(m.amount, coinMetadata)}</span>
                           </div>
                         ))}
                       </div>
                     </div>
                   )}
 
-                  <div className="pt-4 border-t">
-                    <h4 className="font-semibold mb-2">What happens next?</h4>
-                    <ol className="list-decimal list-inside space-y-2 text-sm text-muted-foreground">
-                      {/* TODO: RESTORE WALRUS - Uncomment this when restoring Walrus
-                      <li>Job description will be uploaded to Walrus (decentralized storage)</li>
-                      */}
-                      <li>Escrow funds will be locked in smart contract</li>
-                      <li>Job will appear in marketplace for freelancers</li>
-                      <li>You'll receive JobCap NFT to manage the job</li>
-                      <li>Funds released only when you approve milestones</li>
-                    </ol>
-                  </div>
+                  {isEditMode && !hasJobChanges && (
+                    <Alert>
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>No changes to save.</AlertDescription>
+                    </Alert>
+                  )}
+
+                  {!isEditMode && (
+                    <div className="pt-4 border-t">
+                      <h4 className="font-semibold mb-2">What happens next?</h4>
+                      <ol className="list-decimal list-inside space-y-2 text-sm text-muted-foreground">
+                        <li>Job description will be uploaded to Walrus (decentralized storage)</li>
+                        <li>Escrow funds will be locked in smart contract</li>
+                        <li>Job will appear in marketplace for freelancers</li>
+                        <li>You'll receive JobCap NFT to manage the job</li>
+                        <li>Funds released only when you approve milestones</li>
+                      </ol>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -961,9 +1438,12 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                       <div className="flex items-center gap-3">
                         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                         <div className="flex-1">
-                          <h4 className="font-semibold text-blue-900">Creating Your Job</h4>
+                          <h4 className="font-semibold text-blue-900">
+                            {isEditMode ? "Updating Your Job" : "Creating Your Job"}
+                          </h4>
                           <p className="text-sm text-blue-700">
-                            {creatingJob ? "Creating job and locking escrow..." :
+                            {uploadingDescription ? uploadProgress || "Uploading description to Walrus..." :
+                             creatingJob ? (isEditMode ? "Updating job..." : "Creating job and locking escrow...") :
                              addingMilestones ? "Adding milestones..." :
                              "Processing..."}
                           </p>
@@ -972,35 +1452,35 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
 
                       {/* Progress Steps */}
                       <div className="space-y-2 pl-11">
-                        {/* TODO: RESTORE WALRUS - Uncomment this step when restoring Walrus
-                        <div className={`flex items-center gap-2 text-sm ${uploadingDescription ? 'text-blue-900 font-medium' : 'text-blue-600'}`}>
-                          {uploadingDescription ? (
-                            <div className="h-2 w-2 rounded-full bg-blue-600 animate-pulse"></div>
-                          ) : descriptionBlobId ? (
-                            <CheckCircle className="h-4 w-4 text-green-600" />
-                          ) : (
-                            <div className="h-2 w-2 rounded-full border-2 border-blue-300"></div>
-                          )}
-                          <span>Upload description to Walrus</span>
-                        </div>
-                        */}
+                        {(!isEditMode || descriptionChanged) && (
+                          <div className={`flex items-center gap-2 text-sm ${uploadingDescription ? 'text-blue-900 font-medium' : 'text-blue-600'}`}>
+                            {uploadingDescription ? (
+                              <div className="h-2 w-2 rounded-full bg-blue-600 animate-pulse"></div>
+                            ) : descriptionBlobId ? (
+                              <CheckCircle className="h-4 w-4 text-green-600" />
+                            ) : (
+                              <div className="h-2 w-2 rounded-full border-2 border-blue-300"></div>
+                            )}
+                            <span>Upload description to Walrus</span>
+                          </div>
+                        )}
 
                         <div className={`flex items-center gap-2 text-sm ${creatingJob ? 'text-blue-900 font-medium' : 'text-blue-600'}`}>
                           {creatingJob ? (
                             <div className="h-2 w-2 rounded-full bg-blue-600 animate-pulse"></div>
-                          ) : isSubmitting && !creatingJob && !addingMilestones ? (
+                          ) : isSubmitting && !uploadingDescription && !creatingJob && !addingMilestones ? (
                             <CheckCircle className="h-4 w-4 text-green-600" />
                           ) : (
                             <div className="h-2 w-2 rounded-full border-2 border-blue-300"></div>
                           )}
-                          <span>Create job and lock escrow</span>
+                          <span>{isEditMode ? "Update job" : "Create job and lock escrow"}</span>
                         </div>
 
-                        {formData.milestones.length > 0 && (
+                        {!isEditMode && formData.milestones.length > 0 && (
                           <div className={`flex items-center gap-2 text-sm ${addingMilestones ? 'text-blue-900 font-medium' : 'text-blue-600'}`}>
                             {addingMilestones ? (
                               <div className="h-2 w-2 rounded-full bg-blue-600 animate-pulse"></div>
-                            ) : !creatingJob && !addingMilestones && isSubmitting ? (
+                            ) : !uploadingDescription && !creatingJob && !addingMilestones && isSubmitting ? (
                               <CheckCircle className="h-4 w-4 text-green-600" />
                             ) : (
                               <div className="h-2 w-2 rounded-full border-2 border-blue-300"></div>
@@ -1013,7 +1493,9 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                       <Alert className="bg-white border-blue-300">
                         <AlertCircle className="h-4 w-4 text-blue-600" />
                         <AlertDescription className="text-sm text-blue-800">
-                          Please approve the transactions in your wallet. This may require {formData.milestones.length > 0 ? formData.milestones.length + 1 : 1} signature{formData.milestones.length > 0 ? 's' : ''}.
+                          {isEditMode && !descriptionChanged
+                            ? "Please approve the transaction in your wallet."
+                            : `Please approve the transactions in your wallet. This may require ${isEditMode ? 3 : formData.milestones.length + 3} signatures (Walrus upload takes 2).`}
                         </AlertDescription>
                       </Alert>
                     </div>
@@ -1044,15 +1526,15 @@ export function CreateJobView({ onBack, onSuccess }: CreateJobViewProps) {
                 {isSubmitting ? (
                   <>
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    {/* TODO: RESTORE WALRUS - Add back uploadingDescription check */}
-                    {creatingJob ? "Creating Job..." :
+                    {uploadingDescription ? "Uploading Description..." :
+                     creatingJob ? (isEditMode ? "Updating Job..." : "Creating Job...") :
                      addingMilestones ? "Adding Milestones..." :
                      "Processing..."}
                   </>
                 ) : (
                   <>
                     <Upload className="h-4 w-4 mr-2" />
-                    Create Job & Lock Escrow
+                    {isEditMode ? "Save Changes" : "Create Job & Lock Escrow"}
                   </>
                 )}
               </Button>
@@ -0,0 +1,375 @@
+/**
+ * Deadline Panel Component
+ * Deadline enforcement actions for the client and freelancer job detail views
+ *
+ * Features:
+ * - Client: reclaim escrow once an IN_PROGRESS job is past its deadline
+ * - Client: accept the freelancer's pending deadline extension
+ * - Freelancer: request a deadline extension (also after the deadline, as a late-delivery claim)
+ * - Freelancer: release a reclaimed job from their active jobs
+ */
+
+"use client";
+
+import { useState, useMemo } from "react";
+import { JobData, JobState } from "@/services/types";
+import { createJobService, formatTransactionError } from "@/services";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertCircle, CalendarClock, CheckCircle, Loader2, Undo2 } from "lucide-react";
+import { useSuiClient } from "@mysten/dapp-kit";
+import { useTransactionPreview } from "@/contexts/TransactionPreviewContext";
+import { useNetworkVariable } from "../../networkConfig";
+import { useCoinMetadata } from "@/hooks";
+import { formatCoinAmount, formatDateTime, isJobOverdue } from "@/utils";
+
+interface DeadlinePanelProps {
+  job: JobData;
+  role: "client" | "freelancer";
+  /** Current user's Profile object ID */
+  profileId?: string;
+  /** Client's JobCap object ID (client role only) */
+  jobCapId?: string | null;
+  /** Called after any deadline transaction succeeds */
+  onUpdated: () => void;
+}
+
+export function DeadlinePanel({ job, role, profileId, jobCapId, onUpdated }: DeadlinePanelProps) {
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const { signAndExecute } = useTransactionPreview();
+  const { metadata: coinMetadata } = useCoinMetadata(job.coinType);
+
+  const [showExtensionDialog, setShowExtensionDialog] = useState(false);
+  const [extensionDate, setExtensionDate] = useState("");
+  const [extensionTime, setExtensionTime] = useState("23:59");
+  const [extensionReason, setExtensionReason] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+
+  const jobService = useMemo(
+    () => createJobService(suiClient, jobPackageId),
+    [suiClient, jobPackageId]
+  );
+
+  const overdue = isJobOverdue(job.deadline, job.state);
+  const canExtend = job.state === JobState.ASSIGNED || job.state === JobState.IN_PROGRESS;
+
+  // Proposed deadline must be later than both now and the current deadline
+  const proposedDeadline = useMemo(() => {
+    if (!extensionDate) return null;
+    const timestamp = new Date(`${extensionDate}T${extensionTime}`).getTime();
+    if (isNaN(timestamp) || timestamp <= Math.max(Date.now(), job.deadline)) return null;
+    return timestamp;
+  }, [extensionDate, extensionTime, job.deadline]);
+
+  // Shared sign/execute flow for all deadline actions
+  const execute = (
+    buildTx: () => ReturnType<typeof jobService.acceptDeadlineExtensionTransaction>,
+    successMessage: string,
+    failureMessage: string,
+    onDone?: () => void
+  ) => {
+    setIsProcessing(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    try {
+      signAndExecute(
+        { transaction: buildTx() },
+        {
+          onSuccess: async ({ digest }) => {
+            await suiClient.waitForTransaction({ digest });
+            setIsProcessing(false);
+            setActionSuccess(successMessage);
+            onDone?.();
+            onUpdated();
+
+            setTimeout(() => {
+              setActionSuccess(null);
+            }, 5000);
+          },
+          onError: (error) => {
+            console.error(`${failureMessage}:`, error);
+            setActionError(formatTransactionError(error, failureMessage));
+            setIsProcessing(false);
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error(`${failureMessage}:`, error);
+      setActionError(formatTransactionError(error, failureMessage));
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle reclaiming escrow after missed deadline (client)
+  const handleReclaim = () => {
+    if (!jobCapId || !profileId) {
+      setActionError("Missing required data to reclaim escrow");
+      return;
+    }
+
+    execute(
+      () => jobService.reclaimAfterDeadlineTransaction(job.objectId, jobCapId, profileId, job.coinType),
+      "Escrow reclaimed. The remaining funds have been refunded to your wallet.",
+      "Failed to reclaim escrow"
+    );
+  };
+
+  // Handle accepting the pending extension (client)
+  const handleAcceptExtension = () => {
+    if (!jobCapId) {
+      setActionError("Missing JobCap to accept extension");
+      return;
+    }
+
+    execute(
+      () => jobService.acceptDeadlineExtensionTransaction(job.objectId, jobCapId, job.coinType),
+      "Deadline extended.",
+      "Failed to accept extension"
+    );
+  };
+
+  // Handle requesting an extension (freelancer)
+  const handleRequestExtension = () => {
+    if (!proposedDeadline) {
+      setActionError("Choose a deadline later than the current one");
+      return;
+    }
+
+    execute(
+      () =>
+        jobService.requestDeadlineExtensionTransaction(
+          job.objectId,
+          proposedDeadline,
+          extensionReason.trim(),
+          job.coinType
+        ),
+      "Extension requested. The client can now accept the new deadline.",
+      "Failed to request extension",
+      () => {
+        setShowExtensionDialog(false);
+        setExtensionDate("");
+        setExtensionReason("");
+      }
+    );
+  };
+
+  // Handle releasing a reclaimed job (freelancer)
+  const handleRelease = () => {
+    if (!profileId) {
+      setActionError("You need a profile to release this job");
+      return;
+    }
+
+    execute(
+      () => jobService.releaseReclaimedJobTransaction(job.objectId, profileId, job.coinType),
+      "Job removed from your active jobs.",
+      "Failed to release job"
+    );
+  };
+
+  const showClientReclaim = role === "client" && overdue && job.state === JobState.IN_PROGRESS;
+  const showPendingExtension = canExtend && !!job.pendingExtension;
+  const showFreelancerRequest = role === "freelancer" && canExtend;
+  const showFreelancerRelease = role === "freelancer" && job.reclaimedAt !== undefined;
+
+  if (!showClientReclaim && !showPendingExtension && !showFreelancerRequest && !showFreelancerRelease) {
+    return null;
+  }
+
+  return (
+    <Card className={overdue || showFreelancerRelease ? "border-red-500/50" : "border-blue-500/50"}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className={overdue ? "h-5 w-5 text-red-500" : "h-5 w-5 text-blue-500"} />
+          Deadline
+        </CardTitle>
+        <CardDescription>
+          {showFreelancerRelease
+            ? `The client reclaimed the escrow on ${formatDateTime(job.reclaimedAt!)} after the deadline passed.`
+            : overdue
+            ? `This job is overdue. The deadline was ${formatDateTime(job.deadline)}.`
+            : `Current deadline: ${formatDateTime(job.deadline)}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {actionSuccess && (
+          <Alert className="bg-green-500/10 border-green-500/50">
+            <CheckCircle className="h-4 w-4 text-green-400" />
+            <AlertDescription className="text-green-400">{actionSuccess}</AlertDescription>
+          </Alert>
+        )}
+        {actionError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{actionError}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Pending extension (both roles) */}
+        {showPendingExtension && (
+          <div className="p-4 bg-background/50 rounded-lg border border-blue-500/30 space-y-2">
+            <p className="text-sm font-medium">
+              Extension requested to {formatDateTime(job.pendingExtension!.newDeadline)}
+            </p>
+            {job.pendingExtension!.reasonBlobId && (
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                {job.pendingExtension!.reasonBlobId}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Requested {formatDateTime(job.pendingExtension!.requestedAt)}
+            </p>
+            {role === "client" && (
+              <Button
+                onClick={handleAcceptExtension}
+                disabled={isProcessing || !jobCapId}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Accepting...
+                  </>
+                ) : (
+                  "Accept Extension"
+                )}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Client reclaim */}
+        {showClientReclaim && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              The freelancer has not submitted work before the deadline. You can cancel the job and
+              reclaim the remaining escrow ({formatCoinAmount(job.escrowBalance ?? job.budget, coinMetadata)}).
+            </p>
+            <Button
+              variant="destructive"
+              onClick={handleReclaim}
+              disabled={isProcessing || !jobCapId || !profileId}
+            >
+              {isProcessing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Reclaiming...
+                </>
+              ) : (
+                <>
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Reclaim Escrow
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+
+        {/* Freelancer extension request */}
+        {showFreelancerRequest && (
+          <Button variant="outline" onClick={() => setShowExtensionDialog(true)} disabled={isProcessing}>
+            <CalendarClock className="h-4 w-4 mr-2" />
+            {job.pendingExtension ? "Update Extension Request" : "Request Extension"}
+          </Button>
+        )}
+
+        {/* Freelancer release after reclaim */}
+        {showFreelancerRelease && (
+          <Button variant="outline" onClick={handleRelease} disabled={isProcessing || !profileId}>
+            {isProcessing ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Releasing...
+              </>
+            ) : (
+              "Release From Active Jobs"
+            )}
+          </Button>
+        )}
+      </CardContent>
+
+      {/* Request Extension Dialog */}
+      <Dialog open={showExtensionDialog} onOpenChange={setShowExtensionDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Deadline Extension</DialogTitle>
+            <DialogDescription>
+              Propose a new deadline. The client must accept it before it takes effect.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="extension-date">New Deadline Date</Label>
+                <Input
+                  id="extension-date"
+                  type="date"
+                  value={extensionDate}
+                  onChange={(e) => setExtensionDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="extension-time">Time</Label>
+                <Input
+                  id="extension-time"
+                  type="time"
+                  value={extensionTime}
+                  onChange={(e) => setExtensionTime(e.target.value)}
+                />
+              </div>
+            </div>
+            {extensionDate && !proposedDeadline && (
+              <p className="text-xs text-red-400">
+                The new deadline must be after {formatDateTime(Math.max(Date.now(), job.deadline))}.
+              </p>
+            )}
+            <Textarea
+              placeholder="Why do you need more time?"
+              value={extensionReason}
+              onChange={(e) => setExtensionReason(e.target.value)}
+              rows={3}
+              className="resize-none"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowExtensionDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRequestExtension}
+              disabled={isProcessing || !proposedDeadline}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {isProcessing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Requesting...
+                </>
+              ) : (
+                "Request Extension"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
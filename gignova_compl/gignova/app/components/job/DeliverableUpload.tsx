@@ -7,7 +7,7 @@
  * Flow:
  * 1. Freelancer enters preview URL (deployed application)
  * 2. Freelancer selects file to upload
- * 3. Component creates whitelist, encrypts file, uploads to Walrus
+ * 3. Component creates whitelist (after a transaction preview), encrypts file, uploads to Walrus
  * 4. Returns submission data for milestone submission
  */
 
@@ -37,6 +37,14 @@ import {
   DeliverableService,
   DeliverableSubmission,
 } from "@/services/deliverableService";
+import { formatTransactionError } from "@/services";
+import { useTransactionPreview } from "@/contexts/TransactionPreviewContext";
+
+/** Callback-style sign and execute (dapp-kit's mutate or the previewed variant) */
+type TransactionExecutor = (
+  variables: { transaction: any },
+  options: { onSuccess: (result: { digest: string }) => void; onError: (error: Error) => void }
+) => void;
 
 interface DeliverableUploadProps {
   /** Callback when upload completes successfully */
@@ -57,6 +65,7 @@ export function DeliverableUpload({
   const { network } = useSuiClientContext();
   const packageId = useNetworkVariable("jobEscrowPackageId");
   const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { signAndExecute: previewedSignAndExecute } = useTransactionPreview();
 
   // Form state
   const [previewUrl, setPreviewUrl] = useState("");
@@ -170,7 +179,7 @@ export function DeliverableUpload({
       // synchronization with React Query's mutation lifecycle, avoiding 400 errors
       // from Walrus storage nodes that occur when transactions aren't fully propagated
       let transactionCount = 0;
-      const executeTransaction = async (params: { transaction: any }): Promise<{ digest: string }> => {
+      const createExecutor = (execute: TransactionExecutor) => async (params: { transaction: any }): Promise<{ digest: string }> => {
         transactionCount++;
         const txNumber = transactionCount;
         const txStartTime = Date.now();
@@ -179,7 +188,7 @@ export function DeliverableUpload({
         console.log(`[TX #${txNumber}] Timestamp:`, new Date().toISOString());
 
         return new Promise((resolve, reject) => {
-          signAndExecute(
+          execute(
             { transaction: params.transaction },
             {
               onSuccess: async ({ digest }) => {
@@ -250,6 +259,10 @@ export function DeliverableUpload({
           );
         });
       };
+      // Walrus storage transactions come from the Walrus SDK flow and go straight to the
+      // wallet (as in WalrusUpload.tsx); the whitelist is ours and gets the preview
+      const executeTransaction = createExecutor(signAndExecute);
+      const executePreviewedTransaction = createExecutor(previewedSignAndExecute);
 
       console.log("[UPLOAD] Starting deliverableService.uploadAndEncrypt...");
       const uploadStart = Date.now();
@@ -260,6 +273,7 @@ export function DeliverableUpload({
         currentAccount.address,
         executeTransaction,
         handleProgress,
+        executePreviewedTransaction,
       );
 
       console.log("[UPLOAD] uploadAndEncrypt completed successfully:", {
@@ -277,7 +291,7 @@ export function DeliverableUpload({
         name: err.name,
         stack: err.stack,
       });
-      setError(err.message || "Failed to upload deliverable");
+      setError(formatTransactionError(err, "Failed to upload deliverable"));
       setIsUploading(false);
     }
   };
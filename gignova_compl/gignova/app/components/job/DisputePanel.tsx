@@ -0,0 +1,470 @@
+/**
+ * Dispute Panel Component
+ * Shared dispute workflow for the client and freelancer job detail views
+ *
+ * Features:
+ * - "Open Dispute" action for IN_PROGRESS / SUBMITTED / AWAITING_REVIEW jobs
+ * - Dispute reason, evidence timeline and resolution display
+ * - Evidence submission for both parties while the dispute is open
+ * - Escrow split form for ArbiterCap holders
+ * - Active job release for both parties after resolution
+ */
+
+"use client";
+
+import { useState, useMemo } from "react";
+import { useArbiterCaps, useCoinMetadata } from "@/hooks";
+import { JobData, JobState } from "@/services/types";
+import { createJobService, formatTransactionError } from "@/services";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertCircle, CheckCircle, Gavel, Loader2, Scale, ShieldAlert } from "lucide-react";
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useTransactionPreview } from "@/contexts/TransactionPreviewContext";
+import { useNetworkVariable } from "../../networkConfig";
+import { formatCoinAmount, formatDateTime, shortenAddress, toBaseUnits } from "@/utils";
+
+interface DisputePanelProps {
+  job: JobData;
+  /** Current user's Profile object ID (needed to release the job after resolution) */
+  profileId?: string;
+  /** Called after any dispute transaction succeeds */
+  onUpdated: () => void;
+}
+
+/** States from which either party may open a dispute */
+const DISPUTABLE_STATES = [JobState.IN_PROGRESS, JobState.SUBMITTED, JobState.AWAITING_REVIEW];
+
+export function DisputePanel({ job, profileId, onUpdated }: DisputePanelProps) {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const { signAndExecute } = useTransactionPreview();
+  const { arbiterCaps } = useArbiterCaps(currentAccount?.address);
+  const { metadata: coinMetadata } = useCoinMetadata(job.coinType);
+
+  const [showOpenDialog, setShowOpenDialog] = useState(false);
+  const [disputeReason, setDisputeReason] = useState("");
+  const [evidenceText, setEvidenceText] = useState("");
+  const [freelancerShare, setFreelancerShare] = useState("");
+  const [resolutionText, setResolutionText] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionSuccess, setActionSuccess] = useState<string | null>(null);
+
+  const jobService = useMemo(
+    () => createJobService(suiClient, jobPackageId),
+    [suiClient, jobPackageId]
+  );
+
+  const dispute = job.dispute;
+  const escrowBalance = job.escrowBalance ?? 0;
+  const isParty =
+    !!currentAccount &&
+    (currentAccount.address === job.client || currentAccount.address === job.freelancer);
+  const arbiterCapId = arbiterCaps[0]?.objectId;
+
+  // Freelancer share in base units (empty input = 0, full refund to client)
+  const freelancerAmount = useMemo(() => {
+    if (!freelancerShare.trim()) return 0;
+    const num = parseFloat(freelancerShare);
+    if (isNaN(num) || num < 0) return null;
+    return toBaseUnits(num, coinMetadata.decimals);
+  }, [freelancerShare, coinMetadata.decimals]);
+
+  const isShareValid = freelancerAmount !== null && freelancerAmount <= escrowBalance;
+
+  // Shared sign/execute flow for all dispute actions
+  const execute = (
+    buildTx: () => ReturnType<typeof jobService.openDisputeTransaction>,
+    successMessage: string,
+    failureMessage: string,
+    onDone?: () => void
+  ) => {
+    setIsProcessing(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    try {
+      signAndExecute(
+        { transaction: buildTx() },
+        {
+          onSuccess: async ({ digest }) => {
+            await suiClient.waitForTransaction({ digest });
+            setIsProcessing(false);
+            setActionSuccess(successMessage);
+            onDone?.();
+            onUpdated();
+
+            setTimeout(() => {
+              setActionSuccess(null);
+            }, 5000);
+          },
+          onError: (error) => {
+            console.error(`${failureMessage}:`, error);
+            setActionError(formatTransactionError(error, failureMessage));
+            setIsProcessing(false);
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error(`${failureMessage}:`, error);
+      setActionError(formatTransactionError(error, failureMessage));
+      setIsProcessing(false);
+    }
+  };
+
+  // Handle opening a dispute
+  const handleOpenDispute = () => {
+    if (!disputeReason.trim()) {
+      setActionError("Please describe the reason for the dispute");
+      return;
+    }
+
+    // Reason passed directly as blob ID (same approach as revision feedback)
+    execute(
+      () => jobService.openDisputeTransaction(job.objectId, disputeReason.trim(), job.coinType),
+      "Dispute opened. The escrow is frozen until the arbiter resolves it.",
+      "Failed to open dispute",
+      () => {
+        setShowOpenDialog(false);
+        setDisputeReason("");
+      }
+    );
+  };
+
+  // Handle submitting evidence
+  const handleSubmitEvidence = () => {
+    if (!evidenceText.trim()) {
+      setActionError("Please provide evidence text or a Walrus blob ID");
+      return;
+    }
+
+    execute(
+      () => jobService.submitDisputeEvidenceTransaction(job.objectId, evidenceText.trim(), job.coinType),
+      "Evidence submitted.",
+      "Failed to submit evidence",
+      () => setEvidenceText("")
+    );
+  };
+
+  // Handle arbiter resolution
+  const handleResolve = () => {
+    if (!arbiterCapId || freelancerAmount === null || !isShareValid) {
+      setActionError("Enter a freelancer share between 0 and the escrow balance");
+      return;
+    }
+
+    execute(
+      () =>
+        jobService.resolveDisputeTransaction(
+          job.objectId,
+          arbiterCapId,
+          freelancerAmount,
+          resolutionText.trim(),
+          job.coinType
+        ),
+      "Dispute resolved and escrow split between both parties.",
+      "Failed to resolve dispute",
+      () => {
+        setFreelancerShare("");
+        setResolutionText("");
+      }
+    );
+  };
+
+  // Handle releasing the job from the caller's active jobs
+  const handleRelease = () => {
+    if (!profileId) {
+      setActionError("You need a profile to release this job");
+      return;
+    }
+
+    execute(
+      () => jobService.releaseDisputedJobTransaction(job.objectId, profileId, job.coinType),
+      "Job removed from your active jobs.",
+      "Failed to release job"
+    );
+  };
+
+  const messages = (
+    <>
+      {actionSuccess && (
+        <Alert className="bg-green-500/10 border-green-500/50">
+          <CheckCircle className="h-4 w-4 text-green-400" />
+          <AlertDescription className="text-green-400">{actionSuccess}</AlertDescription>
+        </Alert>
+      )}
+      {actionError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{actionError}</AlertDescription>
+        </Alert>
+      )}
+    </>
+  );
+
+  // No dispute yet: offer to open one
+  if (!dispute) {
+    if (!isParty || !DISPUTABLE_STATES.includes(job.state)) return null;
+
+    return (
+      <div className="space-y-2">
+        {messages}
+        <Button
+          variant="outline"
+          className="border-red-500/50 text-red-400 hover:bg-red-500/10"
+          onClick={() => setShowOpenDialog(true)}
+          disabled={isProcessing}
+        >
+          <ShieldAlert className="h-4 w-4 mr-2" />
+          Open Dispute
+        </Button>
+
+        <Dialog open={showOpenDialog} onOpenChange={setShowOpenDialog}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Open Dispute</DialogTitle>
+              <DialogDescription>
+                Opening a dispute freezes the escrow ({formatCoinAmount(escrowBalance, coinMetadata)}) until the
+                platform arbiter resolves it. Both parties can submit evidence.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="py-4">
+              <Textarea
+                placeholder="Describe the problem..."
+                value={disputeReason}
+                onChange={(e) => setDisputeReason(e.target.value)}
+                rows={4}
+                className="resize-none"
+              />
+              {!disputeReason.trim() && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  A reason is required to open a dispute.
+                </p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowOpenDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleOpenDispute}
+                disabled={isProcessing || !disputeReason.trim()}
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Opening...
+                  </>
+                ) : (
+                  "Open Dispute"
+                )}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    );
+  }
+
+  const partyLabel = (address: string) => {
+    if (address === job.client) return "Client";
+    if (address === job.freelancer) return "Freelancer";
+    return shortenAddress(address);
+  };
+
+  return (
+    <Card className={dispute.resolved ? "border-purple-500/50" : "border-red-500/50"}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Scale className={dispute.resolved ? "h-5 w-5 text-purple-400" : "h-5 w-5 text-red-500"} />
+            Dispute
+          </CardTitle>
+          <Badge variant={dispute.resolved ? "purple" : "danger"}>
+            {dispute.resolved ? "RESOLVED" : "OPEN"}
+          </Badge>
+        </div>
+        <CardDescription>
+          Raised by {partyLabel(dispute.raisedBy)} on {formatDateTime(dispute.openedAt)}
+          {" "}(was {JobState[dispute.previousState].replace("_", " ")})
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {messages}
+
+        {/* Reason */}
+        <div className="p-4 bg-background/50 rounded-lg border">
+          <p className="text-sm font-medium mb-1">Reason</p>
+          <p className="text-sm whitespace-pre-wrap">{dispute.reasonBlobId}</p>
+        </div>
+
+        {/* Evidence */}
+        <div>
+          <p className="text-sm font-medium mb-2">Evidence ({dispute.evidence.length})</p>
+          {dispute.evidence.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No evidence submitted yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {dispute.evidence.map((entry, index) => (
+                <div key={index} className="p-3 border rounded-lg">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                    <span>{partyLabel(entry.submittedBy)}</span>
+                    <span>{formatDateTime(entry.submittedAt)}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap break-all">{entry.blobId}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Add evidence (parties only, while open) */}
+        {!dispute.resolved && isParty && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Evidence text or Walrus blob ID..."
+              value={evidenceText}
+              onChange={(e) => setEvidenceText(e.target.value)}
+              rows={3}
+              className="resize-none"
+            />
+            <Button
+              variant="outline"
+              onClick={handleSubmitEvidence}
+              disabled={isProcessing || !evidenceText.trim()}
+            >
+              {isProcessing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                "Submit Evidence"
+              )}
+            </Button>
+          </div>
+        )}
+
+        {/* Arbiter resolution form */}
+        {!dispute.resolved && arbiterCapId && (
+          <div className="space-y-3 p-4 rounded-lg border border-yellow-500/30 bg-yellow-500/5">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <Gavel className="h-4 w-4 text-yellow-400" />
+              Arbiter Resolution
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Escrow balance: {formatCoinAmount(escrowBalance, coinMetadata)}. The remainder after the freelancer
+              share is refunded to the client.
+            </p>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder={`Freelancer share (${coinMetadata.symbol})`}
+              value={freelancerShare}
+              onChange={(e) => setFreelancerShare(e.target.value)}
+            />
+            {isShareValid && (
+              <p className="text-xs text-muted-foreground">
+                Freelancer receives {formatCoinAmount(freelancerAmount!, coinMetadata)}, client receives{" "}
+                {formatCoinAmount(escrowBalance - freelancerAmount!, coinMetadata)}
+              </p>
+            )}
+            {!isShareValid && (
+              <p className="text-xs text-red-400">
+                Share must be between 0 and {formatCoinAmount(escrowBalance, coinMetadata)}
+              </p>
+            )}
+            <Textarea
+              placeholder="Resolution notes or Walrus blob ID..."
+              value={resolutionText}
+              onChange={(e) => setResolutionText(e.target.value)}
+              rows={3}
+              className="resize-none"
+            />
+            <Button
+              onClick={handleResolve}
+              disabled={isProcessing || !isShareValid}
+              className="bg-yellow-600 hover:bg-yellow-700"
+            >
+              {isProcessing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Resolving...
+                </>
+              ) : (
+                "Resolve Dispute"
+              )}
+            </Button>
+          </div>
+        )}
+
+        {/* Resolution */}
+        {dispute.resolved && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">Paid to freelancer</p>
+                <p className="text-lg font-semibold">{formatCoinAmount(dispute.freelancerAmount, coinMetadata)}</p>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">Refunded to client</p>
+                <p className="text-lg font-semibold">{formatCoinAmount(dispute.clientAmount, coinMetadata)}</p>
+              </div>
+            </div>
+            {dispute.resolutionBlobId && (
+              <div className="p-4 bg-background/50 rounded-lg border">
+                <p className="text-sm font-medium mb-1">Resolution</p>
+                <p className="text-sm whitespace-pre-wrap">{dispute.resolutionBlobId}</p>
+              </div>
+            )}
+            {dispute.resolvedAt && (
+              <p className="text-xs text-muted-foreground">
+                Resolved on {formatDateTime(dispute.resolvedAt)}
+              </p>
+            )}
+
+            {isParty && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Remove this job from your profile&apos;s active jobs.
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={handleRelease}
+                  disabled={isProcessing || !profileId}
+                >
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Releasing...
+                    </>
+                  ) : (
+                    "Release From Active Jobs"
+                  )}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
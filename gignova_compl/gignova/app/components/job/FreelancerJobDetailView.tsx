@@ -7,14 +7,19 @@
  * - "Start Job" button for ASSIGNED state
  * - Milestone submission for IN_PROGRESS state
  * - State-based UI updates
+ * - Review window countdown and milestone claim once it expires
+ * - Deadline extension requests via DeadlinePanel
+ * - Activity timeline from on-chain events with explorer links
+ * - Dispute opening, evidence and resolution via DisputePanel
+ * - Live updates: milestone approvals and state changes are highlighted
  */
 
 "use client";
 
-import { useState, useMemo } from "react";
-import { useJob, useCurrentProfile } from "@/hooks";
+import { useState, useMemo, useEffect } from "react";
+import { useJob, useJobChanges, useCurrentProfile, useCoinMetadata } from "@/hooks";
 import { JobState } from "@/services/types";
-import { createJobService } from "@/services";
+import { createJobService, formatTransactionError } from "@/services";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -32,19 +37,30 @@ import {
   ArrowLeft,
   Loader2,
   Gift,
+  Timer,
 } from "lucide-react";
 import { DeliverableUpload } from "./DeliverableUpload";
 import { MilestoneCard } from "./MilestoneCard";
+import { DisputePanel } from "./DisputePanel";
+import { DeadlinePanel } from "./DeadlinePanel";
+import { JobDescription } from "./JobDescription";
+import { JobTimeline } from "./JobTimeline";
+import { ReceiptDownloads } from "./ReceiptDownloads";
+import { LiveChangeBadge, LiveChangeIndicator } from "./LiveChangeIndicator";
 import type { DeliverableSubmission } from "@/services/deliverableService";
-import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useTransactionPreview } from "@/contexts/TransactionPreviewContext";
 import { useNetworkVariable } from "../../networkConfig";
+import { DEFAULT_REVIEW_WINDOW_MS } from "@/constants";
 import {
-  formatSUI,
+  formatCoinAmount,
   formatDeadline,
   formatDate,
   shortenAddress,
   isDeadlineApproaching,
   isDeadlinePassed,
+  isJobOverdue,
+  formatCountdown,
 } from "@/utils";
 
 interface FreelancerJobDetailViewProps {
@@ -56,9 +72,11 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
   const jobPackageId = useNetworkVariable("jobEscrowPackageId");
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { signAndExecute } = useTransactionPreview();
 
   const { job, isPending, error, refetch } = useJob(jobId);
+  const changes = useJobChanges(job);
+  const { metadata: coinMetadata } = useCoinMetadata(job?.coinType);
   const { profile: freelancerProfile, isPending: profileLoading } = useCurrentProfile();
 
   // State for actions
@@ -67,6 +85,8 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
   const [actionSuccess, setActionSuccess] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isClaiming, setIsClaiming] = useState(false);
+  const [isClaimingMilestone, setIsClaimingMilestone] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
   const [pendingSubmission, setPendingSubmission] = useState<DeliverableSubmission | null>(null);
 
   const jobService = useMemo(
@@ -80,6 +100,32 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
     return job.freelancer === currentAccount.address;
   }, [job, currentAccount]);
 
+  // Submitted milestone awaiting client review
+  const submittedMilestone = useMemo(
+    () => job?.milestones.find((m) => m.completed && !m.approved),
+    [job]
+  );
+
+  // Next milestone to submit (earlier submissions may still be under review)
+  const nextMilestone = useMemo(
+    () => job?.milestones.find((m) => !m.completed),
+    [job]
+  );
+
+  // Review window expiry (submitted_at + review window)
+  const reviewExpiresAt =
+    job && submittedMilestone?.submittedAt !== undefined
+      ? submittedMilestone.submittedAt + (job.reviewWindowMs ?? DEFAULT_REVIEW_WINDOW_MS)
+      : null;
+  const reviewWindowExpired = reviewExpiresAt !== null && now >= reviewExpiresAt;
+
+  // Tick the countdown while a submission is under review
+  useEffect(() => {
+    if (reviewExpiresAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [reviewExpiresAt]);
+
   // Handle starting the job
   const handleStartJob = async () => {
     if (!job || !currentAccount || !freelancerProfile) {
@@ -92,7 +138,7 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
     setActionSuccess(null);
 
     try {
-      const tx = jobService.startJobTransaction(jobId, freelancerProfile.objectId);
+      const tx = jobService.startJobTransaction(jobId, freelancerProfile.objectId, job.coinType);
 
       signAndExecute(
         { transaction: tx },
@@ -109,14 +155,14 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
           },
           onError: (error) => {
             console.error("Error starting job:", error);
-            setActionError(error.message || "Failed to start job");
+            setActionError(formatTransactionError(error, "Failed to start job"));
             setIsStartingJob(false);
           },
         }
       );
     } catch (error: any) {
       console.error("Error starting job:", error);
-      setActionError(error.message || "Failed to start job");
+      setActionError(formatTransactionError(error, "Failed to start job"));
       setIsStartingJob(false);
     }
   };
@@ -140,16 +186,17 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
     setActionSuccess(null);
 
     try {
-      // Submit milestone 0 (MVP: single milestone support) with full encrypted deliverable data
+      // Submit the next unsubmitted milestone with full encrypted deliverable data
       const tx = jobService.submitMilestoneTransaction(
         jobId,
-        0, // milestone ID
+        nextMilestone?.id ?? 0, // milestone ID
         submission.encryptedBlobId,
         submission.previewUrl,
         submission.whitelistCapId,
         submission.whitelistId,
         submission.nonce,
-        submission.originalFileName
+        submission.originalFileName,
+        job.coinType
       );
 
       signAndExecute(
@@ -168,14 +215,14 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
           },
           onError: (error) => {
             console.error("Error submitting milestone:", error);
-            setActionError(error.message || "Failed to submit milestone");
+            setActionError(formatTransactionError(error, "Failed to submit milestone"));
             setIsSubmitting(false);
           },
         }
       );
     } catch (error: any) {
       console.error("Error submitting milestone:", error);
-      setActionError(error.message || "Failed to submit milestone");
+      setActionError(formatTransactionError(error, "Failed to submit milestone"));
       setIsSubmitting(false);
     }
   };
@@ -192,7 +239,7 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
     setActionSuccess(null);
 
     try {
-      const tx = jobService.claimJobCompletionTransaction(jobId, freelancerProfile.objectId);
+      const tx = jobService.claimJobCompletionTransaction(jobId, freelancerProfile.objectId, job.coinType);
 
       signAndExecute(
         { transaction: tx },
@@ -200,7 +247,7 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
           onSuccess: async ({ digest }) => {
             await suiClient.waitForTransaction({ digest });
             setIsClaiming(false);
-            setActionSuccess(`Job completion claimed! Your profile has been updated with ${formatSUI(job.pendingFreelancerCompletion || job.budget)} earned.`);
+            setActionSuccess(`Job completion claimed! Your profile has been updated with ${formatCoinAmount(job.pendingFreelancerCompletion || job.budget, coinMetadata)} earned.`);
             refetch(); // Refresh job data
 
             setTimeout(() => {
@@ -209,18 +256,71 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
           },
           onError: (error) => {
             console.error("Error claiming completion:", error);
-            setActionError(error.message || "Failed to claim completion");
+            setActionError(formatTransactionError(error, "Failed to claim completion"));
             setIsClaiming(false);
           },
         }
       );
     } catch (error: any) {
       console.error("Error claiming completion:", error);
-      setActionError(error.message || "Failed to claim completion");
+      setActionError(formatTransactionError(error, "Failed to claim completion"));
       setIsClaiming(false);
     }
   };
 
+  // Handle claiming a milestone after the review window expired
+  const handleClaimMilestone = async () => {
+    if (!job || !currentAccount || !freelancerProfile || !submittedMilestone) {
+      setActionError("Missing required data to claim milestone");
+      return;
+    }
+
+    if (!submittedMilestone.deliverableEscrowId || !submittedMilestone.whitelistId) {
+      setActionError("Milestone missing deliverable escrow or whitelist information");
+      return;
+    }
+
+    setIsClaimingMilestone(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    try {
+      const tx = jobService.claimMilestoneAfterReviewWindowTransaction(
+        jobId,
+        submittedMilestone.id,
+        submittedMilestone.deliverableEscrowId,
+        submittedMilestone.whitelistId,
+        freelancerProfile.objectId,
+        job.coinType
+      );
+
+      signAndExecute(
+        { transaction: tx },
+        {
+          onSuccess: async ({ digest }) => {
+            await suiClient.waitForTransaction({ digest });
+            setIsClaimingMilestone(false);
+            setActionSuccess(`Milestone claimed! ${formatCoinAmount(submittedMilestone.amount, coinMetadata)} has been released to your wallet and the client can now download the deliverable.`);
+            refetch(); // Refresh job data
+
+            setTimeout(() => {
+              setActionSuccess(null);
+            }, 5000);
+          },
+          onError: (error) => {
+            console.error("Error claiming milestone:", error);
+            setActionError(formatTransactionError(error, "Failed to claim milestone"));
+            setIsClaimingMilestone(false);
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error("Error claiming milestone:", error);
+      setActionError(formatTransactionError(error, "Failed to claim milestone"));
+      setIsClaimingMilestone(false);
+    }
+  };
+
   // Get state badge - colors match header counters
   const getStateBadge = (state: JobState) => {
     switch (state) {
@@ -316,12 +416,18 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
                 <Badge variant={badge.variant}>
                   {badge.label}
                 </Badge>
+                {changes.has("state") && <LiveChangeBadge />}
                 {isDeadlineApproaching(job.deadline) && !isDeadlinePassed(job.deadline) && (
                   <Badge variant="warning">Urgent</Badge>
                 )}
-                {isDeadlinePassed(job.deadline) && (
+                {isJobOverdue(job.deadline, job.state) ? (
+                  <Badge variant="destructive">Overdue</Badge>
+                ) : isDeadlinePassed(job.deadline) && (
                   <Badge variant="destructive">Deadline Passed</Badge>
                 )}
+                {job.pendingExtension && (
+                  <Badge variant="info">Extension Requested</Badge>
+                )}
               </CardDescription>
             </div>
           </div>
@@ -351,7 +457,7 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
               <DollarSign className="h-5 w-5 text-green-600" />
               <div>
                 <p className="text-sm text-muted-foreground">Budget</p>
-                <p className="text-xl font-bold">{formatSUI(job.budget)}</p>
+                <p className="text-xl font-bold">{formatCoinAmount(job.budget, coinMetadata)}</p>
               </div>
             </div>
           </CardContent>
@@ -382,17 +488,19 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
           </CardContent>
         </Card>
 
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center gap-3">
-              <Target className="h-5 w-5 text-orange-600" />
-              <div>
-                <p className="text-sm text-muted-foreground">Milestones</p>
-                <p className="text-xl font-bold">{job.milestoneCount}</p>
+        <LiveChangeIndicator changed={changes.has("milestones")}>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-3">
+                <Target className="h-5 w-5 text-orange-600" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Milestones</p>
+                  <p className="text-xl font-bold">{job.milestoneCount}</p>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        </LiveChangeIndicator>
       </div>
 
       {/* Description */}
@@ -404,11 +512,7 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="prose prose-sm max-w-none dark:prose-invert">
-            <p className="whitespace-pre-wrap text-foreground">
-              {job.descriptionBlobId || "No description available"}
-            </p>
-          </div>
+          <JobDescription descriptionBlobId={job.descriptionBlobId} />
         </CardContent>
       </Card>
 
@@ -475,6 +579,7 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
                 <CardTitle className="flex items-center gap-2">
                   <Target className="h-5 w-5" />
                   Project Milestones
+                  {changes.has("milestones") && <LiveChangeBadge />}
                 </CardTitle>
                 <CardDescription>
                   Track your progress through each milestone
@@ -486,6 +591,7 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
                     key={milestone.id}
                     milestone={milestone}
                     variant="compact"
+                    coinType={job.coinType}
                   />
                 ))}
               </CardContent>
@@ -530,13 +636,71 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
               Your milestone has been submitted. Waiting for client approval.
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            <Alert>
-              <AlertCircle className="h-4 w-4" />
-              <AlertDescription>
-                The client is reviewing your submission. You will be notified when they respond.
-              </AlertDescription>
-            </Alert>
+          <CardContent className="space-y-4">
+            {!reviewWindowExpired && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  The client is reviewing your submission. You will be notified when they respond.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Review window countdown */}
+            {reviewExpiresAt !== null && !reviewWindowExpired && (
+              <div className="flex items-center gap-3 p-4 rounded-lg border">
+                <Timer className="h-5 w-5 text-orange-500" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Review window ends in</p>
+                  <p className="text-lg font-mono font-semibold">{formatCountdown(reviewExpiresAt - now)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    After that you can claim the milestone payment yourself.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {/* Keep submitting later milestones; the client can approve them together */}
+            {nextMilestone && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  You can submit the next milestone ({nextMilestone.description}) while this one is reviewed.
+                </p>
+                <DeliverableUpload
+                  onUploadComplete={handleUploadComplete}
+                  disabled={isSubmitting || !freelancerProfile}
+                />
+              </div>
+            )}
+
+            {/* Review window expired: claim */}
+            {reviewWindowExpired && (
+              <div className="space-y-2">
+                <Alert className="bg-orange-500/10 border-orange-500/30">
+                  <Timer className="h-4 w-4 text-orange-400" />
+                  <AlertDescription className="text-orange-300">
+                    The client did not review your submission within the review window. You can now claim {formatCoinAmount(submittedMilestone?.amount ?? 0, coinMetadata)}. The client will still be granted access to the deliverable.
+                  </AlertDescription>
+                </Alert>
+                <Button
+                  onClick={handleClaimMilestone}
+                  disabled={isClaimingMilestone || !freelancerProfile}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {isClaimingMilestone ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Claiming...
+                    </>
+                  ) : (
+                    <>
+                      <Gift className="h-4 w-4 mr-2" />
+                      Claim Milestone Payment
+                    </>
+                  )}
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -557,7 +721,7 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
             <Alert className="bg-purple-500/10 border-purple-500/30">
               <CheckCircle className="h-4 w-4 text-purple-400" />
               <AlertDescription className="text-purple-300">
-                Payment of {formatSUI(job.budget)} has been released to your wallet.
+                Payment of {formatCoinAmount(job.budget, coinMetadata)} has been released to your wallet.
               </AlertDescription>
             </Alert>
 
@@ -600,6 +764,23 @@ export function FreelancerJobDetailView({ jobId, onBack }: FreelancerJobDetailVi
         </Card>
       )}
 
+      {/* PDF invoices / receipts of approved milestones */}
+      <ReceiptDownloads job={job} audience="freelancer" />
+
+      {/* On-chain activity history */}
+      <JobTimeline jobId={job.objectId} coinType={job.coinType} />
+
+      {/* Deadline: reclaim, extension request/acceptance */}
+      <DeadlinePanel
+        job={job}
+        role="freelancer"
+        profileId={freelancerProfile?.objectId}
+        onUpdated={() => refetch()}
+      />
+
+      {/* Dispute: open action, evidence and resolution */}
+      <DisputePanel job={job} profileId={freelancerProfile?.objectId} onUpdated={() => refetch()} />
+
       {/* CANCELLED State */}
       {job.state === JobState.CANCELLED && (
         <Card className="border-red-500/50">
@@ -16,7 +16,10 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Badge } from "../ui/badge";
 import { Button } from "../ui/button";
-import { type JobData, JobState } from "../../services";
+import { type JobData, JobState, getCategoryLabel, getSkillLabel } from "../../services";
+import { isJobOverdue, formatCoinAmount } from "../../utils";
+import { useCoinMetadata, useJobChanges } from "../../hooks";
+import { LiveChangeBadge } from "./LiveChangeIndicator";
 
 interface JobCardProps {
   job: JobData;
@@ -27,15 +30,13 @@ interface JobCardProps {
 export function JobCard({ job, onClick, currentUserAddress }: JobCardProps) {
   // Check if current user has applied
   const hasApplied = currentUserAddress && job.applicants.includes(currentUserAddress);
+  const { metadata: coinMetadata } = useCoinMetadata(job.coinType);
+  const changes = useJobChanges(job);
 
   // Debug: Log job state
   console.log(`🃏 JobCard: ${job.title.slice(0, 20)}... state=${JobState[job.state]} (${job.state})`);
 
   // Format helpers
-  const formatBudget = (amount: number) => {
-    return `${(amount / 1_000_000_000).toFixed(2)} SUI`;
-  };
-
   const formatDeadlineDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString();
   };
@@ -70,18 +71,29 @@ export function JobCard({ job, onClick, currentUserAddress }: JobCardProps) {
   };
 
   return (
-    <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={onClick}>
+    <Card
+      className={`cursor-pointer hover:shadow-lg transition-shadow ${
+        changes.size > 0 ? "ring-2 ring-blue-400/70" : ""
+      }`}
+      onClick={onClick}
+    >
       <CardHeader>
         <div className="flex justify-between items-start">
           <CardTitle className="text-lg">{job.title}</CardTitle>
-          {(() => {
-            const badge = getStateBadge(job.state, !!hasApplied);
-            return (
-              <Badge variant={badge.variant}>
-                {badge.label}
-              </Badge>
-            );
-          })()}
+          <div className="flex gap-1 flex-wrap justify-end">
+            {(() => {
+              const badge = getStateBadge(job.state, !!hasApplied);
+              return (
+                <Badge variant={badge.variant}>
+                  {badge.label}
+                </Badge>
+              );
+            })()}
+            {changes.size > 0 && <LiveChangeBadge />}
+            {isJobOverdue(job.deadline, job.state) && (
+              <Badge variant="destructive">OVERDUE</Badge>
+            )}
+          </div>
         </div>
         <CardDescription>
           Posted by: {job.client.slice(0, 6)}...{job.client.slice(-4)}
@@ -91,7 +103,7 @@ export function JobCard({ job, onClick, currentUserAddress }: JobCardProps) {
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Budget:</span>
-            <span className="font-semibold">{formatBudget(job.budget)}</span>
+            <span className="font-semibold">{formatCoinAmount(job.budget, coinMetadata)}</span>
           </div>
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Deadline:</span>
@@ -108,6 +120,16 @@ export function JobCard({ job, onClick, currentUserAddress }: JobCardProps) {
             </div>
           )}
         </div>
+        {(job.category || job.skills.length > 0) && (
+          <div className="flex flex-wrap gap-1 mt-3">
+            {job.category && <Badge variant="secondary">{getCategoryLabel(job.category)}</Badge>}
+            {job.skills.map((skillId) => (
+              <Badge key={skillId} variant="outline">
+                {getSkillLabel(skillId)}
+              </Badge>
+            ))}
+          </div>
+        )}
         {/* TODO: Add action buttons based on user role and job state */}
         <Button className="w-full mt-4" variant="outline">
           View details
@@ -0,0 +1,106 @@
+/**
+ * Job Description Component
+ *
+ * Renders a job's Markdown description and reference files loaded from Walrus.
+ * Legacy jobs that store the description text on-chain are rendered as-is.
+ * Shows a fallback when the blob has expired or Walrus cannot be reached.
+ */
+
+"use client";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Download, File, Loader2, RefreshCw } from "lucide-react";
+import { useJobDescription } from "@/hooks";
+import { JobDescriptionUnavailableError, type JobAttachment } from "@/services";
+import { DeliverableService } from "@/services/deliverableService";
+import { MarkdownContent } from "./MarkdownContent";
+
+interface JobDescriptionProps {
+  descriptionBlobId: string;
+}
+
+export function JobDescription({ descriptionBlobId }: JobDescriptionProps) {
+  const { description, isPending, error, refetch } = useJobDescription(descriptionBlobId);
+
+  const handleDownload = (attachment: JobAttachment) => {
+    DeliverableService.triggerDownload(
+      new Blob([new Uint8Array(attachment.bytes)], { type: attachment.contentType }),
+      attachment.name
+    );
+  };
+
+  if (!descriptionBlobId) {
+    return <p className="text-muted-foreground">No description available</p>;
+  }
+
+  if (isPending) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading description from Walrus...
+      </div>
+    );
+  }
+
+  if (error) {
+    const expired = error instanceof JobDescriptionUnavailableError && error.reason === "expired";
+    return (
+      <Alert variant={expired ? "default" : "destructive"}>
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          <div className="flex items-center justify-between gap-2">
+            <span>
+              {expired
+                ? "This job description is no longer stored on Walrus. Its storage period has ended; ask the client for the brief."
+                : "Couldn't reach Walrus to load the job description."}
+            </span>
+            {!expired && (
+              <Button variant="outline" size="sm" onClick={() => refetch()}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Retry
+              </Button>
+            )}
+          </div>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!description?.markdown && !description?.attachments.length) {
+    return <p className="text-muted-foreground">No description available</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {description.markdown && <MarkdownContent markdown={description.markdown} />}
+
+      {description.attachments.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold mb-2">
+            Attachments ({description.attachments.length})
+          </h4>
+          <div className="space-y-2">
+            {description.attachments.map((attachment) => (
+              <div
+                key={attachment.identifier}
+                className="flex items-center justify-between gap-2 p-3 bg-muted rounded"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <File className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="text-sm truncate">{attachment.name}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {DeliverableService.formatFileSize(attachment.size)}
+                  </span>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDownload(attachment)}>
+                  <Download className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,18 +5,20 @@
  * Features:
  * - Full job details with description
  * - Milestone breakdown
- * - Applicant list (for clients)
- * - Apply button (for freelancers)
+ * - Applicant proposals (for clients)
+ * - Proposal form with Walrus cover letter (for freelancers)
+ * - Withdraw application (for applicants)
  * - Walrus description preview
  * - State-based action buttons
+ * - Live updates: new applicants and state changes are highlighted
  */
 
 "use client";
 
-import { useState, useMemo, useEffect } from "react";
-import { useJob, useCurrentProfile } from "@/hooks";
+import { useState, useMemo } from "react";
+import { useJob, useJobChanges, useCurrentProfile, useCoinMetadata } from "@/hooks";
 import { JobState } from "@/services/types";
-import { createJobService } from "@/services";
+import { createJobService, createProposalService, formatTransactionError } from "@/services";
 import {
   Dialog,
   DialogContent,
@@ -28,6 +30,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Calendar,
   DollarSign,
@@ -40,15 +45,28 @@ import {
   Target
 } from "lucide-react";
 import { MilestoneCard } from "./MilestoneCard";
-import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
+import { ProposalCard } from "./ProposalCard";
+import { JobDescription } from "./JobDescription";
+import { LiveChangeBadge } from "./LiveChangeIndicator";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSuiClient,
+  useSuiClientContext,
+} from "@mysten/dapp-kit";
+import { Transaction } from "@mysten/sui/transactions";
+import { useTransactionPreview } from "@/contexts/TransactionPreviewContext";
 import { useNetworkVariable } from "../../networkConfig";
+import { MAX_PORTFOLIO_LINKS } from "@/constants";
 import {
-  formatSUI,
+  formatCoinAmount,
+  toBaseUnits,
   formatDeadline,
   formatDate,
   shortenAddress,
   isDeadlineApproaching,
   isDeadlinePassed,
+  isJobOverdue,
 } from "@/utils";
 
 interface JobDetailViewProps {
@@ -61,30 +79,67 @@ interface JobDetailViewProps {
 export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetailViewProps) {
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
   const jobPackageId = useNetworkVariable("jobEscrowPackageId");
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { mutate: walletSignAndExecute } = useSignAndExecuteTransaction();
+  const { signAndExecute } = useTransactionPreview();
 
   const { job, isPending, error, refetch } = useJob(jobId);
+  const changes = useJobChanges(job);
+  const { metadata: coinMetadata } = useCoinMetadata(job?.coinType);
   const { profile: currentProfile, hasProfile } = useCurrentProfile();
   const [isApplying, setIsApplying] = useState(false);
   const [applyError, setApplyError] = useState<string | null>(null);
   const [applySuccess, setApplySuccess] = useState(false);
-  const [description, setDescription] = useState<string>("");
-  const [loadingDescription, setLoadingDescription] = useState(false);
+  const [applyStage, setApplyStage] = useState<string | null>(null);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [withdrawSuccess, setWithdrawSuccess] = useState(false);
+  const [showProposalForm, setShowProposalForm] = useState(false);
+  const [coverLetter, setCoverLetter] = useState("");
+  const [proposedPrice, setProposedPrice] = useState("");
+  const [durationDays, setDurationDays] = useState("");
+  const [portfolioLinksText, setPortfolioLinksText] = useState("");
 
   const jobService = useMemo(
     () => createJobService(suiClient, jobPackageId),
     [suiClient, jobPackageId]
   );
 
-  // Set job description (stored directly in descriptionBlobId field)
-  useEffect(() => {
-    if (job && job.descriptionBlobId && open) {
-      // Description is stored directly in descriptionBlobId field (not using Walrus for now)
-      setDescription(job.descriptionBlobId);
-      setLoadingDescription(false);
+  // Only create on client-side (Walrus SDK loads WASM)
+  const proposalService = useMemo(() => {
+    if (typeof window === "undefined") {
+      return null;
     }
-  }, [job, open]);
+    return createProposalService({ network: network === "mainnet" ? "mainnet" : "testnet" });
+  }, [network]);
+
+  // Parsed proposal fields
+  const proposedPriceAmount = useMemo(() => {
+    const num = parseFloat(proposedPrice);
+    if (isNaN(num) || num <= 0) return null;
+    return toBaseUnits(num, coinMetadata.decimals);
+  }, [proposedPrice, coinMetadata.decimals]);
+
+  const estimatedDurationMs = useMemo(() => {
+    const days = parseFloat(durationDays);
+    if (isNaN(days) || days <= 0) return null;
+    return Math.round(days * 24 * 60 * 60 * 1000);
+  }, [durationDays]);
+
+  const portfolioLinks = useMemo(
+    () =>
+      portfolioLinksText
+        .split("\n")
+        .map((link) => link.trim())
+        .filter((link) => link.length > 0),
+    [portfolioLinksText]
+  );
+
+  const isProposalValid =
+    coverLetter.trim().length > 0 &&
+    proposedPriceAmount !== null &&
+    estimatedDurationMs !== null &&
+    portfolioLinks.length <= MAX_PORTFOLIO_LINKS;
 
   // Check if current user has already applied
   const hasApplied = useMemo(() => {
@@ -92,6 +147,12 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
     return job.applicants.includes(currentAccount.address);
   }, [job, currentAccount]);
 
+  // Check if the client declined the current user's application
+  const isRejected = useMemo(() => {
+    if (!job || !currentAccount) return false;
+    return job.rejectedApplicants?.includes(currentAccount.address) ?? false;
+  }, [job, currentAccount]);
+
   // Check if current user is the client
   const isClient = useMemo(() => {
     if (!job || !currentAccount) return false;
@@ -109,22 +170,68 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
     if (!job || !currentAccount || !hasProfile) return false;
     if (isClient) return false;
     if (hasApplied) return false;
+    if (isRejected) return false;
     if (isAssignedFreelancer) return false;
     if (job.state !== JobState.OPEN) return false;
     if (isDeadlinePassed(job.deadline)) return false;
     return true;
-  }, [job, currentAccount, hasProfile, isClient, hasApplied, isAssignedFreelancer]);
+  }, [job, currentAccount, hasProfile, isClient, hasApplied, isRejected, isAssignedFreelancer]);
 
-  // Handle job application
+  // Applicants can withdraw while the job is still open
+  const canWithdraw = hasApplied && !isClient && job?.state === JobState.OPEN;
+
+  // Sign and wait for confirmation (used by the Walrus upload flow)
+  const executeTransaction = (params: { transaction: Transaction }): Promise<{ digest: string }> =>
+    new Promise((resolve, reject) => {
+      walletSignAndExecute(
+        { transaction: params.transaction },
+        {
+          onSuccess: async ({ digest }) => {
+            try {
+              await suiClient.waitForTransaction({ digest });
+              resolve({ digest });
+            } catch (err) {
+              reject(err);
+            }
+          },
+          onError: reject,
+        }
+      );
+    });
+
+  // Handle job application: upload cover letter to Walrus, then apply with the proposal
   const handleApply = async () => {
-    if (!job || !currentAccount || !currentProfile) return;
+    if (!job || !currentAccount || !currentProfile || !proposalService) return;
+    if (!isProposalValid) {
+      setApplyError("Please complete your proposal");
+      return;
+    }
 
     setIsApplying(true);
     setApplyError(null);
     setApplySuccess(false);
 
     try {
-      const tx = jobService.applyForJobTransaction(jobId, currentProfile.objectId);
+      const coverLetterBlobId = await proposalService.uploadCoverLetter(
+        coverLetter.trim(),
+        jobId,
+        currentAccount.address,
+        executeTransaction,
+        (stage) => setApplyStage(stage)
+      );
+
+      setApplyStage("Submitting application");
+      const tx = jobService.applyForJobTransaction(
+        jobId,
+        currentProfile.objectId,
+        {
+          coverLetterBlobId,
+          proposedPrice: proposedPriceAmount!,
+          estimatedDurationMs: estimatedDurationMs!,
+          portfolioLinks,
+        },
+        job.coinType
+      );
 
       signAndExecute(
         { transaction: tx },
@@ -132,7 +239,9 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
           onSuccess: async ({ digest }) => {
             await suiClient.waitForTransaction({ digest });
             setIsApplying(false);
+            setApplyStage(null);
             setApplySuccess(true);
+            setShowProposalForm(false);
             refetch(); // Refresh job data
 
             if (onApplySuccess) {
@@ -146,15 +255,59 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
           },
           onError: (error) => {
             console.error("Error applying for job:", error);
-            setApplyError(error.message || "Failed to apply for job");
+            setApplyError(formatTransactionError(error, "Failed to apply for job"));
             setIsApplying(false);
+            setApplyStage(null);
           },
         }
       );
     } catch (error: any) {
       console.error("Error applying for job:", error);
-      setApplyError(error.message || "Failed to apply for job");
+      setApplyError(formatTransactionError(error, "Failed to apply for job"));
       setIsApplying(false);
+      setApplyStage(null);
+    }
+  };
+
+  // Handle application withdrawal
+  const handleWithdraw = async () => {
+    if (!job || !currentAccount) return;
+
+    setIsWithdrawing(true);
+    setApplyError(null);
+    setWithdrawSuccess(false);
+
+    try {
+      const tx = jobService.withdrawApplicationTransaction(jobId, job.coinType);
+
+      signAndExecute(
+        { transaction: tx },
+        {
+          onSuccess: async ({ digest }) => {
+            await suiClient.waitForTransaction({ digest });
+            setIsWithdrawing(false);
+            setWithdrawSuccess(true);
+            refetch(); // Refresh job data
+
+            if (onApplySuccess) {
+              onApplySuccess();
+            }
+
+            setTimeout(() => {
+              setWithdrawSuccess(false);
+            }, 3000);
+          },
+          onError: (error) => {
+            console.error("Error withdrawing application:", error);
+            setApplyError(formatTransactionError(error, "Failed to withdraw application"));
+            setIsWithdrawing(false);
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error("Error withdrawing application:", error);
+      setApplyError(formatTransactionError(error, "Failed to withdraw application"));
+      setIsWithdrawing(false);
     }
   };
 
@@ -205,12 +358,18 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
                   </Badge>
                 );
               })()}
+              {changes.has("state") && <LiveChangeBadge />}
               {isDeadlineApproaching(job.deadline) && !isDeadlinePassed(job.deadline) && (
                 <Badge variant="warning">Urgent</Badge>
               )}
-              {isDeadlinePassed(job.deadline) && (
+              {isJobOverdue(job.deadline, job.state) ? (
+                <Badge variant="destructive">Overdue</Badge>
+              ) : isDeadlinePassed(job.deadline) && (
                 <Badge variant="destructive">Deadline Passed</Badge>
               )}
+              {job.pendingExtension && (
+                <Badge variant="info">Extension Requested</Badge>
+              )}
             </div>
           )}
         </DialogHeader>
@@ -263,7 +422,7 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
                       <DollarSign className="h-5 w-5 text-green-600" />
                       <div>
                         <p className="text-sm text-muted-foreground">Budget</p>
-                        <p className="text-xl font-bold">{formatSUI(job.budget)}</p>
+                        <p className="text-xl font-bold">{formatCoinAmount(job.budget, coinMetadata)}</p>
                       </div>
                     </div>
                   </CardContent>
@@ -316,15 +475,7 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  {loadingDescription ? (
-                    <div className="py-4 text-center text-muted-foreground">
-                      Loading description...
-                    </div>
-                  ) : (
-                    <div className="prose prose-sm max-w-none">
-                      <p className="whitespace-pre-wrap">{description || "No description available"}</p>
-                    </div>
-                  )}
+                  <JobDescription descriptionBlobId={job.descriptionBlobId} />
                 </CardContent>
               </Card>
 
@@ -346,13 +497,14 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
                         key={milestone.id}
                         milestone={milestone}
                         variant="compact"
+                        coinType={job.coinType}
                       />
                     ))}
                     <div className="pt-3 border-t mt-3">
                       <div className="flex items-center justify-between">
                         <span className="text-sm font-medium text-muted-foreground">Total budget</span>
                         <span className="text-lg font-bold text-blue-400">
-                          {formatSUI(job.budget)}
+                          {formatCoinAmount(job.budget, coinMetadata)}
                         </span>
                       </div>
                     </div>
@@ -367,34 +519,99 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
                     <CardTitle className="flex items-center gap-2">
                       <Users className="h-5 w-5" />
                       Applicants ({job.applicants.length})
+                      {changes.has("applicants") && <LiveChangeBadge />}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="space-y-2">
-                      {job.applicants.map((applicant, index) => (
-                        <div
+                    <div className="space-y-4">
+                      {job.applicants.map((applicant) => (
+                        <ProposalCard
                           key={applicant}
-                          className="flex items-center justify-between p-3 border rounded-lg"
-                        >
-                          <div className="flex items-center gap-3">
-                            <div className="h-10 w-10 rounded-full bg-gradient-to-br from-purple-400 to-pink-600 flex items-center justify-center text-white font-bold">
-                              {index + 1}
-                            </div>
-                            <div>
-                              <p className="font-mono text-sm">{shortenAddress(applicant)}</p>
-                              <p className="text-xs text-muted-foreground">Freelancer</p>
-                            </div>
-                          </div>
-                          <Button size="sm" variant="outline">
-                            View Profile
-                          </Button>
-                        </div>
+                          applicant={applicant}
+                          proposal={job.proposals?.find((p) => p.freelancer === applicant)}
+                          coinType={job.coinType}
+                        />
                       ))}
                     </div>
                   </CardContent>
                 </Card>
               )}
 
+              {/* Proposal Form */}
+              {canApply && showProposalForm && (
+                <Card className="border-blue-500/50">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <FileText className="h-5 w-5" />
+                      Your Proposal
+                    </CardTitle>
+                    <CardDescription>
+                      Your cover letter is stored on Walrus. Price and duration are shown to the client next to your profile.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="cover-letter">Cover letter</Label>
+                      <Textarea
+                        id="cover-letter"
+                        placeholder="Why are you a good fit for this job?"
+                        value={coverLetter}
+                        onChange={(e) => setCoverLetter(e.target.value)}
+                        rows={5}
+                        disabled={isApplying}
+                      />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="proposed-price">Proposed price ({coinMetadata.symbol})</Label>
+                        <Input
+                          id="proposed-price"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder={(job.budget / Math.pow(10, coinMetadata.decimals)).toString()}
+                          value={proposedPrice}
+                          onChange={(e) => setProposedPrice(e.target.value)}
+                          disabled={isApplying}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="duration-days">Estimated duration (days)</Label>
+                        <Input
+                          id="duration-days"
+                          type="number"
+                          step="0.5"
+                          min="0"
+                          placeholder="7"
+                          value={durationDays}
+                          onChange={(e) => setDurationDays(e.target.value)}
+                          disabled={isApplying}
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="portfolio-links">Portfolio links (optional, one per line)</Label>
+                      <Textarea
+                        id="portfolio-links"
+                        placeholder="https://github.com/you"
+                        value={portfolioLinksText}
+                        onChange={(e) => setPortfolioLinksText(e.target.value)}
+                        rows={3}
+                        disabled={isApplying}
+                      />
+                      {portfolioLinks.length > MAX_PORTFOLIO_LINKS && (
+                        <p className="text-xs text-red-500">
+                          At most {MAX_PORTFOLIO_LINKS} portfolio links
+                        </p>
+                      )}
+                    </div>
+                    {applyStage && (
+                      <p className="text-sm text-muted-foreground">{applyStage}...</p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* No Profile Warning */}
               {!isClient && !hasProfile && currentAccount && job.state === JobState.OPEN && (
                 <Alert className="bg-yellow-50 border-yellow-200">
@@ -405,6 +622,26 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
                 </Alert>
               )}
 
+              {/* Withdrawn Message */}
+              {withdrawSuccess && (
+                <Alert className="bg-green-50 border-green-200">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  <AlertDescription className="text-green-800">
+                    Your application was withdrawn.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Rejected Message */}
+              {isRejected && !isClient && (
+                <Alert className="bg-red-50 border-red-200">
+                  <AlertCircle className="h-4 w-4 text-red-600" />
+                  <AlertDescription className="text-red-800">
+                    The client declined your application for this job.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Already Applied Message */}
               {hasApplied && !isClient && (
                 <Alert className="bg-blue-50 border-blue-200">
@@ -432,10 +669,28 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
               <Button variant="outline" onClick={onClose}>
                 Close
               </Button>
-              {canApply && (
+              {canWithdraw && (
+                <Button
+                  variant="outline"
+                  onClick={handleWithdraw}
+                  disabled={isWithdrawing}
+                  className="text-red-500 border-red-500/50"
+                >
+                  {isWithdrawing ? "Withdrawing..." : "Withdraw Application"}
+                </Button>
+              )}
+              {canApply && !showProposalForm && (
+                <Button
+                  onClick={() => setShowProposalForm(true)}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  Apply for Job
+                </Button>
+              )}
+              {canApply && showProposalForm && (
                 <Button
                   onClick={handleApply}
-                  disabled={isApplying}
+                  disabled={isApplying || !isProposalValid}
                   className="bg-blue-600 hover:bg-blue-700"
                 >
                   {isApplying ? (
@@ -444,7 +699,7 @@ export function JobDetailView({ jobId, open, onClose, onApplySuccess }: JobDetai
                       Applying...
                     </>
                   ) : (
-                    "Apply for Job"
+                    "Submit Proposal"
                   )}
                 </Button>
               )}
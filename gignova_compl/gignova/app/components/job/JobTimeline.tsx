@@ -0,0 +1,179 @@
+/**
+ * Job Timeline Component
+ *
+ * Renders a job's activity history from its on-chain job_escrow events:
+ * applications, assignment, milestone submissions and approvals, payments and completion.
+ * Each step shows the actor, amount and time, with a link to the transaction in the explorer.
+ */
+
+"use client";
+
+import { ReactNode } from "react";
+import { useCurrentAccount, useSuiClientContext } from "@mysten/dapp-kit";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Activity,
+  AlertCircle,
+  Award,
+  CalendarClock,
+  CheckCircle,
+  Coins,
+  ExternalLink,
+  FileText,
+  Gavel,
+  Loader2,
+  Pencil,
+  Play,
+  PlusCircle,
+  RotateCcw,
+  Scale,
+  Unlock,
+  Upload,
+  UserCheck,
+  UserMinus,
+  UserPlus,
+  UserX,
+  XCircle,
+} from "lucide-react";
+import { useJobTimeline, useCoinMetadata } from "@/hooks";
+import type { JobEscrowEventType, JobTimelineEntry } from "@/services";
+import {
+  formatCoinAmount,
+  formatDateTime,
+  getExplorerTxUrl,
+  getRelativeTime,
+  shortenAddress,
+} from "@/utils";
+
+interface JobTimelineProps {
+  jobId: string;
+  /** Escrow coin type of the job (default: SUI) */
+  coinType?: string;
+}
+
+/** Label and icon of each timeline step */
+const STEP_DISPLAY: Partial<Record<JobEscrowEventType, { label: string; icon: ReactNode }>> = {
+  JobCreated: { label: "Job posted", icon: <FileText className="h-4 w-4 text-blue-400" /> },
+  JobUpdated: { label: "Job edited", icon: <Pencil className="h-4 w-4 text-muted-foreground" /> },
+  FreelancerApplied: { label: "Freelancer applied", icon: <UserPlus className="h-4 w-4 text-blue-400" /> },
+  ApplicationWithdrawn: { label: "Application withdrawn", icon: <UserMinus className="h-4 w-4 text-muted-foreground" /> },
+  ApplicantRejected: { label: "Applicant declined", icon: <UserX className="h-4 w-4 text-red-400" /> },
+  FreelancerAssigned: { label: "Freelancer assigned", icon: <UserCheck className="h-4 w-4 text-green-400" /> },
+  JobStarted: { label: "Work started", icon: <Play className="h-4 w-4 text-blue-400" /> },
+  MilestoneAdded: { label: "Milestone added", icon: <PlusCircle className="h-4 w-4 text-blue-400" /> },
+  MilestoneSubmitted: { label: "Milestone submitted", icon: <Upload className="h-4 w-4 text-orange-400" /> },
+  MilestoneRevisionRequested: { label: "Revision requested", icon: <RotateCcw className="h-4 w-4 text-yellow-400" /> },
+  MilestoneApproved: { label: "Milestone approved", icon: <CheckCircle className="h-4 w-4 text-green-400" /> },
+  MilestoneAutoApproved: { label: "Milestone claimed after review window", icon: <CheckCircle className="h-4 w-4 text-green-400" /> },
+  FundsReleased: { label: "Funds released", icon: <Coins className="h-4 w-4 text-green-400" /> },
+  DeliverableAccessGranted: { label: "Deliverable unlocked", icon: <Unlock className="h-4 w-4 text-purple-400" /> },
+  JobCompleted: { label: "Job completed", icon: <Award className="h-4 w-4 text-purple-400" /> },
+  FreelancerCompletionPending: { label: "Completion ready to claim", icon: <Award className="h-4 w-4 text-muted-foreground" /> },
+  FreelancerCompletionClaimed: { label: "Freelancer claimed completion", icon: <Award className="h-4 w-4 text-purple-400" /> },
+  ClientCompletionClaimed: { label: "Client claimed completion", icon: <Award className="h-4 w-4 text-purple-400" /> },
+  JobCancelled: { label: "Job cancelled", icon: <XCircle className="h-4 w-4 text-red-400" /> },
+  DisputeOpened: { label: "Dispute opened", icon: <Scale className="h-4 w-4 text-red-400" /> },
+  DisputeEvidenceSubmitted: { label: "Dispute evidence added", icon: <FileText className="h-4 w-4 text-muted-foreground" /> },
+  DisputeResolved: { label: "Dispute resolved", icon: <Gavel className="h-4 w-4 text-green-400" /> },
+  DeadlineExtensionRequested: { label: "Deadline extension requested", icon: <CalendarClock className="h-4 w-4 text-yellow-400" /> },
+  DeadlineExtended: { label: "Deadline extended", icon: <CalendarClock className="h-4 w-4 text-green-400" /> },
+};
+
+export function JobTimeline({ jobId, coinType }: JobTimelineProps) {
+  const currentAccount = useCurrentAccount();
+  const { network } = useSuiClientContext();
+  const { timeline, isPending, error, refetch } = useJobTimeline(jobId);
+  const { metadata: coinMetadata } = useCoinMetadata(coinType);
+
+  const formatParty = (address: string) =>
+    address === currentAccount?.address ? "You" : shortenAddress(address);
+
+  const describeStep = (entry: JobTimelineEntry) => {
+    const parts = [`by ${formatParty(entry.actor)}`];
+    if (entry.counterparty) {
+      parts.push(`${entry.type === "FundsReleased" ? "to" : "for"} ${formatParty(entry.counterparty)}`);
+    }
+    if (entry.milestoneId !== undefined) {
+      parts.unshift(`Milestone #${entry.milestoneId}`);
+    }
+    return parts.join(" · ");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Activity
+        </CardTitle>
+        <CardDescription>On-chain history of this job</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isPending ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading activity...
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Couldn&apos;t load the job history.{" "}
+              <button className="underline" onClick={() => refetch()}>
+                Retry
+              </button>
+            </AlertDescription>
+          </Alert>
+        ) : timeline.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No activity recorded yet.</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-5">
+            {timeline.map((entry) => {
+              const display = STEP_DISPLAY[entry.type] ?? {
+                label: entry.type,
+                icon: <Activity className="h-4 w-4 text-muted-foreground" />,
+              };
+              return (
+                <li key={`${entry.txDigest}:${entry.eventSeq}`} className="relative ml-6">
+                  <span className="absolute -left-9 top-0 flex h-6 w-6 items-center justify-center rounded-full bg-card border">
+                    {display.icon}
+                  </span>
+                  <div className="flex flex-wrap items-baseline justify-between gap-x-4 gap-y-1">
+                    <p className="text-sm font-medium">
+                      {display.label}
+                      {entry.amount !== undefined && entry.amount > 0 && (
+                        <span className="ml-2 font-semibold text-green-400">
+                          {formatCoinAmount(entry.amount, coinMetadata)}
+                        </span>
+                      )}
+                    </p>
+                    <time
+                      className="text-xs text-muted-foreground"
+                      dateTime={new Date(entry.timestamp).toISOString()}
+                      title={formatDateTime(entry.timestamp)}
+                    >
+                      {getRelativeTime(entry.timestamp)}
+                    </time>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-3 text-xs text-muted-foreground">
+                    <span>{describeStep(entry)}</span>
+                    <a
+                      href={getExplorerTxUrl(entry.txDigest, network)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-blue-400 hover:underline"
+                    >
+                      {shortenAddress(entry.txDigest)}
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
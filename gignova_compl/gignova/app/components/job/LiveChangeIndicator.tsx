@@ -0,0 +1,46 @@
+/**
+ * Live Change Indicator Component
+ *
+ * Flags job fields that changed on-chain while the view was open
+ * (new applicants, submitted milestones, state changes). Used with useJobChanges.
+ */
+
+"use client";
+
+import { ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Radio } from "lucide-react";
+
+interface LiveChangeIndicatorProps {
+  changed: boolean;
+  children: ReactNode;
+  className?: string;
+}
+
+/**
+ * Highlight wrapper: outlines its content and shows an "Updated" badge while changed
+ */
+export function LiveChangeIndicator({ changed, children, className }: LiveChangeIndicatorProps) {
+  return (
+    <div
+      className={`relative rounded-lg transition-shadow duration-500 ${
+        changed ? "ring-2 ring-blue-400/70 shadow-lg shadow-blue-500/20" : ""
+      } ${className ?? ""}`}
+    >
+      {children}
+      {changed && <LiveChangeBadge className="absolute top-2 right-2" />}
+    </div>
+  );
+}
+
+/**
+ * Inline "Updated" badge for changed fields
+ */
+export function LiveChangeBadge({ className }: { className?: string }) {
+  return (
+    <Badge variant="info" className={`gap-1 animate-pulse ${className ?? ""}`}>
+      <Radio className="h-3 w-3" />
+      Updated
+    </Badge>
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * Markdown Content Component
+ *
+ * Renders the Markdown subset used in job descriptions: headings, paragraphs,
+ * lists, block quotes, code blocks, rules, bold, italic, inline code and links.
+ * Output is built from React elements (no raw HTML), so descriptions cannot inject markup.
+ */
+
+"use client";
+
+import { Fragment, ReactNode } from "react";
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "quote"; text: string }
+  | { type: "code"; text: string }
+  | { type: "rule" };
+
+const INLINE_PATTERN = /(`[^`]+`)|(\*\*[^*]+\*\*)|(\[[^\]]+\]\([^)\s]+\))|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)/;
+
+/** Only allow links that cannot run script */
+function isSafeUrl(url: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(url);
+}
+
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    if (line.trimStart().startsWith("```")) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith("```")) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    const listMatch = line.match(/^\s*([-*+]|\d+[.)])\s+/);
+    if (listMatch) {
+      const ordered = /\d/.test(listMatch[1]);
+      const itemPattern = ordered ? /^\s*\d+[.)]\s+(.*)$/ : /^\s*[-*+]\s+(.*)$/;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(itemPattern);
+        if (!item) break;
+        items.push(item[1]);
+        i++;
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) {
+        quote.push(lines[i].replace(/^>\s?/, ""));
+        i++;
+      }
+      blocks.push({ type: "quote", text: quote.join("\n") });
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    i++;
+    while (
+      i < lines.length &&
+      lines[i].trim() !== "" &&
+      !/^(#{1,6}\s|```|>|\s*([-*+]|\d+[.)])\s)/.test(lines[i])
+    ) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: "paragraph", text: paragraph.join("\n") });
+  }
+
+  return blocks;
+}
+
+function renderInline(text: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  const pattern = new RegExp(INLINE_PATTERN.source, "g");
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const token = match[0];
+    const index = match.index;
+    if (index > last) {
+      nodes.push(text.slice(last, index));
+    }
+
+    if (match[1]) {
+      nodes.push(
+        <code key={index} className="px-1 py-0.5 rounded bg-muted font-mono text-xs">
+          {token.slice(1, -1)}
+        </code>
+      );
+    } else if (match[2]) {
+      nodes.push(<strong key={index}>{renderInline(token.slice(2, -2))}</strong>);
+    } else if (match[3]) {
+      const [, label, url] = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/)!;
+      nodes.push(
+        isSafeUrl(url) ? (
+          <a
+            key={index}
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 underline hover:text-blue-800"
+          >
+            {label}
+          </a>
+        ) : (
+          <Fragment key={index}>{label}</Fragment>
+        )
+      );
+    } else {
+      nodes.push(<em key={index}>{renderInline(token.slice(1, -1))}</em>);
+    }
+
+    last = index + token.length;
+  }
+
+  if (last < text.length) {
+    nodes.push(text.slice(last));
+  }
+  return nodes;
+}
+
+const HEADING_CLASSES = [
+  "text-2xl font-bold",
+  "text-xl font-bold",
+  "text-lg font-semibold",
+  "text-base font-semibold",
+  "text-sm font-semibold",
+  "text-sm font-semibold text-muted-foreground",
+];
+
+interface MarkdownContentProps {
+  markdown: string;
+  className?: string;
+}
+
+export function MarkdownContent({ markdown, className }: MarkdownContentProps) {
+  const blocks = parseBlocks(markdown);
+
+  return (
+    <div className={`space-y-3 text-sm text-foreground ${className ?? ""}`}>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case "heading": {
+            const Tag = `h${block.level}` as "h1" | "h2" | "h3" | "h4" | "h5" | "h6";
+            return (
+              <Tag key={i} className={HEADING_CLASSES[block.level - 1]}>
+                {renderInline(block.text)}
+              </Tag>
+            );
+          }
+          case "list": {
+            const ListTag = block.ordered ? "ol" : "ul";
+            return (
+              <ListTag
+                key={i}
+                className={`${block.ordered ? "list-decimal" : "list-disc"} pl-6 space-y-1`}
+              >
+                {block.items.map((item, j) => (
+                  <li key={j}>{renderInline(item)}</li>
+                ))}
+              </ListTag>
+            );
+          }
+          case "quote":
+            return (
+              <blockquote
+                key={i}
+                className="border-l-4 border-muted pl-4 italic text-muted-foreground whitespace-pre-wrap"
+              >
+                {renderInline(block.text)}
+              </blockquote>
+            );
+          case "code":
+            return (
+              <pre key={i} className="p-3 rounded bg-muted overflow-x-auto">
+                <code className="font-mono text-xs">{block.text}</code>
+              </pre>
+            );
+          case "rule":
+            return <hr key={i} className="border-border" />;
+          default:
+            return (
+              <p key={i} className="whitespace-pre-wrap">
+                {renderInline(block.text)}
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -5,18 +5,25 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Target, CheckCircle, Clock, AlertCircle } from "lucide-react";
 import { MilestoneData } from "@/services/types";
+import { useCoinMetadata } from "@/hooks";
+import { formatCoinAmount } from "@/utils";
 
 interface MilestoneCardProps {
   milestone: MilestoneData;
   variant?: "compact" | "detailed";
   showAmount?: boolean;
+  /** Escrow coin type of the job (default: SUI) */
+  coinType?: string;
 }
 
 export function MilestoneCard({
   milestone,
   variant = "detailed",
-  showAmount = true
+  showAmount = true,
+  coinType
 }: MilestoneCardProps) {
+  const { metadata: coinMetadata } = useCoinMetadata(coinType);
+
   // Determine status badge
   const getStatusBadge = () => {
     if (milestone.approved) {
@@ -43,11 +50,6 @@ export function MilestoneCard({
     );
   };
 
-  // Format SUI amount
-  const formatAmount = (amount: number) => {
-    return (amount / 1_000_000_000).toFixed(2);
-  };
-
   if (variant === "compact") {
     return (
       <div className="flex items-center justify-between p-3 border rounded-lg bg-card hover:bg-accent/50 transition-colors">
@@ -57,7 +59,7 @@ export function MilestoneCard({
             <p className="text-sm font-medium truncate">{milestone.description || `Milestone #${milestone.id}`}</p>
             {showAmount && (
               <p className="text-xs text-muted-foreground">
-                {formatAmount(milestone.amount)} SUI
+                {formatCoinAmount(milestone.amount, coinMetadata)}
               </p>
             )}
           </div>
@@ -88,7 +90,7 @@ export function MilestoneCard({
           <div className="flex items-center justify-between pt-2 border-t">
             <span className="text-sm text-muted-foreground">Payment Amount</span>
             <span className="text-lg font-semibold text-blue-400">
-              {formatAmount(milestone.amount)} SUI
+              {formatCoinAmount(milestone.amount, coinMetadata)}
             </span>
           </div>
         )}
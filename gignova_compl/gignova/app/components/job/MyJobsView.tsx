@@ -17,9 +17,10 @@ import { useState } from "react";
 interface MyJobsViewProps {
   onBack?: () => void;
   onViewJob?: (jobId: string) => void;
+  onViewLedger?: () => void;
 }
 
-export function MyJobsView({ onBack, onViewJob }: MyJobsViewProps) {
+export function MyJobsView({ onBack, onViewJob, onViewLedger }: MyJobsViewProps) {
   const currentAccount = useCurrentAccount();
   const { jobs, isPending, error } = useJobsByClient(currentAccount?.address);
   const [filter, setFilter] = useState<"all" | "open" | "active" | "completed" | "cancelled">("all");
@@ -47,11 +48,18 @@ export function MyJobsView({ onBack, onViewJob }: MyJobsViewProps) {
             Manage and track your posted jobs
           </p>
         </div>
-        {onBack && (
-          <Button onClick={onBack} variant="outline">
-            Back to Home
-          </Button>
-        )}
+        <div className="flex gap-2">
+          {onViewLedger && (
+            <Button onClick={onViewLedger} variant="outline">
+              Spend ledger
+            </Button>
+          )}
+          {onBack && (
+            <Button onClick={onBack} variant="outline">
+              Back to Home
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Stats Summary */}
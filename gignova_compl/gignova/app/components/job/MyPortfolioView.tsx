@@ -1,28 +1,45 @@
 /**
  * MyPortfolioView Component
  * Displays all jobs assigned to the current user (freelancer)
- * Shows job cards with filtering and sorting options
+ * Shows job cards with filtering and sorting options, plus the
+ * freelancer's applications with their status (pending, rejected, withdrawn...)
+ * and open jobs recommended for them
  */
 
 "use client";
 
 import { useCurrentAccount } from "@mysten/dapp-kit";
-import { useJobsByFreelancer } from "../../hooks/useJob";
+import { useJobsByFreelancer, useApplicationsByFreelancer } from "../../hooks/useJob";
 import { JobCard } from "./JobCard";
+import { ApplicationCard } from "./ApplicationCard";
+import { RecommendedJobs } from "./RecommendedJobs";
+import { JobDetailView } from "./JobDetailView";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Button } from "../ui/button";
-import { JobState } from "../../services";
+import { JobState, ApplicationStatus } from "../../services";
 import { useState } from "react";
 
 interface MyPortfolioViewProps {
   onBack?: () => void;
   onViewJob?: (jobId: string) => void;
+  onViewLedger?: () => void;
 }
 
-export function MyPortfolioView({ onBack, onViewJob }: MyPortfolioViewProps) {
+export function MyPortfolioView({ onBack, onViewJob, onViewLedger }: MyPortfolioViewProps) {
   const currentAccount = useCurrentAccount();
   const { jobs, isPending, error } = useJobsByFreelancer(currentAccount?.address);
+  const {
+    applications,
+    isPending: applicationsPending,
+    refetch: refetchApplications,
+  } = useApplicationsByFreelancer(currentAccount?.address);
   const [filter, setFilter] = useState<"all" | "assigned" | "active" | "completed">("all");
+  const [selectedApplicationJobId, setSelectedApplicationJobId] = useState<string | null>(null);
+
+  // Accepted applications already appear in the jobs list above
+  const openApplications = applications.filter(
+    (application) => application.status !== ApplicationStatus.ACCEPTED
+  );
 
   // Filter jobs based on selected filter
   const filteredJobs = jobs.filter((job) => {
@@ -46,11 +63,18 @@ export function MyPortfolioView({ onBack, onViewJob }: MyPortfolioViewProps) {
             Track your assigned jobs and work progress
           </p>
         </div>
-        {onBack && (
-          <Button onClick={onBack} variant="outline">
-            Back to Home
-          </Button>
-        )}
+        <div className="flex gap-2">
+          {onViewLedger && (
+            <Button onClick={onViewLedger} variant="outline">
+              Earnings ledger
+            </Button>
+          )}
+          {onBack && (
+            <Button onClick={onBack} variant="outline">
+              Back to Home
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Stats Summary */}
@@ -166,6 +190,50 @@ export function MyPortfolioView({ onBack, onViewJob }: MyPortfolioViewProps) {
           ))}
         </div>
       )}
+
+      {/* Applications */}
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-2xl font-bold">My Applications</h3>
+          <p className="text-muted-foreground mt-1">
+            Applications waiting for a decision, declined or withdrawn
+          </p>
+        </div>
+        {applicationsPending ? (
+          <div className="text-center py-6">
+            <div className="animate-pulse">Loading your applications...</div>
+          </div>
+        ) : openApplications.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6 text-center py-8">
+              <p className="text-muted-foreground">No applications to show.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {openApplications.map((application) => (
+              <ApplicationCard
+                key={application.job.objectId}
+                application={application}
+                onClick={() => setSelectedApplicationJobId(application.job.objectId)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Recommendations */}
+      <RecommendedJobs />
+
+      {/* Application Detail Modal (withdraw while the job is open) */}
+      {selectedApplicationJobId && (
+        <JobDetailView
+          jobId={selectedApplicationJobId}
+          open={!!selectedApplicationJobId}
+          onClose={() => setSelectedApplicationJobId(null)}
+          onApplySuccess={() => refetchApplications()}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,123 @@
+/**
+ * ProposalCard Component
+ * Shows an applicant's proposal next to their profile stats
+ *
+ * Features:
+ * - Applicant ProfileCard (rating, completed jobs)
+ * - Proposed price, estimated duration, portfolio links
+ * - Cover letter loaded from Walrus
+ * - Action slot (e.g., Assign button) supplied by the parent view
+ */
+
+"use client";
+
+import type { ReactNode } from "react";
+import { Clock, DollarSign, ExternalLink, FileText, Loader2 } from "lucide-react";
+import { useProfileByOwner, useCoinMetadata, useCoverLetter } from "@/hooks";
+import { ProfileCard } from "@/components/profile/ProfileCard";
+import type { ProposalData } from "@/services/types";
+import { formatCoinAmount, formatDuration, formatDate, shortenAddress } from "@/utils";
+
+interface ProposalCardProps {
+  applicant: string;
+  /** Proposal recorded with the application (missing for legacy applications) */
+  proposal?: ProposalData;
+  /** Escrow coin type of the job (default: SUI) */
+  coinType?: string;
+  /** Actions rendered under the proposal (e.g., Assign) */
+  actions?: ReactNode;
+}
+
+export function ProposalCard({ applicant, proposal, coinType, actions }: ProposalCardProps) {
+  const { profile, isPending: profileLoading } = useProfileByOwner(applicant);
+  const { metadata: coinMetadata } = useCoinMetadata(coinType);
+  const { coverLetter, isPending: coverLetterLoading, error: coverLetterError } = useCoverLetter(
+    proposal?.coverLetterBlobId
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-4 p-4 border rounded-lg">
+      {/* Applicant profile */}
+      <div className="md:col-span-2">
+        {profile ? (
+          <ProfileCard profile={profile} />
+        ) : (
+          <div className="p-4 border rounded-lg">
+            <p className="font-mono text-sm">{shortenAddress(applicant)}</p>
+            <p className="text-xs text-muted-foreground">
+              {profileLoading ? "Loading profile..." : "No profile found"}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Proposal */}
+      <div className="md:col-span-3 space-y-4">
+        {proposal ? (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex items-center gap-2">
+                <DollarSign className="h-4 w-4 text-green-500" />
+                <div>
+                  <p className="text-xs text-muted-foreground">Proposed price</p>
+                  <p className="font-semibold">{formatCoinAmount(proposal.proposedPrice, coinMetadata)}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-blue-500" />
+                <div>
+                  <p className="text-xs text-muted-foreground">Estimated duration</p>
+                  <p className="font-semibold">{formatDuration(proposal.estimatedDurationMs)}</p>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-1 flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                Cover letter
+              </p>
+              {coverLetterLoading ? (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Loading from Walrus...
+                </p>
+              ) : coverLetterError ? (
+                <p className="text-sm text-red-500">Failed to load cover letter</p>
+              ) : (
+                <p className="text-sm whitespace-pre-wrap bg-muted p-3 rounded">{coverLetter}</p>
+              )}
+            </div>
+
+            {proposal.portfolioLinks.length > 0 && (
+              <div>
+                <p className="text-sm font-medium mb-1">Portfolio</p>
+                <ul className="space-y-1">
+                  {proposal.portfolioLinks.map((link) => (
+                    <li key={link}>
+                      <a
+                        href={link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-blue-500 hover:underline inline-flex items-center gap-1 break-all"
+                      >
+                        <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                        {link}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">Submitted {formatDate(proposal.submittedAt)}</p>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">This application has no proposal attached.</p>
+        )}
+
+        {actions && <div className="flex gap-2">{actions}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * ReceiptDownloads Component
+ * Invoice / receipt PDFs for each approved milestone and for the completed job
+ *
+ * Freelancers get invoices billed to the client, clients get payment receipts.
+ */
+
+"use client";
+
+import { Download, FileText, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { getReceiptKey, useCoinMetadata, useReceiptDownload } from "@/hooks";
+import { JobState, type JobData, type ReceiptAudience } from "@/services";
+import { formatCoinAmount, formatDate } from "@/utils";
+
+interface ReceiptDownloadsProps {
+  job: JobData;
+  audience: ReceiptAudience;
+}
+
+export function ReceiptDownloads({ job, audience }: ReceiptDownloadsProps) {
+  const { download, downloadingKey, error } = useReceiptDownload();
+  const { metadata: coinMetadata } = useCoinMetadata(job.coinType);
+  const approvedMilestones = job.milestones.filter((milestone) => milestone.approved);
+  const documentName = audience === "freelancer" ? "Invoice" : "Receipt";
+
+  if (approvedMilestones.length === 0) {
+    return null;
+  }
+
+  const renderButton = (milestoneId: number | null) => {
+    const key = getReceiptKey(job.objectId, milestoneId);
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => download(job.objectId, milestoneId, audience)}
+        disabled={downloadingKey !== null}
+      >
+        {downloadingKey === key ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Download className="h-4 w-4 mr-2" />
+        )}
+        {documentName} PDF
+      </Button>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Invoices & receipts
+        </CardTitle>
+        <CardDescription>
+          {audience === "freelancer"
+            ? "Invoices for your approved milestones, billed to the client and marked paid"
+            : "Payment receipts for the milestones you approved"}
+          , with the approval transaction as proof of payment
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {approvedMilestones.map((milestone) => (
+          <div key={milestone.id} className="flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                Milestone {milestone.id + 1}: {milestone.description}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {formatCoinAmount(milestone.amount, coinMetadata)}
+                {milestone.approvedAt ? ` · approved ${formatDate(milestone.approvedAt)}` : ""}
+              </p>
+            </div>
+            {renderButton(milestone.id)}
+          </div>
+        ))}
+        {job.state === JobState.COMPLETED && (
+          <div className="flex items-center justify-between gap-4 border-t pt-3">
+            <div>
+              <p className="text-sm font-medium">Completed job</p>
+              <p className="text-xs text-muted-foreground">All milestones in one document</p>
+            </div>
+            {renderButton(null)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * RecommendedJobs Component
+ * "Jobs for you": open jobs ranked against the freelancer's skills and work history
+ *
+ * Each card shows the match score and the reasons behind it. Clicking a card opens
+ * the job detail modal to apply.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { JobDetailView } from "./JobDetailView";
+import { type JobRecommendation } from "../../services";
+import { formatCoinAmount } from "../../utils";
+import { useCoinMetadata, useJobRecommendations } from "../../hooks";
+import { Check, Sparkles } from "lucide-react";
+
+interface RecommendedJobsProps {
+  /** Maximum number of jobs shown */
+  limit?: number;
+  /** Shown as a "Browse all jobs" button when set */
+  onBrowseAll?: () => void;
+}
+
+function RecommendationCard({
+  recommendation,
+  onClick,
+}: {
+  recommendation: JobRecommendation;
+  onClick: () => void;
+}) {
+  const { job, score, reasons } = recommendation;
+  const { metadata: coinMetadata } = useCoinMetadata(job.coinType);
+
+  return (
+    <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={onClick}>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-start gap-2">
+          <CardTitle className="text-lg">{job.title}</CardTitle>
+          <Badge variant="purple">{score}% match</Badge>
+        </div>
+        <CardDescription>{formatCoinAmount(job.budget, coinMetadata)}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-1">
+          {reasons.map((reason) => (
+            <li key={reason.kind} className="flex items-start gap-2 text-sm text-muted-foreground">
+              <Check className="h-4 w-4 mt-0.5 text-green-400 shrink-0" />
+              <span>{reason.text}</span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function RecommendedJobs({ limit = 6, onBrowseAll }: RecommendedJobsProps) {
+  const { recommendations, historySize, hasProfile, isPending, error } = useJobRecommendations(limit);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+
+  if (!hasProfile && !isPending) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-2xl font-bold flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-purple-400" />
+            Jobs for you
+          </h3>
+          <p className="text-muted-foreground mt-1">
+            Based on your profile skills
+            {historySize > 0 && ` and ${historySize} paid job${historySize === 1 ? "" : "s"}`}
+          </p>
+        </div>
+        {onBrowseAll && (
+          <Button variant="outline" onClick={onBrowseAll}>
+            Browse all jobs
+          </Button>
+        )}
+      </div>
+
+      {isPending ? (
+        <div className="text-center py-6">
+          <div className="animate-pulse">Finding jobs for you...</div>
+        </div>
+      ) : error ? (
+        <Card className="border-red-500/50">
+          <CardContent className="pt-6">
+            <p className="text-red-400">Error loading recommendations: {error.message}</p>
+          </CardContent>
+        </Card>
+      ) : recommendations.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center py-8">
+            <p className="text-muted-foreground">
+              No matching jobs right now. Add skills to your profile to get better matches.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {recommendations.map((recommendation) => (
+            <RecommendationCard
+              key={recommendation.job.objectId}
+              recommendation={recommendation}
+              onClick={() => setSelectedJobId(recommendation.job.objectId)}
+            />
+          ))}
+        </div>
+      )}
+
+      {selectedJobId && (
+        <JobDetailView
+          jobId={selectedJobId}
+          open={!!selectedJobId}
+          onClose={() => setSelectedJobId(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * SkillPicker Component
+ * Category select and skill chips from the app's skill taxonomy
+ *
+ * Used for a job's required skills and for normalizing profile tags.
+ */
+
+"use client";
+
+import { Badge } from "../ui/badge";
+import { SKILL_CATEGORIES, getSkillLabel } from "../../services";
+import { X } from "lucide-react";
+
+interface SkillPickerProps {
+  /** Selected category ID ("" for none) */
+  category: string;
+  /** Selected skill IDs */
+  skills: string[];
+  onChange: (value: { category: string; skills: string[] }) => void;
+  /** Maximum selectable skills */
+  maxSkills: number;
+  /** Show the category select (profiles pick skills only) */
+  showCategory?: boolean;
+}
+
+export function SkillPicker({ category, skills, onChange, maxSkills, showCategory = true }: SkillPickerProps) {
+  // Skills of the selected category first; without a category, every group is shown
+  const visibleCategories = category
+    ? SKILL_CATEGORIES.filter((c) => c.id === category)
+    : SKILL_CATEGORIES;
+
+  const toggleSkill = (skillId: string) => {
+    if (skills.includes(skillId)) {
+      onChange({ category, skills: skills.filter((id) => id !== skillId) });
+    } else if (skills.length < maxSkills) {
+      onChange({ category, skills: [...skills, skillId] });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {showCategory && (
+        <select
+          value={category}
+          onChange={(e) => onChange({ category: e.target.value, skills })}
+          className="w-full px-3 py-2 bg-muted rounded-md text-sm border border-input focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="">Select a category</option>
+          {SKILL_CATEGORIES.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {skills.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {skills.map((skillId) => (
+            <Badge key={skillId} variant="info" className="gap-1">
+              {getSkillLabel(skillId)}
+              <button type="button" onClick={() => toggleSkill(skillId)} aria-label="Remove skill">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-56 overflow-y-auto">
+        {visibleCategories.map((c) => (
+          <div key={c.id}>
+            {visibleCategories.length > 1 && (
+              <p className="text-xs font-medium text-muted-foreground mb-1">{c.label}</p>
+            )}
+            <div className="flex flex-wrap gap-1">
+              {c.skills.map((skill) => {
+                const selected = skills.includes(skill.id);
+                return (
+                  <button
+                    key={skill.id}
+                    type="button"
+                    onClick={() => toggleSkill(skill.id)}
+                    disabled={!selected && skills.length >= maxSkills}
+                    className={`px-2 py-1 rounded-full text-xs border transition-colors disabled:opacity-50 ${
+                      selected ? "bg-primary text-primary-foreground border-primary" : "hover:bg-muted"
+                    }`}
+                  >
+                    {skill.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {skills.length}/{maxSkills} skills selected
+      </p>
+    </div>
+  );
+}
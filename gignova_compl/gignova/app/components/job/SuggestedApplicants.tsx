@@ -0,0 +1,115 @@
+/**
+ * SuggestedApplicants Component
+ * Strongest applicants for each of the client's open jobs
+ *
+ * Applicants are ranked by skill match, similar past work, rating and finished jobs;
+ * each one is shown with the reasons behind the ranking.
+ */
+
+"use client";
+
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { type JobData, JobState } from "../../services";
+import { useApplicantRecommendations, useJobsByClient } from "../../hooks";
+import { Check, Users } from "lucide-react";
+
+/** Applicants listed per job */
+const APPLICANTS_PER_JOB = 3;
+
+interface SuggestedApplicantsProps {
+  /** Opens the client's job detail, where applicants are assigned */
+  onViewJob?: (jobId: string) => void;
+}
+
+function JobApplicantSuggestions({ job, onViewJob }: { job: JobData; onViewJob?: (jobId: string) => void }) {
+  const { applicants, isPending, error } = useApplicantRecommendations(job);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-start gap-2">
+          <CardTitle className="text-lg">{job.title}</CardTitle>
+          {onViewJob && (
+            <Button size="sm" variant="outline" onClick={() => onViewJob(job.objectId)}>
+              Review applicants
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          {job.applicants.length} applicant{job.applicants.length === 1 ? "" : "s"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isPending ? (
+          <div className="animate-pulse text-sm">Ranking applicants...</div>
+        ) : error ? (
+          <p className="text-sm text-red-400">Error ranking applicants: {error.message}</p>
+        ) : (
+          <div className="space-y-3">
+            {applicants.slice(0, APPLICANTS_PER_JOB).map((applicant) => (
+              <div key={applicant.address} className="border-b last:border-b-0 pb-3 last:pb-0">
+                <div className="flex justify-between items-center gap-2 mb-1">
+                  <span className="font-medium">
+                    {applicant.profile?.username ||
+                      `${applicant.address.slice(0, 6)}...${applicant.address.slice(-4)}`}
+                  </span>
+                  <div className="flex gap-1">
+                    {applicant.strong && <Badge variant="success">Strong match</Badge>}
+                    <Badge variant="purple">{applicant.score}%</Badge>
+                  </div>
+                </div>
+                {applicant.reasons.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No profile or work history yet</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {applicant.reasons.map((reason) => (
+                      <li key={reason.kind} className="flex items-start gap-2 text-sm text-muted-foreground">
+                        <Check className="h-4 w-4 mt-0.5 text-green-400 shrink-0" />
+                        <span>{reason.text}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function SuggestedApplicants({ onViewJob }: SuggestedApplicantsProps) {
+  const currentAccount = useCurrentAccount();
+  const { jobs, isPending } = useJobsByClient(currentAccount?.address);
+
+  const jobsWithApplicants = jobs
+    .filter((job) => job.state === JobState.OPEN && job.applicants.length > 0)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  if (isPending || jobsWithApplicants.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-2xl font-bold flex items-center gap-2">
+          <Users className="h-5 w-5 text-purple-400" />
+          Suggested applicants
+        </h3>
+        <p className="text-muted-foreground mt-1">
+          The strongest applicants for your open jobs
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {jobsWithApplicants.map((job) => (
+          <JobApplicantSuggestions key={job.objectId} job={job} onViewJob={onViewJob} />
+        ))}
+      </div>
+    </div>
+  );
+}
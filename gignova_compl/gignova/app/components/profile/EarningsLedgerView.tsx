@@ -0,0 +1,277 @@
+/**
+ * EarningsLedgerView Component
+ * Per-payment ledger for accounting: earnings as freelancer, escrow spend as client
+ *
+ * Features:
+ * - Freelancer ledger from FundsReleased payments (with the approved milestone)
+ * - Client ledger from escrow deposits and refunds
+ * - Date range filter with running totals per coin type
+ * - CSV and JSON export of the filtered rows
+ * - PDF invoice per milestone payment and completed job (earnings)
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { useSuiClientContext } from "@mysten/dapp-kit";
+import { ArrowLeft, Download, ExternalLink, FileText, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { getReceiptKey, useCoinMetadataMap, useEarningsLedger, useReceiptDownload } from "@/hooks";
+import { useNetworkVariable } from "@/networkConfig";
+import {
+  LEDGER_ENTRY_LABELS,
+  getLedgerFileName,
+  ledgerToCsv,
+  ledgerToJson,
+  type LedgerDateRange,
+  type LedgerRole,
+  type LedgerRow,
+} from "@/services";
+import { DeliverableService } from "@/services/deliverableService";
+import { formatCoinAmount, formatDateTime, getCoinSymbolFromType, getExplorerTxUrl, shortenAddress } from "@/utils";
+
+interface EarningsLedgerViewProps {
+  /** Ledger shown first (freelancers: earnings, clients: spend) */
+  defaultRole?: LedgerRole;
+  onBack?: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parse a date input value (YYYY-MM-DD) as local midnight */
+function parseDateInput(value: string): number | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+export function EarningsLedgerView({ defaultRole = "freelancer", onBack }: EarningsLedgerViewProps) {
+  const { network } = useSuiClientContext();
+  const [role, setRole] = useState<LedgerRole>(defaultRole);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const range = useMemo<LedgerDateRange>(() => {
+    const to = parseDateInput(toDate);
+    return { from: parseDateInput(fromDate), to: to !== undefined ? to + DAY_MS - 1 : undefined };
+  }, [fromDate, toDate]);
+
+  const { rows, totals, entryCount, isPending, error } = useEarningsLedger(role, range);
+  const coinMetadata = useCoinMetadataMap(useNetworkVariable("escrowCoinTypes"));
+  const receipts = useReceiptDownload();
+
+  // Newest first on screen; exports keep chronological order
+  const displayedRows = useMemo(() => [...rows].reverse(), [rows]);
+
+  const handleExport = (format: "csv" | "json") => {
+    const content = format === "csv" ? ledgerToCsv(rows, coinMetadata) : ledgerToJson(rows, coinMetadata);
+    DeliverableService.triggerDownload(
+      new Blob([content], { type: format === "csv" ? "text/csv" : "application/json" }),
+      getLedgerFileName(role, range, format)
+    );
+  };
+
+  /** Invoiceable payments: approved milestones and job completions (milestone or null) */
+  const getInvoiceMilestone = (row: LedgerRow): number | null | undefined => {
+    if (row.kind === "milestone_payment") return row.milestoneId ?? undefined;
+    if (row.kind === "completion_payment") return null;
+    return undefined;
+  };
+
+  const formatAmount = (amount: number, coinType: string) =>
+    formatCoinAmount(amount, coinMetadata[coinType] ?? { decimals: 9, symbol: getCoinSymbolFromType(coinType) }, 4);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold">{role === "freelancer" ? "Earnings ledger" : "Spend ledger"}</h2>
+          <p className="text-muted-foreground mt-1">
+            {role === "freelancer"
+              ? "Every payment released to you from job escrows"
+              : "Escrow deposits and refunds on the jobs you posted"}
+          </p>
+        </div>
+        {onBack && (
+          <Button onClick={onBack} variant="outline" className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+        )}
+      </div>
+
+      {/* Controls */}
+      <Card>
+        <CardContent className="pt-6 flex flex-wrap items-end gap-4">
+          <div className="flex gap-2">
+            <Button
+              variant={role === "freelancer" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setRole("freelancer")}
+            >
+              Earnings
+            </Button>
+            <Button
+              variant={role === "client" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setRole("client")}
+            >
+              Spend
+            </Button>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ledger-from">From</Label>
+            <Input id="ledger-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ledger-to">To</Label>
+            <Input id="ledger-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          {(fromDate || toDate) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setFromDate("");
+                setToDate("");
+              }}
+            >
+              All time
+            </Button>
+          )}
+          <div className="flex gap-2 ml-auto">
+            <Button variant="outline" size="sm" onClick={() => handleExport("csv")} disabled={rows.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExport("json")} disabled={rows.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              JSON
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Totals */}
+      {totals.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {totals.map((total) => (
+            <Card key={total.coinType}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  {role === "freelancer" ? "Earned" : "Net spend"} ({total.count} entries)
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatAmount(total.amount, total.coinType)}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Ledger */}
+      {isPending ? (
+        <div className="text-center py-12">
+          <div className="animate-pulse">Loading ledger from on-chain events...</div>
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertDescription>Error loading ledger: {error.message}</AlertDescription>
+        </Alert>
+      ) : rows.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center py-12">
+            <p className="text-muted-foreground">
+              {entryCount > 0
+                ? "No entries in this date range."
+                : role === "freelancer"
+                  ? "No payments received yet."
+                  : "No escrow deposits yet."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="pt-6 overflow-x-auto space-y-4">
+            {receipts.error && (
+              <Alert variant="destructive">
+                <AlertDescription>Error generating invoice: {receipts.error}</AlertDescription>
+              </Alert>
+            )}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Job</th>
+                  <th className="py-2 pr-4 font-medium">Type</th>
+                  <th className="py-2 pr-4 font-medium">Milestone</th>
+                  <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                  <th className="py-2 pr-4 font-medium text-right">Running total</th>
+                  <th className="py-2 pr-4 font-medium">Transaction</th>
+                  {role === "freelancer" && <th className="py-2 font-medium">Invoice</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {displayedRows.map((row) => {
+                  const invoiceMilestone = getInvoiceMilestone(row);
+                  return (
+                    <tr key={row.key} className="border-b last:border-0">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(row.timestamp)}</td>
+                      <td className="py-2 pr-4 max-w-[16rem] truncate" title={row.jobTitle}>
+                        {row.jobTitle}
+                      </td>
+                      <td className="py-2 pr-4">{LEDGER_ENTRY_LABELS[row.kind]}</td>
+                      <td className="py-2 pr-4">{row.milestoneId === null ? "—" : `#${row.milestoneId + 1}`}</td>
+                      <td className={`py-2 pr-4 text-right whitespace-nowrap ${row.amount < 0 ? "text-green-400" : ""}`}>
+                        {formatAmount(row.amount, row.coinType)}
+                      </td>
+                      <td className="py-2 pr-4 text-right whitespace-nowrap">
+                        {formatAmount(row.runningTotal, row.coinType)}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <a
+                          href={getExplorerTxUrl(row.txDigest, network)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-blue-400 hover:underline"
+                        >
+                          {shortenAddress(row.txDigest)}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      </td>
+                      {role === "freelancer" && (
+                        <td className="py-2">
+                          {invoiceMilestone !== undefined && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => receipts.download(row.jobId, invoiceMilestone, "freelancer")}
+                              disabled={receipts.downloadingKey !== null}
+                            >
+                              {receipts.downloadingKey === getReceiptKey(row.jobId, invoiceMilestone) ? (
+                                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                              ) : (
+                                <FileText className="h-4 w-4 mr-1" />
+                              )}
+                              PDF
+                            </Button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
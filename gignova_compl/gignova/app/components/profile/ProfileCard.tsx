@@ -15,7 +15,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 import { Badge } from "../ui/badge";
-import { type ProfileData, ProfileType } from "../../services";
+import { type ProfileData, ProfileType, getSkillLabel } from "../../services";
 
 interface ProfileCardProps {
   profile: ProfileData;
@@ -61,7 +61,7 @@ export function ProfileCard({ profile, showDetails = true }: ProfileCardProps) {
             {profile.tags.length > 0 && (
               <div className="flex flex-wrap gap-2">
                 {profile.tags.map((tag, index) => (
-                  <Badge key={index} variant="outline">{tag}</Badge>
+                  <Badge key={index} variant="outline">{getSkillLabel(tag)}</Badge>
                 ))}
               </div>
             )}
@@ -1,15 +1,20 @@
 "use client";
 
-import { useState } from "react";
-import { useSuiClient, useSignAndExecuteTransaction } from "@mysten/dapp-kit";
+import { useMemo, useState } from "react";
+import { useSuiClient } from "@mysten/dapp-kit";
+import { useTransactionPreview } from "@/contexts/TransactionPreviewContext";
 import { AuthService } from "@/services/authService";
 import { createProfileService } from "@/services/profileService";
+import { getSkillLabel, normalizeSkillTags } from "@/services/skillTaxonomy";
+import { MAX_PROFILE_SKILLS } from "@/constants";
 import { useNetworkVariable } from "@/networkConfig";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { SkillPicker } from "@/components/job/SkillPicker";
 
 interface ProfileSetupViewProps {
   onBack?: () => void;
@@ -22,7 +27,7 @@ interface ProfileSetupViewProps {
  */
 export function ProfileSetupView({ onBack, onSuccess }: ProfileSetupViewProps) {
   const suiClient = useSuiClient();
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { signAndExecute } = useTransactionPreview();
   const profilePackageId = useNetworkVariable("profileNftPackageId");
   const identityRegistryId = useNetworkVariable("identityRegistryId");
 
@@ -42,6 +47,13 @@ export function ProfileSetupView({ onBack, onSuccess }: ProfileSetupViewProps) {
   const zkloginSub = jwtPayload?.sub || "";
   const address = jwt ? AuthService.walletAddress() : "";
 
+  // Tags that match the skill taxonomy are stored as skill IDs; the rest are kept as typed
+  const normalizedTags = useMemo(() => normalizeSkillTags(tags.split(",")), [tags]);
+
+  const handleSkillsChange = ({ skills }: { skills: string[] }) => {
+    setTags([...skills.map(getSkillLabel), ...normalizedTags.unmatched].join(", "));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -56,11 +68,8 @@ export function ProfileSetupView({ onBack, onSuccess }: ProfileSetupViewProps) {
         throw new Error("Username is required");
       }
 
-      // Parse tags (comma-separated)
-      const tagArray = tags
-        .split(",")
-        .map((t) => t.trim())
-        .filter((t) => t.length > 0);
+      // Taxonomy skill IDs first, then free-form tags
+      const tagArray = [...normalizedTags.skills, ...normalizedTags.unmatched];
 
       // Create profile service
       const profileService = createProfileService(
@@ -241,6 +250,34 @@ export function ProfileSetupView({ onBack, onSuccess }: ProfileSetupViewProps) {
                   : "Blockchain, DeFi, Gaming"
               }
             />
+            {(normalizedTags.skills.length > 0 || normalizedTags.unmatched.length > 0) && (
+              <div className="flex flex-wrap gap-1">
+                {normalizedTags.skills.map((skillId) => (
+                  <Badge key={skillId} variant="info">
+                    {getSkillLabel(skillId)}
+                  </Badge>
+                ))}
+                {normalizedTags.unmatched.map((tag) => (
+                  <Badge key={tag} variant="outline" title="Not in the skill taxonomy, saved as typed">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {normalizedTags.unmatched.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Outlined tags are not in the skill list and won&apos;t match job skills.
+              </p>
+            )}
+            {profileType === 0 && (
+              <SkillPicker
+                category=""
+                skills={normalizedTags.skills}
+                onChange={handleSkillsChange}
+                maxSkills={MAX_PROFILE_SKILLS}
+                showCategory={false}
+              />
+            )}
           </div>
 
           {/* Avatar URL */}
@@ -16,10 +16,11 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useTransactionPreview } from "@/contexts/TransactionPreviewContext";
 import { useNetworkVariable } from "../../networkConfig";
 import { useCurrentProfile } from "@/hooks";
-import { createProfileService } from "@/services";
+import { createProfileService, formatTransactionError, getSkillLabel, normalizeSkillTag } from "@/services";
 import { ProfileType } from "@/services/types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -44,7 +45,7 @@ import {
   Plus,
   Trash2,
 } from "lucide-react";
-import { formatSUI } from "@/utils";
+import { formatCoinAmount } from "@/utils";
 
 interface ProfileViewProps {
   onBack?: () => void;
@@ -55,7 +56,7 @@ export function ProfileView({ onBack, onCreateProfile }: ProfileViewProps) {
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
   const profilePackageId = useNetworkVariable("profileNftPackageId");
-  const { mutate: signAndExecute } = useSignAndExecuteTransaction();
+  const { signAndExecute } = useTransactionPreview();
 
   const { profile, hasProfile, isPending, refetch } = useCurrentProfile();
   const [isEditing, setIsEditing] = useState(false);
@@ -108,10 +109,12 @@ export function ProfileView({ onBack, onCreateProfile }: ProfileViewProps) {
   };
 
   const handleAddTag = () => {
-    if (newTag.trim() && !editData.tags.includes(newTag.trim())) {
+    // Store taxonomy skills by ID so they match job skills
+    const tag = normalizeSkillTag(newTag) ?? newTag.trim();
+    if (tag && !editData.tags.includes(tag)) {
       setEditData({
         ...editData,
-        tags: [...editData.tags, newTag.trim()],
+        tags: [...editData.tags, tag],
       });
       setNewTag("");
     }
@@ -191,14 +194,14 @@ export function ProfileView({ onBack, onCreateProfile }: ProfileViewProps) {
           },
           onError: (error) => {
             console.error("Error updating profile:", error);
-            setError(error.message || "Failed to update profile");
+            setError(formatTransactionError(error, "Failed to update profile"));
             setIsSaving(false);
           },
         }
       );
     } catch (error: any) {
       console.error("Error updating profile:", error);
-      setError(error.message || "Failed to update profile");
+      setError(formatTransactionError(error, "Failed to update profile"));
       setIsSaving(false);
     }
   };
@@ -252,25 +255,14 @@ export function ProfileView({ onBack, onCreateProfile }: ProfileViewProps) {
           },
           onError: (error) => {
             console.error("Error changing profile type:", error);
-
-            // Parse error for user-friendly message
-            let errorMsg = error.message || "Failed to change account type";
-            if (
-              errorMsg.includes("ECannotChangeTypeWithActiveJobs") ||
-              errorMsg.includes("MoveAbort") && errorMsg.includes("6")
-            ) {
-              errorMsg =
-                "Cannot change account type while you have active jobs. Please complete or cancel them first.";
-            }
-
-            setTypeChangeError(errorMsg);
+            setTypeChangeError(formatTransactionError(error, "Failed to change account type"));
             setIsChangingType(false);
           },
         }
       );
     } catch (error: any) {
       console.error("Error changing profile type:", error);
-      setTypeChangeError(error.message || "Failed to change account type");
+      setTypeChangeError(formatTransactionError(error, "Failed to change account type"));
       setIsChangingType(false);
     }
   };
@@ -501,7 +493,7 @@ export function ProfileView({ onBack, onCreateProfile }: ProfileViewProps) {
                     <div className="flex flex-wrap gap-2">
                       {editData.tags.map((tag) => (
                         <Badge key={tag} variant="secondary" className="gap-2">
-                          {tag}
+                          {getSkillLabel(tag)}
                           <button
                             type="button"
                             onClick={() => handleRemoveTag(tag)}
@@ -518,7 +510,7 @@ export function ProfileView({ onBack, onCreateProfile }: ProfileViewProps) {
                     {profile.tags && profile.tags.length > 0 ? (
                       profile.tags.map((tag) => (
                         <Badge key={tag} variant="secondary">
-                          {tag}
+                          {getSkillLabel(tag)}
                         </Badge>
                       ))
                     ) : (
@@ -665,7 +657,7 @@ export function ProfileView({ onBack, onCreateProfile }: ProfileViewProps) {
                     <p className="text-sm text-purple-100">
                       {profile.profileType === ProfileType.FREELANCER ? "Earned" : "Spent"}
                     </p>
-                    <p className="text-2xl font-bold text-white">{formatSUI(profile.totalAmount)}</p>
+                    <p className="text-2xl font-bold text-white">{formatCoinAmount(profile.totalAmount)}</p>
                   </div>
                 </div>
               </div>
@@ -100,4 +100,80 @@ export const REDIRECT_URL = "http://localhost:3000/auth/callback";
 /**
  * OpenID Provider URL for Google
  */
-export const OPENID_PROVIDER_URL = "https://accounts.google.com/.well-known/openid-configuration";                       
\ No newline at end of file
+export const OPENID_PROVIDER_URL = "https://accounts.google.com/.well-known/openid-configuration";
+
+/**
+ * Escrow Coin Types
+ * Jobs can be funded with any Coin<T>; these are the ones offered in CreateJobView.
+ * USDC is Circle's native USDC on Sui.
+ */
+export const SUI_COIN_TYPE = "0x2::sui::SUI";
+export const TESTNET_USDC_COIN_TYPE =
+  "0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC";
+export const MAINNET_USDC_COIN_TYPE =
+  "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC";
+
+/**
+ * Display metadata for SUI (used before/without on-chain CoinMetadata)
+ */
+export const SUI_COIN_METADATA = { decimals: 9, symbol: "SUI" } as const;
+
+/**
+ * Milestone review window
+ * Time the client has to review a submission before the freelancer can claim payment.
+ * Must match DEFAULT_REVIEW_WINDOW_MS in job_escrow.move (used when 0 is passed).
+ */
+export const DEFAULT_REVIEW_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Longest review window a job can have
+ * Must match MAX_REVIEW_WINDOW_MS in job_escrow.move (longer windows abort with EInvalidReviewWindow)
+ */
+export const MAX_REVIEW_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+export const REVIEW_WINDOW_OPTIONS = [
+  { label: "3 days", value: 3 * 24 * 60 * 60 * 1000 },
+  { label: "7 days", value: DEFAULT_REVIEW_WINDOW_MS },
+  { label: "14 days", value: MAX_REVIEW_WINDOW_MS },
+] as const;
+
+/**
+ * Job application proposals
+ * Must match MAX_PORTFOLIO_LINKS in job_escrow.move
+ */
+export const MAX_PORTFOLIO_LINKS = 5;
+
+/**
+ * Job skill tags (IDs from services/skillTaxonomy.ts)
+ * Must match MAX_JOB_SKILLS in job_escrow.move
+ */
+export const MAX_JOB_SKILLS = 10;
+
+/**
+ * Taxonomy skills selectable on a profile (free-form tags are not counted)
+ */
+export const MAX_PROFILE_SKILLS = 20;
+
+// ======== Indexer ========
+
+/**
+ * Headless indexer API (indexer/, started with `pnpm indexer`)
+ * When set, job list hooks read from the indexer instead of indexing events in the browser.
+ * Set via NEXT_PUBLIC_INDEXER_URL, e.g. http://localhost:4000
+ */
+export const INDEXER_API_URL = process.env.NEXT_PUBLIC_INDEXER_URL || "";
+
+// ======== Fiat Prices ========
+
+/**
+ * Historical coin prices for invoices and receipts (CoinGecko API)
+ * Set NEXT_PUBLIC_FIAT_PRICE_API_URL to use a proxy or a pro API host.
+ */
+export const FIAT_PRICE_API_URL = process.env.NEXT_PUBLIC_FIAT_PRICE_API_URL || "https://api.coingecko.com/api/v3";
+export const FIAT_CURRENCY = "usd";
+
+/** CoinGecko coin IDs by coin symbol */
+export const FIAT_PRICE_COIN_IDS: Record<string, string> = {
+  SUI: "sui",
+  USDC: "usd-coin",
+};
@@ -0,0 +1,126 @@
+"use client";
+import React, { createContext, useCallback, useContext, useMemo, useState, ReactNode } from "react";
+import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  createTransactionPreviewService,
+  type TransactionPreview,
+} from "../services/transactionPreviewService";
+import { TransactionPreviewDialog } from "../components/TransactionPreviewDialog";
+
+/**
+ * Callbacks for a previewed transaction (same shape components pass to dapp-kit's signAndExecute)
+ */
+export interface PreviewedSignAndExecuteOptions {
+  onSuccess?: (result: { digest: string }) => void | Promise<void>;
+  /** Also called with "Transaction cancelled" when the user closes the preview */
+  onError?: (error: Error) => void;
+}
+
+type PreviewedSignAndExecute = (
+  variables: { transaction: Transaction },
+  options?: PreviewedSignAndExecuteOptions
+) => void;
+
+interface PendingTransaction {
+  variables: { transaction: Transaction };
+  options?: PreviewedSignAndExecuteOptions;
+  preview: TransactionPreview | null;
+  isLoading: boolean;
+  loadError: string | null;
+}
+
+interface TransactionPreviewContextType {
+  signAndExecute: PreviewedSignAndExecute;
+}
+
+const TransactionPreviewContext = createContext<TransactionPreviewContextType | undefined>(undefined);
+
+export function TransactionPreviewProvider({ children }: { children: ReactNode }) {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const { mutate: walletSignAndExecute } = useSignAndExecuteTransaction();
+  const [pending, setPending] = useState<PendingTransaction | null>(null);
+
+  const previewService = useMemo(() => createTransactionPreviewService(suiClient), [suiClient]);
+
+  const execute = useCallback(
+    (variables: { transaction: Transaction }, options?: PreviewedSignAndExecuteOptions) => {
+      walletSignAndExecute(variables, {
+        onSuccess: (result) => options?.onSuccess?.(result),
+        onError: (error) => options?.onError?.(error),
+      });
+    },
+    [walletSignAndExecute]
+  );
+
+  const signAndExecute = useCallback<PreviewedSignAndExecute>(
+    (variables, options) => {
+      // Nothing to simulate against without a sender: go straight to the wallet
+      if (!currentAccount) {
+        execute(variables, options);
+        return;
+      }
+
+      setPending({ variables, options, preview: null, isLoading: true, loadError: null });
+
+      previewService
+        .previewTransaction(variables.transaction, currentAccount.address)
+        .then((preview) => {
+          setPending((prev) =>
+            prev?.variables === variables ? { ...prev, preview, isLoading: false } : prev
+          );
+        })
+        .catch((error) => {
+          console.error("Transaction preview failed:", error);
+          setPending((prev) =>
+            prev?.variables === variables
+              ? { ...prev, isLoading: false, loadError: error?.message || "Simulation failed" }
+              : prev
+          );
+        });
+    },
+    [currentAccount, execute, previewService]
+  );
+
+  const handleConfirm = () => {
+    if (!pending) return;
+    setPending(null);
+    execute(pending.variables, pending.options);
+  };
+
+  const handleCancel = () => {
+    if (!pending) return;
+    setPending(null);
+    pending.options?.onError?.(new Error("Transaction cancelled"));
+  };
+
+  return (
+    <TransactionPreviewContext.Provider value={{ signAndExecute }}>
+      {children}
+      <TransactionPreviewDialog
+        open={pending !== null}
+        preview={pending?.preview ?? null}
+        isLoading={pending?.isLoading ?? false}
+        loadError={pending?.loadError ?? null}
+        sender={currentAccount?.address}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+    </TransactionPreviewContext.Provider>
+  );
+}
+
+/**
+ * Sign and execute with a dry-run preview
+ *
+ * Drop-in replacement for dapp-kit's `useSignAndExecuteTransaction().mutate` for
+ * JobService, ProfileService and WhitelistService transactions.
+ */
+export function useTransactionPreview() {
+  const context = useContext(TransactionPreviewContext);
+  if (context === undefined) {
+    throw new Error('useTransactionPreview must be used within a TransactionPreviewProvider');
+  }
+  return context;
+}
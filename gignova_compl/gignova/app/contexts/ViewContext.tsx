@@ -11,8 +11,10 @@ type ViewType =
   | 'jobDetail'
   | 'freelancerJobDetail'
   | 'createJob'
+  | 'editJob'
   | 'profile'
   | 'profileSetup'
+  | 'ledger'
   // Demo/utility views
   | 'walrus'
   | 'seal'
@@ -4,6 +4,35 @@
  * This module exports all custom hooks for the application.
  */
 
-export { useJob, useJobsByClient, useJobsByFreelancer, useOpenJobs } from "./useJob";
+export {
+  useJob,
+  useJobTimeline,
+  useJobsByClient,
+  useJobsByFreelancer,
+  useApplicationsByFreelancer,
+  useOpenJobs,
+  useAllOpenJobs,
+  useArbiterCaps,
+} from "./useJob";
 export { useProfile, useCurrentProfile, useProfileByOwner, useTopFreelancers } from "./useProfile";
-export { useSuiBalance, useHasSufficientBalance, useShortenAddress, useIsOwner } from "./useWallet";
+export { useCoinBalance, useSuiBalance, useHasSufficientBalance, useShortenAddress, useIsOwner } from "./useWallet";
+export { useCoinMetadata, useCoinMetadataMap } from "./useCoinMetadata";
+export { useCoverLetter } from "./useProposal";
+export { useJobDescription } from "./useJobDescription";
+export { useJobSearch, useJobSearchIndex } from "./useJobSearch";
+export { useSavedSearches, useSavedSearchAlerts, type SavedSearchAlert } from "./useSavedSearches";
+export { useNotifications, type NotificationItem } from "./useNotifications";
+export { useEarningsLedger } from "./useEarningsLedger";
+export { useReceiptDownload, getReceiptKey } from "./useReceipts";
+export {
+  useFreelancerHistory,
+  useJobRecommendations,
+  useApplicantRecommendations,
+} from "./useRecommendations";
+export { useSchemaDrift } from "./useSchemaDrift";
+export {
+  useLiveJobUpdates,
+  useJobChanges,
+  LIVE_CHANGE_HIGHLIGHT_MS,
+  type TrackedJobField,
+} from "./useLiveJobUpdates";
@@ -0,0 +1,88 @@
+/**
+ * useCoinMetadata Hook
+ * Fetches and caches display metadata (decimals, symbol) for escrow coin types
+ */
+
+"use client";
+
+import { useSuiClient } from "@mysten/dapp-kit";
+import { useMemo } from "react";
+import { useQuery, useQueries } from "@tanstack/react-query";
+import { SUI_COIN_METADATA, SUI_COIN_TYPE } from "../constants";
+import { type CoinDisplayMetadata, getCoinSymbolFromType } from "../utils";
+
+/**
+ * Hook to fetch coin metadata for a coin type
+ * SUI resolves immediately; other coins fall back to 9 decimals and the
+ * struct name as symbol until CoinMetadata loads.
+ *
+ * @param coinType Fully qualified coin type (default: SUI)
+ * @returns Coin display metadata and loading state
+ */
+export function useCoinMetadata(coinType: string = SUI_COIN_TYPE) {
+  const suiClient = useSuiClient();
+  const isSui = coinType === SUI_COIN_TYPE;
+
+  const { data, isPending } = useQuery({
+    queryKey: ["coinMetadata", coinType],
+    queryFn: () => fetchCoinDisplayMetadata(suiClient, coinType),
+    enabled: !isSui,
+    staleTime: Infinity, // Coin metadata is effectively immutable
+  });
+
+  return {
+    metadata: isSui ? SUI_COIN_METADATA : data ?? fallbackMetadata(coinType),
+    isPending: isSui ? false : isPending,
+  };
+}
+
+/**
+ * Hook to fetch metadata for several coin types at once (e.g., currency selector)
+ *
+ * @param coinTypes Fully qualified coin types
+ * @returns Map of coin type to display metadata
+ */
+export function useCoinMetadataMap(coinTypes: readonly string[]) {
+  const suiClient = useSuiClient();
+
+  const fetched = useQueries({
+    queries: coinTypes.map((coinType) => ({
+      queryKey: ["coinMetadata", coinType],
+      queryFn: () => fetchCoinDisplayMetadata(suiClient, coinType),
+      enabled: coinType !== SUI_COIN_TYPE,
+      staleTime: Infinity,
+    })),
+    combine: selectQueryData,
+  });
+
+  // Stable map so callers can use it as a memo dependency
+  return useMemo(() => {
+    const metadataMap: Record<string, CoinDisplayMetadata> = {};
+    coinTypes.forEach((coinType, i) => {
+      metadataMap[coinType] =
+        coinType === SUI_COIN_TYPE
+          ? SUI_COIN_METADATA
+          : fetched[i] ?? fallbackMetadata(coinType);
+    });
+    return metadataMap;
+  }, [coinTypes, fetched]);
+}
+
+function selectQueryData(results: { data?: CoinDisplayMetadata }[]) {
+  return results.map((result) => result.data);
+}
+
+async function fetchCoinDisplayMetadata(
+  suiClient: ReturnType<typeof useSuiClient>,
+  coinType: string
+): Promise<CoinDisplayMetadata> {
+  const metadata = await suiClient.getCoinMetadata({ coinType });
+  if (!metadata) {
+    return fallbackMetadata(coinType);
+  }
+  return { decimals: metadata.decimals, symbol: metadata.symbol };
+}
+
+function fallbackMetadata(coinType: string): CoinDisplayMetadata {
+  return { decimals: SUI_COIN_METADATA.decimals, symbol: getCoinSymbolFromType(coinType) };
+}
@@ -0,0 +1,100 @@
+/**
+ * useEarningsLedger Hook
+ * Per-payment ledger of the connected wallet: earnings as freelancer, spend as client
+ *
+ * Reads the events of the user's jobs from the indexer API or the local event projection
+ * when available, else scans each job's transactions over RPC.
+ */
+
+"use client";
+
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNetworkVariable } from "../networkConfig";
+import {
+  JobData,
+  LedgerDateRange,
+  LedgerRole,
+  StoredJobEvent,
+  buildLedger,
+  createJobEventIndexer,
+  createJobService,
+  getLedgerTotals,
+  jobProjectionToJobData,
+  toLedgerRows,
+} from "../services";
+import { useIndexerApi, useJobEventStore } from "./useJob";
+import { useLiveJobUpdates } from "./useLiveJobUpdates";
+
+/**
+ * Hook to build the connected wallet's ledger
+ *
+ * @param role "freelancer" for payments received, "client" for escrow deposits and refunds
+ * @param range Date range of the rows and totals (memoize to avoid recomputing)
+ * @returns Rows with running totals (oldest first), totals per coin type, loading state, error
+ */
+export function useEarningsLedger(role: LedgerRole, range: LedgerDateRange = {}) {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const indexerApi = useIndexerApi();
+  const jobEventStore = useJobEventStore();
+  const address = currentAccount?.address;
+
+  const jobService = useMemo(() => createJobService(suiClient, jobPackageId), [suiClient, jobPackageId]);
+  const jobEventIndexer = useMemo(
+    () => createJobEventIndexer(suiClient, jobPackageId),
+    [suiClient, jobPackageId]
+  );
+
+  const { data, isPending, error, refetch } = useQuery({
+    queryKey: ["ledger", role, address],
+    queryFn: async () => {
+      let jobs: JobData[];
+      if (indexerApi) {
+        jobs = role === "client" ? await indexerApi.getJobsByClient(address!) : await indexerApi.getJobsByFreelancer(address!);
+      } else if (jobEventStore) {
+        await jobEventStore.sync();
+        const projections =
+          role === "client"
+            ? await jobEventStore.getJobsByClient(address!)
+            : await jobEventStore.getJobsByFreelancer(address!);
+        jobs = projections.map(jobProjectionToJobData);
+      } else {
+        jobs = role === "client" ? await jobService.getJobsByClient(address!) : await jobService.getJobsByFreelancer(address!);
+      }
+
+      const eventLists: StoredJobEvent[][] = await Promise.all(
+        jobs.map((job) =>
+          indexerApi
+            ? indexerApi.getJobEvents(job.objectId)
+            : jobEventStore
+              ? jobEventStore.getJobEvents(job.objectId)
+              : jobEventIndexer.queryJobEvents(job.objectId)
+        )
+      );
+      const eventsByJob = new Map(jobs.map((job, i) => [job.objectId, eventLists[i]] as [string, StoredJobEvent[]]));
+
+      return { jobs, entries: buildLedger(role, address!, jobs, eventsByJob) };
+    },
+    enabled: !!address,
+    staleTime: 30000,
+  });
+
+  // New payments on the user's jobs refresh the ledger
+  useLiveJobUpdates(data?.jobs.map((job) => job.objectId) ?? []);
+
+  const rows = useMemo(() => toLedgerRows(data?.entries ?? [], range), [data, range]);
+  const totals = useMemo(() => getLedgerTotals(rows), [rows]);
+
+  return {
+    rows,
+    totals,
+    /** All entries regardless of the date range */
+    entryCount: data?.entries.length ?? 0,
+    isPending,
+    error: error as Error | null,
+    refetch,
+  };
+}
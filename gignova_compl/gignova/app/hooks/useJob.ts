@@ -2,11 +2,13 @@
  * useJob Hook
  * Custom hook for fetching and caching job data
  *
+ * Job queries are refetched when useLiveJobUpdates sees new events for the jobs they hold.
+ * Job lists are read from the headless indexer API when NEXT_PUBLIC_INDEXER_URL is set
+ * (indexer mode), otherwise from the browser's event store or RPC (direct-RPC mode).
+ *
  * DEV 3 TODO:
- * 1. Implement with @tanstack/react-query
- * 2. Add automatic refetching on relevant events
- * 3. Add optimistic updates for state changes
- * 4. Test with real job data
+ * 1. Add optimistic updates for state changes
+ * 2. Test with real job data
  */
 
 "use client";
@@ -15,7 +17,38 @@ import { useSuiClient } from "@mysten/dapp-kit";
 import { useNetworkVariable } from "../networkConfig";
 import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { createJobService } from "../services";
+import { INDEXER_API_URL } from "../constants";
+import {
+  JobEventStore,
+  createIndexerApiClient,
+  createJobEventIndexer,
+  createJobEventStore,
+  createJobService,
+  jobProjectionToJobData,
+} from "../services";
+import { useLiveJobUpdates } from "./useLiveJobUpdates";
+
+/**
+ * Local job event store for the current package
+ * Returns null when IndexedDB is unavailable (SSR); callers fall back to RPC queries.
+ */
+export function useJobEventStore() {
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+
+  return useMemo(
+    () => (JobEventStore.isSupported() ? createJobEventStore(suiClient, jobPackageId) : null),
+    [suiClient, jobPackageId]
+  );
+}
+
+/**
+ * Headless indexer API client
+ * Returns null in direct-RPC mode (NEXT_PUBLIC_INDEXER_URL not set).
+ */
+export function useIndexerApi() {
+  return useMemo(() => (INDEXER_API_URL ? createIndexerApiClient(INDEXER_API_URL) : null), []);
+}
 
 /**
  * Hook to fetch job details by ID
@@ -41,6 +74,8 @@ export function useJob(jobId: string | undefined) {
     refetchInterval: 10000, // INCREASED: Refetch every 10 seconds (reduced from 30s)
   });
 
+  useLiveJobUpdates(jobId ? [jobId] : []);
+
   return {
     job: data || null,
     isPending,
@@ -49,9 +84,42 @@ export function useJob(jobId: string | undefined) {
   };
 }
 
+/**
+ * Hook to fetch the activity timeline of a job
+ * Refetched by live updates when the job emits new events
+ *
+ * @param jobId Job object ID
+ * @returns Timeline entries (oldest first), loading state, error
+ */
+export function useJobTimeline(jobId: string | undefined) {
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+
+  const jobEventIndexer = useMemo(
+    () => createJobEventIndexer(suiClient, jobPackageId),
+    [suiClient, jobPackageId]
+  );
+
+  const { data, isPending, error, refetch } = useQuery({
+    queryKey: ["jobTimeline", jobId],
+    queryFn: () => jobEventIndexer.queryJobTimeline(jobId!),
+    enabled: !!jobId,
+    staleTime: 30000,
+  });
+
+  useLiveJobUpdates(jobId ? [jobId] : []);
+
+  return {
+    timeline: data || [],
+    isPending,
+    error: error as Error | null,
+    refetch,
+  };
+}
+
 /**
  * Hook to fetch jobs posted by a client
- * Uses event-based indexing to discover jobs
+ * Reads the indexer API, or the local event projection after syncing new events
  *
  * @param clientAddress Client's address
  * @returns Array of jobs, loading state, error
@@ -59,6 +127,8 @@ export function useJob(jobId: string | undefined) {
 export function useJobsByClient(clientAddress: string | undefined) {
   const suiClient = useSuiClient();
   const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const jobEventStore = useJobEventStore();
+  const indexerApi = useIndexerApi();
 
   const jobService = useMemo(
     () => createJobService(suiClient, jobPackageId),
@@ -67,12 +137,24 @@ export function useJobsByClient(clientAddress: string | undefined) {
 
   const { data, isPending, error, refetch } = useQuery({
     queryKey: ["jobs", "client", clientAddress],
-    queryFn: () => jobService.getJobsByClient(clientAddress!),
+    queryFn: async () => {
+      if (indexerApi) {
+        return indexerApi.getJobsByClient(clientAddress!);
+      }
+      if (!jobEventStore) {
+        return jobService.getJobsByClient(clientAddress!);
+      }
+      await jobEventStore.sync();
+      const jobs = await jobEventStore.getJobsByClient(clientAddress!);
+      return jobs.map(jobProjectionToJobData);
+    },
     enabled: !!clientAddress,
     staleTime: 0, // Always fetch fresh data
     refetchInterval: 10000, // Refresh every 10 seconds
   });
 
+  useLiveJobUpdates(data?.map((job) => job.objectId) ?? []);
+
   return {
     jobs: data || [],
     isPending,
@@ -83,7 +165,7 @@ export function useJobsByClient(clientAddress: string | undefined) {
 
 /**
  * Hook to fetch jobs assigned to a freelancer
- * Uses FreelancerAssigned events to discover assigned jobs
+ * Reads the indexer API, or the local event projection (FreelancerAssigned / JobStateChanged) after syncing
  *
  * @param freelancerAddress Freelancer's address
  * @returns Array of jobs, loading state, error
@@ -91,6 +173,8 @@ export function useJobsByClient(clientAddress: string | undefined) {
 export function useJobsByFreelancer(freelancerAddress: string | undefined) {
   const suiClient = useSuiClient();
   const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const jobEventStore = useJobEventStore();
+  const indexerApi = useIndexerApi();
 
   const jobService = useMemo(
     () => createJobService(suiClient, jobPackageId),
@@ -99,12 +183,24 @@ export function useJobsByFreelancer(freelancerAddress: string | undefined) {
 
   const { data, isPending, error, refetch } = useQuery({
     queryKey: ["jobs", "freelancer", freelancerAddress],
-    queryFn: () => jobService.getJobsByFreelancer(freelancerAddress!),
+    queryFn: async () => {
+      if (indexerApi) {
+        return indexerApi.getJobsByFreelancer(freelancerAddress!);
+      }
+      if (!jobEventStore) {
+        return jobService.getJobsByFreelancer(freelancerAddress!);
+      }
+      await jobEventStore.sync();
+      const jobs = await jobEventStore.getJobsByFreelancer(freelancerAddress!);
+      return jobs.map(jobProjectionToJobData);
+    },
     enabled: !!freelancerAddress,
     staleTime: 0, // Always fetch fresh data
     refetchInterval: 10000, // Refresh every 10 seconds
   });
 
+  useLiveJobUpdates(data?.map((job) => job.objectId) ?? []);
+
   return {
     jobs: data || [],
     isPending,
@@ -113,9 +209,43 @@ export function useJobsByFreelancer(freelancerAddress: string | undefined) {
   };
 }
 
+/**
+ * Hook to fetch a freelancer's applications with their current status
+ * Uses application events so withdrawn and rejected applications are reported
+ *
+ * @param freelancerAddress Freelancer's address
+ * @returns Array of applications, loading state, error
+ */
+export function useApplicationsByFreelancer(freelancerAddress: string | undefined) {
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+
+  const jobService = useMemo(
+    () => createJobService(suiClient, jobPackageId),
+    [suiClient, jobPackageId]
+  );
+
+  const { data, isPending, error, refetch } = useQuery({
+    queryKey: ["applications", "freelancer", freelancerAddress],
+    queryFn: () => jobService.getApplicationsByFreelancer(freelancerAddress!),
+    enabled: !!freelancerAddress,
+    staleTime: 0, // Always fetch fresh data
+    refetchInterval: 10000, // Refresh every 10 seconds
+  });
+
+  useLiveJobUpdates(data?.map((application) => application.job.objectId) ?? []);
+
+  return {
+    applications: data || [],
+    isPending,
+    error: error as Error | null,
+    refetch,
+  };
+}
+
 /**
  * Hook to fetch open jobs for marketplace
- * Uses event-based indexing to discover jobs filtered by OPEN state
+ * Reads the indexer API, or the local event projection filtered by OPEN state after syncing new events
  *
  * @param limit Maximum number of jobs to fetch (default: 50)
  * @returns Array of open jobs, loading state, error
@@ -123,6 +253,8 @@ export function useJobsByFreelancer(freelancerAddress: string | undefined) {
 export function useOpenJobs(limit: number = 50) {
   const suiClient = useSuiClient();
   const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const jobEventStore = useJobEventStore();
+  const indexerApi = useIndexerApi();
 
   const jobService = useMemo(
     () => createJobService(suiClient, jobPackageId),
@@ -131,11 +263,24 @@ export function useOpenJobs(limit: number = 50) {
 
   const { data, isPending, error, refetch } = useQuery({
     queryKey: ["jobs", "open", limit],
-    queryFn: () => jobService.getOpenJobs(limit),
+    queryFn: async () => {
+      if (indexerApi) {
+        return indexerApi.getOpenJobs(limit);
+      }
+      if (!jobEventStore) {
+        return jobService.getOpenJobs(limit);
+      }
+      await jobEventStore.sync();
+      const jobs = await jobEventStore.getOpenJobs(limit);
+      return jobs.map(jobProjectionToJobData);
+    },
     staleTime: 0, // REDUCED: Always fetch fresh data to catch state changes immediately
     refetchInterval: 10000, // INCREASED: Auto-refresh marketplace every 10 seconds (reduced from 30s)
   });
 
+  // Watch every job so new listings and state changes show up too
+  useLiveJobUpdates("all");
+
   return {
     jobs: data || [],
     isPending,
@@ -143,3 +288,85 @@ export function useOpenJobs(limit: number = 50) {
     refetch,
   };
 }
+
+/** Open jobs fetched in RPC mode, where no complete projection is available */
+const RPC_ALL_OPEN_JOBS_LIMIT = 500;
+
+/**
+ * Hook to fetch every open job (search and recommendations rank the whole index)
+ * Reads the indexer API or the whole local projection; RPC mode is capped at 500 jobs.
+ *
+ * @param enabled Fetch and watch for new jobs (default: true)
+ * @returns Array of open jobs, time of the last fetch, loading state, error
+ */
+export function useAllOpenJobs(enabled: boolean = true) {
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const jobEventStore = useJobEventStore();
+  const indexerApi = useIndexerApi();
+
+  const jobService = useMemo(
+    () => createJobService(suiClient, jobPackageId),
+    [suiClient, jobPackageId]
+  );
+
+  const { data, isPending, error, refetch, dataUpdatedAt } = useQuery({
+    queryKey: ["jobs", "open", "all"],
+    queryFn: async () => {
+      if (indexerApi) {
+        return indexerApi.getAllOpenJobs();
+      }
+      if (!jobEventStore) {
+        return jobService.getOpenJobs(RPC_ALL_OPEN_JOBS_LIMIT);
+      }
+      await jobEventStore.sync();
+      const jobs = await jobEventStore.getOpenJobs(Number.MAX_SAFE_INTEGER);
+      return jobs.map(jobProjectionToJobData);
+    },
+    enabled,
+    staleTime: 0,
+    refetchInterval: 10000,
+  });
+
+  useLiveJobUpdates(enabled ? "all" : []);
+
+  return {
+    jobs: data || [],
+    /** 0 until the first successful fetch */
+    dataUpdatedAt,
+    isPending,
+    error: error as Error | null,
+    refetch,
+  };
+}
+
+/**
+ * Hook to fetch ArbiterCaps owned by an address
+ * Used to show dispute resolution controls to the platform arbiter
+ *
+ * @param ownerAddress Owner's address
+ * @returns Array of ArbiterCaps, loading state, error
+ */
+export function useArbiterCaps(ownerAddress: string | undefined) {
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+
+  const jobService = useMemo(
+    () => createJobService(suiClient, jobPackageId),
+    [suiClient, jobPackageId]
+  );
+
+  const { data, isPending, error, refetch } = useQuery({
+    queryKey: ["arbiterCaps", ownerAddress],
+    queryFn: () => jobService.getArbiterCapsByOwner(ownerAddress!),
+    enabled: !!ownerAddress,
+    staleTime: 60000, // Arbiter role rarely changes
+  });
+
+  return {
+    arbiterCaps: data || [],
+    isPending,
+    error: error as Error | null,
+    refetch,
+  };
+}
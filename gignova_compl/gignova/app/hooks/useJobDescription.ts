@@ -0,0 +1,44 @@
+/**
+ * useJobDescription Hook
+ * Loads a job's Markdown description and attachments from Walrus
+ */
+
+"use client";
+
+import { useSuiClientContext } from "@mysten/dapp-kit";
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { JobDescriptionUnavailableError, createJobDescriptionService } from "../services";
+
+/**
+ * Hook to load a job description
+ * Quilts are immutable, so they are cached indefinitely. Expired blobs are not retried.
+ *
+ * @param descriptionBlobId description_blob_id from the job (legacy inline text is returned as-is)
+ * @returns Description content, loading state, error and refetch
+ */
+export function useJobDescription(descriptionBlobId: string | undefined) {
+  const { network } = useSuiClientContext();
+
+  const jobDescriptionService = useMemo(
+    () => createJobDescriptionService({ network: network === "mainnet" ? "mainnet" : "testnet" }),
+    [network]
+  );
+
+  const { data, isPending, error, refetch, isRefetching } = useQuery({
+    queryKey: ["jobDescription", descriptionBlobId],
+    queryFn: () => jobDescriptionService.getDescription(descriptionBlobId!),
+    enabled: !!descriptionBlobId,
+    staleTime: Infinity,
+    retry: (failureCount, error) =>
+      failureCount < 1 &&
+      !(error instanceof JobDescriptionUnavailableError && error.reason === "expired"),
+  });
+
+  return {
+    description: data ?? null,
+    isPending: !!descriptionBlobId && (isPending || isRefetching),
+    error: error as JobDescriptionUnavailableError | Error | null,
+    refetch,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * useJobSearch Hook
+ * Full-text and faceted search over every open job
+ *
+ * Open jobs come from the indexer API or the local event projection (the whole index,
+ * not the latest events). The search index is rebuilt when the job list changes;
+ * descriptions are cached, so rebuilds only fetch new blobs from Walrus.
+ */
+
+"use client";
+
+import { useSuiClient, useSuiClientContext } from "@mysten/dapp-kit";
+import { useMemo } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useNetworkVariable } from "../networkConfig";
+import {
+  JobData,
+  JobSearchQuery,
+  createJobDescriptionService,
+  createJobSearchService,
+} from "../services";
+import { useCoinMetadataMap } from "./useCoinMetadata";
+import { useAllOpenJobs } from "./useJob";
+
+/**
+ * Hook to build a search index over jobs
+ * Shared by the marketplace search and saved search alerts.
+ *
+ * @param jobs Jobs to index
+ * @param version Changes whenever jobs change (e.g. the fetch time), part of the query key
+ * @param enabled Build only once jobs are loaded
+ * @returns Search index (the previous one while rebuilding), loading state, error
+ */
+export function useJobSearchIndex(jobs: JobData[], version: string | number, enabled: boolean = true) {
+  const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
+  const profilePackageId = useNetworkVariable("profileNftPackageId");
+  const coinMetadataMap = useCoinMetadataMap(useNetworkVariable("escrowCoinTypes"));
+
+  const jobSearchService = useMemo(
+    () =>
+      createJobSearchService(
+        suiClient,
+        profilePackageId,
+        createJobDescriptionService({ network: network === "mainnet" ? "mainnet" : "testnet" })
+      ),
+    [suiClient, profilePackageId, network]
+  );
+
+  const decimalsByCoinType = useMemo(() => {
+    const decimals: Record<string, number> = {};
+    for (const [coinType, metadata] of Object.entries(coinMetadataMap)) {
+      decimals[coinType] = metadata.decimals;
+    }
+    return decimals;
+  }, [coinMetadataMap]);
+
+  const { data, isPending, error } = useQuery({
+    queryKey: ["jobSearchIndex", network, version, decimalsByCoinType],
+    queryFn: () => jobSearchService.buildIndex(jobs, decimalsByCoinType),
+    enabled,
+    staleTime: Infinity,
+    placeholderData: keepPreviousData, // Keep showing results while a new index builds
+  });
+
+  return {
+    index: data ?? null,
+    isPending,
+    error: error as Error | null,
+  };
+}
+
+/**
+ * Hook to search open jobs
+ *
+ * @param query Search text, facet selections, sort and page (memoize to avoid re-searching)
+ * @returns Page of jobs, total matches, facet counts and loading state
+ */
+export function useJobSearch(query: JobSearchQuery) {
+  const { jobs: openJobs, error: jobsError, refetch, dataUpdatedAt } = useAllOpenJobs();
+  const {
+    index,
+    isPending: isIndexing,
+    error: indexError,
+  } = useJobSearchIndex(openJobs, dataUpdatedAt, dataUpdatedAt > 0);
+
+  const result = useMemo(() => index?.search(query) ?? null, [index, query]);
+
+  return {
+    jobs: result?.hits.map((hit) => hit.job) ?? [],
+    hits: result?.hits ?? [],
+    total: result?.total ?? 0,
+    facets: result?.facets ?? null,
+    /** Number of open jobs in the index */
+    indexSize: index?.size ?? 0,
+    isPending: isIndexing,
+    error: (jobsError ?? indexError) as Error | null,
+    refetch,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * useLiveJobUpdates Hook
+ * Pushes on-chain job changes into the job queries and flags changed fields
+ */
+
+"use client";
+
+import { useSuiClient } from "@mysten/dapp-kit";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useNetworkVariable } from "../networkConfig";
+import {
+  createJobLiveUpdateService,
+  type JobData,
+  type JobLiveUpdate,
+  type LiveUpdateTarget,
+} from "../services";
+
+/** How long a changed field stays highlighted */
+export const LIVE_CHANGE_HIGHLIGHT_MS = 6000;
+
+/** Job fields compared to detect live changes */
+const TRACKED_JOB_FIELDS = [
+  "title",
+  "descriptionBlobId",
+  "budget",
+  "state",
+  "freelancer",
+  "milestones",
+  "milestoneCount",
+  "applicants",
+  "proposals",
+  "deadline",
+  "deliverableBlobIds",
+  "escrowBalance",
+  "dispute",
+  "pendingExtension",
+] as const;
+
+export type TrackedJobField = (typeof TRACKED_JOB_FIELDS)[number];
+
+/**
+ * Hook to subscribe to live changes of jobs
+ * New events for watched jobs invalidate the affected job and job list queries,
+ * so mounted hooks refetch without a manual refresh.
+ *
+ * @param target Job IDs to watch (empty to pause), or "all" for every job
+ * @returns Latest update received and its time
+ */
+export function useLiveJobUpdates(target: LiveUpdateTarget) {
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const queryClient = useQueryClient();
+  const [lastUpdate, setLastUpdate] = useState<JobLiveUpdate | null>(null);
+
+  const liveUpdateService = useMemo(
+    () => createJobLiveUpdateService(suiClient, jobPackageId),
+    [suiClient, jobPackageId]
+  );
+
+  // Resubscribe only when the watched IDs change, not on every new array
+  const targetKey = target === "all" ? "all" : Array.from(new Set(target)).sort().join(",");
+
+  useEffect(() => {
+    if (!targetKey || jobPackageId.includes("TODO")) {
+      return;
+    }
+
+    const watched: LiveUpdateTarget = targetKey === "all" ? "all" : targetKey.split(",");
+    return liveUpdateService.subscribe(watched, (updates) => {
+      for (const jobId of new Set(updates.map((update) => update.jobId))) {
+        queryClient.invalidateQueries({ queryKey: ["job", jobId] });
+        queryClient.invalidateQueries({ queryKey: ["jobTimeline", jobId] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["applications"] });
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+      queryClient.invalidateQueries({ queryKey: ["ledger"] });
+      setLastUpdate(updates[updates.length - 1]);
+    });
+  }, [liveUpdateService, queryClient, targetKey, jobPackageId]);
+
+  return { lastUpdate };
+}
+
+/**
+ * Hook to detect which fields of a job changed since it was last rendered
+ * The first load is not a change; fields stay flagged for LIVE_CHANGE_HIGHLIGHT_MS.
+ *
+ * @param job Current job data (changes of job ID reset the comparison)
+ * @returns Set of changed field names
+ */
+export function useJobChanges(job: JobData | null | undefined): Set<TrackedJobField> {
+  const previous = useRef<{ jobId: string; snapshot: Record<TrackedJobField, string> } | null>(null);
+  const timers = useRef(new Map<TrackedJobField, ReturnType<typeof setTimeout>>());
+  const [changed, setChanged] = useState<Set<TrackedJobField>>(() => new Set());
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  useEffect(() => {
+    if (!job) {
+      return;
+    }
+
+    const snapshot = snapshotJob(job);
+    const last = previous.current;
+    previous.current = { jobId: job.objectId, snapshot };
+
+    if (!last || last.jobId !== job.objectId) {
+      setChanged(new Set());
+      return;
+    }
+
+    const fields = TRACKED_JOB_FIELDS.filter((field) => last.snapshot[field] !== snapshot[field]);
+    if (fields.length === 0) {
+      return;
+    }
+
+    setChanged((current) => new Set([...Array.from(current), ...fields]));
+    for (const field of fields) {
+      clearTimeout(timers.current.get(field));
+      timers.current.set(
+        field,
+        setTimeout(() => {
+          timers.current.delete(field);
+          setChanged((current) => {
+            const next = new Set(current);
+            next.delete(field);
+            return next;
+          });
+        }, LIVE_CHANGE_HIGHLIGHT_MS)
+      );
+    }
+  }, [job]);
+
+  return changed;
+}
+
+function snapshotJob(job: JobData): Record<TrackedJobField, string> {
+  const snapshot = {} as Record<TrackedJobField, string>;
+  for (const field of TRACKED_JOB_FIELDS) {
+    snapshot[field] = JSON.stringify(job[field] ?? null, (_, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    );
+  }
+  return snapshot;
+}
@@ -0,0 +1,132 @@
+/**
+ * useNotifications Hook
+ * Notifications for the connected wallet, derived from job_escrow and profile_nft events
+ *
+ * The wallet's jobs (as client, as freelancer and applied to) tell which events without
+ * an address field concern it. Live job updates invalidate the notifications, and a
+ * slower interval picks up profile events.
+ */
+
+"use client";
+
+import { useCurrentAccount, useSuiClient, useSuiClientContext } from "@mysten/dapp-kit";
+import { useCallback, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNetworkVariable } from "../networkConfig";
+import { AppNotification, NotificationContext, createNotificationService } from "../services";
+import { useApplicationsByFreelancer, useJobsByClient, useJobsByFreelancer } from "./useJob";
+import { useCurrentProfile } from "./useProfile";
+
+/** Notifications shown in the notification center */
+const NOTIFICATION_LIMIT = 50;
+
+/**
+ * Notification with its read state and the title of its job
+ */
+export interface NotificationItem extends AppNotification {
+  read: boolean;
+  jobTitle: string | null;
+}
+
+/**
+ * Hook to read the connected wallet's notifications
+ *
+ * @returns Notifications (newest first), unread count and functions to mark them read
+ */
+export function useNotifications() {
+  const currentAccount = useCurrentAccount();
+  const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const profilePackageId = useNetworkVariable("profileNftPackageId");
+  const queryClient = useQueryClient();
+  const owner = currentAccount?.address;
+
+  const { jobs: clientJobs } = useJobsByClient(owner);
+  const { jobs: freelancerJobs } = useJobsByFreelancer(owner);
+  const { applications } = useApplicationsByFreelancer(owner);
+  const { profile } = useCurrentProfile();
+
+  const notificationService = useMemo(
+    () => createNotificationService(suiClient, jobPackageId, profilePackageId, network),
+    [suiClient, jobPackageId, profilePackageId, network]
+  );
+
+  const jobTitles = useMemo(() => {
+    const titles = new Map<string, string>();
+    for (const job of [...clientJobs, ...freelancerJobs, ...applications.map((application) => application.job)]) {
+      titles.set(job.objectId, job.title);
+    }
+    return titles;
+  }, [clientJobs, freelancerJobs, applications]);
+
+  const context = useMemo<NotificationContext | null>(
+    () =>
+      owner
+        ? {
+            address: owner,
+            clientJobIds: new Set(clientJobs.map((job) => job.objectId)),
+            freelancerJobIds: new Set(freelancerJobs.map((job) => job.objectId)),
+            profileIds: new Set(profile ? [profile.objectId] : []),
+          }
+        : null,
+    [owner, clientJobs, freelancerJobs, profile]
+  );
+
+  // Re-derive when the wallet's jobs change; raw events are cached in the service
+  const contextKey = context
+    ? [Array.from(context.clientJobIds), Array.from(context.freelancerJobIds), Array.from(context.profileIds)]
+        .map((ids) => ids.sort().join(","))
+        .join("|")
+    : "";
+
+  const { data, isPending, error } = useQuery({
+    queryKey: ["notifications", network, owner, contextKey],
+    queryFn: () => notificationService.getNotifications(context!, NOTIFICATION_LIMIT),
+    enabled: !!context && !jobPackageId.includes("TODO"),
+    refetchInterval: 30000,
+    placeholderData: (previous) => previous, // Keep the list while the wallet's jobs load
+  });
+
+  const readStateKey = useMemo(() => ["notificationReadState", network, owner], [network, owner]);
+  const { data: readState } = useQuery({
+    queryKey: readStateKey,
+    queryFn: () => notificationService.getReadState(owner!),
+    enabled: !!owner,
+    staleTime: Infinity,
+  });
+
+  const notifications = useMemo<NotificationItem[]>(
+    () =>
+      (data ?? []).map((notification) => ({
+        ...notification,
+        read: readState ? notificationService.isRead(notification, readState) : true,
+        jobTitle: notification.jobId ? jobTitles.get(notification.jobId) ?? null : null,
+      })),
+    [data, readState, notificationService, jobTitles]
+  );
+
+  const markRead = useCallback(
+    (notificationIds: string[]) => {
+      if (!owner) return;
+      notificationService.markRead(owner, notificationIds);
+      queryClient.invalidateQueries({ queryKey: readStateKey });
+    },
+    [owner, notificationService, queryClient, readStateKey]
+  );
+
+  const markAllRead = useCallback(() => {
+    if (!owner) return;
+    notificationService.markAllRead(owner);
+    queryClient.invalidateQueries({ queryKey: readStateKey });
+  }, [owner, notificationService, queryClient, readStateKey]);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((notification) => !notification.read).length,
+    markRead,
+    markAllRead,
+    isPending,
+    error: error as Error | null,
+  };
+}
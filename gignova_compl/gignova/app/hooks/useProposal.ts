@@ -0,0 +1,41 @@
+/**
+ * useProposal Hooks
+ * Hooks for loading application proposal content
+ */
+
+"use client";
+
+import { useSuiClientContext } from "@mysten/dapp-kit";
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { createProposalService } from "../services";
+
+/**
+ * Hook to load a proposal's cover letter from Walrus
+ * Cover letters are immutable, so they are cached indefinitely.
+ *
+ * @param coverLetterId Walrus file ID from the proposal
+ * @returns Cover letter text, loading state, error
+ */
+export function useCoverLetter(coverLetterId: string | undefined) {
+  const { network } = useSuiClientContext();
+
+  const proposalService = useMemo(
+    () => createProposalService({ network: network === "mainnet" ? "mainnet" : "testnet" }),
+    [network]
+  );
+
+  const { data, isPending, error } = useQuery({
+    queryKey: ["coverLetter", coverLetterId],
+    queryFn: () => proposalService.getCoverLetter(coverLetterId!),
+    enabled: !!coverLetterId,
+    staleTime: Infinity,
+    retry: 1,
+  });
+
+  return {
+    coverLetter: data ?? null,
+    isPending,
+    error: error as Error | null,
+  };
+}
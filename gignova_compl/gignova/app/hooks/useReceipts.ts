@@ -0,0 +1,116 @@
+/**
+ * useReceipts Hook
+ * Downloads invoices and receipts for approved milestones and completed jobs as PDF
+ *
+ * Each download reads the job, its events (indexer API, local event store or RPC scan),
+ * both profiles and the coin's fiat price on the approval day, then renders the PDF.
+ */
+
+"use client";
+
+import { useSuiClient, useSuiClientContext } from "@mysten/dapp-kit";
+import { useCallback, useMemo, useState } from "react";
+import { useNetworkVariable } from "../networkConfig";
+import {
+  ReceiptAudience,
+  buildReceipt,
+  createFiatPriceService,
+  createJobEventIndexer,
+  createJobService,
+  createProfileService,
+  getReceiptFileName,
+  renderReceiptPdf,
+} from "../services";
+import { DeliverableService } from "../services/deliverableService";
+import { getCoinSymbolFromType } from "../utils";
+import { useCoinMetadataMap } from "./useCoinMetadata";
+import { useIndexerApi, useJobEventStore } from "./useJob";
+
+/**
+ * Key of a document, for loading states
+ *
+ * @param jobId Job object ID
+ * @param milestoneId Milestone (0-based), or null for the whole job
+ */
+export function getReceiptKey(jobId: string, milestoneId: number | null): string {
+  return `${jobId}:${milestoneId ?? "job"}`;
+}
+
+/**
+ * Hook to download milestone and job documents
+ *
+ * @returns download function, key of the document being generated, last error
+ */
+export function useReceiptDownload() {
+  const suiClient = useSuiClient();
+  const { network } = useSuiClientContext();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const profilePackageId = useNetworkVariable("profileNftPackageId");
+  const coinMetadataMap = useCoinMetadataMap(useNetworkVariable("escrowCoinTypes"));
+  const indexerApi = useIndexerApi();
+  const jobEventStore = useJobEventStore();
+  const [downloadingKey, setDownloadingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const services = useMemo(
+    () => ({
+      jobService: createJobService(suiClient, jobPackageId),
+      jobEventIndexer: createJobEventIndexer(suiClient, jobPackageId),
+      profileService: createProfileService(suiClient, profilePackageId),
+      fiatPriceService: createFiatPriceService(),
+    }),
+    [suiClient, jobPackageId, profilePackageId]
+  );
+
+  /**
+   * Generate and download a document
+   *
+   * @param jobId Job object ID
+   * @param milestoneId Milestone (0-based), or null for the completed job
+   * @param audience "freelancer" for an invoice, "client" for a payment receipt
+   */
+  const download = useCallback(
+    async (jobId: string, milestoneId: number | null, audience: ReceiptAudience) => {
+      const { jobService, jobEventIndexer, profileService, fiatPriceService } = services;
+      setDownloadingKey(getReceiptKey(jobId, milestoneId));
+      setError(null);
+
+      try {
+        const job = await jobService.getJob(jobId);
+        if (!job) {
+          throw new Error("Job not found");
+        }
+
+        if (!indexerApi && jobEventStore) await jobEventStore.sync();
+        const events = indexerApi
+          ? await indexerApi.getJobEvents(jobId)
+          : jobEventStore
+            ? await jobEventStore.getJobEvents(jobId)
+            : await jobEventIndexer.queryJobEvents(jobId);
+
+        const freelancer = job.freelancer ?? events.find((event) => event.type === "FreelancerAssigned")?.data.freelancer;
+        const [clientProfile, freelancerProfile] = await Promise.all([
+          profileService.getProfileByOwner(job.client),
+          freelancer ? profileService.getProfileByOwner(freelancer) : Promise.resolve(null),
+        ]);
+
+        const receipt = buildReceipt(job, events, milestoneId, clientProfile, freelancerProfile);
+        const coin = coinMetadataMap[job.coinType] ?? { decimals: 9, symbol: getCoinSymbolFromType(job.coinType) };
+        const fiat = await fiatPriceService.getPriceAt(coin.symbol, receipt.approvedAt);
+
+        const pdf = renderReceiptPdf(receipt, audience, coin, fiat, network);
+        DeliverableService.triggerDownload(
+          new Blob([pdf as Uint8Array<ArrayBuffer>], { type: "application/pdf" }),
+          getReceiptFileName(receipt, audience)
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to generate the document");
+      } finally {
+        setDownloadingKey(null);
+      }
+    },
+    [services, indexerApi, jobEventStore, coinMetadataMap, network]
+  );
+
+  return { download, downloadingKey, error };
+}
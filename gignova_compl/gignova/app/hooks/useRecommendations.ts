@@ -0,0 +1,211 @@
+/**
+ * useRecommendations Hook
+ * "Jobs for you" for freelancers and applicant rankings for clients
+ *
+ * Work history comes from FundsReleased / JobCompleted events: the indexer API or the local
+ * event projection when available, else one RPC scan of both event types for all freelancers.
+ */
+
+"use client";
+
+import { useSuiClient } from "@mysten/dapp-kit";
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNetworkVariable } from "../networkConfig";
+import {
+  FreelancerHistory,
+  FreelancerWorkEvent,
+  IndexerApiClient,
+  JobData,
+  JobEventIndexer,
+  JobEventStore,
+  JobService,
+  StoredJobEvent,
+  buildFreelancerHistory,
+  createJobEventIndexer,
+  createJobService,
+  createProfileService,
+  jobProjectionToJobData,
+  parseFreelancerWorkEvent,
+  rankApplicants,
+  recommendJobs,
+} from "../services";
+import { useCoinMetadataMap } from "./useCoinMetadata";
+import { useAllOpenJobs, useIndexerApi, useJobEventStore } from "./useJob";
+import { useCurrentProfile } from "./useProfile";
+
+interface WorkHistorySources {
+  indexerApi: IndexerApiClient | null;
+  jobEventStore: JobEventStore | null;
+  jobEventIndexer: JobEventIndexer;
+  jobService: JobService;
+}
+
+/**
+ * Load freelancers' work histories from the best available source
+ */
+async function loadWorkHistories(
+  addresses: string[],
+  { indexerApi, jobEventStore, jobEventIndexer, jobService }: WorkHistorySources
+): Promise<Map<string, FreelancerHistory>> {
+  const histories = new Map<string, FreelancerHistory>();
+
+  if (indexerApi || jobEventStore) {
+    // Both keep every event, so read the events of each freelancer's own jobs
+    if (!indexerApi) await jobEventStore!.sync();
+
+    await Promise.all(
+      addresses.map(async (address) => {
+        const jobs: JobData[] = indexerApi
+          ? await indexerApi.getJobsByFreelancer(address)
+          : (await jobEventStore!.getJobsByFreelancer(address)).map(jobProjectionToJobData);
+        const eventLists: StoredJobEvent[][] = await Promise.all(
+          jobs.map((job) =>
+            indexerApi ? indexerApi.getJobEvents(job.objectId) : jobEventStore!.getJobEvents(job.objectId)
+          )
+        );
+
+        const workEvents: FreelancerWorkEvent[] = [];
+        for (const events of eventLists) {
+          for (const event of events) {
+            const workEvent = parseFreelancerWorkEvent(event.type, event.data);
+            if (workEvent) workEvents.push(workEvent);
+          }
+        }
+
+        const jobsById = new Map(jobs.map((job) => [job.objectId, job] as [string, JobData]));
+        histories.set(address, buildFreelancerHistory(address, workEvents, jobsById));
+      })
+    );
+    return histories;
+  }
+
+  const workEvents = await jobEventIndexer.queryWorkEvents(addresses);
+  const jobsById = await jobService.getJobs(Array.from(new Set(workEvents.map((event) => event.jobId))));
+  for (const address of addresses) {
+    histories.set(address, buildFreelancerHistory(address, workEvents, jobsById));
+  }
+  return histories;
+}
+
+/**
+ * Shared services for work history queries
+ */
+function useWorkHistorySources(): WorkHistorySources {
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const indexerApi = useIndexerApi();
+  const jobEventStore = useJobEventStore();
+
+  return useMemo(
+    () => ({
+      indexerApi,
+      jobEventStore,
+      jobEventIndexer: createJobEventIndexer(suiClient, jobPackageId),
+      jobService: createJobService(suiClient, jobPackageId),
+    }),
+    [suiClient, jobPackageId, indexerApi, jobEventStore]
+  );
+}
+
+/**
+ * Hook to fetch a freelancer's work history (paid and completed jobs)
+ *
+ * @param freelancerAddress Freelancer's address
+ * @returns Work history, loading state, error
+ */
+export function useFreelancerHistory(freelancerAddress: string | undefined) {
+  const sources = useWorkHistorySources();
+
+  const { data, isPending, error, refetch } = useQuery({
+    queryKey: ["workHistory", freelancerAddress],
+    queryFn: async () => {
+      const histories = await loadWorkHistories([freelancerAddress!], sources);
+      return histories.get(freelancerAddress!)!;
+    },
+    enabled: !!freelancerAddress,
+    staleTime: 60000,
+  });
+
+  return {
+    history: data ?? null,
+    isPending,
+    error: error as Error | null,
+    refetch,
+  };
+}
+
+/**
+ * Hook to recommend open jobs to the current freelancer
+ * Scores every open job against the profile tags, work history and past budget range.
+ *
+ * @param limit Maximum number of recommendations
+ * @returns Recommendations (best first, with reasons), loading state, error
+ */
+export function useJobRecommendations(limit: number = 6) {
+  const { profile, isPending: profilePending } = useCurrentProfile();
+  const { jobs: openJobs, isPending: jobsPending, error: jobsError } = useAllOpenJobs();
+  const { history, isPending: historyPending, error: historyError } = useFreelancerHistory(profile?.owner);
+  const coinMetadataMap = useCoinMetadataMap(useNetworkVariable("escrowCoinTypes"));
+
+  const recommendations = useMemo(
+    () => (profile && history ? recommendJobs(openJobs, profile, history, coinMetadataMap, limit) : []),
+    [openJobs, profile, history, coinMetadataMap, limit]
+  );
+
+  return {
+    recommendations,
+    /** Paid jobs the recommendations are based on */
+    historySize: history?.jobs.length ?? 0,
+    hasProfile: !!profile,
+    isPending: profilePending || jobsPending || (!!profile && historyPending),
+    error: (jobsError ?? historyError) as Error | null,
+  };
+}
+
+/**
+ * Hook to rank the applicants of a job
+ * Uses each applicant's profile (tags, rating, finished jobs) and work history.
+ *
+ * @param job Job with applicants (skipped while undefined)
+ * @returns Applicants (best first, with reasons), loading state, error
+ */
+export function useApplicantRecommendations(job: JobData | undefined) {
+  const suiClient = useSuiClient();
+  const profilePackageId = useNetworkVariable("profileNftPackageId");
+  const sources = useWorkHistorySources();
+
+  const profileService = useMemo(
+    () => createProfileService(suiClient, profilePackageId),
+    [suiClient, profilePackageId]
+  );
+
+  const applicants = job?.applicants ?? [];
+
+  const { data, isPending, error, refetch } = useQuery({
+    queryKey: ["applicantRecommendations", job?.objectId, applicants],
+    queryFn: async () => {
+      const [profiles, histories] = await Promise.all([
+        Promise.all(applicants.map((address) => profileService.getProfileByOwner(address))),
+        loadWorkHistories(applicants, sources),
+      ]);
+      return rankApplicants(
+        job!,
+        applicants.map((address, i) => ({
+          address,
+          profile: profiles[i],
+          history: histories.get(address)!,
+        }))
+      );
+    },
+    enabled: !!job && applicants.length > 0,
+    staleTime: 60000,
+  });
+
+  return {
+    applicants: data ?? [],
+    isPending: isPending && applicants.length > 0,
+    error: error as Error | null,
+    refetch,
+  };
+}
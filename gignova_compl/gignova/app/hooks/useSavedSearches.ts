@@ -0,0 +1,146 @@
+/**
+ * useSavedSearches Hook
+ * Named marketplace searches of the connected wallet, and alerts for new matching jobs
+ *
+ * Alerts check open jobs whose JobCreated time is after a search's `lastSeenAt`. New jobs
+ * arrive through the open job list, which follows JobCreated events (live updates, the
+ * local event store or the indexer), so alerts show up while the app is open in any view.
+ */
+
+"use client";
+
+import { useCurrentAccount, useSuiClientContext } from "@mysten/dapp-kit";
+import { useCallback, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { JobData, SavedSearch, SavedSearchQuery, createSavedSearchService } from "../services";
+import { useAllOpenJobs } from "./useJob";
+import { useJobSearchIndex } from "./useJobSearch";
+
+/**
+ * New jobs matching one saved search
+ */
+export interface SavedSearchAlert {
+  search: SavedSearch;
+  /** Unseen matching jobs, newest first */
+  jobs: JobData[];
+}
+
+/**
+ * Hook to read and edit the connected wallet's saved searches
+ *
+ * @returns Saved searches and functions to save, delete and mark them as seen
+ */
+export function useSavedSearches() {
+  const currentAccount = useCurrentAccount();
+  const { network } = useSuiClientContext();
+  const queryClient = useQueryClient();
+  const owner = currentAccount?.address;
+
+  const savedSearchService = useMemo(() => createSavedSearchService(network), [network]);
+  const queryKey = useMemo(() => ["savedSearches", network, owner], [network, owner]);
+
+  const { data } = useQuery({
+    queryKey,
+    queryFn: () => savedSearchService.list(owner!),
+    enabled: !!owner,
+    staleTime: Infinity,
+  });
+
+  const refresh = useCallback(() => queryClient.invalidateQueries({ queryKey }), [queryClient, queryKey]);
+
+  const save = useCallback(
+    (name: string, query: SavedSearchQuery) => {
+      if (!owner) throw new Error("Connect a wallet to save searches");
+      const search = savedSearchService.save(owner, name, query);
+      refresh();
+      return search;
+    },
+    [owner, savedSearchService, refresh]
+  );
+
+  const remove = useCallback(
+    (searchId: string) => {
+      if (!owner) return;
+      savedSearchService.remove(owner, searchId);
+      refresh();
+    },
+    [owner, savedSearchService, refresh]
+  );
+
+  const markSeen = useCallback(
+    (searchId: string, jobIds?: string[]) => {
+      if (!owner) return;
+      savedSearchService.markSeen(owner, searchId, jobIds);
+      refresh();
+    },
+    [owner, savedSearchService, refresh]
+  );
+
+  return {
+    searches: data ?? [],
+    save,
+    remove,
+    markSeen,
+  };
+}
+
+/**
+ * Hook to find new jobs matching the connected wallet's saved searches
+ * Only runs while the wallet has saved searches.
+ *
+ * @returns Alerts per saved search, unread job count and the saved search actions
+ */
+export function useSavedSearchAlerts() {
+  const currentAccount = useCurrentAccount();
+  const { searches, markSeen } = useSavedSearches();
+  const hasSearches = searches.length > 0;
+
+  const { jobs: openJobs, dataUpdatedAt } = useAllOpenJobs(hasSearches);
+
+  // Only jobs created after the oldest "last seen" time can be new for any search
+  const newJobs = useMemo(() => {
+    if (!hasSearches) return [];
+    const since = Math.min(...searches.map((search) => search.lastSeenAt));
+    return openJobs.filter((job) => job.createdAt > since && job.client !== currentAccount?.address);
+  }, [hasSearches, searches, openJobs, currentAccount?.address]);
+
+  const newJobKey = newJobs.map((job) => job.objectId).join(",");
+  const { index } = useJobSearchIndex(
+    newJobs,
+    `savedSearches:${newJobKey}`,
+    dataUpdatedAt > 0 && newJobs.length > 0
+  );
+
+  const alerts = useMemo<SavedSearchAlert[]>(() => {
+    if (!index || newJobs.length === 0) return [];
+
+    return searches
+      .map((search) => {
+        const { hits } = index.search({
+          text: search.query.text,
+          facets: search.query.facets,
+          sort: "newest",
+          offset: 0,
+          limit: newJobs.length,
+        });
+        const jobs = hits
+          .map((hit) => hit.job)
+          .filter((job) => job.createdAt > search.lastSeenAt && !search.seenJobIds.includes(job.objectId));
+        return { search, jobs };
+      })
+      .filter((alert) => alert.jobs.length > 0);
+  }, [index, newJobs.length, searches]);
+
+  const unreadCount = useMemo(() => {
+    const jobIds = new Set<string>();
+    alerts.forEach((alert) => alert.jobs.forEach((job) => jobIds.add(job.objectId)));
+    return jobIds.size;
+  }, [alerts]);
+
+  return {
+    alerts,
+    /** Unique new jobs across all saved searches */
+    unreadCount,
+    markSeen,
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * useSchemaDrift Hook
+ * Verifies the deployed struct layouts against the decoder schemas and
+ * collects schema drift reported while decoding objects
+ */
+
+"use client";
+
+import { useSuiClient } from "@mysten/dapp-kit";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNetworkVariable } from "../networkConfig";
+import {
+  JOB_ESCROW_SCHEMAS,
+  PROFILE_NFT_SCHEMAS,
+  REPUTATION_SCHEMAS,
+  getReportedSchemaIssues,
+  onSchemaDrift,
+  verifyStructLayouts,
+  type SchemaIssue,
+} from "../services";
+
+/**
+ * Hook to detect schema drift between the frontend and the deployed contracts
+ * Layouts are verified once per package; decode issues are added as they are reported.
+ *
+ * @returns Distinct drift issues and whether layout verification is still running
+ */
+export function useSchemaDrift() {
+  const suiClient = useSuiClient();
+  const jobPackageId = useNetworkVariable("jobEscrowPackageId");
+  const profilePackageId = useNetworkVariable("profileNftPackageId");
+  const reputationPackageId = useNetworkVariable("reputationPackageId");
+  const [issues, setIssues] = useState<SchemaIssue[]>(getReportedSchemaIssues);
+
+  // Layout issues are delivered through onSchemaDrift like decode issues
+  const { isPending } = useQuery({
+    queryKey: ["schemaLayout", jobPackageId, profilePackageId, reputationPackageId],
+    queryFn: async () => {
+      const results = await Promise.all([
+        verifyStructLayouts(suiClient, jobPackageId, JOB_ESCROW_SCHEMAS),
+        verifyStructLayouts(suiClient, profilePackageId, PROFILE_NFT_SCHEMAS),
+        verifyStructLayouts(suiClient, reputationPackageId, REPUTATION_SCHEMAS),
+      ]);
+      return results.flat();
+    },
+    enabled: !jobPackageId.includes("TODO"),
+    staleTime: Infinity, // Layouts only change with a package upgrade
+  });
+
+  useEffect(() => onSchemaDrift(() => setIssues(getReportedSchemaIssues())), []);
+
+  return { issues, isPending };
+}
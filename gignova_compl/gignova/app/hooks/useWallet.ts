@@ -13,13 +13,15 @@
 
 import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
 import { useState, useEffect } from "react";
+import { SUI_COIN_TYPE } from "../constants";
 
 /**
- * Hook for SUI balance
+ * Hook for the balance of any coin type
  *
- * @returns SUI balance in MIST, formatted balance, loading state, refetch function
+ * @param coinType Fully qualified coin type (default: SUI)
+ * @returns Balance in base units, loading state, refetch function
  */
-export function useSuiBalance() {
+export function useCoinBalance(coinType: string = SUI_COIN_TYPE) {
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
   const [balance, setBalance] = useState<bigint>(BigInt(0));
@@ -38,7 +40,7 @@ export function useSuiBalance() {
       try {
         const { totalBalance } = await suiClient.getBalance({
           owner: currentAccount.address,
-          coinType: "0x2::sui::SUI",
+          coinType,
         });
         setBalance(BigInt(totalBalance));
       } catch (error) {
@@ -49,16 +51,31 @@ export function useSuiBalance() {
     };
 
     fetchBalance();
-  }, [currentAccount?.address, suiClient, fetchTrigger]);
-
-  const formatBalance = (decimals: number = 9): string => {
-    return (Number(balance) / Math.pow(10, decimals)).toFixed(4);
-  };
+  }, [currentAccount?.address, suiClient, coinType, fetchTrigger]);
 
   const refetch = () => {
     setFetchTrigger((prev) => prev + 1);
   };
 
+  return {
+    balance,
+    isPending,
+    refetch,
+  };
+}
+
+/**
+ * Hook for SUI balance
+ *
+ * @returns SUI balance in MIST, formatted balance, loading state, refetch function
+ */
+export function useSuiBalance() {
+  const { balance, isPending, refetch } = useCoinBalance(SUI_COIN_TYPE);
+
+  const formatBalance = (decimals: number = 9): string => {
+    return (Number(balance) / Math.pow(10, decimals)).toFixed(4);
+  };
+
   return {
     balance,
     formattedBalance: formatBalance(),
@@ -12,6 +12,9 @@ import {
   DEVNET_IDENTITY_REGISTRY_ID,
   TESTNET_IDENTITY_REGISTRY_ID,
   MAINNET_IDENTITY_REGISTRY_ID,
+  SUI_COIN_TYPE,
+  TESTNET_USDC_COIN_TYPE,
+  MAINNET_USDC_COIN_TYPE,
 } from "./constants";
 import { createNetworkConfig } from "@mysten/dapp-kit";
 
@@ -24,6 +27,7 @@ const { networkConfig, useNetworkVariable, useNetworkVariables } =
         profileNftPackageId: DEVNET_PROFILE_NFT_PACKAGE_ID,
         reputationPackageId: DEVNET_REPUTATION_PACKAGE_ID,
         identityRegistryId: DEVNET_IDENTITY_REGISTRY_ID,
+        escrowCoinTypes: [SUI_COIN_TYPE],
       },
     },
     testnet: {
@@ -33,6 +37,7 @@ const { networkConfig, useNetworkVariable, useNetworkVariables } =
         profileNftPackageId: TESTNET_PROFILE_NFT_PACKAGE_ID,
         reputationPackageId: TESTNET_REPUTATION_PACKAGE_ID,
         identityRegistryId: TESTNET_IDENTITY_REGISTRY_ID,
+        escrowCoinTypes: [SUI_COIN_TYPE, TESTNET_USDC_COIN_TYPE],
       },
     },
     mainnet: {
@@ -42,6 +47,7 @@ const { networkConfig, useNetworkVariable, useNetworkVariables } =
         profileNftPackageId: MAINNET_PROFILE_NFT_PACKAGE_ID,
         reputationPackageId: MAINNET_REPUTATION_PACKAGE_ID,
         identityRegistryId: MAINNET_IDENTITY_REGISTRY_ID,
+        escrowCoinTypes: [SUI_COIN_TYPE, MAINNET_USDC_COIN_TYPE],
       },
     },
   });
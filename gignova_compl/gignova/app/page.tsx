@@ -12,8 +12,12 @@ import { JobMarketplaceView } from "./JobMarketplaceView";
 import { CreateJobView } from "./components/job/CreateJobView";
 import { ClientJobDetailView } from "./components/job/ClientJobDetailView";
 import { FreelancerJobDetailView } from "./components/job/FreelancerJobDetailView";
+import { RecommendedJobs } from "./components/job/RecommendedJobs";
+import { SuggestedApplicants } from "./components/job/SuggestedApplicants";
 import { ProfileView } from "./components/profile/ProfileView";
 import { ProfileSetupView } from "./components/profile/ProfileSetupView";
+import { EarningsLedgerView } from "./components/profile/EarningsLedgerView";
+import { SchemaDriftAlert } from "./components/SchemaDriftAlert";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useView } from "./contexts/ViewContext";
@@ -43,6 +47,8 @@ function HomeContent() {
           <CardContent className="pt-6">
             {currentAccount ? (
               <div className="space-y-6">
+                <SchemaDriftAlert />
+
                 {/* Content based on view */}
                 {view === "resources" && <Resources />}
 
@@ -123,6 +129,20 @@ function HomeContent() {
                         </Card>
                       )}
                     </div>
+
+                    {/* Personalized Matches */}
+                    {profile?.profileType === ProfileType.FREELANCER && (
+                      <RecommendedJobs limit={3} onBrowseAll={() => setView("marketplace")} />
+                    )}
+
+                    {profile?.profileType === ProfileType.CLIENT && (
+                      <SuggestedApplicants
+                        onViewJob={(jobId) => {
+                          setSelectedJobId?.(jobId);
+                          setView("jobDetail");
+                        }}
+                      />
+                    )}
                   </div>
                 )}
 
@@ -138,6 +158,7 @@ function HomeContent() {
                       setSelectedJobId?.(jobId);
                       setView("jobDetail");
                     }}
+                    onViewLedger={() => setView("ledger")}
                   />
                 )}
 
@@ -148,6 +169,14 @@ function HomeContent() {
                       setSelectedJobId?.(jobId);
                       setView("freelancerJobDetail");
                     }}
+                    onViewLedger={() => setView("ledger")}
+                  />
+                )}
+
+                {view === "ledger" && (
+                  <EarningsLedgerView
+                    defaultRole={profile?.profileType === ProfileType.CLIENT ? "client" : "freelancer"}
+                    onBack={() => setView("home")}
                   />
                 )}
 
@@ -182,6 +211,15 @@ function HomeContent() {
                       setSelectedJobId?.("");
                       setView("myJobs");
                     }}
+                    onEdit={() => setView("editJob")}
+                  />
+                )}
+
+                {view === "editJob" && selectedJobId && (
+                  <CreateJobView
+                    editJobId={selectedJobId}
+                    onBack={() => setView("jobDetail")}
+                    onSuccess={() => setView("jobDetail")}
                   />
                 )}
 
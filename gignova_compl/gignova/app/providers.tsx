@@ -6,6 +6,7 @@ import { networkConfig } from "./networkConfig";
 import { useState } from "react";
 import { ViewProvider } from "./contexts/ViewContext";
 import { ZkLoginProvider } from "./contexts/ZkLoginContext";
+import { TransactionPreviewProvider } from "./contexts/TransactionPreviewContext";
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(() => new QueryClient());
@@ -15,9 +16,11 @@ export function Providers({ children }: { children: React.ReactNode }) {
       <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
         <WalletProvider autoConnect>
           <ZkLoginProvider>
-            <ViewProvider>
-              {children}
-            </ViewProvider>
+            <TransactionPreviewProvider>
+              <ViewProvider>
+                {children}
+              </ViewProvider>
+            </TransactionPreviewProvider>
           </ZkLoginProvider>
         </WalletProvider>
       </SuiClientProvider>
@@ -202,8 +202,10 @@ export class DeliverableService {
    * @param file - The file to upload
    * @param previewUrl - Preview URL for client review (e.g., https://my-app.vercel.app)
    * @param ownerAddress - Freelancer's Sui address (whitelist owner)
-   * @param signAndExecute - Function to sign and execute transactions
+   * @param signAndExecute - Function to sign and execute the Walrus storage transactions
    * @param onProgress - Optional progress callback
+   * @param signAndExecuteWhitelist - Function for the whitelist transaction, e.g. with a
+   *   transaction preview (default: signAndExecute)
    * @returns Upload result with submission data
    */
   async uploadAndEncrypt(
@@ -212,6 +214,7 @@ export class DeliverableService {
     ownerAddress: string,
     signAndExecute: (params: { transaction: Transaction }) => Promise<{ digest: string }>,
     onProgress?: ProgressCallback,
+    signAndExecuteWhitelist: (params: { transaction: Transaction }) => Promise<{ digest: string }> = signAndExecute,
   ): Promise<UploadResult> {
     const totalStartTime = Date.now();
 
@@ -233,7 +236,7 @@ export class DeliverableService {
     console.log("[DELIVERABLE] Step 1: Creating whitelist...");
     const whitelistStart = Date.now();
     const createWhitelistTx = this.whitelistService.createWhitelistTransaction();
-    const { digest: createDigest } = await signAndExecute({ transaction: createWhitelistTx });
+    const { digest: createDigest } = await signAndExecuteWhitelist({ transaction: createWhitelistTx });
 
     // Wait for whitelist creation and get object IDs
     const { capId, whitelistId } = await this.whitelistService.waitForTransactionAndGetCreatedObjects(createDigest);
@@ -0,0 +1,281 @@
+/**
+ * Earnings Ledger
+ * Per-payment ledgers built from job_escrow events, for accounting exports
+ *
+ * - Freelancer ledger: FundsReleased events paid to the freelancer, with the milestone from
+ *   the MilestoneApproved / MilestoneAutoApproved event of the same transaction
+ * - Client ledger: escrow deposits (JobCreated budget, then budget increases in
+ *   MilestoneAdded and JobUpdated) and refunds (FundsReleased paid to the client)
+ *
+ * Amounts are in base units of each job's coin type. Totals are kept per coin type,
+ * since payments in different coins can't be added up.
+ */
+
+import type { JobData } from "./types";
+import { compareJobEvents, type StoredJobEvent } from "./jobEventStore";
+import { FUNDS_RELEASED_REFUND } from "./jobEventIndexer";
+import type { CoinMetadataByType } from "./jobRecommender";
+import { getCoinSymbolFromType } from "../utils/formatting";
+
+// ======== Types ========
+
+export type LedgerRole = "freelancer" | "client";
+
+export type LedgerEntryKind =
+  | "milestone_payment"
+  | "completion_payment"
+  | "dispute_settlement"
+  | "deposit"
+  | "refund";
+
+export interface LedgerEntry {
+  /** Event ID (txDigest:eventSeq) */
+  key: string;
+  kind: LedgerEntryKind;
+  jobId: string;
+  jobTitle: string;
+  coinType: string;
+  /** Milestone paid or funded (0-based), if any */
+  milestoneId: number | null;
+  /**
+   * Signed amount in base units: earnings for freelancers (always positive),
+   * spend for clients (deposits positive, refunds negative)
+   */
+  amount: number;
+  timestamp: number;
+  txDigest: string;
+}
+
+export interface LedgerRow extends LedgerEntry {
+  /** Sum of amounts in the same coin type up to and including this entry */
+  runningTotal: number;
+}
+
+export interface LedgerTotal {
+  coinType: string;
+  amount: number;
+  count: number;
+}
+
+export interface LedgerDateRange {
+  /** Inclusive start (ms) */
+  from?: number;
+  /** Inclusive end (ms) */
+  to?: number;
+}
+
+/** FundsReleased reasons (job_escrow.move) */
+const FUNDS_RELEASED_MILESTONE = 0;
+const FUNDS_RELEASED_DISPUTE = 3;
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryKind, string> = {
+  milestone_payment: "Milestone payment",
+  completion_payment: "Completion payment",
+  dispute_settlement: "Dispute settlement",
+  deposit: "Escrow deposit",
+  refund: "Refund",
+};
+
+// ======== Building ========
+
+/**
+ * Build a freelancer's or client's ledger from the events of their jobs
+ *
+ * @param role Ledger to build
+ * @param address Wallet address
+ * @param jobs The user's jobs (title and coin type of each entry)
+ * @param eventsByJob All job_escrow events per job ID
+ * @returns Entries, oldest first
+ */
+export function buildLedger(
+  role: LedgerRole,
+  address: string,
+  jobs: JobData[],
+  eventsByJob: Map<string, StoredJobEvent[]>
+): LedgerEntry[] {
+  const entries: LedgerEntry[] = [];
+
+  for (const job of jobs) {
+    const events = [...(eventsByJob.get(job.objectId) ?? [])].sort(compareJobEvents);
+    const entry = (event: StoredJobEvent, kind: LedgerEntryKind, amount: number, milestoneId: number | null): LedgerEntry => ({
+      key: event.key,
+      kind,
+      jobId: job.objectId,
+      jobTitle: job.title,
+      coinType: job.coinType,
+      milestoneId,
+      amount,
+      timestamp: event.timestampMs,
+      txDigest: event.txDigest,
+    });
+
+    if (role === "freelancer") {
+      for (const event of events) {
+        if (event.type !== "FundsReleased" || event.data.recipient !== address) continue;
+        const reason = Number(event.data.reason);
+        const approval = events.find(
+          (other) =>
+            other.txDigest === event.txDigest &&
+            (other.type === "MilestoneApproved" || other.type === "MilestoneAutoApproved")
+        );
+        const kind: LedgerEntryKind =
+          reason === FUNDS_RELEASED_MILESTONE
+            ? "milestone_payment"
+            : reason === FUNDS_RELEASED_DISPUTE
+              ? "dispute_settlement"
+              : "completion_payment";
+        entries.push(entry(event, kind, Number(event.data.amount), approval ? Number(approval.data.milestone_id) : null));
+      }
+      continue;
+    }
+
+    // Client: every budget increase is a deposit, every payment back is a refund
+    let budget = 0;
+    for (const event of events) {
+      if (event.type === "JobCreated" || event.type === "JobUpdated" || event.type === "MilestoneAdded") {
+        const newBudget = Number(event.data.budget);
+        if (newBudget > budget) {
+          const milestoneId = event.type === "MilestoneAdded" ? Number(event.data.milestone_id) : null;
+          entries.push(entry(event, "deposit", newBudget - budget, milestoneId));
+        }
+        budget = newBudget;
+      } else if (event.type === "FundsReleased" && event.data.recipient === address) {
+        const reason = Number(event.data.reason);
+        if (reason !== FUNDS_RELEASED_REFUND && reason !== FUNDS_RELEASED_DISPUTE) continue;
+        entries.push(
+          entry(event, reason === FUNDS_RELEASED_DISPUTE ? "dispute_settlement" : "refund", -Number(event.data.amount), null)
+        );
+      }
+    }
+  }
+
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Keep entries within a date range and add running totals per coin type
+ * Running totals start at zero at the beginning of the range.
+ *
+ * @param entries Ledger entries, oldest first
+ * @param range Date range (open ends include everything)
+ * @returns Rows, oldest first
+ */
+export function toLedgerRows(entries: LedgerEntry[], range: LedgerDateRange = {}): LedgerRow[] {
+  const totals = new Map<string, number>();
+  return entries
+    .filter(
+      (entry) =>
+        (range.from === undefined || entry.timestamp >= range.from) &&
+        (range.to === undefined || entry.timestamp <= range.to)
+    )
+    .map((entry) => {
+      const runningTotal = (totals.get(entry.coinType) ?? 0) + entry.amount;
+      totals.set(entry.coinType, runningTotal);
+      return { ...entry, runningTotal };
+    });
+}
+
+/**
+ * Sum ledger rows per coin type
+ *
+ * @param rows Ledger rows
+ * @returns Totals, one per coin type
+ */
+export function getLedgerTotals(rows: LedgerEntry[]): LedgerTotal[] {
+  const totals = new Map<string, LedgerTotal>();
+  for (const row of rows) {
+    const total = totals.get(row.coinType) ?? { coinType: row.coinType, amount: 0, count: 0 };
+    total.amount += row.amount;
+    total.count += 1;
+    totals.set(row.coinType, total);
+  }
+  return Array.from(totals.values());
+}
+
+// ======== Export ========
+
+/**
+ * Convert a base-unit amount to a decimal string with the coin's full precision
+ */
+function toDecimalAmount(amount: number, coinType: string, coinMetadata: CoinMetadataByType): string {
+  const decimals = coinMetadata[coinType]?.decimals ?? 9;
+  return (amount / Math.pow(10, decimals)).toFixed(decimals);
+}
+
+function getSymbol(coinType: string, coinMetadata: CoinMetadataByType): string {
+  return coinMetadata[coinType]?.symbol ?? getCoinSymbolFromType(coinType);
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export ledger rows as CSV (amounts in whole coins)
+ *
+ * @param rows Ledger rows, oldest first
+ * @param coinMetadata Decimals and symbol per coin type
+ * @returns CSV text with a header row
+ */
+export function ledgerToCsv(rows: LedgerRow[], coinMetadata: CoinMetadataByType): string {
+  const header = ["date", "type", "job_id", "job_title", "milestone", "amount", "coin", "running_total", "tx_digest"];
+  const lines = rows.map((row) =>
+    [
+      new Date(row.timestamp).toISOString(),
+      LEDGER_ENTRY_LABELS[row.kind],
+      row.jobId,
+      row.jobTitle,
+      row.milestoneId === null ? "" : row.milestoneId + 1,
+      toDecimalAmount(row.amount, row.coinType, coinMetadata),
+      getSymbol(row.coinType, coinMetadata),
+      toDecimalAmount(row.runningTotal, row.coinType, coinMetadata),
+      row.txDigest,
+    ]
+      .map(escapeCsv)
+      .join(",")
+  );
+  return [header.join(","), ...lines].join("\n");
+}
+
+/**
+ * Export ledger rows as JSON (base units and whole coins)
+ *
+ * @param rows Ledger rows, oldest first
+ * @param coinMetadata Decimals and symbol per coin type
+ * @returns Pretty-printed JSON array
+ */
+export function ledgerToJson(rows: LedgerRow[], coinMetadata: CoinMetadataByType): string {
+  return JSON.stringify(
+    rows.map((row) => ({
+      date: new Date(row.timestamp).toISOString(),
+      type: row.kind,
+      jobId: row.jobId,
+      jobTitle: row.jobTitle,
+      milestone: row.milestoneId === null ? null : row.milestoneId + 1,
+      coinType: row.coinType,
+      symbol: getSymbol(row.coinType, coinMetadata),
+      amountBaseUnits: row.amount,
+      amount: toDecimalAmount(row.amount, row.coinType, coinMetadata),
+      runningTotal: toDecimalAmount(row.runningTotal, row.coinType, coinMetadata),
+      txDigest: row.txDigest,
+    })),
+    null,
+    2
+  );
+}
+
+/**
+ * File name for a ledger export, e.g. "gignova-earnings-2025-01-01-to-2025-03-31.csv"
+ *
+ * @param role Ledger role
+ * @param range Exported date range
+ * @param extension File extension
+ * @returns File name
+ */
+export function getLedgerFileName(role: LedgerRole, range: LedgerDateRange, extension: "csv" | "json"): string {
+  const day = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+  const from = range.from !== undefined ? day(range.from) : "start";
+  const to = range.to !== undefined ? day(range.to) : day(Date.now());
+  return `gignova-${role === "freelancer" ? "earnings" : "spend"}-${from}-to-${to}.${extension}`;
+}
@@ -0,0 +1,82 @@
+/**
+ * Fiat Price Service
+ * Daily historical coin prices for invoices and receipts (CoinGecko /coins/{id}/history)
+ *
+ * Prices are the day's price (UTC) of the payment, not the exact minute. Lookups never
+ * throw: documents are still generated without a fiat amount when the API is unavailable.
+ */
+
+import { FIAT_CURRENCY, FIAT_PRICE_API_URL, FIAT_PRICE_COIN_IDS } from "../constants";
+
+export interface FiatPrice {
+  /** Price of one coin */
+  price: number;
+  /** Lowercase ISO currency code, e.g. "usd" */
+  currency: string;
+  /** Day of the price (YYYY-MM-DD, UTC) */
+  date: string;
+}
+
+export class FiatPriceService {
+  private baseUrl: string;
+  private currency: string;
+  private cache = new Map<string, Promise<FiatPrice | null>>();
+
+  constructor(baseUrl: string = FIAT_PRICE_API_URL, currency: string = FIAT_CURRENCY) {
+    this.baseUrl = baseUrl.replace(/\/$/, "");
+    this.currency = currency;
+  }
+
+  /**
+   * Get the price of a coin on the day of a timestamp
+   *
+   * @param symbol Coin symbol (e.g. "SUI"); see FIAT_PRICE_COIN_IDS
+   * @param timestamp Time in milliseconds
+   * @returns Price, or null for unknown coins and failed lookups
+   */
+  getPriceAt(symbol: string, timestamp: number): Promise<FiatPrice | null> {
+    const coinId = FIAT_PRICE_COIN_IDS[symbol.toUpperCase()];
+    if (!coinId || !timestamp) {
+      return Promise.resolve(null);
+    }
+
+    const date = new Date(timestamp).toISOString().slice(0, 10);
+    const key = `${coinId}:${date}`;
+    let price = this.cache.get(key);
+    if (!price) {
+      price = this.fetchPrice(coinId, date);
+      this.cache.set(key, price);
+    }
+    return price;
+  }
+
+  private async fetchPrice(coinId: string, date: string): Promise<FiatPrice | null> {
+    const [year, month, day] = date.split("-");
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/coins/${coinId}/history?date=${day}-${month}-${year}&localization=false`
+      );
+      if (!response.ok) {
+        throw new Error(`Price request failed (${response.status})`);
+      }
+      const body = await response.json();
+      const price = body?.market_data?.current_price?.[this.currency];
+      return typeof price === "number" ? { price, currency: this.currency, date } : null;
+    } catch (error) {
+      console.error(`Error fetching ${coinId} price for ${date}:`, error);
+      this.cache.delete(`${coinId}:${date}`); // Retry on the next download
+      return null;
+    }
+  }
+}
+
+/**
+ * Factory function to create FiatPriceService instance
+ *
+ * @param baseUrl Price API URL (default: FIAT_PRICE_API_URL)
+ * @param currency Fiat currency (default: FIAT_CURRENCY)
+ * @returns FiatPriceService instance
+ */
+export function createFiatPriceService(baseUrl?: string, currency?: string): FiatPriceService {
+  return new FiatPriceService(baseUrl, currency);
+}
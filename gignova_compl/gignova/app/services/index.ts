@@ -24,21 +24,210 @@ export {
 
 // Freelance platform services
 export { JobService, createJobService } from "./jobService";
-export { JobEventIndexer, createJobEventIndexer } from "./jobEventIndexer";
+export { JobEventIndexer, createJobEventIndexer, parseFreelancerWorkEvent } from "./jobEventIndexer";
+export {
+  JobEventStore,
+  createJobEventStore,
+  jobProjectionToJobData,
+  compareJobEvents,
+  JOB_ESCROW_EVENT_TYPES,
+  type JobEscrowEventType,
+  type StoredJobEvent,
+  type JobProjection,
+  type JobEventSyncResult,
+} from "./jobEventStore";
+export {
+  JobLiveUpdateService,
+  createJobLiveUpdateService,
+  LIVE_UPDATE_POLL_INTERVAL_MS,
+  type JobLiveUpdate,
+  type JobLiveUpdateListener,
+  type LiveUpdateTarget,
+} from "./jobLiveUpdateService";
+export {
+  IndexerApiClient,
+  createIndexerApiClient,
+  IndexerApiError,
+  type IndexedProfile,
+  type IndexedRating,
+  type IndexedEarning,
+  type IndexerPage,
+  type IndexerJobQuery,
+  type IndexerProfileQuery,
+  type IndexerEarningQuery,
+} from "./indexerApiClient";
+export {
+  JobSearchIndex,
+  tokenize,
+  extractHashtags,
+  BUDGET_BANDS,
+  JOB_SEARCH_FACETS,
+  type JobSearchDocument,
+  type JobSearchFacet,
+  type JobSearchSort,
+  type JobSearchQuery,
+  type JobSearchHit,
+  type JobSearchResult,
+  type FacetValueCount,
+} from "./jobSearchIndex";
+export { JobSearchService, createJobSearchService } from "./jobSearchService";
+export {
+  SavedSearchService,
+  createSavedSearchService,
+  MAX_SAVED_SEARCHES,
+  type SavedSearch,
+  type SavedSearchQuery,
+} from "./savedSearchService";
+export {
+  NotificationService,
+  createNotificationService,
+  deriveNotification,
+  MAX_SCANNED_EVENTS,
+  NOTIFICATION_UNREAD_WINDOW_MS,
+  type NotificationKind,
+  type NotificationTarget,
+  type AppNotification,
+  type NotificationContext,
+  type NotificationReadState,
+} from "./notificationService";
+export {
+  buildFreelancerHistory,
+  recommendJobs,
+  rankApplicants,
+  STRONG_MATCH_SCORE,
+  type WorkHistoryEntry,
+  type FreelancerHistory,
+  type MatchReasonKind,
+  type MatchReason,
+  type JobRecommendation,
+  type ApplicantCandidate,
+  type ApplicantRecommendation,
+  type CoinMetadataByType,
+} from "./jobRecommender";
+export {
+  buildLedger,
+  toLedgerRows,
+  getLedgerTotals,
+  ledgerToCsv,
+  ledgerToJson,
+  getLedgerFileName,
+  LEDGER_ENTRY_LABELS,
+  type LedgerRole,
+  type LedgerEntryKind,
+  type LedgerEntry,
+  type LedgerRow,
+  type LedgerTotal,
+  type LedgerDateRange,
+} from "./earningsLedger";
+export { createTextPdf, type PdfLine } from "./pdfDocument";
+export { FiatPriceService, createFiatPriceService, type FiatPrice } from "./fiatPriceService";
+export {
+  buildReceipt,
+  findReceiptEvent,
+  getReceiptNumber,
+  getReceiptFileName,
+  renderReceiptPdf,
+  type ReceiptKind,
+  type ReceiptAudience,
+  type ReceiptParty,
+  type ReceiptItem,
+  type ReceiptData,
+} from "./receiptService";
+export {
+  SKILL_TAXONOMY_VERSION,
+  SKILL_CATEGORIES,
+  getSkill,
+  getSkillCategory,
+  getSkillLabel,
+  getCategoryLabel,
+  normalizeSkillTag,
+  normalizeSkillTags,
+  inferSkillCategory,
+  type SkillDefinition,
+  type SkillCategory,
+} from "./skillTaxonomy";
+export { ProposalService, createProposalService } from "./proposalService";
+export {
+  JobDescriptionService,
+  createJobDescriptionService,
+  JobDescriptionUnavailableError,
+  isWalrusBlobId,
+  MAX_JOB_ATTACHMENTS,
+  MAX_JOB_ATTACHMENTS_BYTES,
+  type JobAttachmentInput,
+  type JobAttachment,
+  type JobDescriptionContent,
+} from "./jobDescriptionService";
 export { ProfileService, createProfileService } from "./profileService";
 export { ReputationService, createReputationService } from "./reputationService";
+export {
+  TransactionPreviewService,
+  createTransactionPreviewService,
+  type TransactionPreview,
+  type GasEstimate,
+  type PreviewBalanceChange,
+  type PredictedAbort,
+} from "./transactionPreviewService";
+export {
+  parseMoveAbort,
+  getAbortCodeInfo,
+  decodeTransactionError,
+  formatTransactionError,
+  type AbortCodeInfo,
+  type MoveAbortLocation,
+  type DecodedTransactionError,
+} from "./moveErrors";
+
+// Object decoding
+export {
+  SchemaDriftError,
+  decodeMoveObject,
+  decodeDynamicFieldValue,
+  verifyStructLayouts,
+  onSchemaDrift,
+  getReportedSchemaIssues,
+  formatSchemaIssue,
+  type SchemaIssue,
+  type SchemaDriftReport,
+} from "./objectDecoder";
+export {
+  getJobFields,
+  getProfileFields,
+  JOB_ESCROW_SCHEMAS,
+  PROFILE_NFT_SCHEMAS,
+  REPUTATION_SCHEMAS,
+} from "./moveSchemas";
+
+// Batched object loading
+export {
+  ObjectLoader,
+  createObjectLoader,
+  deriveU64TableEntryId,
+  MAX_CONCURRENT_REQUESTS,
+} from "./objectLoader";
 
 // Types
-export { getJobFields, getProfileFields, vectorU8ToString } from "./types";
+export { vectorU8ToString } from "./types";
 
 // Enums (must be exported as values, not types)
-export { JobState, ProfileType, BadgeTier } from "./types";
+export { JobState, ApplicationStatus, ProfileType, BadgeTier } from "./types";
 
 // Type-only exports
 export type {
   JobData,
   JobCapData,
+  ArbiterCapData,
   MilestoneData,
+  DisputeData,
+  DisputeEvidenceData,
+  DeadlineExtensionData,
+  ProposalData,
+  ProposalInput,
+  JobUpdateInput,
+  MilestoneApprovalInput,
+  EscrowCoverage,
+  DeliverableEscrowData,
+  ApplicationData,
   ProfileData,
   ProfileCapData,
   RatingData,
@@ -50,4 +239,14 @@ export type {
   JobCreatedEvent,
   JobStateChangedEvent,
   FreelancerAssignedEvent,
+  ProposalSubmittedEvent,
+  ProposalEventData,
+  ApplicationWithdrawnEvent,
+  ApplicantRejectedEvent,
+  ApplicationEventData,
+  JobUpdatedEvent,
+  JobTimelineEntry,
+  FundsReleasedEvent,
+  JobCompletedEvent,
+  FreelancerWorkEvent,
 } from "./jobEventIndexer";
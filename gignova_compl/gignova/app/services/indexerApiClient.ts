@@ -0,0 +1,258 @@
+/**
+ * Indexer API Client
+ * Reads jobs, profiles, ratings and earnings from the headless indexer (indexer/)
+ *
+ * The indexer follows the package events on a server and projects them into SQLite,
+ * so list views make one HTTP request instead of indexing events in every browser tab.
+ * Enabled by setting NEXT_PUBLIC_INDEXER_URL; hooks fall back to RPC mode otherwise.
+ */
+
+import { JobData, JobState, ProfileType } from "./types";
+import { jobProjectionToJobData, type JobProjection, type StoredJobEvent } from "./jobEventStore";
+
+// ======== API Types ========
+
+/**
+ * Profile as projected by the indexer from profile_nft events
+ */
+export interface IndexedProfile {
+  profileId: string;
+  owner: string;
+  profileType: ProfileType;
+  username: string;
+  /** Average rating scaled by 100 (450 = 4.5 stars) */
+  rating: number;
+  ratingCount: number;
+  completedJobs: number;
+  totalAmount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Rating from RatingSubmitted / RatingDisputed events
+ */
+export interface IndexedRating {
+  ratingId: string;
+  jobId: string;
+  rater: string;
+  ratee: string;
+  rating: number;
+  disputed: boolean;
+  disputeReason: string | null;
+  createdAt: number;
+}
+
+/**
+ * Payment out of a job escrow (FundsReleased)
+ */
+export interface IndexedEarning {
+  key: string;
+  jobId: string;
+  recipient: string;
+  /** Base units of coinType */
+  amount: number;
+  coinType: string;
+  /** 0 = milestone payment, 1 = completion, 2 = refund, 3 = dispute settlement */
+  reason: number;
+  txDigest: string;
+  createdAt: number;
+}
+
+export interface IndexerPage<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface IndexerJobQuery {
+  state?: JobState;
+  client?: string;
+  freelancer?: string;
+  coinType?: string;
+  /** Taxonomy category ID */
+  category?: string;
+  /** Taxonomy skill ID */
+  skill?: string;
+  q?: string;
+  sort?: "newest" | "oldest" | "budget" | "deadline";
+  limit?: number;
+  offset?: number;
+}
+
+export interface IndexerProfileQuery {
+  owner?: string;
+  type?: ProfileType;
+  sort?: "rating" | "newest" | "completed";
+  limit?: number;
+  offset?: number;
+}
+
+export interface IndexerEarningQuery {
+  recipient?: string;
+  coinType?: string;
+  jobId?: string;
+  reason?: number;
+  from?: number;
+  to?: number;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Error returned by the indexer API (or a network failure reaching it)
+ */
+export class IndexerApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "IndexerApiError";
+  }
+}
+
+export class IndexerApiClient {
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  // ======== Jobs ========
+
+  /**
+   * Query jobs
+   *
+   * @param query Filters, sort and page
+   * @returns Page of job projections
+   */
+  async queryJobs(query: IndexerJobQuery = {}): Promise<IndexerPage<JobProjection>> {
+    return this.get("/jobs", query);
+  }
+
+  /**
+   * Get open jobs (marketplace listings), newest first
+   *
+   * @param limit Maximum number of jobs to return
+   * @returns Jobs for list views
+   */
+  async getOpenJobs(limit: number = 50): Promise<JobData[]> {
+    const page = await this.queryJobs({ state: JobState.OPEN, limit });
+    return page.items.map(jobProjectionToJobData);
+  }
+
+  /**
+   * Get every open job (search index)
+   *
+   * @returns Jobs for list views
+   */
+  async getAllOpenJobs(): Promise<JobData[]> {
+    return this.getAllJobs({ state: JobState.OPEN });
+  }
+
+  /**
+   * Get jobs posted by a client
+   *
+   * @param clientAddress Client's address
+   * @returns Jobs for list views
+   */
+  async getJobsByClient(clientAddress: string): Promise<JobData[]> {
+    return this.getAllJobs({ client: clientAddress });
+  }
+
+  /**
+   * Get jobs assigned to a freelancer
+   *
+   * @param freelancerAddress Freelancer's address
+   * @returns Jobs for list views
+   */
+  async getJobsByFreelancer(freelancerAddress: string): Promise<JobData[]> {
+    return this.getAllJobs({ freelancer: freelancerAddress });
+  }
+
+  /**
+   * Get the stored events of a job
+   *
+   * @param jobId Job object ID
+   * @returns Events, oldest first
+   */
+  async getJobEvents(jobId: string): Promise<StoredJobEvent[]> {
+    const result = await this.get<{ items: StoredJobEvent[] }>(`/jobs/${jobId}/events`);
+    return result.items;
+  }
+
+  // ======== Profiles, Ratings & Earnings ========
+
+  async queryProfiles(query: IndexerProfileQuery = {}): Promise<IndexerPage<IndexedProfile>> {
+    return this.get("/profiles", query);
+  }
+
+  async queryRatings(
+    query: { ratee?: string; rater?: string; jobId?: string; limit?: number; offset?: number } = {}
+  ): Promise<IndexerPage<IndexedRating>> {
+    return this.get("/ratings", query);
+  }
+
+  /**
+   * Query escrow payments with totals per coin type
+   */
+  async queryEarnings(
+    query: IndexerEarningQuery = {}
+  ): Promise<IndexerPage<IndexedEarning> & { totals: { coinType: string; amount: number; count: number }[] }> {
+    return this.get("/earnings", query);
+  }
+
+  // ======== Helpers ========
+
+  /**
+   * Page through all jobs matching a filter (dashboards show every job of a user)
+   */
+  private async getAllJobs(query: IndexerJobQuery): Promise<JobData[]> {
+    const jobs: JobProjection[] = [];
+    let total = Infinity;
+    while (jobs.length < total) {
+      const page = await this.queryJobs({ ...query, limit: 200, offset: jobs.length });
+      jobs.push(...page.items);
+      total = page.total;
+      if (page.items.length === 0) break;
+    }
+    return jobs.map(jobProjectionToJobData);
+  }
+
+  private async get<T>(path: string, query: object = {}): Promise<T> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== "") {
+        params.set(key, String(value));
+      }
+    }
+    const search = params.toString();
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}${search ? `?${search}` : ""}`);
+    } catch (error) {
+      throw new IndexerApiError(
+        `Indexer unreachable at ${this.baseUrl}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new IndexerApiError(body?.error ?? `Indexer request failed (${response.status})`, response.status);
+    }
+    return body as T;
+  }
+}
+
+/**
+ * Factory function to create IndexerApiClient
+ *
+ * @param baseUrl Indexer API URL (e.g. http://localhost:4000)
+ * @returns IndexerApiClient instance
+ */
+export function createIndexerApiClient(baseUrl: string): IndexerApiClient {
+  return new IndexerApiClient(baseUrl);
+}
@@ -0,0 +1,278 @@
+/**
+ * Job Description Service
+ *
+ * Stores job briefs on Walrus as a quilt: the Markdown description plus any
+ * reference files the client attaches.
+ *
+ * Flow:
+ * 1. Client writes the brief in CreateJobView and attaches reference files
+ * 2. Description and attachments are uploaded as one quilt (register → upload → certify)
+ * 3. The quilt blob ID is passed to createJobTransaction as description_blob_id
+ * 4. Job views load the quilt and render the description and attachments
+ *
+ * Jobs created while Walrus was disabled store the description text itself (or a
+ * dummy ID) in description_blob_id; getDescription returns those as inline content.
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  BlobBlockedError,
+  BlobNotCertifiedError,
+  NoBlobStatusReceivedError,
+  NoVerifiedBlobStatusReceivedError,
+} from "@mysten/walrus";
+import { WalrusService, createWalrusService } from "./walrusServiceSDK";
+import type { ProgressCallback } from "./deliverableService";
+import { isDummyBlobId } from "../utils/dummyBlobId";
+
+/** Identifier of the Markdown description inside the quilt */
+const DESCRIPTION_IDENTIFIER = "description.md";
+
+/** Maximum number of reference files per job */
+export const MAX_JOB_ATTACHMENTS = 5;
+
+/** Maximum combined size of reference files (10 MB) */
+export const MAX_JOB_ATTACHMENTS_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Reference file to attach to a job description
+ */
+export interface JobAttachmentInput {
+  name: string;
+  contentType: string;
+  bytes: Uint8Array;
+}
+
+/**
+ * Reference file loaded from a job description quilt
+ */
+export interface JobAttachment extends JobAttachmentInput {
+  /** Identifier of the file inside the quilt */
+  identifier: string;
+  size: number;
+}
+
+/**
+ * Job description loaded from Walrus or from a legacy job
+ */
+export interface JobDescriptionContent {
+  markdown: string;
+  attachments: JobAttachment[];
+  /** "walrus" for quilts, "inline" for legacy jobs that store the text on-chain */
+  source: "walrus" | "inline";
+}
+
+/**
+ * Raised when a description blob cannot be loaded
+ *
+ * `expired` means Walrus no longer serves the blob (storage ended or it was blocked);
+ * `unreachable` covers network and aggregator failures that may succeed on retry.
+ */
+export class JobDescriptionUnavailableError extends Error {
+  constructor(
+    public readonly blobId: string,
+    public readonly reason: "expired" | "unreachable",
+    public readonly cause?: unknown,
+  ) {
+    super(
+      reason === "expired"
+        ? `Job description ${blobId} is no longer stored on Walrus`
+        : `Could not reach Walrus to load job description ${blobId}`,
+    );
+    this.name = "JobDescriptionUnavailableError";
+  }
+}
+
+/**
+ * Check whether a description_blob_id value is a Walrus blob ID
+ * (32 bytes, URL-safe base64 without padding)
+ *
+ * @param value description_blob_id from the job
+ * @returns true for Walrus blob IDs, false for legacy inline text and dummy IDs
+ */
+export function isWalrusBlobId(value: string): boolean {
+  return /^[A-Za-z0-9_-]{43}$/.test(value);
+}
+
+/**
+ * Job Description Service Configuration
+ */
+export interface JobDescriptionServiceConfig {
+  network?: "testnet" | "mainnet";
+}
+
+/**
+ * Job Description Service
+ *
+ * Wraps Walrus storage for job briefs and their reference files.
+ */
+export class JobDescriptionService {
+  private walrusService: WalrusService;
+
+  constructor(config: JobDescriptionServiceConfig = {}) {
+    this.walrusService = createWalrusService({
+      network: config.network || "testnet",
+      epochs: 10, // ~30 days on testnet
+      deletable: false,
+    });
+  }
+
+  /**
+   * Upload a job description and its attachments to Walrus as one quilt
+   *
+   * @param markdown Description in Markdown
+   * @param attachments Reference files (at most MAX_JOB_ATTACHMENTS, MAX_JOB_ATTACHMENTS_BYTES in total)
+   * @param ownerAddress Client's Sui address (blob owner)
+   * @param signAndExecute Function to sign and execute transactions (must wait for confirmation)
+   * @param onProgress Optional progress callback
+   * @returns Quilt blob ID to store as description_blob_id
+   * @throws Error if the attachments exceed the limits or the upload fails
+   */
+  async uploadDescription(
+    markdown: string,
+    attachments: JobAttachmentInput[],
+    ownerAddress: string,
+    signAndExecute: (params: { transaction: Transaction }) => Promise<{ digest: string }>,
+    onProgress?: ProgressCallback,
+  ): Promise<string> {
+    if (attachments.length > MAX_JOB_ATTACHMENTS) {
+      throw new Error(`A job can have at most ${MAX_JOB_ATTACHMENTS} attachments`);
+    }
+    const totalBytes = attachments.reduce((sum, file) => sum + file.bytes.length, 0);
+    if (totalBytes > MAX_JOB_ATTACHMENTS_BYTES) {
+      throw new Error("Attachments exceed the 10 MB limit");
+    }
+
+    onProgress?.("Uploading job description", 10);
+    const files = await this.walrusService.uploadFiles(
+      [
+        {
+          contents: markdown,
+          identifier: DESCRIPTION_IDENTIFIER,
+          tags: { "content-type": "text/markdown", role: "description" },
+        },
+        ...attachments.map((file, index) => ({
+          contents: file.bytes,
+          identifier: `attachment-${index}`,
+          tags: {
+            "content-type": file.contentType || "application/octet-stream",
+            "file-name": file.name,
+            role: "attachment",
+          },
+        })),
+      ],
+      {
+        epochs: 10,
+        deletable: false,
+        owner: ownerAddress,
+        signAndExecute,
+      },
+    );
+
+    if (!files || files.length === 0) {
+      throw new Error("Failed to upload job description to Walrus: no files returned");
+    }
+
+    onProgress?.("Job description stored", 100);
+    return files[0].blobId;
+  }
+
+  /**
+   * Load a job description
+   *
+   * @param descriptionBlobId description_blob_id from the job
+   * @returns Markdown and attachments (legacy values are returned as inline Markdown)
+   * @throws JobDescriptionUnavailableError if the quilt cannot be loaded
+   */
+  async getDescription(descriptionBlobId: string): Promise<JobDescriptionContent> {
+    if (!isWalrusBlobId(descriptionBlobId)) {
+      return {
+        markdown: isDummyBlobId(descriptionBlobId) ? "" : descriptionBlobId,
+        attachments: [],
+        source: "inline",
+      };
+    }
+
+    try {
+      const files = await this.walrusService.getFilesFromQuilt(descriptionBlobId);
+
+      let markdown = "";
+      const attachments: JobAttachment[] = [];
+      for (const file of files) {
+        const [identifier, tags, bytes] = await Promise.all([
+          file.getIdentifier(),
+          file.getTags(),
+          file.bytes(),
+        ]);
+
+        if (identifier === DESCRIPTION_IDENTIFIER || tags.role === "description") {
+          markdown = new TextDecoder().decode(bytes);
+        } else {
+          attachments.push({
+            identifier: identifier ?? `attachment-${attachments.length}`,
+            name: tags["file-name"] || identifier || "attachment",
+            contentType: tags["content-type"] || "application/octet-stream",
+            size: bytes.length,
+            bytes,
+          });
+        }
+      }
+
+      return { markdown, attachments, source: "walrus" };
+    } catch (error) {
+      throw this.toUnavailableError(descriptionBlobId, error);
+    }
+  }
+
+  /**
+   * Load only the Markdown of a job description, without downloading attachments
+   * Used to index descriptions for search.
+   *
+   * @param descriptionBlobId description_blob_id from the job
+   * @returns Description Markdown
+   * @throws JobDescriptionUnavailableError if the quilt cannot be loaded
+   */
+  async getDescriptionMarkdown(descriptionBlobId: string): Promise<string> {
+    if (!isWalrusBlobId(descriptionBlobId)) {
+      return isDummyBlobId(descriptionBlobId) ? "" : descriptionBlobId;
+    }
+
+    try {
+      const files = await this.walrusService.getFilesFromQuilt(descriptionBlobId);
+      for (const file of files) {
+        const [identifier, tags] = await Promise.all([file.getIdentifier(), file.getTags()]);
+        if (identifier === DESCRIPTION_IDENTIFIER || tags.role === "description") {
+          return new TextDecoder().decode(await file.bytes());
+        }
+      }
+      return "";
+    } catch (error) {
+      throw this.toUnavailableError(descriptionBlobId, error);
+    }
+  }
+
+  private toUnavailableError(descriptionBlobId: string, error: unknown): JobDescriptionUnavailableError {
+    const expired =
+      error instanceof BlobNotCertifiedError ||
+      error instanceof NoBlobStatusReceivedError ||
+      error instanceof NoVerifiedBlobStatusReceivedError ||
+      error instanceof BlobBlockedError;
+    return new JobDescriptionUnavailableError(
+      descriptionBlobId,
+      expired ? "expired" : "unreachable",
+      error,
+    );
+  }
+}
+
+/**
+ * Factory function to create JobDescriptionService
+ *
+ * @param config Network configuration
+ * @returns JobDescriptionService instance
+ */
+export function createJobDescriptionService(
+  config?: JobDescriptionServiceConfig,
+): JobDescriptionService {
+  return new JobDescriptionService(config);
+}
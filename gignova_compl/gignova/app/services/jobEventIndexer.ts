@@ -8,8 +8,12 @@
  * Instead of querying shared objects directly (which is not possible), we:
  * 1. Query JobCreated events to discover all jobs
  * 2. Query JobStateChanged events to track current state
+ *    (and JobUpdated events for edits to OPEN jobs)
  * 3. Query FreelancerAssigned events to find freelancer's jobs
- * 4. Optionally fetch full Job object details for current data
+ * 4. Query application events to track a freelancer's application status
+ * 5. Query the transactions that touched a job for its activity timeline and events
+ * 6. Query FundsReleased / JobCompleted events for freelancers' work history
+ * 7. Optionally fetch full Job object details for current data
  *
  * This pattern is used by all production Sui marketplaces (Kiosk, DEXs, NFT platforms)
  * because it:
@@ -24,8 +28,12 @@
  * For production, consider running a backend indexer service.
  */
 
-import { SuiClient, SuiEvent, PaginatedEvents, EventId } from "@mysten/sui/client";
-import { JobData, JobState, vectorU8ToString } from "./types";
+import { SuiClient, SuiEvent, SuiObjectData, PaginatedEvents, EventId } from "@mysten/sui/client";
+import { toStoredJobEvent, type JobEscrowEventType, type StoredJobEvent } from "./jobEventStore";
+import { JobData, JobState, ApplicationStatus, vectorU8ToString, normalizeCoinType } from "./types";
+import { getJobFields } from "./moveSchemas";
+import { ObjectLoader, createObjectLoader } from "./objectLoader";
+import { SUI_COIN_TYPE } from "../constants";
 
 /**
  * Event data structures matching Move events
@@ -34,8 +42,11 @@ import { JobData, JobState, vectorU8ToString } from "./types";
 export interface JobCreatedEvent {
   job_id: string;
   client: string;
+  coin_type?: string;  // TypeName string, absent on jobs created before generic escrow
   title: number[];  // vector<u8>
   description_blob_id: number[];  // vector<u8>
+  category?: number[];  // vector<u8>, absent on jobs created before skill tagging
+  skills?: number[][];  // vector<vector<u8>>
   budget: string;
   deadline: string;
   milestone_count: string;
@@ -51,6 +62,18 @@ export interface JobStateChangedEvent {
   timestamp: string;
 }
 
+export interface JobUpdatedEvent {
+  job_id: string;
+  client: string;
+  title: number[];  // vector<u8>
+  description_blob_id: number[];  // vector<u8>
+  category?: number[];  // vector<u8>, absent on jobs created before skill tagging
+  skills?: number[][];  // vector<vector<u8>>
+  budget: string;
+  deadline: string;
+  timestamp: string;
+}
+
 export interface FreelancerAssignedEvent {
   job_id: string;
   client: string;
@@ -64,6 +87,93 @@ export interface FreelancerAppliedEvent {
   timestamp: string;
 }
 
+export interface ProposalSubmittedEvent {
+  job_id: string;
+  freelancer: string;
+  cover_letter_blob_id: number[];  // vector<u8>
+  proposed_price: string;
+  estimated_duration_ms: string;
+  portfolio_links: number[][];  // vector<vector<u8>>
+  timestamp: string;
+}
+
+export interface ApplicationWithdrawnEvent {
+  job_id: string;
+  freelancer: string;
+  timestamp: string;
+}
+
+export interface ApplicantRejectedEvent {
+  job_id: string;
+  client: string;
+  freelancer: string;
+  timestamp: string;
+}
+
+export interface FundsReleasedEvent {
+  job_id: string;
+  recipient: string;
+  amount: string;
+  reason: number; // 0=milestone, 1=completion, 2=refund
+  timestamp: string;
+}
+
+export interface JobCompletedEvent {
+  job_id: string;
+  client: string;
+  freelancer: string;
+  total_paid: string;
+  timestamp: string;
+}
+
+/** FundsReleased reason of refunds to the client */
+export const FUNDS_RELEASED_REFUND = 2;
+
+/**
+ * Payment to a freelancer or completion of their job (work history)
+ */
+export interface FreelancerWorkEvent {
+  type: "FundsReleased" | "JobCompleted";
+  jobId: string;
+  freelancer: string;
+  /** Amount released, or total paid for JobCompleted (base units of the job's coin type) */
+  amount: number;
+  timestamp: number;
+}
+
+/**
+ * Parse a FundsReleased or JobCompleted event into a work history entry
+ * Works on RPC events and on events from the local store or indexer.
+ *
+ * @param type Event name
+ * @param data Event fields (parsedJson)
+ * @returns Work event, or null for other events and refunds
+ */
+export function parseFreelancerWorkEvent(type: string, data: Record<string, any>): FreelancerWorkEvent | null {
+  if (type === "FundsReleased") {
+    const event = data as FundsReleasedEvent;
+    if (Number(event.reason) === FUNDS_RELEASED_REFUND) return null;
+    return {
+      type,
+      jobId: event.job_id,
+      freelancer: event.recipient,
+      amount: Number(event.amount),
+      timestamp: Number(event.timestamp),
+    };
+  }
+  if (type === "JobCompleted") {
+    const event = data as JobCompletedEvent;
+    return {
+      type,
+      jobId: event.job_id,
+      freelancer: event.freelancer,
+      amount: Number(event.total_paid),
+      timestamp: Number(event.timestamp),
+    };
+  }
+  return null;
+}
+
 /**
  * Job summary from events (lightweight, no need to query Job object)
  */
@@ -72,15 +182,75 @@ export interface JobEventData {
   client: string;
   title: string;
   descriptionBlobId: string;
+  /** Category ID from the skill taxonomy ("" for uncategorized jobs) */
+  category: string;
+  /** Required skill IDs from the skill taxonomy */
+  skills: string[];
   budget: number;
+  coinType: string;
   deadline: number;
   milestoneCount: number;
   state: JobState;
   freelancer?: string;
   applicants?: string[]; // Added for marketplace "APPLIED" badge
   timestamp: number;
+  /** Time of the latest JobUpdated event, if the job was edited */
+  updatedAt?: number;
 }
 
+/**
+ * Proposal summary from ProposalSubmitted events
+ */
+export interface ProposalEventData {
+  jobId: string;
+  freelancer: string;
+  coverLetterBlobId: string;
+  proposedPrice: number;
+  estimatedDurationMs: number;
+  portfolioLinks: string[];
+  timestamp: number;
+}
+
+/**
+ * Application status from events (before checking the Job object)
+ */
+export interface ApplicationEventData {
+  jobId: string;
+  status: ApplicationStatus;
+  appliedAt: number;
+  updatedAt: number;
+}
+
+/**
+ * One step in a job's activity timeline, from a job_escrow event
+ */
+export interface JobTimelineEntry {
+  type: JobEscrowEventType;
+  /** Address that sent the transaction */
+  actor: string;
+  /** Other party named in the event (freelancer, payment recipient, client), if any */
+  counterparty?: string;
+  milestoneId?: number;
+  /** Amount moved or committed, in base units of the job's coin type */
+  amount?: number;
+  txDigest: string;
+  eventSeq: number;
+  timestamp: number;
+}
+
+/** Events left out of timelines (they repeat FreelancerApplied and the milestone/assignment events) */
+const TIMELINE_EXCLUDED_EVENTS: JobEscrowEventType[] = ["ProposalSubmitted", "JobStateChanged"];
+
+/** Event fields holding the amount of each step, by priority */
+const TIMELINE_AMOUNT_FIELDS = [
+  "amount",
+  "total_paid",
+  "refund_amount",
+  "freelancer_amount",
+  "escrow_amount",
+  "budget",
+];
+
 /**
  * Query result with pagination
  */
@@ -93,10 +263,12 @@ export interface JobEventQueryResult {
 export class JobEventIndexer {
   private suiClient: SuiClient;
   private packageId: string;
+  private objectLoader: ObjectLoader;
 
   constructor(suiClient: SuiClient, packageId: string) {
     this.suiClient = suiClient;
     this.packageId = packageId;
+    this.objectLoader = createObjectLoader(suiClient);
   }
 
   // ======== Event Query Methods ========
@@ -123,8 +295,8 @@ export class JobEventIndexer {
         order: "descending", // Latest jobs first
       });
 
-      const jobs = events.data.map((event) =>
-        this.parseJobCreatedEvent(event)
+      const jobs = await this.mergeJobUpdates(
+        events.data.map((event) => this.parseJobCreatedEvent(event))
       );
 
       return {
@@ -170,7 +342,9 @@ export class JobEventIndexer {
 
       // Parse and filter by client address in event data
       const allJobs = events.data.map((event) => this.parseJobCreatedEvent(event));
-      const clientJobs = allJobs.filter(job => job.client === clientAddress);
+      const clientJobs = await this.mergeJobUpdates(
+        allJobs.filter(job => job.client === clientAddress)
+      );
 
       console.log(`✅ My Posted Jobs: Returning ${clientJobs.length} jobs for client:`, clientJobs.map(j => ({
         jobId: j.jobId.slice(0, 8),
@@ -225,6 +399,191 @@ export class JobEventIndexer {
     }
   }
 
+  /**
+   * Query proposals submitted for a job
+   * Uses ProposalSubmitted events (emitted by apply_for_job)
+   *
+   * @param jobId Job object ID
+   * @param limit Maximum number of events to scan
+   * @returns Proposals for this job, latest first
+   */
+  async queryProposalsByJob(jobId: string, limit: number = 200): Promise<ProposalEventData[]> {
+    try {
+      const events = await this.suiClient.queryEvents({
+        query: {
+          MoveEventType: `${this.packageId}::job_escrow::ProposalSubmitted`,
+        },
+        limit,
+        order: "descending",
+      });
+
+      return events.data
+        .map((event) => this.parseProposalSubmittedEvent(event))
+        .filter((proposal) => proposal.jobId === jobId);
+    } catch (error) {
+      console.error("Error querying proposals by job:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Query proposals submitted by a freelancer
+   * Uses ProposalSubmitted events (emitted by apply_for_job)
+   *
+   * @param freelancerAddress Freelancer's wallet address
+   * @param limit Maximum number of events to scan
+   * @returns Proposals by this freelancer, latest first
+   */
+  async queryProposalsByFreelancer(
+    freelancerAddress: string,
+    limit: number = 200
+  ): Promise<ProposalEventData[]> {
+    try {
+      const events = await this.suiClient.queryEvents({
+        query: {
+          MoveEventType: `${this.packageId}::job_escrow::ProposalSubmitted`,
+        },
+        limit,
+        order: "descending",
+      });
+
+      return events.data
+        .map((event) => this.parseProposalSubmittedEvent(event))
+        .filter((proposal) => proposal.freelancer === freelancerAddress);
+    } catch (error) {
+      console.error("Error querying proposals by freelancer:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Query applications submitted by a freelancer with their event-derived status
+   * Combines FreelancerApplied, ApplicationWithdrawn, ApplicantRejected and FreelancerAssigned events.
+   * Only the latest application per job is considered (freelancers may re-apply after withdrawing).
+   *
+   * @param freelancerAddress Freelancer's wallet address
+   * @param limit Maximum number of events to scan per event type
+   * @returns Applications, latest first
+   */
+  async queryApplicationsByFreelancer(
+    freelancerAddress: string,
+    limit: number = 200
+  ): Promise<ApplicationEventData[]> {
+    try {
+      const [appliedEvents, withdrawnEvents, rejectedEvents, assignedEvents] = await Promise.all(
+        ["FreelancerApplied", "ApplicationWithdrawn", "ApplicantRejected", "FreelancerAssigned"].map(
+          (eventName) =>
+            this.suiClient.queryEvents({
+              query: {
+                MoveEventType: `${this.packageId}::job_escrow::${eventName}`,
+              },
+              limit,
+              order: "descending",
+            })
+        )
+      );
+
+      // Latest application per job
+      const applications = new Map<string, ApplicationEventData>();
+      for (const event of appliedEvents.data) {
+        const data = event.parsedJson as FreelancerAppliedEvent;
+        if (data.freelancer !== freelancerAddress || applications.has(data.job_id)) {
+          continue;
+        }
+        const timestamp = Number(data.timestamp);
+        applications.set(data.job_id, {
+          jobId: data.job_id,
+          status: ApplicationStatus.PENDING,
+          appliedAt: timestamp,
+          updatedAt: timestamp,
+        });
+      }
+
+      // Apply status changes that happened after the latest application
+      const applyStatus = (jobId: string, status: ApplicationStatus, timestamp: number) => {
+        const application = applications.get(jobId);
+        if (application && timestamp >= application.appliedAt && timestamp >= application.updatedAt) {
+          application.status = status;
+          application.updatedAt = timestamp;
+        }
+      };
+
+      for (const event of withdrawnEvents.data) {
+        const data = event.parsedJson as ApplicationWithdrawnEvent;
+        if (data.freelancer === freelancerAddress) {
+          applyStatus(data.job_id, ApplicationStatus.WITHDRAWN, Number(data.timestamp));
+        }
+      }
+
+      for (const event of rejectedEvents.data) {
+        const data = event.parsedJson as ApplicantRejectedEvent;
+        if (data.freelancer === freelancerAddress) {
+          applyStatus(data.job_id, ApplicationStatus.REJECTED, Number(data.timestamp));
+        }
+      }
+
+      for (const event of assignedEvents.data) {
+        const data = this.parseFreelancerAssignedEvent(event);
+        applyStatus(
+          data.job_id,
+          data.freelancer === freelancerAddress
+            ? ApplicationStatus.ACCEPTED
+            : ApplicationStatus.NOT_SELECTED,
+          Number(data.timestamp)
+        );
+      }
+
+      return Array.from(applications.values()).sort((a, b) => b.appliedAt - a.appliedAt);
+    } catch (error) {
+      console.error("Error querying applications by freelancer:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Query the work history of freelancers
+   * Scans FundsReleased and JobCompleted events once for all given addresses.
+   *
+   * @param freelancerAddresses Freelancers' wallet addresses
+   * @param limit Maximum number of events to scan per event type
+   * @returns Payments to and completed jobs of these freelancers, latest first
+   */
+  async queryWorkEvents(freelancerAddresses: string[], limit: number = 500): Promise<FreelancerWorkEvent[]> {
+    const freelancers = new Set(freelancerAddresses);
+    const workEvents: FreelancerWorkEvent[] = [];
+
+    try {
+      for (const eventName of ["FundsReleased", "JobCompleted"]) {
+        let cursor: EventId | null = null;
+        let scanned = 0;
+
+        while (scanned < limit) {
+          const page: PaginatedEvents = await this.suiClient.queryEvents({
+            query: { MoveEventType: `${this.packageId}::job_escrow::${eventName}` },
+            cursor,
+            limit: Math.min(50, limit - scanned),
+            order: "descending",
+          });
+
+          for (const event of page.data) {
+            const workEvent = parseFreelancerWorkEvent(eventName, event.parsedJson as Record<string, any>);
+            if (workEvent && freelancers.has(workEvent.freelancer)) {
+              workEvents.push(workEvent);
+            }
+          }
+
+          scanned += page.data.length;
+          if (!page.hasNextPage || !page.nextCursor || page.data.length === 0) break;
+          cursor = page.nextCursor;
+        }
+      }
+    } catch (error) {
+      console.error("Error querying work events:", error);
+    }
+
+    return workEvents.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
   /**
    * Get current job state from events
    * Queries JobStateChanged events to find the latest state
@@ -332,6 +691,104 @@ export class JobEventIndexer {
     return jobIndex;
   }
 
+  /**
+   * Query the activity timeline of a job
+   * Reads the transactions that changed the Job object (ChangedObject filter) with their
+   * events, so the whole history takes a few paginated calls instead of one query per event type.
+   *
+   * @param jobId Job object ID
+   * @param maxTransactions Maximum number of transactions to scan
+   * @returns Timeline entries, oldest first
+   */
+  async queryJobTimeline(jobId: string, maxTransactions: number = 500): Promise<JobTimelineEntry[]> {
+    const eventPrefix = `${this.packageId}::job_escrow::`;
+    const timeline: JobTimelineEntry[] = [];
+
+    try {
+      let cursor: string | null | undefined = undefined;
+      let scanned = 0;
+      let hasNextPage = true;
+
+      while (hasNextPage && scanned < maxTransactions) {
+        const page = await this.suiClient.queryTransactionBlocks({
+          filter: { ChangedObject: jobId },
+          options: { showEvents: true },
+          cursor,
+          limit: Math.min(50, maxTransactions - scanned),
+          order: "ascending",
+        });
+
+        for (const tx of page.data) {
+          for (const event of tx.events ?? []) {
+            if (!event.type.startsWith(eventPrefix)) continue;
+            const entry = this.parseTimelineEvent(event, tx.timestampMs);
+            if (entry && (event.parsedJson as { job_id?: string }).job_id === jobId) {
+              timeline.push(entry);
+            }
+          }
+        }
+
+        scanned += page.data.length;
+        cursor = page.nextCursor;
+        hasNextPage = page.hasNextPage && page.data.length > 0;
+      }
+    } catch (error) {
+      console.error("Error querying job timeline:", error);
+    }
+
+    return timeline;
+  }
+
+  /**
+   * Query all job_escrow events of a job
+   * Same transaction scan as queryJobTimeline, keeping the raw event fields
+   * (the RPC counterpart of JobEventStore.getJobEvents).
+   *
+   * @param jobId Job object ID
+   * @param maxTransactions Maximum number of transactions to scan
+   * @returns Events, oldest first
+   */
+  async queryJobEvents(jobId: string, maxTransactions: number = 500): Promise<StoredJobEvent[]> {
+    const eventPrefix = `${this.packageId}::job_escrow::`;
+    const events: StoredJobEvent[] = [];
+
+    try {
+      let cursor: string | null | undefined = undefined;
+      let scanned = 0;
+      let hasNextPage = true;
+
+      while (hasNextPage && scanned < maxTransactions) {
+        const page = await this.suiClient.queryTransactionBlocks({
+          filter: { ChangedObject: jobId },
+          options: { showEvents: true },
+          cursor,
+          limit: Math.min(50, maxTransactions - scanned),
+          order: "ascending",
+        });
+
+        for (const tx of page.data) {
+          for (const event of tx.events ?? []) {
+            if (!event.type.startsWith(eventPrefix)) continue;
+            const stored = toStoredJobEvent(event.type.slice(eventPrefix.length) as JobEscrowEventType, event);
+            if (stored.jobId !== jobId) continue;
+            // Transaction events carry no checkpoint time; MilestoneAdded has no timestamp field
+            if (!stored.timestampMs) stored.timestampMs = Number(tx.timestampMs ?? 0);
+            stored.sequence = events.length; // Transactions are scanned in chain order
+            events.push(stored);
+          }
+        }
+
+        scanned += page.data.length;
+        cursor = page.nextCursor;
+        hasNextPage = page.hasNextPage && page.data.length > 0;
+      }
+    } catch (error) {
+      console.error("Error querying job events:", error);
+    }
+
+    return events;
+  }
+
   /**
    * Query open jobs (marketplace listings)
    * Gets all JobCreated events and filters for currently open jobs
@@ -379,46 +836,7 @@ export class JobEventIndexer {
     // VERIFICATION: Double-check job states by fetching actual Job objects
     // This ensures we don't show stale data in the marketplace
     console.log(`🔍 Marketplace: Verifying ${candidateJobs.length} candidate OPEN jobs...`);
-    const verifiedJobs: JobEventData[] = [];
-    for (const job of candidateJobs) {
-      try {
-        const jobObject = await this.suiClient.getObject({
-          id: job.jobId,
-          options: { showContent: true },
-        });
-
-        if (jobObject.data?.content?.dataType === "moveObject") {
-          const fields = jobObject.data.content.fields as any;
-          const actualState = fields.state as JobState;
-
-          // Only include if actual state is OPEN
-          if (actualState === JobState.OPEN) {
-            // Update with verified state, applicants, and milestone count from actual object
-            job.state = actualState;
-            job.applicants = fields.applicants || [];
-            job.milestoneCount = Number(fields.milestone_count) || 0;
-            verifiedJobs.push(job);
-
-            // Stop if we have enough jobs
-            if (verifiedJobs.length >= limit) {
-              break;
-            }
-          } else {
-            // Log jobs with mismatched states for debugging
-            console.warn(
-              `Job ${job.jobId} has mismatched state: event=${JobState[job.state]}, actual=${JobState[actualState]}`
-            );
-          }
-        }
-      } catch (error) {
-        console.error(`Error verifying job ${job.jobId}:`, error);
-        // If verification fails, include job based on event state
-        // (better to show possibly stale data than hide valid jobs)
-        if (job.state === JobState.OPEN && verifiedJobs.length < limit) {
-          verifiedJobs.push(job);
-        }
-      }
-    }
+    const verifiedJobs = await this.verifyJobStates(candidateJobs, JobState.OPEN, limit);
 
     console.log(`✅ Marketplace: Returning ${verifiedJobs.length} verified OPEN jobs`);
     return verifiedJobs;
@@ -460,7 +878,7 @@ export class JobEventIndexer {
     }
 
     // Filter by state
-    const filteredJobs = result.jobs
+    const candidateJobs = result.jobs
       .map((job) => {
         const latestState = stateMap.get(job.jobId);
         if (latestState !== undefined) {
@@ -468,14 +886,160 @@ export class JobEventIndexer {
         }
         return job;
       })
-      .filter((job) => job.state === state)
-      .slice(0, limit);
+      .filter((job) => job.state === state);
+
+    return this.verifyJobStates(candidateJobs, state, limit);
+  }
+
+  /**
+   * Verify candidate jobs against their on-chain Job objects
+   * All candidates are loaded with batched multiGetObjects calls, so verification
+   * costs a fixed number of round-trips instead of one getObject call per job.
+   *
+   * @param candidateJobs Jobs whose event-derived state matches
+   * @param state Expected job state
+   * @param limit Maximum number of jobs to return
+   * @returns Jobs whose actual state matches, with applicants and milestone count from the object
+   * @note If the batch read fails, candidates are returned based on event state
+   *       (better to show possibly stale data than hide valid jobs)
+   */
+  private async verifyJobStates(
+    candidateJobs: JobEventData[],
+    state: JobState,
+    limit: number
+  ): Promise<JobEventData[]> {
+    let objects: Map<string, SuiObjectData | null>;
+    try {
+      objects = await this.objectLoader.getObjects(candidateJobs.map((job) => job.jobId));
+    } catch (error) {
+      console.error("Error verifying job states:", error);
+      return candidateJobs.slice(0, limit);
+    }
+
+    const verifiedJobs: JobEventData[] = [];
+    for (const job of candidateJobs) {
+      if (verifiedJobs.length >= limit) {
+        break;
+      }
+
+      try {
+        const data = objects.get(job.jobId);
+        const fields = data ? getJobFields(data) : null;
+        if (!fields) {
+          continue;
+        }
+
+        const actualState = fields.state as JobState;
+        if (actualState === state) {
+          // Update with verified state, applicants, and milestone count from actual object
+          job.state = actualState;
+          job.applicants = fields.applicants;
+          job.milestoneCount = fields.milestone_count;
+          verifiedJobs.push(job);
+        } else {
+          // Log jobs with mismatched states for debugging
+          console.warn(
+            `Job ${job.jobId} has mismatched state: event=${JobState[job.state]}, actual=${JobState[actualState]}`
+          );
+        }
+      } catch (error) {
+        console.error(`Error verifying job ${job.jobId}:`, error);
+        verifiedJobs.push(job);
+      }
+    }
+
+    return verifiedJobs;
+  }
+
+  /**
+   * Merge the latest JobUpdated event of each job into its JobCreated data
+   * Title, description, budget and deadline can change while a job is OPEN.
+   *
+   * @param jobs Jobs parsed from JobCreated events
+   * @param limit Maximum number of JobUpdated events to scan
+   * @returns The same jobs with edited fields replaced
+   */
+  private async mergeJobUpdates(
+    jobs: JobEventData[],
+    limit: number = 200
+  ): Promise<JobEventData[]> {
+    if (jobs.length === 0) {
+      return jobs;
+    }
+
+    try {
+      const events = await this.suiClient.queryEvents({
+        query: {
+          MoveEventType: `${this.packageId}::job_escrow::JobUpdated`,
+        },
+        limit,
+        order: "descending",
+      });
+
+      // Latest update per job (events are newest first)
+      const latestUpdates = new Map<string, JobUpdatedEvent>();
+      for (const event of events.data) {
+        const data = event.parsedJson as JobUpdatedEvent;
+        if (!latestUpdates.has(data.job_id)) {
+          latestUpdates.set(data.job_id, data);
+        }
+      }
+
+      for (const job of jobs) {
+        const update = latestUpdates.get(job.jobId);
+        if (update) {
+          job.title = vectorU8ToString(update.title);
+          job.descriptionBlobId = vectorU8ToString(update.description_blob_id);
+          if (update.skills) {
+            job.category = vectorU8ToString(update.category ?? []);
+            job.skills = update.skills.map(vectorU8ToString);
+          }
+          job.budget = Number(update.budget);
+          job.deadline = Number(update.deadline);
+          job.updatedAt = Number(update.timestamp);
+        }
+      }
+    } catch (error) {
+      console.error("Error merging job updates:", error);
+    }
 
-    return filteredJobs;
+    return jobs;
   }
 
   // ======== Event Parsing Methods ========
 
+  /**
+   * Parse a job_escrow event into a timeline entry
+   *
+   * @param event Sui event object
+   * @param txTimestampMs Checkpoint timestamp of the transaction (for events without a clock)
+   * @returns Timeline entry, or null for events left out of timelines
+   */
+  private parseTimelineEvent(event: SuiEvent, txTimestampMs?: string | null): JobTimelineEntry | null {
+    const type = event.type.split("::").pop() as JobEscrowEventType;
+    if (TIMELINE_EXCLUDED_EVENTS.includes(type)) {
+      return null;
+    }
+
+    const data = event.parsedJson as Record<string, any>;
+    const actor = event.sender;
+    const counterparty = [data.recipient, data.freelancer, data.client].find(
+      (address): address is string => typeof address === "string" && address !== actor
+    );
+    const amountField = TIMELINE_AMOUNT_FIELDS.find((field) => data[field] !== undefined);
+
+    return {
+      type,
+      actor,
+      counterparty,
+      milestoneId: data.milestone_id !== undefined ? Number(data.milestone_id) : undefined,
+      amount: amountField ? Number(data[amountField]) : undefined,
+      txDigest: event.id.txDigest,
+      eventSeq: Number(event.id.eventSeq),
+      timestamp: Number(data.timestamp ?? event.timestampMs ?? txTimestampMs ?? 0),
+    };
+  }
+
   /**
    * Parse JobCreated event into JobEventData
    *
@@ -490,7 +1054,10 @@ export class JobEventIndexer {
       client: data.client,
       title: vectorU8ToString(data.title),
       descriptionBlobId: vectorU8ToString(data.description_blob_id),
+      category: vectorU8ToString(data.category ?? []),
+      skills: (data.skills ?? []).map(vectorU8ToString),
       budget: Number(data.budget),
+      coinType: data.coin_type ? normalizeCoinType(data.coin_type) : SUI_COIN_TYPE,
       deadline: Number(data.deadline),
       milestoneCount: Number(data.milestone_count),
       state: data.state as JobState,
@@ -498,6 +1065,26 @@ export class JobEventIndexer {
     };
   }
 
+  /**
+   * Parse ProposalSubmitted event into ProposalEventData
+   *
+   * @param event Sui event object
+   * @returns Parsed proposal data
+   */
+  private parseProposalSubmittedEvent(event: SuiEvent): ProposalEventData {
+    const data = event.parsedJson as ProposalSubmittedEvent;
+
+    return {
+      jobId: data.job_id,
+      freelancer: data.freelancer,
+      coverLetterBlobId: vectorU8ToString(data.cover_letter_blob_id),
+      proposedPrice: Number(data.proposed_price),
+      estimatedDurationMs: Number(data.estimated_duration_ms),
+      portfolioLinks: data.portfolio_links.map(vectorU8ToString),
+      timestamp: Number(data.timestamp),
+    };
+  }
+
   /**
    * Parse FreelancerAssigned event
    *
@@ -0,0 +1,527 @@
+/**
+ * Job Event Store
+ * Persistent, incremental index of job_escrow events in the browser (IndexedDB)
+ *
+ * ARCHITECTURE PATTERN: Local Event Projection
+ * ============================================
+ * JobEventIndexer re-queries events from RPC on every call. This store instead:
+ * 1. Saves every job_escrow event type in IndexedDB (one database per package)
+ * 2. Follows the module's event stream (chain order) with one cursor and only fetches
+ *    events after it on each sync
+ * 3. Rebuilds the projection of each job touched by new events, replaying its
+ *    stored events in chain order (JobCreated → JobUpdated → applications → state changes ...)
+ * 4. Answers marketplace and dashboard queries from the projection without RPC
+ *
+ * The first visit syncs the full event history; later visits only fetch new events.
+ * Use JobService.getJob for fields that are not in events (milestones, proposals, escrow).
+ */
+
+import { SuiClient, SuiEvent, EventId } from "@mysten/sui/client";
+import { JobData, JobState, vectorU8ToString, normalizeCoinType } from "./types";
+import type {
+  JobCreatedEvent,
+  JobUpdatedEvent,
+  JobStateChangedEvent,
+  JobEventData,
+} from "./jobEventIndexer";
+import { SUI_COIN_TYPE } from "../constants";
+
+/**
+ * All events emitted by the job_escrow module
+ */
+export const JOB_ESCROW_EVENT_TYPES = [
+  "JobCreated",
+  "JobUpdated",
+  "FreelancerApplied",
+  "ProposalSubmitted",
+  "ApplicationWithdrawn",
+  "ApplicantRejected",
+  "FreelancerAssigned",
+  "JobStateChanged",
+  "JobStarted",
+  "MilestoneAdded",
+  "MilestoneSubmitted",
+  "MilestoneApproved",
+  "MilestoneAutoApproved",
+  "MilestoneRevisionRequested",
+  "DeliverableAccessGranted",
+  "ClientCompletionClaimed",
+  "JobCompleted",
+  "JobCancelled",
+  "FundsReleased",
+  "FreelancerCompletionPending",
+  "FreelancerCompletionClaimed",
+  "DisputeOpened",
+  "DisputeEvidenceSubmitted",
+  "DisputeResolved",
+  "DeadlineExtensionRequested",
+  "DeadlineExtended",
+] as const;
+
+export type JobEscrowEventType = (typeof JOB_ESCROW_EVENT_TYPES)[number];
+
+/**
+ * Event as saved in the local store
+ */
+export interface StoredJobEvent {
+  /** `${txDigest}:${eventSeq}` (unique per event) */
+  key: string;
+  type: JobEscrowEventType;
+  jobId: string;
+  txDigest: string;
+  eventSeq: number;
+  sender: string;
+  /** Checkpoint timestamp */
+  timestampMs: number;
+  /**
+   * Position in chain order (transaction order, then eventSeq), set by sources that read
+   * events in that order. Needed to order transactions of the same checkpoint.
+   */
+  sequence?: number;
+  /** Event fields (parsedJson) */
+  data: Record<string, any>;
+}
+
+/**
+ * Job as projected from its events
+ */
+export interface JobProjection extends JobEventData {
+  applicants: string[];
+  rejectedApplicants: string[];
+  /** Time of the latest event for this job */
+  lastEventAt: number;
+}
+
+/**
+ * Result of a sync
+ */
+export interface JobEventSyncResult {
+  /** Number of new events saved */
+  newEvents: number;
+  /** Jobs whose projection changed */
+  updatedJobIds: string[];
+}
+
+interface CursorRecord {
+  stream: string;
+  cursor: EventId | null;
+  /** Sequence of the next stored event */
+  nextSequence: number;
+}
+
+/** Version 2: one module stream with event sequences (version 1 had a cursor per event type) */
+const DB_VERSION = 2;
+const STREAM = "job_escrow";
+const EVENTS_STORE = "events";
+const CURSORS_STORE = "cursors";
+const JOBS_STORE = "jobs";
+const PAGE_SIZE = 50;
+
+/** Syncs in flight per database, shared by all store instances */
+const pendingSyncs = new Map<string, Promise<JobEventSyncResult>>();
+
+// ======== IndexedDB Helpers ========
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+// ======== Projection ========
+
+/**
+ * Order events as they happened on chain
+ * Uses the stream sequence when both events have one; otherwise checkpoint time, then
+ * eventSeq (only exact within one transaction).
+ */
+export function compareJobEvents(a: StoredJobEvent, b: StoredJobEvent): number {
+  if (a.sequence !== undefined && b.sequence !== undefined) {
+    return a.sequence - b.sequence;
+  }
+  return a.timestampMs - b.timestampMs || a.eventSeq - b.eventSeq;
+}
+
+/**
+ * Convert an RPC event into its stored form
+ *
+ * @param eventType job_escrow event name
+ * @param event Sui event object
+ * @returns Stored event (timestamp from the checkpoint, or the event's own timestamp)
+ */
+export function toStoredJobEvent(eventType: JobEscrowEventType, event: SuiEvent): StoredJobEvent {
+  const data = event.parsedJson as Record<string, any>;
+  return {
+    key: `${event.id.txDigest}:${event.id.eventSeq}`,
+    type: eventType,
+    jobId: data.job_id,
+    txDigest: event.id.txDigest,
+    eventSeq: Number(event.id.eventSeq),
+    sender: event.sender,
+    timestampMs: Number(event.timestampMs ?? data.timestamp ?? 0),
+    data,
+  };
+}
+
+/**
+ * Replay a job's events into its projection
+ * Shared with the headless indexer (indexer/), which projects into SQLite.
+ *
+ * @param events All stored events of one job
+ * @returns Projected job, or null if its JobCreated event is missing
+ */
+export function projectJob(events: StoredJobEvent[]): JobProjection | null {
+  const ordered = [...events].sort(compareJobEvents);
+
+  let job: JobProjection | null = null;
+  for (const event of ordered) {
+    const data = event.data;
+
+    if (event.type === "JobCreated") {
+      const created = data as JobCreatedEvent;
+      job = {
+        jobId: created.job_id,
+        client: created.client,
+        title: vectorU8ToString(created.title),
+        descriptionBlobId: vectorU8ToString(created.description_blob_id),
+        category: vectorU8ToString(created.category ?? []),
+        skills: (created.skills ?? []).map(vectorU8ToString),
+        budget: Number(created.budget),
+        coinType: created.coin_type ? normalizeCoinType(created.coin_type) : SUI_COIN_TYPE,
+        deadline: Number(created.deadline),
+        milestoneCount: Number(created.milestone_count),
+        state: created.state as JobState,
+        timestamp: Number(created.timestamp),
+        applicants: [],
+        rejectedApplicants: [],
+        lastEventAt: event.timestampMs,
+      };
+      continue;
+    }
+
+    if (!job) {
+      continue;
+    }
+    job.lastEventAt = event.timestampMs;
+
+    switch (event.type) {
+      case "JobUpdated": {
+        const update = data as JobUpdatedEvent;
+        job.title = vectorU8ToString(update.title);
+        job.descriptionBlobId = vectorU8ToString(update.description_blob_id);
+        if (update.skills) {
+          job.category = vectorU8ToString(update.category ?? []);
+          job.skills = update.skills.map(vectorU8ToString);
+        }
+        job.budget = Number(update.budget);
+        job.deadline = Number(update.deadline);
+        job.updatedAt = Number(update.timestamp);
+        break;
+      }
+      case "FreelancerApplied":
+        if (!job.applicants.includes(data.freelancer)) {
+          job.applicants.push(data.freelancer);
+        }
+        break;
+      case "ApplicationWithdrawn":
+        job.applicants = job.applicants.filter((address) => address !== data.freelancer);
+        break;
+      case "ApplicantRejected":
+        job.applicants = job.applicants.filter((address) => address !== data.freelancer);
+        job.rejectedApplicants.push(data.freelancer);
+        break;
+      case "FreelancerAssigned":
+        job.freelancer = data.freelancer;
+        break;
+      case "JobStateChanged": {
+        const change = data as JobStateChangedEvent;
+        job.state = change.new_state as JobState;
+        if (change.freelancer) {
+          job.freelancer = change.freelancer;
+        }
+        break;
+      }
+      case "MilestoneAdded":
+        job.milestoneCount = Math.max(job.milestoneCount, Number(data.milestone_id) + 1);
+        job.budget = Number(data.budget);
+        break;
+      case "MilestoneSubmitted":
+      case "MilestoneApproved":
+      case "MilestoneAutoApproved":
+      case "MilestoneRevisionRequested":
+        // Jobs from packages without MilestoneAdded: infer the count from milestone IDs
+        job.milestoneCount = Math.max(job.milestoneCount, Number(data.milestone_id) + 1);
+        break;
+      case "DeadlineExtended":
+        job.deadline = Number(data.new_deadline);
+        break;
+    }
+  }
+
+  return job;
+}
+
+/**
+ * Convert a projected job to JobData
+ * Milestones, proposals and escrow details are not part of the projection.
+ *
+ * @param job Projected job
+ * @returns Job data for list views
+ */
+export function jobProjectionToJobData(job: JobProjection): JobData {
+  return {
+    objectId: job.jobId,
+    client: job.client,
+    freelancer: job.freelancer,
+    title: job.title,
+    descriptionBlobId: job.descriptionBlobId,
+    // Projections stored before skill tagging have no category or skills
+    category: job.category ?? "",
+    skills: job.skills ?? [],
+    budget: job.budget,
+    state: job.state,
+    milestones: [],
+    milestoneCount: job.milestoneCount,
+    applicants: job.applicants,
+    rejectedApplicants: job.rejectedApplicants,
+    createdAt: job.timestamp,
+    deadline: job.deadline,
+    deliverableBlobIds: [],
+    coinType: job.coinType,
+  };
+}
+
+export class JobEventStore {
+  private suiClient: SuiClient;
+  private packageId: string;
+  private dbName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(suiClient: SuiClient, packageId: string) {
+    this.suiClient = suiClient;
+    this.packageId = packageId;
+    this.dbName = `gignova-job-events-${packageId}`;
+  }
+
+  /**
+   * Check whether IndexedDB is available (not during SSR or in some private modes)
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  // ======== Sync ========
+
+  /**
+   * Fetch events newer than the stored cursor and update affected projections
+   * Concurrent calls for the same package share one sync.
+   *
+   * @returns Number of new events and the jobs they touched
+   */
+  async sync(): Promise<JobEventSyncResult> {
+    const pending = pendingSyncs.get(this.dbName);
+    if (pending) {
+      return pending;
+    }
+
+    const sync = this.runSync().finally(() => pendingSyncs.delete(this.dbName));
+    pendingSyncs.set(this.dbName, sync);
+    return sync;
+  }
+
+  private async runSync(): Promise<JobEventSyncResult> {
+    const db = await this.openDb();
+
+    const stored = await requestToPromise<CursorRecord | undefined>(
+      db.transaction(CURSORS_STORE).objectStore(CURSORS_STORE).get(STREAM)
+    );
+    const fetched = await this.fetchEventsAfter(stored?.cursor ?? null, stored?.nextSequence ?? 0);
+    const newEvents = fetched.events;
+    if (fetched.cursor === (stored?.cursor ?? null)) {
+      return { newEvents: 0, updatedJobIds: [] };
+    }
+
+    // Save events, cursor and rebuilt projections atomically
+    const tx = db.transaction([EVENTS_STORE, CURSORS_STORE, JOBS_STORE], "readwrite");
+    const done = transactionDone(tx);
+    const eventsStore = tx.objectStore(EVENTS_STORE);
+    const jobsStore = tx.objectStore(JOBS_STORE);
+
+    for (const event of newEvents) {
+      eventsStore.put(event);
+    }
+    tx.objectStore(CURSORS_STORE).put({ stream: STREAM, cursor: fetched.cursor, nextSequence: fetched.nextSequence });
+
+    const updatedJobIds = Array.from(new Set(newEvents.map((event) => event.jobId)));
+    for (const jobId of updatedJobIds) {
+      const jobEvents = await requestToPromise<StoredJobEvent[]>(
+        eventsStore.index("jobId").getAll(jobId)
+      );
+      const projection = projectJob(jobEvents);
+      if (projection) {
+        jobsStore.put(projection);
+      }
+    }
+
+    await done;
+    console.log(`📦 Job event store: saved ${newEvents.length} new events, updated ${updatedJobIds.length} jobs`);
+    return { newEvents: newEvents.length, updatedJobIds };
+  }
+
+  /**
+   * Page through the job_escrow module's events in ascending (chain) order, starting after the cursor
+   * A single stream keeps the order of transactions within a checkpoint, which per-type
+   * queries and checkpoint timestamps cannot restore.
+   *
+   * @param cursor Last synced event, or null for the full history
+   * @param nextSequence Sequence of the first new event
+   * @returns New events (with sequences), the cursor to store and the next sequence
+   */
+  private async fetchEventsAfter(
+    cursor: EventId | null,
+    nextSequence: number
+  ): Promise<{ events: StoredJobEvent[]; cursor: EventId | null; nextSequence: number }> {
+    const events: StoredJobEvent[] = [];
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await this.suiClient.queryEvents({
+        query: {
+          MoveEventModule: { package: this.packageId, module: "job_escrow" },
+        },
+        cursor: cursor ?? undefined,
+        limit: PAGE_SIZE,
+        order: "ascending",
+      });
+
+      for (const event of page.data) {
+        const eventType = event.type.split("::")[2];
+        if (!(JOB_ESCROW_EVENT_TYPES as readonly string[]).includes(eventType)) continue;
+        events.push({ ...toStoredJobEvent(eventType as JobEscrowEventType, event), sequence: nextSequence++ });
+      }
+      if (page.data.length > 0) {
+        cursor = page.data[page.data.length - 1].id;
+      }
+      hasNextPage = page.hasNextPage && page.data.length > 0;
+    }
+
+    return { events, cursor, nextSequence };
+  }
+
+  // ======== Queries ========
+
+  /**
+   * Get open jobs (marketplace listings), newest first
+   *
+   * @param limit Maximum number of jobs to return
+   * @returns Open jobs from the projection
+   */
+  async getOpenJobs(limit: number = 50): Promise<JobProjection[]> {
+    const jobs = await this.getAllJobs();
+    return jobs
+      .filter((job) => job.state === JobState.OPEN)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+  }
+
+  /**
+   * Get jobs posted by a client, newest first
+   *
+   * @param clientAddress Client's address
+   * @returns Client's jobs from the projection
+   */
+  async getJobsByClient(clientAddress: string): Promise<JobProjection[]> {
+    const db = await this.openDb();
+    const jobs = await requestToPromise<JobProjection[]>(
+      db.transaction(JOBS_STORE).objectStore(JOBS_STORE).index("client").getAll(clientAddress)
+    );
+    return jobs.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Get jobs assigned to a freelancer, newest first
+   *
+   * @param freelancerAddress Freelancer's address
+   * @returns Freelancer's jobs from the projection
+   */
+  async getJobsByFreelancer(freelancerAddress: string): Promise<JobProjection[]> {
+    const db = await this.openDb();
+    const jobs = await requestToPromise<JobProjection[]>(
+      db.transaction(JOBS_STORE).objectStore(JOBS_STORE).index("freelancer").getAll(freelancerAddress)
+    );
+    return jobs.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Get all projected jobs
+   */
+  async getAllJobs(): Promise<JobProjection[]> {
+    const db = await this.openDb();
+    return requestToPromise<JobProjection[]>(
+      db.transaction(JOBS_STORE).objectStore(JOBS_STORE).getAll()
+    );
+  }
+
+  /**
+   * Get the stored events of a job in chronological order
+   *
+   * @param jobId Job object ID
+   * @returns Events of this job
+   */
+  async getJobEvents(jobId: string): Promise<StoredJobEvent[]> {
+    const db = await this.openDb();
+    const events = await requestToPromise<StoredJobEvent[]>(
+      db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index("jobId").getAll(jobId)
+    );
+    return events.sort(compareJobEvents);
+  }
+
+  // ======== Database ========
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          // Events stored before version 2 have no sequence: drop everything and resync
+          if (event.oldVersion < 2) {
+            for (const name of Array.from(db.objectStoreNames)) {
+              db.deleteObjectStore(name);
+            }
+          }
+          const events = db.createObjectStore(EVENTS_STORE, { keyPath: "key" });
+          events.createIndex("jobId", "jobId");
+          events.createIndex("type", "type");
+          db.createObjectStore(CURSORS_STORE, { keyPath: "stream" });
+          const jobs = db.createObjectStore(JOBS_STORE, { keyPath: "jobId" });
+          jobs.createIndex("client", "client");
+          jobs.createIndex("freelancer", "freelancer");
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Factory function to create JobEventStore instance
+ *
+ * @param suiClient Sui client instance
+ * @param packageId Job escrow package ID
+ * @returns JobEventStore instance
+ */
+export function createJobEventStore(suiClient: SuiClient, packageId: string): JobEventStore {
+  return new JobEventStore(suiClient, packageId);
+}
@@ -0,0 +1,248 @@
+/**
+ * Job Live Update Service
+ * Watches job_escrow events and notifies subscribers about changes to jobs on screen
+ *
+ * ARCHITECTURE PATTERN: Shared Event Poller
+ * =========================================
+ * 1. One poller per package, shared by every subscriber (hooks of all mounted views)
+ * 2. Each poll is a single queryEvents call filtered by the job_escrow module
+ *    (MoveEventModule), paging forward from the last seen event
+ * 3. New events are delivered to the subscribers watching the affected job
+ * 4. Polling stops when the last subscriber leaves and pauses while the tab is hidden
+ *
+ * The first poll only records the latest event as the starting point, so history
+ * already reflected in fetched data is not replayed.
+ */
+
+import { SuiClient, SuiEvent, EventId } from "@mysten/sui/client";
+import type { JobEscrowEventType } from "./jobEventStore";
+
+/** Interval between event polls */
+export const LIVE_UPDATE_POLL_INTERVAL_MS = 4000;
+
+const PAGE_SIZE = 50;
+
+/**
+ * Change to a job, derived from one job_escrow event
+ */
+export interface JobLiveUpdate {
+  jobId: string;
+  eventType: JobEscrowEventType;
+  txDigest: string;
+  /** Checkpoint timestamp */
+  timestampMs: number;
+  /** Event fields (parsedJson) */
+  data: Record<string, any>;
+}
+
+/**
+ * Jobs to watch: a list of job IDs, or "all" for every job (e.g. marketplace listings)
+ */
+export type LiveUpdateTarget = string[] | "all";
+
+export type JobLiveUpdateListener = (updates: JobLiveUpdate[]) => void;
+
+interface Subscription {
+  target: LiveUpdateTarget;
+  listener: JobLiveUpdateListener;
+}
+
+/** Shared services per client and package */
+const services = new WeakMap<SuiClient, Map<string, JobLiveUpdateService>>();
+
+export class JobLiveUpdateService {
+  private suiClient: SuiClient;
+  private packageId: string;
+  private pollIntervalMs: number;
+  private subscriptions = new Set<Subscription>();
+  private cursor: EventId | null = null;
+  private initialized = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+
+  constructor(
+    suiClient: SuiClient,
+    packageId: string,
+    pollIntervalMs: number = LIVE_UPDATE_POLL_INTERVAL_MS
+  ) {
+    this.suiClient = suiClient;
+    this.packageId = packageId;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  // ======== Subscriptions ========
+
+  /**
+   * Subscribe to changes of jobs
+   * Starts polling with the first subscriber.
+   *
+   * @param target Job IDs to watch, or "all"
+   * @param listener Called with the new events of watched jobs (oldest first)
+   * @returns Unsubscribe function (stops polling after the last subscriber)
+   */
+  subscribe(target: LiveUpdateTarget, listener: JobLiveUpdateListener): () => void {
+    const subscription: Subscription = { target, listener };
+    this.subscriptions.add(subscription);
+    if (this.subscriptions.size === 1) {
+      this.schedule(0);
+    }
+
+    return () => {
+      this.subscriptions.delete(subscription);
+      if (this.subscriptions.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Check whether any subscriber is watching
+   */
+  isActive(): boolean {
+    return this.subscriptions.size > 0;
+  }
+
+  // ======== Polling ========
+
+  private schedule(delayMs: number) {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.tick();
+    }, delayMs);
+  }
+
+  private stop() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick() {
+    if (!this.isActive() || this.polling) {
+      return;
+    }
+
+    // Skip polls while the tab is in the background
+    const hidden = typeof document !== "undefined" && document.visibilityState === "hidden";
+    if (!hidden) {
+      this.polling = true;
+      try {
+        const updates = await this.poll();
+        if (updates.length > 0) {
+          this.dispatch(updates);
+        }
+      } catch (error) {
+        console.error("Error polling job events:", error);
+      } finally {
+        this.polling = false;
+      }
+    }
+
+    if (this.isActive()) {
+      this.schedule(this.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Fetch job_escrow events emitted since the last poll
+   *
+   * @returns New events, oldest first (empty on the first poll)
+   */
+  private async poll(): Promise<JobLiveUpdate[]> {
+    const query = {
+      MoveEventModule: { package: this.packageId, module: "job_escrow" },
+    };
+
+    if (!this.initialized) {
+      const latest = await this.suiClient.queryEvents({ query, limit: 1, order: "descending" });
+      this.cursor = latest.data[0]?.id ?? null;
+      this.initialized = true;
+      return [];
+    }
+
+    const updates: JobLiveUpdate[] = [];
+    let hasNextPage = true;
+    while (hasNextPage) {
+      const page = await this.suiClient.queryEvents({
+        query,
+        cursor: this.cursor ?? undefined,
+        limit: PAGE_SIZE,
+        order: "ascending",
+      });
+
+      for (const event of page.data) {
+        const update = this.toLiveUpdate(event);
+        if (update) {
+          updates.push(update);
+        }
+      }
+      if (page.data.length > 0) {
+        this.cursor = page.data[page.data.length - 1].id;
+      }
+      hasNextPage = page.hasNextPage && page.data.length > 0;
+    }
+
+    return updates;
+  }
+
+  private toLiveUpdate(event: SuiEvent): JobLiveUpdate | null {
+    const data = event.parsedJson as Record<string, any> | undefined;
+    if (!data?.job_id) {
+      return null;
+    }
+
+    return {
+      jobId: data.job_id,
+      eventType: event.type.split("::").pop() as JobEscrowEventType,
+      txDigest: event.id.txDigest,
+      timestampMs: Number(event.timestampMs ?? data.timestamp ?? 0),
+      data,
+    };
+  }
+
+  private dispatch(updates: JobLiveUpdate[]) {
+    for (const { target, listener } of Array.from(this.subscriptions)) {
+      const matching =
+        target === "all" ? updates : updates.filter((update) => target.includes(update.jobId));
+      if (matching.length === 0) {
+        continue;
+      }
+
+      try {
+        listener(matching);
+      } catch (error) {
+        console.error("Error in job live update listener:", error);
+      }
+    }
+  }
+}
+
+/**
+ * Get the shared live update service for a package
+ * All callers with the same client and package share one poller.
+ *
+ * @param suiClient Sui client instance
+ * @param packageId Job escrow package ID
+ * @returns JobLiveUpdateService instance
+ */
+export function createJobLiveUpdateService(
+  suiClient: SuiClient,
+  packageId: string
+): JobLiveUpdateService {
+  let byPackage = services.get(suiClient);
+  if (!byPackage) {
+    byPackage = new Map();
+    services.set(suiClient, byPackage);
+  }
+
+  let service = byPackage.get(packageId);
+  if (!service) {
+    service = new JobLiveUpdateService(suiClient, packageId);
+    byPackage.set(packageId, service);
+  }
+  return service;
+}
@@ -0,0 +1,385 @@
+/**
+ * Job Recommender
+ * Scores open jobs for a freelancer and applicants for a client's job
+ *
+ * Freelancer -> jobs: profile tags (normalized against the skill taxonomy), work history
+ * from FundsReleased / JobCompleted events, and the budget range of past payouts.
+ * Client -> applicants: the same skill and history signals, plus profile rating and the
+ * share of jobs the applicant finished.
+ *
+ * Every score comes with the reasons that produced it, so the UI can explain each match.
+ * Scores are 0-100; each signal contributes at most its weight.
+ */
+
+import { JobData, JobState, ProfileData } from "./types";
+import type { FreelancerWorkEvent } from "./jobEventIndexer";
+import { getCategoryLabel, getSkill, getSkillLabel, normalizeSkillTags } from "./skillTaxonomy";
+import { type CoinDisplayMetadata, formatCoinAmount } from "../utils/formatting";
+
+// ======== Types ========
+
+/**
+ * Job a freelancer was paid for
+ */
+export interface WorkHistoryEntry {
+  job: JobData;
+  /** Total released to the freelancer, in base units of the job's coin type */
+  paid: number;
+  /** True once the job emitted JobCompleted */
+  completed: boolean;
+  /** Time of the latest payment or completion */
+  lastPaidAt: number;
+}
+
+export interface FreelancerHistory {
+  freelancer: string;
+  /** Paid jobs, latest first */
+  jobs: WorkHistoryEntry[];
+}
+
+export type MatchReasonKind = "skills" | "category" | "history" | "budget" | "competition" | "rating" | "reliability";
+
+export interface MatchReason {
+  kind: MatchReasonKind;
+  /** Sentence shown to the user, e.g. "Matches your skills: Move, Rust" */
+  text: string;
+  /** Points this reason added to the score */
+  points: number;
+}
+
+export interface JobRecommendation {
+  job: JobData;
+  /** 0-100 */
+  score: number;
+  /** Strongest reason first */
+  reasons: MatchReason[];
+}
+
+export interface ApplicantCandidate {
+  address: string;
+  profile: ProfileData | null;
+  history: FreelancerHistory;
+}
+
+export interface ApplicantRecommendation {
+  address: string;
+  profile: ProfileData | null;
+  /** 0-100 */
+  score: number;
+  /** Strongest reason first */
+  reasons: MatchReason[];
+  /** Score reaches STRONG_MATCH_SCORE */
+  strong: boolean;
+}
+
+/**
+ * Coin metadata for budget comparisons and labels, by coin type
+ */
+export type CoinMetadataByType = Record<string, CoinDisplayMetadata>;
+
+// ======== Weights ========
+
+const JOB_WEIGHTS = { skills: 45, history: 25, budget: 20, competition: 10 } as const;
+
+const APPLICANT_WEIGHTS = { skills: 40, history: 25, rating: 25, reliability: 10 } as const;
+
+/** Points for a job in one of the freelancer's categories without a direct skill match */
+const CATEGORY_ONLY_POINTS = 10;
+
+/** Similar past jobs needed for full history points */
+const SIMILAR_JOBS_FOR_FULL_POINTS = 3;
+
+/** Budgets within this factor of the past payout range still count as a fit */
+const BUDGET_RANGE_TOLERANCE = 1.5;
+
+/** Applicant scores from this value up are highlighted as strong matches */
+export const STRONG_MATCH_SCORE = 60;
+
+// ======== History ========
+
+/**
+ * Group a freelancer's work events into paid jobs
+ *
+ * @param freelancer Freelancer's address
+ * @param workEvents FundsReleased / JobCompleted events (other freelancers' events are ignored)
+ * @param jobsById Job data of the jobs in workEvents (jobs that cannot be loaded are skipped)
+ * @returns Work history, latest first
+ */
+export function buildFreelancerHistory(
+  freelancer: string,
+  workEvents: FreelancerWorkEvent[],
+  jobsById: Map<string, JobData>
+): FreelancerHistory {
+  const entries = new Map<string, WorkHistoryEntry & { released: number; totalPaid: number }>();
+
+  for (const event of workEvents) {
+    if (event.freelancer !== freelancer) continue;
+    const job = jobsById.get(event.jobId);
+    if (!job) continue;
+
+    const entry = entries.get(event.jobId) ?? {
+      job,
+      paid: 0,
+      completed: false,
+      lastPaidAt: 0,
+      released: 0,
+      totalPaid: 0,
+    };
+    if (event.type === "FundsReleased") {
+      entry.released += event.amount;
+    } else {
+      entry.completed = true;
+      entry.totalPaid = event.amount;
+    }
+    entry.lastPaidAt = Math.max(entry.lastPaidAt, event.timestamp);
+    entries.set(event.jobId, entry);
+  }
+
+  const jobs = Array.from(entries.values()).map(({ released, totalPaid, ...entry }) => ({
+    ...entry,
+    // Completion reports the total; milestone releases are summed when it is missing
+    paid: Math.max(released, totalPaid),
+  }));
+
+  return { freelancer, jobs: jobs.sort((a, b) => b.lastPaidAt - a.lastPaidAt) };
+}
+
+// ======== Freelancer -> Jobs ========
+
+/**
+ * Rank open jobs for a freelancer
+ * Jobs without any skill, category or history match are left out, as are jobs the
+ * freelancer posted or already applied to.
+ *
+ * @param openJobs Open jobs to consider
+ * @param freelancer Freelancer's profile (tags) and address
+ * @param history Freelancer's work history
+ * @param coinMetadata Coin metadata by coin type
+ * @param limit Maximum number of recommendations
+ * @returns Recommendations, best first
+ */
+export function recommendJobs(
+  openJobs: JobData[],
+  freelancer: Pick<ProfileData, "owner" | "tags">,
+  history: FreelancerHistory,
+  coinMetadata: CoinMetadataByType,
+  limit: number = 10
+): JobRecommendation[] {
+  const profileSkills = resolveSkills(normalizeSkillTags(freelancer.tags).skills);
+  const profileCategories = new Set(profileSkills.map((skillId) => getSkill(skillId)!.categoryId));
+  const budgetRanges = payoutRanges(history, coinMetadata);
+
+  const recommendations: JobRecommendation[] = [];
+
+  for (const job of openJobs) {
+    if (
+      job.state !== JobState.OPEN ||
+      job.client === freelancer.owner ||
+      job.applicants.includes(freelancer.owner) ||
+      job.rejectedApplicants?.includes(freelancer.owner)
+    ) {
+      continue;
+    }
+
+    const reasons: MatchReason[] = [];
+    const jobSkills = resolveSkills(job.skills);
+
+    // Profile skills
+    const matchedSkills = jobSkills.filter((skillId) => profileSkills.includes(skillId));
+    if (matchedSkills.length > 0) {
+      reasons.push({
+        kind: "skills",
+        text: `Matches your skills: ${matchedSkills.map(getSkillLabel).join(", ")}`,
+        points: (JOB_WEIGHTS.skills * matchedSkills.length) / jobSkills.length,
+      });
+    } else if (job.category && profileCategories.has(job.category)) {
+      reasons.push({
+        kind: "category",
+        text: `In a category you work in: ${getCategoryLabel(job.category)}`,
+        points: CATEGORY_ONLY_POINTS,
+      });
+    }
+
+    // Work history
+    const historyReason = similarWorkReason(job, history, "you've been paid for");
+    if (historyReason) {
+      reasons.push({ ...historyReason, points: historyReason.points * (JOB_WEIGHTS.history / 100) });
+    }
+
+    // Without a skill, category or history match the job is not personal
+    if (reasons.length === 0) continue;
+
+    // Budget range of past payouts in the same coin
+    const range = budgetRanges.get(job.coinType);
+    if (range) {
+      const metadata = coinMetadata[job.coinType];
+      if (
+        job.budget >= range.min / BUDGET_RANGE_TOLERANCE &&
+        job.budget <= range.max * BUDGET_RANGE_TOLERANCE
+      ) {
+        reasons.push({
+          kind: "budget",
+          text:
+            range.min === range.max
+              ? `Budget close to your past payout of ${formatCoinAmount(range.min, metadata)}`
+              : `Budget in your usual range (${formatCoinAmount(range.min, metadata)} – ${formatCoinAmount(range.max, metadata)})`,
+          points: JOB_WEIGHTS.budget,
+        });
+      } else if (job.budget > range.max) {
+        reasons.push({
+          kind: "budget",
+          text: `Pays more than your past jobs (${formatCoinAmount(job.budget, metadata)})`,
+          points: JOB_WEIGHTS.budget / 2,
+        });
+      }
+    }
+
+    // Competition
+    if (job.applicants.length === 0) {
+      reasons.push({ kind: "competition", text: "No applicants yet", points: JOB_WEIGHTS.competition });
+    } else if (job.applicants.length < 3) {
+      reasons.push({
+        kind: "competition",
+        text: `Only ${job.applicants.length} applicant${job.applicants.length === 1 ? "" : "s"} so far`,
+        points: JOB_WEIGHTS.competition / 2,
+      });
+    }
+
+    recommendations.push({ job, ...scoreReasons(reasons) });
+  }
+
+  return recommendations
+    .sort((a, b) => b.score - a.score || b.job.createdAt - a.job.createdAt)
+    .slice(0, limit);
+}
+
+// ======== Client -> Applicants ========
+
+/**
+ * Rank a job's applicants
+ *
+ * @param job Job the candidates applied to
+ * @param candidates Applicants with their profile and work history
+ * @returns Every candidate, best first
+ */
+export function rankApplicants(job: JobData, candidates: ApplicantCandidate[]): ApplicantRecommendation[] {
+  const jobSkills = resolveSkills(job.skills);
+
+  return candidates
+    .map(({ address, profile, history }) => {
+      const reasons: MatchReason[] = [];
+
+      // Profile skills
+      if (profile && jobSkills.length > 0) {
+        const applicantSkills = resolveSkills(normalizeSkillTags(profile.tags).skills);
+        const matchedSkills = jobSkills.filter((skillId) => applicantSkills.includes(skillId));
+        if (matchedSkills.length > 0) {
+          reasons.push({
+            kind: "skills",
+            text: `Has ${matchedSkills.length} of ${jobSkills.length} required skills: ${matchedSkills
+              .map(getSkillLabel)
+              .join(", ")}`,
+            points: (APPLICANT_WEIGHTS.skills * matchedSkills.length) / jobSkills.length,
+          });
+        }
+      }
+
+      // Work history
+      const historyReason = similarWorkReason(job, history, "completed");
+      if (historyReason) {
+        reasons.push({ ...historyReason, points: historyReason.points * (APPLICANT_WEIGHTS.history / 100) });
+      }
+
+      // Rating
+      if (profile && profile.ratingCount > 0) {
+        reasons.push({
+          kind: "rating",
+          text: `Rated ${(profile.rating / 100).toFixed(1)}★ from ${profile.ratingCount} review${
+            profile.ratingCount === 1 ? "" : "s"
+          }`,
+          points: (APPLICANT_WEIGHTS.rating * profile.rating) / 500,
+        });
+      }
+
+      // Share of accepted jobs that were finished
+      if (profile && profile.totalJobs > 0 && profile.completedJobs > 0) {
+        reasons.push({
+          kind: "reliability",
+          text: `Finished ${profile.completedJobs} of ${profile.totalJobs} jobs`,
+          points: APPLICANT_WEIGHTS.reliability * Math.min(1, profile.completedJobs / profile.totalJobs),
+        });
+      }
+
+      const { score, reasons: sorted } = scoreReasons(reasons);
+      return { address, profile, score, reasons: sorted, strong: score >= STRONG_MATCH_SCORE };
+    })
+    .sort((a, b) => b.score - a.score || (b.profile?.rating ?? 0) - (a.profile?.rating ?? 0));
+}
+
+// ======== Helpers ========
+
+/**
+ * Map skill IDs to their current taxonomy IDs, dropping unknown ones
+ */
+function resolveSkills(skillIds: string[]): string[] {
+  const resolved: string[] = [];
+  for (const skillId of skillIds) {
+    const skill = getSkill(skillId);
+    if (skill && !resolved.includes(skill.id)) resolved.push(skill.id);
+  }
+  return resolved;
+}
+
+/**
+ * Reason for past jobs sharing the job's category or a skill
+ * Points are returned on a 0-100 scale for the caller to weigh.
+ */
+function similarWorkReason(
+  job: JobData,
+  history: FreelancerHistory,
+  verb: string
+): MatchReason | null {
+  const jobSkills = resolveSkills(job.skills);
+  const similar = history.jobs.filter(
+    (entry) =>
+      entry.job.objectId !== job.objectId &&
+      ((job.category && entry.job.category === job.category) ||
+        resolveSkills(entry.job.skills).some((skillId) => jobSkills.includes(skillId)))
+  );
+  if (similar.length === 0) return null;
+
+  const subject = job.category ? `${getCategoryLabel(job.category)} ` : "";
+  return {
+    kind: "history",
+    text: `${similar.length} similar ${subject}job${similar.length === 1 ? "" : "s"} ${verb}`,
+    points: (100 * Math.min(similar.length, SIMILAR_JOBS_FOR_FULL_POINTS)) / SIMILAR_JOBS_FOR_FULL_POINTS,
+  };
+}
+
+/**
+ * Smallest and largest payout per coin type (coins without metadata are skipped)
+ */
+function payoutRanges(
+  history: FreelancerHistory,
+  coinMetadata: CoinMetadataByType
+): Map<string, { min: number; max: number }> {
+  const ranges = new Map<string, { min: number; max: number }>();
+  for (const { job, paid } of history.jobs) {
+    if (paid <= 0 || !coinMetadata[job.coinType]) continue;
+    const range = ranges.get(job.coinType);
+    ranges.set(
+      job.coinType,
+      range ? { min: Math.min(range.min, paid), max: Math.max(range.max, paid) } : { min: paid, max: paid }
+    );
+  }
+  return ranges;
+}
+
+/**
+ * Total score (capped at 100) and reasons sorted by contribution
+ */
+function scoreReasons(reasons: MatchReason[]): { score: number; reasons: MatchReason[] } {
+  const rounded = reasons.map((reason) => ({ ...reason, points: Math.round(reason.points) }));
+  const score = Math.min(100, rounded.reduce((total, reason) => total + reason.points, 0));
+  return { score, reasons: rounded.sort((a, b) => b.points - a.points) };
+}
@@ -0,0 +1,425 @@
+/**
+ * Job Search Index
+ * In-memory full-text and faceted search over job listings
+ *
+ * Titles, Walrus descriptions and skill tags are tokenized into an inverted index and
+ * ranked with BM25 (title matches weigh the most). Results can be narrowed by facets
+ * (category, budget band, milestone count, deadline range, client rating, skills) and paged
+ * over the whole index. Facet counts are disjunctive: each facet counts the results of
+ * the other active filters, so selecting a value never hides its siblings.
+ */
+
+import { JobData } from "./types";
+import { SKILL_CATEGORIES, getCategoryLabel, getSkillLabel } from "./skillTaxonomy";
+
+// ======== Types ========
+
+/**
+ * Job with the off-chain data the index needs
+ */
+export interface JobSearchDocument {
+  job: JobData;
+  /** Description Markdown (empty when the blob could not be loaded) */
+  description: string;
+  /** Required skill IDs (taxonomy IDs; legacy jobs may carry raw hashtags) */
+  skills: string[];
+  /** Client's profile rating scaled by 100, null when the client has no ratings */
+  clientRating: number | null;
+  /** Budget in whole coins of the job's escrow currency */
+  budgetInCoins: number;
+}
+
+export type JobSearchFacet = "category" | "budget" | "milestones" | "deadline" | "clientRating" | "skills";
+
+export type JobSearchSort =
+  | "relevance"
+  | "newest"
+  | "oldest"
+  | "budget-high"
+  | "budget-low"
+  | "deadline-soon"
+  | "deadline-far";
+
+export interface JobSearchQuery {
+  text?: string;
+  /** Selected values per facet (OR within a facet, AND across facets) */
+  facets?: Partial<Record<JobSearchFacet, string[]>>;
+  /** Defaults to relevance, which falls back to newest without search text */
+  sort?: JobSearchSort;
+  offset?: number;
+  limit?: number;
+}
+
+export interface FacetValueCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface JobSearchHit {
+  job: JobData;
+  score: number;
+}
+
+export interface JobSearchResult {
+  hits: JobSearchHit[];
+  /** Number of jobs matching the query and facets */
+  total: number;
+  facets: Record<JobSearchFacet, FacetValueCount[]>;
+}
+
+// ======== Facet Buckets ========
+
+interface FacetBucket {
+  value: string;
+  label: string;
+  matches: (doc: JobSearchDocument, now: number) => boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Budget bands in whole coins of the job's currency */
+export const BUDGET_BANDS: FacetBucket[] = [
+  { value: "lt-100", label: "Under 100", matches: (doc) => doc.budgetInCoins < 100 },
+  { value: "100-500", label: "100 – 500", matches: (doc) => doc.budgetInCoins >= 100 && doc.budgetInCoins < 500 },
+  { value: "500-1000", label: "500 – 1,000", matches: (doc) => doc.budgetInCoins >= 500 && doc.budgetInCoins < 1000 },
+  { value: "1000-5000", label: "1,000 – 5,000", matches: (doc) => doc.budgetInCoins >= 1000 && doc.budgetInCoins < 5000 },
+  { value: "gte-5000", label: "5,000+", matches: (doc) => doc.budgetInCoins >= 5000 },
+];
+
+const MILESTONE_BUCKETS: FacetBucket[] = [
+  { value: "1", label: "1 milestone", matches: (doc) => doc.job.milestoneCount <= 1 },
+  { value: "2-3", label: "2 – 3 milestones", matches: (doc) => doc.job.milestoneCount >= 2 && doc.job.milestoneCount <= 3 },
+  { value: "4-5", label: "4 – 5 milestones", matches: (doc) => doc.job.milestoneCount >= 4 && doc.job.milestoneCount <= 5 },
+  { value: "6+", label: "6+ milestones", matches: (doc) => doc.job.milestoneCount >= 6 },
+];
+
+const DEADLINE_BUCKETS: FacetBucket[] = [
+  { value: "today", label: "Due today", matches: (doc, now) => doc.job.deadline - now <= DAY_MS },
+  {
+    value: "week",
+    label: "Due in 2 – 7 days",
+    matches: (doc, now) => doc.job.deadline - now > DAY_MS && doc.job.deadline - now <= 7 * DAY_MS,
+  },
+  {
+    value: "month",
+    label: "Due in 8 – 30 days",
+    matches: (doc, now) => doc.job.deadline - now > 7 * DAY_MS && doc.job.deadline - now <= 30 * DAY_MS,
+  },
+  { value: "later", label: "Due in 30+ days", matches: (doc, now) => doc.job.deadline - now > 30 * DAY_MS },
+];
+
+const CLIENT_RATING_BUCKETS: FacetBucket[] = [
+  { value: "4+", label: "4★ and up", matches: (doc) => doc.clientRating !== null && doc.clientRating >= 400 },
+  {
+    value: "3-4",
+    label: "3★ – 4★",
+    matches: (doc) => doc.clientRating !== null && doc.clientRating >= 300 && doc.clientRating < 400,
+  },
+  { value: "lt-3", label: "Below 3★", matches: (doc) => doc.clientRating !== null && doc.clientRating < 300 },
+  { value: "unrated", label: "Unrated client", matches: (doc) => doc.clientRating === null },
+];
+
+const FIXED_FACETS: Record<Exclude<JobSearchFacet, "category" | "skills">, FacetBucket[]> = {
+  budget: BUDGET_BANDS,
+  milestones: MILESTONE_BUCKETS,
+  deadline: DEADLINE_BUCKETS,
+  clientRating: CLIENT_RATING_BUCKETS,
+};
+
+export const JOB_SEARCH_FACETS: JobSearchFacet[] = [
+  "category",
+  "budget",
+  "milestones",
+  "deadline",
+  "clientRating",
+  "skills",
+];
+
+// ======== Tokenizer ========
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it",
+  "of", "on", "or", "the", "this", "to", "we", "with", "you", "your", "our", "will",
+]);
+
+/**
+ * Reduce a word to a simple stem (plural and common suffixes)
+ */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith("ies")) return word.slice(0, -3) + "y";
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text into lowercase, accent-free, stemmed search tokens
+ *
+ * @param text Plain text or Markdown (syntax characters are dropped)
+ * @returns Tokens in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, " ")
+    .split(/[^a-z0-9+#]+/)
+    // Keep "c++" and "c#", drop leading "#" of hashtags
+    .map((token) => token.replace(/^[+#]+/, ""))
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+// ======== Index ========
+
+/** Field weights for BM25 term frequencies */
+const FIELD_WEIGHTS = { title: 3, skills: 2, description: 1 } as const;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+interface IndexedDocument {
+  doc: JobSearchDocument;
+  /** Weighted term frequencies */
+  terms: Map<string, number>;
+  length: number;
+}
+
+export class JobSearchIndex {
+  private docs: IndexedDocument[] = [];
+  /** Term -> positions in docs */
+  private postings = new Map<string, number[]>();
+  /** Sorted vocabulary, for prefix matching of the last query token */
+  private vocabulary: string[] = [];
+  private averageLength = 0;
+
+  constructor(documents: JobSearchDocument[]) {
+    let totalLength = 0;
+
+    documents.forEach((doc, position) => {
+      const terms = new Map<string, number>();
+      const add = (tokens: string[], weight: number) => {
+        for (const token of tokens) {
+          terms.set(token, (terms.get(token) ?? 0) + weight);
+        }
+      };
+      add(tokenize(doc.job.title), FIELD_WEIGHTS.title);
+      const skillText = [getCategoryLabel(doc.job.category), ...doc.skills.map(getSkillLabel)].join(" ");
+      add(tokenize(skillText), FIELD_WEIGHTS.skills);
+      add(tokenize(doc.description), FIELD_WEIGHTS.description);
+
+      let length = 0;
+      terms.forEach((frequency, term) => {
+        length += frequency;
+        const posting = this.postings.get(term);
+        if (posting) {
+          posting.push(position);
+        } else {
+          this.postings.set(term, [position]);
+        }
+      });
+
+      totalLength += length;
+      this.docs.push({ doc, terms, length });
+    });
+
+    this.averageLength = this.docs.length > 0 ? totalLength / this.docs.length : 0;
+    this.vocabulary = Array.from(this.postings.keys()).sort();
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  /**
+   * Search the index
+   *
+   * @param query Text, facet selections, sort and page
+   * @param now Reference time for deadline buckets (default: Date.now())
+   * @returns Page of hits, total match count and facet counts
+   */
+  search(query: JobSearchQuery = {}, now: number = Date.now()): JobSearchResult {
+    const scores = this.scoreText(query.text ?? "");
+    const selected = query.facets ?? {};
+
+    // Candidates matching the text query
+    const candidates: number[] = [];
+    this.docs.forEach((_, position) => {
+      if (!scores || scores.has(position)) candidates.push(position);
+    });
+
+    const matchesFacet = (facet: JobSearchFacet, doc: JobSearchDocument) => {
+      const values = selected[facet];
+      if (!values || values.length === 0) return true;
+      if (facet === "category") return values.includes(doc.job.category);
+      if (facet === "skills") return values.some((skill) => doc.skills.includes(skill));
+      return FIXED_FACETS[facet].some((bucket) => values.includes(bucket.value) && bucket.matches(doc, now));
+    };
+    const matchesAllExcept = (doc: JobSearchDocument, excluded?: JobSearchFacet) =>
+      JOB_SEARCH_FACETS.every((facet) => facet === excluded || matchesFacet(facet, doc));
+
+    const matched = candidates.filter((position) => matchesAllExcept(this.docs[position].doc));
+    const facets = this.countFacets(candidates, matchesAllExcept, now);
+
+    const requestedSort = query.sort ?? "relevance";
+    const sort = requestedSort === "relevance" && !scores ? "newest" : requestedSort;
+    const hits = matched.map((position) => ({
+      job: this.docs[position].doc.job,
+      score: scores?.get(position) ?? 0,
+    }));
+    hits.sort((a, b) => compareHits(a, b, sort));
+
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? hits.length;
+    return { hits: hits.slice(offset, offset + limit), total: hits.length, facets };
+  }
+
+  /**
+   * BM25 scores of the documents containing every query token
+   * The last token also matches as a prefix, so results update while typing.
+   *
+   * @returns Scores by document position, or null for an empty query
+   */
+  private scoreText(text: string): Map<number, number> | null {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) return null;
+
+    const endsWithSpace = /\s$/.test(text);
+    let scores: Map<number, number> | null = null;
+
+    tokens.forEach((token, index) => {
+      const isPrefix = index === tokens.length - 1 && !endsWithSpace;
+      const terms = isPrefix ? this.expandPrefix(token) : [token];
+      const tokenScores = new Map<number, number>();
+
+      for (const term of terms) {
+        const posting = this.postings.get(term) ?? [];
+        const idf = Math.log(1 + (this.docs.length - posting.length + 0.5) / (posting.length + 0.5));
+        // Exact matches rank above prefix completions
+        const boost = term === token ? 1 : 0.5;
+
+        for (const position of posting) {
+          const { terms: docTerms, length } = this.docs[position];
+          const frequency = docTerms.get(term)!;
+          const score =
+            (idf * frequency * (BM25_K1 + 1)) /
+            (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * length) / (this.averageLength || 1)));
+          tokenScores.set(position, Math.max(tokenScores.get(position) ?? 0, score * boost));
+        }
+      }
+
+      // Every token must match
+      const previous: Map<number, number> | null = scores;
+      const next = new Map<number, number>();
+      tokenScores.forEach((score, position) => {
+        if (previous === null) {
+          next.set(position, score);
+        } else if (previous.has(position)) {
+          next.set(position, previous.get(position)! + score);
+        }
+      });
+      scores = next;
+    });
+
+    return scores;
+  }
+
+  /**
+   * Vocabulary terms starting with a prefix (binary search on the sorted vocabulary)
+   */
+  private expandPrefix(prefix: string): string[] {
+    let low = 0;
+    let high = this.vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.vocabulary[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const terms: string[] = [];
+    for (let i = low; i < this.vocabulary.length && this.vocabulary[i].startsWith(prefix); i++) {
+      terms.push(this.vocabulary[i]);
+    }
+    return terms;
+  }
+
+  private countFacets(
+    candidates: number[],
+    matchesAllExcept: (doc: JobSearchDocument, excluded?: JobSearchFacet) => boolean,
+    now: number
+  ): Record<JobSearchFacet, FacetValueCount[]> {
+    const facets = {} as Record<JobSearchFacet, FacetValueCount[]>;
+
+    for (const facet of JOB_SEARCH_FACETS) {
+      const docs = candidates.map((position) => this.docs[position].doc).filter((doc) => matchesAllExcept(doc, facet));
+
+      if (facet === "category") {
+        // Every taxonomy category is listed so the category browser stays stable
+        const counts = new Map<string, number>(SKILL_CATEGORIES.map((category) => [category.id, 0]));
+        for (const doc of docs) {
+          if (doc.job.category) counts.set(doc.job.category, (counts.get(doc.job.category) ?? 0) + 1);
+        }
+        facets.category = Array.from(counts, ([value, count]) => ({ value, label: getCategoryLabel(value), count }));
+      } else if (facet === "skills") {
+        const counts = new Map<string, number>();
+        for (const doc of docs) {
+          for (const skill of doc.skills) {
+            counts.set(skill, (counts.get(skill) ?? 0) + 1);
+          }
+        }
+        facets.skills = Array.from(counts, ([value, count]) => ({ value, label: getSkillLabel(value), count })).sort(
+          (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+        );
+      } else {
+        facets[facet] = FIXED_FACETS[facet].map((bucket) => ({
+          value: bucket.value,
+          label: bucket.label,
+          count: docs.filter((doc) => bucket.matches(doc, now)).length,
+        }));
+      }
+    }
+
+    return facets;
+  }
+}
+
+function compareHits(a: JobSearchHit, b: JobSearchHit, sort: JobSearchSort): number {
+  switch (sort) {
+    case "relevance":
+      return b.score - a.score || b.job.createdAt - a.job.createdAt;
+    case "newest":
+      return b.job.createdAt - a.job.createdAt;
+    case "oldest":
+      return a.job.createdAt - b.job.createdAt;
+    case "budget-high":
+      return b.job.budget - a.job.budget;
+    case "budget-low":
+      return a.job.budget - b.job.budget;
+    case "deadline-soon":
+      return a.job.deadline - b.job.deadline;
+    case "deadline-far":
+      return b.job.deadline - a.job.deadline;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Extract skill tags written as hashtags in a job description (e.g. "#move #react")
+ * Markdown headings ("# Overview") are not tags because of the space after "#".
+ *
+ * @param markdown Description Markdown
+ * @returns Unique lowercase tags without "#"
+ */
+export function extractHashtags(markdown: string): string[] {
+  const tags = new Set<string>();
+  const pattern = /(^|[\s(,])#([a-zA-Z][\w+.-]*[\w+])/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(markdown)) !== null) {
+    tags.add(match[2].toLowerCase());
+  }
+  return Array.from(tags);
+}
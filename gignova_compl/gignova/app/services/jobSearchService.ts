@@ -0,0 +1,186 @@
+/**
+ * Job Search Service
+ * Loads the off-chain data of job listings and builds the search index
+ *
+ * For every open job the service collects:
+ * 1. The description Markdown from Walrus (quilts are immutable, so cached per blob ID)
+ * 2. Required skills: the on-chain skill IDs, or description hashtags for older jobs
+ * 3. The client's profile rating, found through ProfileCreated events (owner -> profile)
+ *    and read in batches with the ObjectLoader
+ *
+ * Descriptions that cannot be loaded are indexed as empty, so a Walrus outage only
+ * narrows full-text matches instead of failing the search.
+ */
+
+import { SuiClient, EventId } from "@mysten/sui/client";
+import { JobData } from "./types";
+import { getProfileFields } from "./moveSchemas";
+import { ObjectLoader, createObjectLoader } from "./objectLoader";
+import { JobDescriptionService } from "./jobDescriptionService";
+import { JobSearchDocument, JobSearchIndex, extractHashtags } from "./jobSearchIndex";
+import { normalizeSkillTags } from "./skillTaxonomy";
+
+/** Walrus reads the service runs at the same time */
+const DESCRIPTION_FETCH_CONCURRENCY = 4;
+
+/** Description Markdown by blob ID, shared by all services */
+const descriptionCache = new Map<string, Promise<string>>();
+
+export class JobSearchService {
+  private suiClient: SuiClient;
+  private profilePackageId: string;
+  private descriptionService: JobDescriptionService;
+  private objectLoader: ObjectLoader;
+  /** Profile ID by owner, built incrementally from ProfileCreated events */
+  private profileIds = new Map<string, string>();
+  private profileCursor: EventId | null = null;
+
+  constructor(suiClient: SuiClient, profilePackageId: string, descriptionService: JobDescriptionService) {
+    this.suiClient = suiClient;
+    this.profilePackageId = profilePackageId;
+    this.descriptionService = descriptionService;
+    this.objectLoader = createObjectLoader(suiClient);
+  }
+
+  /**
+   * Build a search index over jobs
+   *
+   * @param jobs Jobs to index (usually every open job)
+   * @param decimalsByCoinType Decimals of each escrow coin type, for budget bands
+   * @returns Search index
+   */
+  async buildIndex(jobs: JobData[], decimalsByCoinType: Record<string, number>): Promise<JobSearchIndex> {
+    const [descriptions, clientRatings] = await Promise.all([
+      this.getDescriptions(jobs.map((job) => job.descriptionBlobId)),
+      this.getClientRatings(jobs.map((job) => job.client)),
+    ]);
+
+    const documents: JobSearchDocument[] = jobs.map((job) => {
+      const description = descriptions.get(job.descriptionBlobId) ?? "";
+      return {
+        job,
+        description,
+        skills: job.skills.length > 0 ? job.skills : this.legacySkills(description),
+        clientRating: clientRatings.get(job.client) ?? null,
+        budgetInCoins: job.budget / Math.pow(10, decimalsByCoinType[job.coinType] ?? 9),
+      };
+    });
+
+    return new JobSearchIndex(documents);
+  }
+
+  /**
+   * Skills of jobs created before skills were stored on-chain
+   * Description hashtags are mapped to the taxonomy; unknown hashtags are kept as-is.
+   */
+  private legacySkills(description: string): string[] {
+    const { skills, unmatched } = normalizeSkillTags(extractHashtags(description));
+    return [...skills, ...unmatched];
+  }
+
+  // ======== Descriptions ========
+
+  /**
+   * Load description Markdown for blob IDs, a few at a time
+   *
+   * @returns Markdown by blob ID ("" for blobs that could not be loaded)
+   */
+  private async getDescriptions(blobIds: string[]): Promise<Map<string, string>> {
+    const unique = Array.from(new Set(blobIds));
+    const descriptions = new Map<string, string>();
+    let next = 0;
+
+    const worker = async () => {
+      while (next < unique.length) {
+        const blobId = unique[next++];
+        descriptions.set(blobId, await this.getDescription(blobId));
+      }
+    };
+    await Promise.all(Array.from({ length: DESCRIPTION_FETCH_CONCURRENCY }, worker));
+
+    return descriptions;
+  }
+
+  private getDescription(blobId: string): Promise<string> {
+    let cached = descriptionCache.get(blobId);
+    if (!cached) {
+      cached = this.descriptionService.getDescriptionMarkdown(blobId).catch((error) => {
+        // Retry on the next index build
+        descriptionCache.delete(blobId);
+        console.warn(`Could not index description ${blobId}:`, error);
+        return "";
+      });
+      descriptionCache.set(blobId, cached);
+    }
+    return cached;
+  }
+
+  // ======== Client Ratings ========
+
+  /**
+   * Get the profile ratings of clients
+   *
+   * @param clients Client addresses
+   * @returns Rating (scaled by 100) by address; absent for clients without profile or ratings
+   */
+  private async getClientRatings(clients: string[]): Promise<Map<string, number>> {
+    await this.syncProfileIds();
+
+    const profileIdByClient = new Map<string, string>();
+    for (const client of new Set(clients)) {
+      const profileId = this.profileIds.get(client);
+      if (profileId) profileIdByClient.set(client, profileId);
+    }
+
+    const objects = await this.objectLoader.getObjects(Array.from(profileIdByClient.values()));
+    const ratings = new Map<string, number>();
+    profileIdByClient.forEach((profileId, client) => {
+      const data = objects.get(profileId);
+      const fields = data ? getProfileFields(data) : null;
+      if (fields && fields.rating_count > 0) {
+        ratings.set(client, fields.rating);
+      }
+    });
+
+    return ratings;
+  }
+
+  /**
+   * Page through ProfileCreated events newer than the last sync
+   */
+  private async syncProfileIds(): Promise<void> {
+    let hasNextPage = true;
+    while (hasNextPage) {
+      const page = await this.suiClient.queryEvents({
+        query: { MoveEventType: `${this.profilePackageId}::profile_nft::ProfileCreated` },
+        cursor: this.profileCursor ?? undefined,
+        limit: 50,
+        order: "ascending",
+      });
+
+      for (const event of page.data) {
+        const data = event.parsedJson as { profile_id: string; owner: string };
+        this.profileIds.set(data.owner, data.profile_id);
+      }
+
+      if (page.nextCursor) this.profileCursor = page.nextCursor;
+      hasNextPage = page.hasNextPage;
+    }
+  }
+}
+
+/**
+ * Factory function to create JobSearchService
+ *
+ * @param suiClient Sui client instance
+ * @param profilePackageId profile_nft package ID
+ * @param descriptionService Walrus job description service
+ * @returns JobSearchService instance
+ */
+export function createJobSearchService(
+  suiClient: SuiClient,
+  profilePackageId: string,
+  descriptionService: JobDescriptionService
+): JobSearchService {
+  return new JobSearchService(suiClient, profilePackageId, descriptionService);
+}
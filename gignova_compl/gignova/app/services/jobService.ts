@@ -11,25 +11,49 @@
  * 6. Add comprehensive error handling
  */
 
-import { SuiClient } from "@mysten/sui/client";
-import { Transaction } from "@mysten/sui/transactions";
+import { SuiClient, SuiObjectData } from "@mysten/sui/client";
+import { Transaction, TransactionObjectArgument } from "@mysten/sui/transactions";
 import {
   JobData,
   JobCapData,
+  ApplicationData,
+  ApplicationStatus,
+  ArbiterCapData,
   JobState,
   MilestoneData,
-  getJobFields,
-  vectorU8ToString,
+  DisputeData,
+  DeliverableEscrowData,
+  ProposalData,
+  ProposalInput,
+  JobUpdateInput,
+  MilestoneApprovalInput,
+  EscrowCoverage,
+  getJobCoinType,
 } from "./types";
+import { decodeDynamicFieldValue, decodeMoveObject } from "./objectDecoder";
+import { ObjectLoader, createObjectLoader, deriveU64TableEntryId } from "./objectLoader";
+import {
+  DeliverableEscrowSchema,
+  JobCapSchema,
+  MilestoneSchema,
+  getJobFields,
+  type DisputeFields,
+  type JobFields,
+  type MilestoneFields,
+  type ProposalFields,
+} from "./moveSchemas";
 import { createJobEventIndexer } from "./jobEventIndexer";
+import { DEFAULT_REVIEW_WINDOW_MS, SUI_COIN_TYPE } from "@/constants";
 
 export class JobService {
   private suiClient: SuiClient;
   private packageId: string;
+  private objectLoader: ObjectLoader;
 
   constructor(suiClient: SuiClient, packageId: string) {
     this.suiClient = suiClient;
     this.packageId = packageId;
+    this.objectLoader = createObjectLoader(suiClient);
   }
 
   // ======== Transaction Builders ========
@@ -39,11 +63,20 @@ export class JobService {
    * Creates a Job object and JobCap, deposits budget into escrow.
    * The client's profile is updated with the active job.
    *
+   * SUI budgets are split from the gas coin. For other coin types the given
+   * coins are merged into the first one before splitting the budget
+   * (see selectCoinsForAmount).
+   *
    * @param clientProfileId Client's Profile object ID (mutable - will be updated)
    * @param title Job title
    * @param descriptionBlobId Walrus blob ID for job description
-   * @param budgetAmount Budget in MIST (smallest SUI unit)
+   * @param category Category ID from the skill taxonomy ("" for none)
+   * @param skills Required skill IDs from the skill taxonomy (at most MAX_JOB_SKILLS)
+   * @param budgetAmount Budget in base units of the coin (MIST for SUI)
    * @param deadline Unix timestamp in milliseconds
+   * @param reviewWindowMs Client review window per submission in milliseconds (0 = contract default, 7 days; at most MAX_REVIEW_WINDOW_MS)
+   * @param coinType Escrow coin type (default: SUI)
+   * @param coinObjectIds Coin objects of coinType covering the budget (required for non-SUI coins)
    * @returns Transaction to sign and execute by the client
    * @note State transition: Creates job in OPEN state
    * @note Client profile updated: active_jobs incremented
@@ -52,13 +85,18 @@ export class JobService {
     clientProfileId: string,
     title: string,
     descriptionBlobId: string,
+    category: string,
+    skills: string[],
     budgetAmount: number,
-    deadline: number
+    deadline: number,
+    reviewWindowMs: number = 0,
+    coinType: string = SUI_COIN_TYPE,
+    coinObjectIds: string[] = []
   ): Transaction {
     const tx = new Transaction();
 
     // Split coins for exact budget
-    const [coin] = tx.splitCoins(tx.gas, [budgetAmount]);
+    const coin = this.splitPayment(tx, budgetAmount, coinType, coinObjectIds);
 
     tx.moveCall({
       arguments: [
@@ -68,10 +106,17 @@ export class JobService {
           "u8",
           Array.from(new TextEncoder().encode(descriptionBlobId))
         ),
+        tx.pure.vector("u8", Array.from(new TextEncoder().encode(category))),
+        tx.pure.vector(
+          "vector<u8>",
+          skills.map((skill) => Array.from(new TextEncoder().encode(skill)))
+        ),
         coin,
         tx.pure.u64(deadline),
+        tx.pure.u64(reviewWindowMs),
         tx.object("0x6"), // Clock object
       ],
+      typeArguments: [coinType],
       target: `${this.packageId}::job_escrow::create_job`,
     });
 
@@ -79,29 +124,205 @@ export class JobService {
   }
 
   /**
-   * Apply for a job as freelancer
+   * Edit an OPEN job (client only)
+   * Adds one move call per changed part, so all edits are signed at once:
+   * update_job_details (title + description), update_job_skills (category + skills),
+   * update_job_deadline and top_up_escrow.
+   *
+   * @param jobId Job object ID
+   * @param jobCapId JobCap object ID (proves client owns the job)
+   * @param update Fields to change; title and descriptionBlobId must be given together
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @param coinObjectIds Coin objects of coinType covering the top-up (required for non-SUI top-ups)
+   * @returns Transaction to sign and execute by the client
+   * @note Only while the job is OPEN; applicants and proposals are kept
+   * @note Each call emits JobUpdated with the job's new title, description, skills, budget and deadline
+   */
+  updateJobTransaction(
+    jobId: string,
+    jobCapId: string,
+    update: JobUpdateInput,
+    coinType: string = SUI_COIN_TYPE,
+    coinObjectIds: string[] = []
+  ): Transaction {
+    const tx = new Transaction();
+    let hasChanges = false;
+
+    if (update.title !== undefined || update.descriptionBlobId !== undefined) {
+      if (update.title === undefined || update.descriptionBlobId === undefined) {
+        throw new Error("Title and description must be updated together");
+      }
+      tx.moveCall({
+        arguments: [
+          tx.object(jobId),
+          tx.object(jobCapId),
+          tx.pure.vector("u8", Array.from(new TextEncoder().encode(update.title))),
+          tx.pure.vector("u8", Array.from(new TextEncoder().encode(update.descriptionBlobId))),
+          tx.object("0x6"), // Clock
+        ],
+        typeArguments: [coinType],
+        target: `${this.packageId}::job_escrow::update_job_details`,
+      });
+      hasChanges = true;
+    }
+
+    if (update.category !== undefined || update.skills !== undefined) {
+      if (update.category === undefined || update.skills === undefined) {
+        throw new Error("Category and skills must be updated together");
+      }
+      tx.moveCall({
+        arguments: [
+          tx.object(jobId),
+          tx.object(jobCapId),
+          tx.pure.vector("u8", Array.from(new TextEncoder().encode(update.category))),
+          tx.pure.vector(
+            "vector<u8>",
+            update.skills.map((skill) => Array.from(new TextEncoder().encode(skill)))
+          ),
+          tx.object("0x6"), // Clock
+        ],
+        typeArguments: [coinType],
+        target: `${this.packageId}::job_escrow::update_job_skills`,
+      });
+      hasChanges = true;
+    }
+
+    if (update.deadline !== undefined) {
+      tx.moveCall({
+        arguments: [
+          tx.object(jobId),
+          tx.object(jobCapId),
+          tx.pure.u64(update.deadline),
+          tx.object("0x6"), // Clock
+        ],
+        typeArguments: [coinType],
+        target: `${this.packageId}::job_escrow::update_job_deadline`,
+      });
+      hasChanges = true;
+    }
+
+    if (update.topUpAmount !== undefined && update.topUpAmount > 0) {
+      const payment = this.splitPayment(tx, update.topUpAmount, coinType, coinObjectIds);
+      tx.moveCall({
+        arguments: [
+          tx.object(jobId),
+          tx.object(jobCapId),
+          payment,
+          tx.object("0x6"), // Clock
+        ],
+        typeArguments: [coinType],
+        target: `${this.packageId}::job_escrow::top_up_escrow`,
+      });
+      hasChanges = true;
+    }
+
+    if (!hasChanges) {
+      throw new Error("No job changes to submit");
+    }
+
+    return tx;
+  }
+
+  /**
+   * Apply for a job as freelancer with a proposal
    * The freelancer profile is used for ownership validation (read-only).
    * Profile updates happen later in start_job, not during application.
    *
    * @param jobId Job object ID
    * @param freelancerProfileId Freelancer's Profile object ID (for validation)
+   * @param proposal Cover letter blob ID (upload via ProposalService first), price, duration and portfolio links
+   * @param coinType Escrow coin type of the job (default: SUI)
    * @returns Transaction to sign and execute by the freelancer
+   * @note At most 5 portfolio links; price and duration must be positive
    */
-  applyForJobTransaction(jobId: string, freelancerProfileId: string): Transaction {
+  applyForJobTransaction(
+    jobId: string,
+    freelancerProfileId: string,
+    proposal: ProposalInput,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
     const tx = new Transaction();
 
     tx.moveCall({
       arguments: [
         tx.object(jobId),
         tx.object(freelancerProfileId), // Freelancer's Profile (read-only validation)
+        tx.pure.vector("u8", Array.from(new TextEncoder().encode(proposal.coverLetterBlobId))),
+        tx.pure.u64(proposal.proposedPrice),
+        tx.pure.u64(proposal.estimatedDurationMs),
+        tx.pure.vector(
+          "vector<u8>",
+          proposal.portfolioLinks.map((link) => Array.from(new TextEncoder().encode(link)))
+        ),
         tx.object("0x6"), // Clock
       ],
+      typeArguments: [coinType],
       target: `${this.packageId}::job_escrow::apply_for_job`,
     });
 
     return tx;
   }
 
+  /**
+   * Withdraw an application (freelancer only)
+   *
+   * @param jobId Job object ID
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by the freelancer
+   * @note Only while the job is OPEN; removes the applicant and their proposal
+   * @note The freelancer may re-apply later
+   */
+  withdrawApplicationTransaction(
+    jobId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::withdraw_application`,
+    });
+
+    return tx;
+  }
+
+  /**
+   * Reject an applicant (client only)
+   *
+   * @param jobId Job object ID
+   * @param jobCapId JobCap object ID (proves client owns the job)
+   * @param freelancerAddress Address of the applicant to decline
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by the client
+   * @note Only while the job is OPEN; removes the applicant and their proposal
+   * @note Rejected freelancers cannot re-apply to the same job
+   */
+  rejectApplicantTransaction(
+    jobId: string,
+    jobCapId: string,
+    freelancerAddress: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
+        tx.object(jobCapId),
+        tx.pure.address(freelancerAddress),
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::reject_applicant`,
+    });
+
+    return tx;
+  }
+
   /**
    * Assign freelancer to job (client only)
    * Selects a freelancer from applicants. No profile objects needed due to ownership fix.
@@ -110,6 +331,7 @@ export class JobService {
    * @param jobId Job object ID
    * @param jobCapId JobCap object ID (proves client owns the job)
    * @param freelancerAddress Address of the freelancer to assign
+   * @param coinType Escrow coin type of the job (default: SUI)
    * @returns Transaction to sign and execute by the client
    * @note State transition: OPEN → ASSIGNED
    * @note No profile updates at this stage (deferred to start_job)
@@ -118,7 +340,8 @@ export class JobService {
   assignFreelancerTransaction(
     jobId: string,
     jobCapId: string,
-    freelancerAddress: string
+    freelancerAddress: string,
+    coinType: string = SUI_COIN_TYPE
   ): Transaction {
     const tx = new Transaction();
 
@@ -129,6 +352,7 @@ export class JobService {
         tx.pure.address(freelancerAddress),
         tx.object("0x6"), // Clock
       ],
+      typeArguments: [coinType],
       target: `${this.packageId}::job_escrow::assign_freelancer`,
     });
 
@@ -142,12 +366,17 @@ export class JobService {
    *
    * @param jobId Job object ID
    * @param freelancerProfileId Freelancer's Profile object ID (mutable - will be updated)
+   * @param coinType Escrow coin type of the job (default: SUI)
    * @returns Transaction to sign and execute by the freelancer
    * @note State transition: ASSIGNED → IN_PROGRESS
    * @note Freelancer profile updated: total_jobs +1, active_jobs includes this job
    * @note Ownership validated via ctx.sender() in Move contract
    */
-  startJobTransaction(jobId: string, freelancerProfileId: string): Transaction {
+  startJobTransaction(
+    jobId: string,
+    freelancerProfileId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
     const tx = new Transaction();
 
     tx.moveCall({
@@ -156,6 +385,7 @@ export class JobService {
         tx.object(freelancerProfileId), // Freelancer's Profile
         tx.object("0x6"), // Clock
       ],
+      typeArguments: [coinType],
       target: `${this.packageId}::job_escrow::start_job`,
     });
 
@@ -179,8 +409,9 @@ export class JobService {
    * @param whitelistId Whitelist object ID (for Seal decryption)
    * @param nonce Encryption nonce (for Seal decryption)
    * @param originalFileName Original file name for display
+   * @param coinType Escrow coin type of the job (default: SUI)
    * @returns Transaction to sign and execute by the freelancer
-   * @note State transition: IN_PROGRESS → SUBMITTED
+   * @note State transition: IN_PROGRESS → SUBMITTED (also allowed while SUBMITTED, for batch review)
    * @note Creates a DeliverableEscrow shared object to hold the whitelist Cap
    * @note Cap is transferred to escrow - freelancer loses direct control
    */
@@ -192,7 +423,8 @@ export class JobService {
     whitelistCapId: string,
     whitelistId: string,
     nonce: string,
-    originalFileName: string
+    originalFileName: string,
+    coinType: string = SUI_COIN_TYPE
   ): Transaction {
     const tx = new Transaction();
 
@@ -220,6 +452,7 @@ export class JobService {
         ),
         tx.object("0x6"), // Clock
       ],
+      typeArguments: [coinType],
       target: `${this.packageId}::job_escrow::submit_milestone`,
     });
 
@@ -245,8 +478,9 @@ export class JobService {
    * @param deliverableEscrowId DeliverableEscrow object ID (holds the whitelist Cap)
    * @param whitelistId Whitelist object ID (client will be added to this)
    * @param clientProfileId Client's Profile object ID (mutable - updated on completion)
+   * @param coinType Escrow coin type of the job (default: SUI)
    * @returns Transaction to sign and execute by the client
-   * @note State transition: SUBMITTED → IN_PROGRESS (more milestones) or COMPLETED (final milestone)
+   * @note State transition: SUBMITTED → IN_PROGRESS (no other submissions pending) or COMPLETED (final milestone)
    * @note On approval: client is added to whitelist, can now decrypt deliverable
    * @note On job completion: client profile updated, freelancer must call claim_job_completion
    */
@@ -256,21 +490,135 @@ export class JobService {
     milestoneId: number,
     deliverableEscrowId: string,
     whitelistId: string,
-    clientProfileId: string
+    clientProfileId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    return this.approveMilestonesTransaction(
+      jobId,
+      jobCapId,
+      [{ milestoneId, deliverableEscrowId, whitelistId }],
+      clientProfileId,
+      coinType
+    );
+  }
+
+  /**
+   * Approve several submitted milestones in one programmable transaction (client only)
+   * Each approval runs its own DeliverableEscrow access grant and payment, so the
+   * client signs once for the whole set.
+   *
+   * @param jobId Job object ID
+   * @param jobCapId JobCap object ID (proves client owns the job)
+   * @param milestones Submitted milestones with their DeliverableEscrow and Whitelist IDs
+   * @param clientProfileId Client's Profile object ID (mutable - updated on completion)
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by the client
+   * @note Approvals run in the given order; the job stays SUBMITTED until the last pending one
+   * @note Any failing approval aborts the whole transaction (no partial payouts)
+   */
+  approveMilestonesTransaction(
+    jobId: string,
+    jobCapId: string,
+    milestones: MilestoneApprovalInput[],
+    clientProfileId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    if (milestones.length === 0) {
+      throw new Error("No milestones selected for approval");
+    }
+
+    const tx = new Transaction();
+
+    for (const milestone of milestones) {
+      tx.moveCall({
+        arguments: [
+          tx.object(jobId),
+          tx.object(jobCapId),
+          tx.pure.u64(milestone.milestoneId),
+          tx.object(milestone.deliverableEscrowId), // DeliverableEscrow (holds whitelist Cap)
+          tx.object(milestone.whitelistId), // Whitelist (client will be added)
+          tx.object(clientProfileId), // Client's Profile
+          tx.object("0x6"), // Clock
+        ],
+        typeArguments: [coinType],
+        target: `${this.packageId}::job_escrow::approve_milestone`,
+      });
+    }
+
+    return tx;
+  }
+
+  /**
+   * Claim a submitted milestone after the client's review window expired (freelancer only)
+   * Runs the same DeliverableEscrow access grant as approveMilestoneTransaction,
+   * so the client can still decrypt the deliverable.
+   *
+   * Uses "Split Operation" pattern (mirrored):
+   * - Freelancer claims final milestone → updates freelancer profile, sets pending client completion
+   * - Client calls claim_client_completion → updates client profile
+   *
+   * @param jobId Job object ID
+   * @param milestoneId Milestone number (0-indexed)
+   * @param deliverableEscrowId DeliverableEscrow object ID (holds the whitelist Cap)
+   * @param whitelistId Whitelist object ID (client will be added)
+   * @param freelancerProfileId Freelancer's Profile object ID (mutable - updated on completion)
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by the freelancer
+   * @note Only after submitted_at + review window has passed
+   * @note State transition: SUBMITTED → IN_PROGRESS (more milestones) or COMPLETED (final milestone)
+   */
+  claimMilestoneAfterReviewWindowTransaction(
+    jobId: string,
+    milestoneId: number,
+    deliverableEscrowId: string,
+    whitelistId: string,
+    freelancerProfileId: string,
+    coinType: string = SUI_COIN_TYPE
   ): Transaction {
     const tx = new Transaction();
 
     tx.moveCall({
       arguments: [
         tx.object(jobId),
-        tx.object(jobCapId),
         tx.pure.u64(milestoneId),
         tx.object(deliverableEscrowId), // DeliverableEscrow (holds whitelist Cap)
         tx.object(whitelistId), // Whitelist (client will be added)
+        tx.object(freelancerProfileId), // Freelancer's Profile
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::claim_milestone_after_review_window`,
+    });
+
+    return tx;
+  }
+
+  /**
+   * Claim job completion as client
+   * Counterpart of claimJobCompletionTransaction for jobs the freelancer completed
+   * via claimMilestoneAfterReviewWindowTransaction.
+   *
+   * @param jobId Job object ID
+   * @param clientProfileId Client's Profile object ID (mutable - will be updated)
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by the client
+   * @note Requires pending_client_completion to be set
+   */
+  claimClientCompletionTransaction(
+    jobId: string,
+    clientProfileId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
         tx.object(clientProfileId), // Client's Profile
         tx.object("0x6"), // Clock
       ],
-      target: `${this.packageId}::job_escrow::approve_milestone`,
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::claim_client_completion`,
     });
 
     return tx;
@@ -285,8 +633,10 @@ export class JobService {
    * @param jobCapId JobCap object ID (proves client owns the job)
    * @param milestoneId Milestone number (0-indexed)
    * @param reasonBlobId Feedback text or Walrus blob ID (required)
+   * @param coinType Escrow coin type of the job (default: SUI)
    * @returns Transaction to sign and execute by the client
    * @note State transition: SUBMITTED → IN_PROGRESS
+   * @note Only before the job deadline (EDeadlinePassed)
    * @note Milestone reset: completed=false, submission cleared
    * @note No funds released - escrow unchanged
    */
@@ -294,7 +644,8 @@ export class JobService {
     jobId: string,
     jobCapId: string,
     milestoneId: number,
-    reasonBlobId: string
+    reasonBlobId: string,
+    coinType: string = SUI_COIN_TYPE
   ): Transaction {
     const tx = new Transaction();
 
@@ -306,6 +657,7 @@ export class JobService {
         tx.pure.vector("u8", Array.from(new TextEncoder().encode(reasonBlobId))),
         tx.object("0x6"), // Clock
       ],
+      typeArguments: [coinType],
       target: `${this.packageId}::job_escrow::request_revision`,
     });
 
@@ -313,21 +665,24 @@ export class JobService {
   }
 
   /**
-   * Add milestone to job (client only, before assignment)
-   * Can only add milestones while job is in OPEN state (before freelancer assigned).
-   * No profile updates occur.
+   * Add milestone to job (client only, OPEN / ASSIGNED / IN_PROGRESS)
+   * Deposits a payment Coin<T> into escrow with the milestone (a zero-value coin when
+   * the budget already covers it). No profile updates occur.
    *
    * @param jobId Job object ID
    * @param jobCapId JobCap object ID (proves client owns the job)
    * @param description Milestone description
-   * @param amount Amount in MIST for this milestone
+   * @param amount Amount in base units of the coin for this milestone
    * @param jobSharedObjectRef Optional shared object reference for newly created jobs.
    *        Required when adding milestones immediately after job creation to avoid
    *        TypeMismatch errors. Pass { objectId, initialSharedVersion, mutable: true }
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @param paymentAmount Amount deposited into escrow with the milestone (0 when the budget already covers it)
+   * @param coinObjectIds Coin objects to pay from (required for non-SUI coins when paymentAmount > 0)
    * @returns Transaction to sign and execute by the client
-   * @note Can only be called in OPEN state (before freelancer assignment)
+   * @note Can be called in OPEN, ASSIGNED or IN_PROGRESS state
    * @note No profile updates
-   * @note Total milestone amounts should not exceed job budget
+   * @note Payment is added to the budget; escrow must cover all unapproved milestones
    */
   addMilestoneTransaction(
     jobId: string,
@@ -338,10 +693,21 @@ export class JobService {
       objectId: string;
       initialSharedVersion: string | number;
       mutable: boolean;
-    }
+    },
+    coinType: string = SUI_COIN_TYPE,
+    paymentAmount: number = 0,
+    coinObjectIds: string[] = []
   ): Transaction {
     const tx = new Transaction();
 
+    const payment =
+      paymentAmount > 0
+        ? this.splitPayment(tx, paymentAmount, coinType, coinObjectIds)
+        : tx.moveCall({
+            target: "0x2::coin::zero",
+            typeArguments: [coinType],
+          });
+
     tx.moveCall({
       arguments: [
         jobSharedObjectRef
@@ -350,7 +716,9 @@ export class JobService {
         tx.object(jobCapId),
         tx.pure.vector("u8", Array.from(new TextEncoder().encode(description))),
         tx.pure.u64(amount),
+        payment,
       ],
+      typeArguments: [coinType],
       target: `${this.packageId}::job_escrow::add_milestone`,
     });
 
@@ -365,6 +733,7 @@ export class JobService {
    * @param jobId Job object ID
    * @param jobCapId JobCap object ID (proves client owns the job)
    * @param clientProfileId Client's Profile object ID (mutable - active job removed)
+   * @param coinType Escrow coin type of the job (default: SUI)
    * @returns Transaction to sign and execute by the client
    * @note State transition: OPEN → CANCELLED
    * @note Only works in OPEN state (no freelancer assigned)
@@ -374,7 +743,8 @@ export class JobService {
   cancelJobTransaction(
     jobId: string,
     jobCapId: string,
-    clientProfileId: string
+    clientProfileId: string,
+    coinType: string = SUI_COIN_TYPE
   ): Transaction {
     const tx = new Transaction();
 
@@ -385,6 +755,7 @@ export class JobService {
         tx.object(clientProfileId), // Client's Profile
         tx.object("0x6"), // Clock
       ],
+      typeArguments: [coinType],
       target: `${this.packageId}::job_escrow::cancel_job`,
     });
 
@@ -400,6 +771,7 @@ export class JobService {
    * @param jobCapId JobCap object ID (proves client owns the job)
    * @param clientProfileId Client's Profile object ID (mutable - active job removed)
    * @param freelancerProfileId Freelancer's Profile object ID (mutable - active job removed)
+   * @param coinType Escrow coin type of the job (default: SUI)
    * @returns Transaction to sign and execute by the client
    * @note State transition: ASSIGNED → CANCELLED
    * @note Only works in ASSIGNED state (freelancer assigned but not started)
@@ -410,7 +782,8 @@ export class JobService {
     jobId: string,
     jobCapId: string,
     clientProfileId: string,
-    freelancerProfileId: string
+    freelancerProfileId: string,
+    coinType: string = SUI_COIN_TYPE
   ): Transaction {
     const tx = new Transaction();
 
@@ -422,6 +795,7 @@ export class JobService {
         tx.object(freelancerProfileId), // Freelancer's Profile
         tx.object("0x6"), // Clock
       ],
+      typeArguments: [coinType],
       target: `${this.packageId}::job_escrow::cancel_job_with_freelancer`,
     });
 
@@ -435,6 +809,7 @@ export class JobService {
    *
    * @param jobId Job object ID
    * @param freelancerProfileId Freelancer's Profile object ID (mutable - will be updated)
+   * @param coinType Escrow coin type of the job (default: SUI)
    * @returns Transaction to sign and execute by the freelancer
    * @note Can only be called when job is COMPLETED and has pending_freelancer_completion
    * @note Updates freelancer profile: completed_jobs++, total_amount updated
@@ -442,7 +817,8 @@ export class JobService {
    */
   claimJobCompletionTransaction(
     jobId: string,
-    freelancerProfileId: string
+    freelancerProfileId: string,
+    coinType: string = SUI_COIN_TYPE
   ): Transaction {
     const tx = new Transaction();
 
@@ -452,113 +828,345 @@ export class JobService {
         tx.object(freelancerProfileId), // Freelancer's Profile
         tx.object("0x6"), // Clock
       ],
+      typeArguments: [coinType],
       target: `${this.packageId}::job_escrow::claim_job_completion`,
     });
 
     return tx;
   }
 
+  /**
+   * Open a dispute on a job (client or assigned freelancer)
+   * Freezes the escrow until the arbiter resolves the dispute.
+   *
+   * @param jobId Job object ID
+   * @param reasonBlobId Reason text or Walrus blob ID (required)
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by the client or freelancer
+   * @note State transition: IN_PROGRESS / SUBMITTED / AWAITING_REVIEW → DISPUTED
+   * @note No funds can move while the job is DISPUTED
+   */
+  openDisputeTransaction(
+    jobId: string,
+    reasonBlobId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
+        tx.pure.vector("u8", Array.from(new TextEncoder().encode(reasonBlobId))),
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::open_dispute`,
+    });
+
+    return tx;
+  }
+
+  /**
+   * Submit evidence for an open dispute (client or assigned freelancer)
+   *
+   * @param jobId Job object ID
+   * @param evidenceBlobId Evidence text or Walrus blob ID
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by the client or freelancer
+   * @note Only allowed while the job is DISPUTED and unresolved
+   */
+  submitDisputeEvidenceTransaction(
+    jobId: string,
+    evidenceBlobId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
+        tx.pure.vector("u8", Array.from(new TextEncoder().encode(evidenceBlobId))),
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::submit_dispute_evidence`,
+    });
+
+    return tx;
+  }
+
+  /**
+   * Resolve a dispute and split the remaining escrow (arbiter only)
+   *
+   * @param jobId Job object ID
+   * @param arbiterCapId ArbiterCap object ID (proves arbiter role)
+   * @param freelancerAmount Amount in MIST paid to the freelancer; the rest is refunded to the client
+   * @param resolutionBlobId Resolution text or Walrus blob ID
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by the arbiter
+   * @note State transition: DISPUTED → CANCELLED
+   * @note Both parties must call releaseDisputedJobTransaction to clear their active jobs
+   */
+  resolveDisputeTransaction(
+    jobId: string,
+    arbiterCapId: string,
+    freelancerAmount: number,
+    resolutionBlobId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
+        tx.object(arbiterCapId),
+        tx.pure.u64(freelancerAmount),
+        tx.pure.vector("u8", Array.from(new TextEncoder().encode(resolutionBlobId))),
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::resolve_dispute`,
+    });
+
+    return tx;
+  }
+
+  /**
+   * Remove a resolved disputed job from the caller's active jobs (client or freelancer)
+   * Same split pattern as claim_job_completion: the arbiter cannot mutate owned profiles.
+   *
+   * @param jobId Job object ID
+   * @param profileId Caller's Profile object ID (mutable - active job removed)
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by the client or freelancer
+   */
+  releaseDisputedJobTransaction(
+    jobId: string,
+    profileId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
+        tx.object(profileId), // Caller's Profile
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::release_disputed_job`,
+    });
+
+    return tx;
+  }
+
+  /**
+   * Reclaim escrow after a missed deadline (client only)
+   *
+   * @param jobId Job object ID
+   * @param jobCapId JobCap object ID (proves ownership)
+   * @param clientProfileId Client's Profile object ID (mutable - active job removed)
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by client
+   * @note State transition: IN_PROGRESS → CANCELLED
+   * @note Only after the deadline has passed; remaining escrow is refunded to the client
+   * @note Freelancer must call releaseReclaimedJobTransaction to clear their active job
+   */
+  reclaimAfterDeadlineTransaction(
+    jobId: string,
+    jobCapId: string,
+    clientProfileId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
+        tx.object(jobCapId),
+        tx.object(clientProfileId), // Client's Profile
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::reclaim_after_deadline`,
+    });
+
+    return tx;
+  }
+
+  /**
+   * Remove a reclaimed job from the freelancer's active jobs (freelancer only)
+   *
+   * @param jobId Job object ID
+   * @param freelancerProfileId Freelancer's Profile object ID (mutable - active job removed)
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by freelancer
+   */
+  releaseReclaimedJobTransaction(
+    jobId: string,
+    freelancerProfileId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
+        tx.object(freelancerProfileId), // Freelancer's Profile
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::release_reclaimed_job`,
+    });
+
+    return tx;
+  }
+
+  /**
+   * Request a deadline extension (freelancer only)
+   *
+   * @param jobId Job object ID
+   * @param newDeadline Proposed deadline timestamp in milliseconds
+   * @param reasonBlobId Reason text or Walrus blob ID
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by freelancer
+   * @note Allowed in ASSIGNED or IN_PROGRESS, also after the deadline has passed
+   * @note Replaces any pending request
+   */
+  requestDeadlineExtensionTransaction(
+    jobId: string,
+    newDeadline: number,
+    reasonBlobId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
+        tx.pure.u64(newDeadline),
+        tx.pure.vector("u8", Array.from(new TextEncoder().encode(reasonBlobId))),
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::request_deadline_extension`,
+    });
+
+    return tx;
+  }
+
+  /**
+   * Accept the pending deadline extension (client only)
+   *
+   * @param jobId Job object ID
+   * @param jobCapId JobCap object ID (proves ownership)
+   * @param coinType Escrow coin type of the job (default: SUI)
+   * @returns Transaction to sign and execute by client
+   */
+  acceptDeadlineExtensionTransaction(
+    jobId: string,
+    jobCapId: string,
+    coinType: string = SUI_COIN_TYPE
+  ): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      arguments: [
+        tx.object(jobId),
+        tx.object(jobCapId),
+        tx.object("0x6"), // Clock
+      ],
+      typeArguments: [coinType],
+      target: `${this.packageId}::job_escrow::accept_deadline_extension`,
+    });
+
+    return tx;
+  }
+
   // ======== Query Methods ========
 
   /**
-   * Fetch milestones from a Table dynamic field
+   * Fetch milestones of several jobs from their Table dynamic fields
    *
-   * Milestones are stored in a Table<u64, Milestone> which requires
-   * separate queries to fetch each entry using getDynamicFieldObject.
+   * Milestones are stored in a Table<u64, Milestone>. Entry object IDs are derived
+   * from the table ID and key, so all entries are loaded with batched multiGetObjects
+   * calls instead of one getDynamicFieldObject query per milestone.
    *
-   * @param milestonesTableId The table's object ID
-   * @param milestoneCount Number of milestones to fetch
-   * @returns Array of milestone data
+   * @param tables Milestone table ID and milestone count of each job
+   * @returns Milestones by table ID (missing or undecodable entries are skipped)
    */
-  private async getMilestones(
-    milestonesTableId: string,
-    milestoneCount: number
-  ): Promise<MilestoneData[]> {
-    const milestones: MilestoneData[] = [];
-
-    console.log(`🔍 Fetching ${milestoneCount} milestone(s) from Table ${milestonesTableId.slice(0, 10)}...`);
-
-    for (let i = 0; i < milestoneCount; i++) {
-      try {
-        // Log the exact query being made
-        const query = {
-          parentId: milestonesTableId,
-          name: { type: "u64", value: i.toString() },
-        };
-        console.log(`  📦 Querying milestone ${i} with:`, JSON.stringify(query));
-
-        const milestone = await this.suiClient.getDynamicFieldObject(query);
-
-        console.log(`  ✅ Milestone ${i} raw response:`, milestone);
-
-        if (milestone.data?.content?.dataType === "moveObject") {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const dynamicFieldWrapper = (milestone.data.content as any).fields as any;
-          console.log(`  🔍 Raw milestone fields:`, JSON.stringify(dynamicFieldWrapper, null, 2));
-
-          // Dynamic fields wrap the actual data in fields.value.fields
-          const fields = dynamicFieldWrapper.value.fields;
-
-          const parsedMilestone = {
-            id: Number(fields.id),
-            description: vectorU8ToString(fields.description),
-            amount: Number(fields.amount),
-            completed: fields.completed,
-            approved: fields.approved,
-            submissionBlobId: fields.submission_blob_id
-              ? vectorU8ToString(fields.submission_blob_id)
-              : undefined,
-            previewUrl: fields.preview_url
-              ? vectorU8ToString(fields.preview_url)
-              : undefined,
-            deliverableEscrowId: fields.deliverable_escrow_id
-              ? fields.deliverable_escrow_id
-              : undefined,
-            whitelistId: fields.whitelist_id
-              ? fields.whitelist_id
-              : undefined,
-            nonce: fields.nonce
-              ? vectorU8ToString(fields.nonce)
-              : undefined,
-            originalFileName: fields.original_file_name
-              ? vectorU8ToString(fields.original_file_name)
-              : undefined,
-            submittedAt: fields.submitted_at
-              ? Number(fields.submitted_at)
-              : undefined,
-            approvedAt: fields.approved_at
-              ? Number(fields.approved_at)
-              : undefined,
-          };
-          milestones.push(parsedMilestone);
-          console.log(`  ✅ Milestone ${i} parsed successfully:`, {
-            id: parsedMilestone.id,
-            completed: parsedMilestone.completed,
-            approved: parsedMilestone.approved,
-            hasDeliverableEscrow: !!parsedMilestone.deliverableEscrowId,
-            hasWhitelist: !!parsedMilestone.whitelistId,
-            hasPreview: !!parsedMilestone.previewUrl,
-            hasFileName: !!parsedMilestone.originalFileName,
-          });
+  private async getMilestonesByTable(
+    tables: { tableId: string; milestoneCount: number }[]
+  ): Promise<Map<string, MilestoneData[]>> {
+    const entryIds = tables.map(({ tableId, milestoneCount }) =>
+      Array.from({ length: milestoneCount }, (_, i) => deriveU64TableEntryId(tableId, i))
+    );
+    const objects = await this.objectLoader.getObjects(entryIds.flat());
+
+    const milestonesByTable = new Map<string, MilestoneData[]>();
+    tables.forEach(({ tableId, milestoneCount }, tableIndex) => {
+      const milestones: MilestoneData[] = [];
+      for (const entryId of entryIds[tableIndex]) {
+        const data = objects.get(entryId);
+        // Dynamic fields wrap the actual data in fields.value.fields
+        const fields = data ? decodeDynamicFieldValue(MilestoneSchema, data) : null;
+        if (fields) {
+          milestones.push(this.parseMilestone(fields));
         } else {
-          console.error(`  ❌ Milestone ${i} has unexpected data type:`, milestone.data?.content?.dataType);
+          console.error(`❌ Milestone entry ${entryId.slice(0, 10)}... of table ${tableId.slice(0, 10)}... could not be loaded`);
         }
-      } catch (error) {
-        console.error(`  ❌ Error fetching milestone ${i}:`, error);
-        console.error(`  📋 Error details:`, {
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-        });
       }
-    }
 
-    console.log(`📊 Milestone fetch summary: ${milestones.length}/${milestoneCount} fetched successfully`);
+      if (milestones.length < milestoneCount) {
+        console.error(`⚠️  Expected ${milestoneCount} milestones in table ${tableId.slice(0, 10)}... but fetched ${milestones.length}`);
+      }
+      milestonesByTable.set(tableId, milestones);
+    });
+
+    return milestonesByTable;
+  }
+
+  /**
+   * Select the owner's coins of a type that together cover an amount
+   * Largest coins are picked first to keep the merge small.
+   *
+   * @param ownerAddress Coin owner's address
+   * @param coinType Fully qualified coin type
+   * @param amount Required amount in base units
+   * @returns Coin object IDs to pass to createJobTransaction
+   * @throws Error if the total balance is insufficient
+   */
+  async selectCoinsForAmount(
+    ownerAddress: string,
+    coinType: string,
+    amount: number
+  ): Promise<string[]> {
+    const coins: { coinObjectId: string; balance: bigint }[] = [];
+    let cursor: string | null | undefined = undefined;
+
+    do {
+      const page = await this.suiClient.getCoins({ owner: ownerAddress, coinType, cursor });
+      coins.push(
+        ...page.data.map((c) => ({ coinObjectId: c.coinObjectId, balance: BigInt(c.balance) }))
+      );
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
 
-    if (milestones.length === 0 && milestoneCount > 0) {
-      console.error(`⚠️  CRITICAL: Expected ${milestoneCount} milestones but fetched 0! Check dynamic field query format.`);
+    coins.sort((a, b) => (b.balance > a.balance ? 1 : b.balance < a.balance ? -1 : 0));
+
+    const selected: string[] = [];
+    let total = BigInt(0);
+    for (const coin of coins) {
+      if (total >= BigInt(amount)) break;
+      selected.push(coin.coinObjectId);
+      total += coin.balance;
+    }
+
+    if (total < BigInt(amount)) {
+      throw new Error(`Insufficient ${coinType} balance for this budget`);
     }
 
-    return milestones;
+    return selected;
   }
 
   /**
@@ -568,61 +1176,107 @@ export class JobService {
    * @returns Job data or null if not found
    */
   async getJob(jobId: string): Promise<JobData | null> {
-    try {
-      const object = await this.suiClient.getObject({
-        id: jobId,
-        options: { showContent: true, showOwner: true },
-      });
+    const jobs = await this.getJobs([jobId]);
+    const job = jobs.get(jobId) ?? null;
 
-      if (!object.data) {
-        return null;
-      }
+    if (job) {
+      // Debug log to verify correct state is fetched
+      console.log(`📋 Job ${jobId.slice(0, 8)}... state: ${JobState[job.state]} (${job.state})${job.pendingFreelancerCompletion !== undefined ? `, pending completion: ${job.pendingFreelancerCompletion}` : ''}`);
+    }
 
-      const fields = getJobFields(object.data);
-      if (!fields) {
-        return null;
-      }
+    return job;
+  }
 
-      // Parse pending_freelancer_completion (Option<u64>)
-      let pendingFreelancerCompletion: number | undefined;
-      if (fields.pending_freelancer_completion !== null && fields.pending_freelancer_completion !== undefined) {
-        pendingFreelancerCompletion = Number(fields.pending_freelancer_completion);
-      }
+  /**
+   * Get details of several jobs
+   * Job objects and their milestone tables are loaded with batched multiGetObjects
+   * calls, so the number of round-trips does not grow with each job.
+   *
+   * @param jobIds Job object IDs (duplicates are loaded once)
+   * @returns Job data by ID; jobs that are missing or cannot be decoded are omitted
+   */
+  async getJobs(jobIds: string[]): Promise<Map<string, JobData>> {
+    const jobs = new Map<string, JobData>();
 
-      // Fetch milestones from the Table dynamic field
-      const milestoneCount = Number(fields.milestone_count);
-      const milestonesTableId = fields.milestones?.fields?.id?.id;
-      let milestones: MilestoneData[] = [];
+    try {
+      const objects = await this.objectLoader.getObjects(jobIds, {
+        showContent: true,
+        showOwner: true,
+        showType: true,
+      });
 
-      if (milestonesTableId && milestoneCount > 0) {
-        milestones = await this.getMilestones(milestonesTableId, milestoneCount);
+      const decoded: { jobId: string; data: SuiObjectData; fields: JobFields }[] = [];
+      for (const [jobId, data] of objects) {
+        if (!data) continue;
+        try {
+          const fields = getJobFields(data);
+          if (fields) {
+            decoded.push({ jobId, data, fields });
+          }
+        } catch (error) {
+          console.error(`Error decoding job ${jobId}:`, error);
+        }
       }
 
-      const jobData: JobData = {
-        objectId: jobId,
-        client: fields.client,
-        freelancer: fields.freelancer,
-        title: vectorU8ToString(fields.title),
-        descriptionBlobId: vectorU8ToString(fields.description_blob_id),
-        budget: Number(fields.budget),
-        state: fields.state as JobState,
-        milestones,
-        milestoneCount,
-        applicants: fields.applicants || [],
-        createdAt: Number(fields.created_at),
-        deadline: Number(fields.deadline),
-        deliverableBlobIds: fields.deliverable_blob_ids.map(vectorU8ToString),
-        pendingFreelancerCompletion,
-      };
-
-      // Debug log to verify correct state is fetched
-      console.log(`📋 Job ${jobId.slice(0, 8)}... state: ${JobState[jobData.state]} (${jobData.state})${pendingFreelancerCompletion !== undefined ? `, pending completion: ${pendingFreelancerCompletion}` : ''}`);
+      // Fetch milestones of all jobs from their Table dynamic fields at once
+      const milestonesByTable = await this.getMilestonesByTable(
+        decoded
+          .filter(({ fields }) => fields.milestone_count > 0)
+          .map(({ fields }) => ({ tableId: fields.milestones.id, milestoneCount: fields.milestone_count }))
+      );
 
-      return jobData;
+      for (const { jobId, data, fields } of decoded) {
+        jobs.set(jobId, this.buildJobData(jobId, data, fields, milestonesByTable.get(fields.milestones.id) ?? []));
+      }
     } catch (error) {
-      console.error("Error fetching job:", error);
-      return null;
+      console.error("Error fetching jobs:", error);
     }
+
+    return jobs;
+  }
+
+  /**
+   * Assemble JobData from a decoded Job object and its milestones
+   */
+  private buildJobData(
+    jobId: string,
+    data: SuiObjectData,
+    fields: JobFields,
+    milestones: MilestoneData[]
+  ): JobData {
+    return {
+      objectId: jobId,
+      client: fields.client,
+      freelancer: fields.freelancer,
+      title: fields.title,
+      descriptionBlobId: fields.description_blob_id,
+      category: fields.category,
+      skills: fields.skills,
+      budget: fields.budget,
+      state: fields.state as JobState,
+      milestones,
+      milestoneCount: fields.milestone_count,
+      applicants: fields.applicants,
+      proposals: fields.proposals.map((p) => this.parseProposal(p)),
+      rejectedApplicants: fields.rejected_applicants,
+      createdAt: fields.created_at,
+      deadline: fields.deadline,
+      deliverableBlobIds: fields.deliverable_blob_ids,
+      coinType: getJobCoinType(data),
+      pendingFreelancerCompletion: fields.pending_freelancer_completion,
+      escrowBalance: fields.escrow,
+      dispute: fields.dispute ? this.parseDispute(fields.dispute) : undefined,
+      pendingExtension: fields.pending_extension
+        ? {
+            newDeadline: fields.pending_extension.new_deadline,
+            reasonBlobId: fields.pending_extension.reason_blob_id,
+            requestedAt: fields.pending_extension.requested_at,
+          }
+        : undefined,
+      reclaimedAt: fields.reclaimed_at,
+      reviewWindowMs: fields.review_window_ms || DEFAULT_REVIEW_WINDOW_MS,
+      pendingClientCompletion: fields.pending_client_completion,
+    };
   }
 
   /**
@@ -643,52 +1297,35 @@ export class JobService {
       console.log(`📋 getJobsByClient: Found ${jobEvents.length} jobs from events`);
 
       // Fetch actual Job objects to get current state (events only show creation state)
-      const jobs: JobData[] = [];
-      for (const event of jobEvents) {
-        try {
-          const jobData = await this.getJob(event.jobId);
-          if (jobData) {
-            jobs.push(jobData);
-            console.log(`✅ Job ${event.jobId.slice(0, 8)}... fetched with state: ${JobState[jobData.state]}`);
-          } else {
-            console.warn(`⚠️ Job ${event.jobId.slice(0, 8)}... not found, using event data`);
-            // Fallback to event data if job object not found
-            jobs.push({
-              objectId: event.jobId,
-              client: event.client,
-              freelancer: event.freelancer || undefined,
-              title: event.title,
-              descriptionBlobId: event.descriptionBlobId,
-              budget: event.budget,
-              state: event.state,
-              milestones: [],
-              milestoneCount: event.milestoneCount,
-              applicants: [],
-              createdAt: event.timestamp,
-              deadline: event.deadline,
-              deliverableBlobIds: [],
-            });
-          }
-        } catch (error) {
-          console.error(`❌ Error fetching job ${event.jobId.slice(0, 8)}...:`, error);
-          // Fallback to event data
-          jobs.push({
-            objectId: event.jobId,
-            client: event.client,
-            freelancer: event.freelancer || undefined,
-            title: event.title,
-            descriptionBlobId: event.descriptionBlobId,
-            budget: event.budget,
-            state: event.state,
-            milestones: [],
-            milestoneCount: event.milestoneCount,
-            applicants: [],
-            createdAt: event.timestamp,
-            deadline: event.deadline,
-            deliverableBlobIds: [],
-          });
+      const jobsById = await this.getJobs(jobEvents.map((event) => event.jobId));
+
+      const jobs: JobData[] = jobEvents.map((event) => {
+        const jobData = jobsById.get(event.jobId);
+        if (jobData) {
+          return jobData;
         }
-      }
+
+        console.warn(`⚠️ Job ${event.jobId.slice(0, 8)}... not found, using event data`);
+        // Fallback to event data if job object not found
+        return {
+          objectId: event.jobId,
+          client: event.client,
+          freelancer: event.freelancer || undefined,
+          title: event.title,
+          descriptionBlobId: event.descriptionBlobId,
+          category: event.category,
+          skills: event.skills,
+          budget: event.budget,
+          state: event.state,
+          milestones: [],
+          milestoneCount: event.milestoneCount,
+          applicants: [],
+          createdAt: event.timestamp,
+          deadline: event.deadline,
+          deliverableBlobIds: [],
+          coinType: event.coinType,
+        };
+      });
 
       console.log(`✅ getJobsByClient: Returning ${jobs.length} jobs`);
       return jobs;
@@ -711,18 +1348,59 @@ export class JobService {
       const indexer = createJobEventIndexer(this.suiClient, this.packageId);
       const jobIds = await indexer.queryJobsByFreelancer(freelancerAddress);
 
-      // Fetch full job details for each job ID
-      const jobs: JobData[] = [];
-      for (const jobId of jobIds) {
-        const job = await this.getJob(jobId);
-        if (job) {
-          jobs.push(job);
+      // Fetch full job details for all job IDs in batches
+      const jobsById = await this.getJobs(jobIds);
+      return jobIds
+        .map((jobId) => jobsById.get(jobId))
+        .filter((job): job is JobData => !!job);
+    } catch (error) {
+      console.error("Error fetching freelancer jobs:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get all applications submitted by a freelancer with their current status
+   * Uses FreelancerApplied, ApplicationWithdrawn, ApplicantRejected and FreelancerAssigned events
+   *
+   * @param freelancerAddress Freelancer's address
+   * @returns Applications, latest first
+   * @note Pending applications on jobs that are no longer OPEN are reported as NOT_SELECTED
+   */
+  async getApplicationsByFreelancer(freelancerAddress: string): Promise<ApplicationData[]> {
+    try {
+      const indexer = createJobEventIndexer(this.suiClient, this.packageId);
+      const applicationEvents = await indexer.queryApplicationsByFreelancer(freelancerAddress);
+
+      const jobsById = await this.getJobs(applicationEvents.map((application) => application.jobId));
+
+      const applications: ApplicationData[] = [];
+      for (const application of applicationEvents) {
+        const job = jobsById.get(application.jobId);
+        if (!job) {
+          continue;
         }
+
+        let status = application.status;
+        if (
+          status === ApplicationStatus.PENDING &&
+          job.state !== JobState.OPEN &&
+          job.freelancer !== freelancerAddress
+        ) {
+          status = ApplicationStatus.NOT_SELECTED;
+        }
+
+        applications.push({
+          job,
+          status,
+          appliedAt: application.appliedAt,
+          updatedAt: application.updatedAt,
+        });
       }
 
-      return jobs;
+      return applications;
     } catch (error) {
-      console.error("Error fetching freelancer jobs:", error);
+      console.error("Error fetching freelancer applications:", error);
       return [];
     }
   }
@@ -747,6 +1425,8 @@ export class JobService {
         freelancer: event.freelancer || undefined,
         title: event.title,
         descriptionBlobId: event.descriptionBlobId,
+        category: event.category,
+        skills: event.skills,
         budget: event.budget,
         state: event.state,
         milestones: [],
@@ -755,6 +1435,7 @@ export class JobService {
         createdAt: event.timestamp,
         deadline: event.deadline,
         deliverableBlobIds: [],
+        coinType: event.coinType,
       }));
 
       return jobs;
@@ -764,6 +1445,72 @@ export class JobService {
     }
   }
 
+  /**
+   * Parse the on-chain Proposal struct
+   *
+   * @param fields Proposal fields from the Job object
+   * @returns Proposal data
+   */
+  private parseProposal(fields: ProposalFields): ProposalData {
+    return {
+      freelancer: fields.freelancer,
+      coverLetterBlobId: fields.cover_letter_blob_id,
+      proposedPrice: fields.proposed_price,
+      estimatedDurationMs: fields.estimated_duration_ms,
+      portfolioLinks: fields.portfolio_links,
+      submittedAt: fields.submitted_at,
+    };
+  }
+
+  /**
+   * Parse the on-chain Dispute struct
+   *
+   * @param fields Dispute fields from the Job object
+   * @returns Dispute data
+   */
+  private parseDispute(fields: DisputeFields): DisputeData {
+    return {
+      raisedBy: fields.raised_by,
+      reasonBlobId: fields.reason_blob_id,
+      previousState: fields.previous_state as JobState,
+      evidence: fields.evidence.map((entry) => ({
+        submittedBy: entry.submitted_by,
+        blobId: entry.blob_id,
+        submittedAt: entry.submitted_at,
+      })),
+      openedAt: fields.opened_at,
+      resolved: fields.resolved,
+      freelancerAmount: fields.freelancer_amount,
+      clientAmount: fields.client_amount,
+      resolutionBlobId: fields.resolution_blob_id,
+      resolvedAt: fields.resolved_at,
+    };
+  }
+
+  /**
+   * Parse the on-chain Milestone struct
+   *
+   * @param fields Milestone fields from the milestones Table entry
+   * @returns Milestone data
+   */
+  private parseMilestone(fields: MilestoneFields): MilestoneData {
+    return {
+      id: fields.id,
+      description: fields.description,
+      amount: fields.amount,
+      completed: fields.completed,
+      approved: fields.approved,
+      submissionBlobId: fields.submission_blob_id,
+      previewUrl: fields.preview_url,
+      deliverableEscrowId: fields.deliverable_escrow_id,
+      whitelistId: fields.whitelist_id,
+      nonce: fields.nonce,
+      originalFileName: fields.original_file_name,
+      submittedAt: fields.submitted_at,
+      approvedAt: fields.approved_at,
+    };
+  }
+
   /**
    * Get JobCap details
    *
@@ -779,14 +1526,11 @@ export class JobService {
         options: { showContent: true },
       });
 
-      if (
-        !object.data ||
-        object.data.content?.dataType !== "moveObject"
-      ) {
+      const fields = object.data ? decodeMoveObject(JobCapSchema, object.data) : null;
+      if (!fields) {
         return null;
       }
 
-      const fields = object.data.content.fields as any;
       return {
         objectId: capId,
         jobId: fields.job_id,
@@ -797,6 +1541,38 @@ export class JobService {
     }
   }
 
+  /**
+   * Get DeliverableEscrow details
+   *
+   * @param escrowId DeliverableEscrow object ID (MilestoneData.deliverableEscrowId)
+   * @returns DeliverableEscrow data or null
+   */
+  async getDeliverableEscrow(escrowId: string): Promise<DeliverableEscrowData | null> {
+    try {
+      const object = await this.suiClient.getObject({
+        id: escrowId,
+        options: { showContent: true },
+      });
+
+      const fields = object.data ? decodeMoveObject(DeliverableEscrowSchema, object.data) : null;
+      if (!fields) {
+        return null;
+      }
+
+      return {
+        objectId: escrowId,
+        jobId: fields.job_id,
+        milestoneId: fields.milestone_id,
+        whitelistCapId: fields.whitelist_cap.id,
+        whitelistId: fields.whitelist_id,
+        accessGranted: fields.access_granted,
+      };
+    } catch (error) {
+      console.error("Error fetching DeliverableEscrow:", error);
+      return null;
+    }
+  }
+
   /**
    * Get all JobCaps owned by address
    *
@@ -815,10 +1591,10 @@ export class JobService {
 
       const caps: JobCapData[] = [];
       for (const obj of objects.data) {
-        if (obj.data?.content?.dataType === "moveObject") {
-          const fields = obj.data.content.fields as any;
+        const fields = obj.data ? decodeMoveObject(JobCapSchema, obj.data) : null;
+        if (fields) {
           caps.push({
-            objectId: obj.data.objectId,
+            objectId: obj.data!.objectId,
             jobId: fields.job_id,
           });
         }
@@ -831,8 +1607,64 @@ export class JobService {
     }
   }
 
+  /**
+   * Get all ArbiterCaps owned by address
+   * Used to decide whether the connected account can resolve disputes.
+   *
+   * @param ownerAddress Owner's address
+   * @returns Array of ArbiterCap data
+   */
+  async getArbiterCapsByOwner(ownerAddress: string): Promise<ArbiterCapData[]> {
+    try {
+      const objects = await this.suiClient.getOwnedObjects({
+        owner: ownerAddress,
+        options: { showType: true },
+        filter: { StructType: `${this.packageId}::job_escrow::ArbiterCap` },
+      });
+
+      return objects.data
+        .filter((obj) => !!obj.data)
+        .map((obj) => ({ objectId: obj.data!.objectId }));
+    } catch (error) {
+      console.error("Error fetching ArbiterCaps:", error);
+      return [];
+    }
+  }
+
   // ======== Helper Methods ========
 
+  /**
+   * Split an exact payment from the sender's coins
+   * SUI is split from the gas coin; other coin types merge the given coins first.
+   *
+   * @param tx Transaction to add the split to
+   * @param amount Amount in base units
+   * @param coinType Coin type of the payment
+   * @param coinObjectIds Coin objects of coinType covering the amount (required for non-SUI coins)
+   * @returns Coin argument holding exactly amount
+   */
+  private splitPayment(
+    tx: Transaction,
+    amount: number,
+    coinType: string,
+    coinObjectIds: string[]
+  ): TransactionObjectArgument {
+    if (coinType === SUI_COIN_TYPE) {
+      const [coin] = tx.splitCoins(tx.gas, [amount]);
+      return coin;
+    }
+
+    if (coinObjectIds.length === 0) {
+      throw new Error(`No ${coinType} coins provided for the payment`);
+    }
+    const [primaryCoin, ...otherCoins] = coinObjectIds.map((id) => tx.object(id));
+    if (otherCoins.length > 0) {
+      tx.mergeCoins(primaryCoin, otherCoins);
+    }
+    const [coin] = tx.splitCoins(primaryCoin, [amount]);
+    return coin;
+  }
+
   /**
    * Wait for transaction and extract created Job and JobCap IDs
    *
@@ -871,7 +1703,7 @@ export class JobService {
         (change) =>
           change.type === "created" &&
           "objectType" in change &&
-          change.objectType.endsWith("::job_escrow::Job")
+          /::job_escrow::Job</.test(change.objectType)
       );
 
       // Find JobCap object (owned)
@@ -1048,6 +1880,46 @@ export class JobService {
   getJobStateName(state: JobState): string {
     return JobState[state] || "UNKNOWN";
   }
+
+  /**
+   * Compare the job's escrow balance with its unapproved milestones
+   *
+   * @param job Job data (escrowBalance falls back to budget when missing)
+   * @returns Escrow coverage summary
+   * @note Mirrors the on-chain coverage check in add_milestone
+   */
+  getEscrowCoverage(job: JobData): EscrowCoverage {
+    const escrowBalance = job.escrowBalance ?? job.budget;
+    const unapprovedTotal = job.milestones
+      .filter((m) => !m.approved)
+      .reduce((sum, m) => sum + m.amount, 0);
+    const shortfall = Math.max(0, unapprovedTotal - escrowBalance);
+
+    return {
+      escrowBalance,
+      unapprovedTotal,
+      shortfall,
+      isCovered: shortfall === 0,
+    };
+  }
+
+  /**
+   * Payment required to add a milestone without breaking budget or escrow coverage
+   *
+   * @param job Job data
+   * @param amount Amount of the new milestone in base units
+   * @returns Amount to deposit with add_milestone (0 when the budget already covers it)
+   */
+  getMilestonePaymentRequired(job: JobData, amount: number): number {
+    const milestoneTotal = job.milestones.reduce((sum, m) => sum + m.amount, 0);
+    const { escrowBalance, unapprovedTotal } = this.getEscrowCoverage(job);
+
+    return Math.max(
+      0,
+      milestoneTotal + amount - job.budget,
+      unapprovedTotal + amount - escrowBalance
+    );
+  }
 }
 
 /**
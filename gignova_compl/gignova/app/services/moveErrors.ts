@@ -0,0 +1,372 @@
+/**
+ * Move Error Decoder
+ *
+ * Translates failed transaction effects, dry-run results and wallet errors into
+ * readable messages. Abort codes mirror the `E*` constants in
+ * job_escrow.move, profile_nft.move, whitelist.move and reputation.move.
+ *
+ * Usage:
+ *   onError: (error) => setError(formatTransactionError(error))
+ */
+
+/**
+ * Abort constant with explanation and suggested fix
+ */
+export interface AbortCodeInfo {
+  /** Constant name in the Move module (e.g., "EFreelancerNotAssigned") */
+  name: string;
+  /** What went wrong, in user terms */
+  explanation: string;
+  /** What the user can do about it */
+  suggestion?: string;
+}
+
+/**
+ * Move abort parsed from an execution error
+ */
+export interface MoveAbortLocation {
+  packageId: string;
+  module: string;
+  functionName?: string;
+  code: number;
+  /** Index of the PTB command that aborted */
+  command?: number;
+}
+
+/**
+ * Decoded transaction error
+ */
+export interface DecodedTransactionError {
+  /** Human-readable explanation */
+  message: string;
+  /** Suggested fix, if known */
+  suggestion?: string;
+  /** Parsed abort location (Move aborts only) */
+  abort?: MoveAbortLocation;
+  /** Constant name of the abort code, if known */
+  constantName?: string;
+  /** Original error text */
+  raw: string;
+}
+
+// ======== Abort Code Tables ========
+
+const JOB_ESCROW_ERRORS: Record<number, AbortCodeInfo> = {
+  0: {
+    name: "ENotAuthorized",
+    explanation: "You are not allowed to perform this action on this job.",
+    suggestion: "Make sure you are connected with the wallet that owns the job or its JobCap.",
+  },
+  1: {
+    name: "EInvalidState",
+    explanation: "The job is not in the right state for this action.",
+    suggestion: "Refresh the job; it may have been updated by the other party.",
+  },
+  2: {
+    name: "EInsufficientFunds",
+    explanation: "The escrow or payment does not cover the required amount.",
+    suggestion: "Add funds to the escrow or increase the payment amount.",
+  },
+  3: {
+    name: "EDeadlinePassed",
+    explanation: "The job deadline has already passed.",
+    suggestion: "Request a deadline extension or reclaim the escrow.",
+  },
+  4: {
+    name: "EInvalidMilestone",
+    explanation: "The milestone does not exist or its amount exceeds the job budget.",
+    suggestion: "Check the milestone amount against the remaining budget.",
+  },
+  5: {
+    name: "EJobNotOpen",
+    explanation: "The job is no longer open.",
+    suggestion: "Applications and edits are only possible before a freelancer is assigned.",
+  },
+  6: {
+    name: "EAlreadyApplied",
+    explanation: "You have already applied to this job.",
+  },
+  7: {
+    name: "EFreelancerNotAssigned",
+    explanation: "You are not the freelancer assigned to this job.",
+    suggestion: "Only the assigned freelancer can perform this action.",
+  },
+  8: {
+    name: "ENoPendingCompletion",
+    explanation: "There is no pending job completion to claim.",
+    suggestion: "The completion may already have been claimed.",
+  },
+  9: {
+    name: "ERevisionReasonRequired",
+    explanation: "A revision request needs a reason.",
+    suggestion: "Describe the changes you need before requesting a revision.",
+  },
+  10: {
+    name: "ENoActiveDispute",
+    explanation: "This job has no active dispute.",
+  },
+  11: {
+    name: "EDisputeAlreadyResolved",
+    explanation: "The dispute has already been resolved.",
+  },
+  12: {
+    name: "EDisputeReasonRequired",
+    explanation: "A dispute needs a reason.",
+    suggestion: "Describe the problem before opening the dispute.",
+  },
+  13: {
+    name: "ENoPendingExtension",
+    explanation: "There is no pending deadline extension request.",
+  },
+  14: {
+    name: "EDeadlineNotPassed",
+    explanation: "The deadline has not passed yet.",
+    suggestion: "The escrow can only be reclaimed after the deadline.",
+  },
+  15: {
+    name: "EInvalidDeadline",
+    explanation: "The deadline must be in the future (and later than the current one for extensions).",
+    suggestion: "Pick a later date and time.",
+  },
+  16: {
+    name: "EReviewWindowActive",
+    explanation: "The client's review window has not expired yet.",
+    suggestion: "Wait until the review window ends before claiming the milestone.",
+  },
+  17: {
+    name: "EInvalidProposal",
+    explanation: "The proposal is incomplete or invalid.",
+    suggestion: "Provide a cover letter, a price above zero and a duration, with at most the allowed number of links.",
+  },
+  18: {
+    name: "ENotApplicant",
+    explanation: "You have not applied to this job.",
+  },
+  19: {
+    name: "EApplicantRejected",
+    explanation: "The client declined your application for this job.",
+  },
+  20: {
+    name: "EInvalidSkills",
+    explanation: "The job's category or skills are invalid.",
+    suggestion: "Pick at most 10 different skills from the skill taxonomy, with IDs of at most 64 characters.",
+  },
+  21: {
+    name: "EInvalidReviewWindow",
+    explanation: "The review window is longer than the 14 days allowed.",
+    suggestion: "Pick a review window of 3, 7 or 14 days.",
+  },
+};
+
+const PROFILE_NFT_ERRORS: Record<number, AbortCodeInfo> = {
+  0: {
+    name: "EInvalidProfileType",
+    explanation: "The profile type must be Freelancer or Client.",
+  },
+  1: {
+    name: "ENotProfileOwner",
+    explanation: "This profile does not belong to the connected wallet.",
+    suggestion: "Connect with the wallet that owns the profile and its ProfileCap.",
+  },
+  2: {
+    name: "EProfileAlreadyExists",
+    explanation: "A profile already exists for this account.",
+  },
+  3: {
+    name: "EInvalidRating",
+    explanation: "Ratings must be between 1 and 5 stars.",
+  },
+  4: {
+    name: "EInvalidUpdate",
+    explanation: "The profile update is invalid.",
+  },
+  5: {
+    name: "EZkLoginSubAlreadyRegistered",
+    explanation: "This login is already linked to a profile.",
+    suggestion: "Open your existing profile instead of creating a new one.",
+  },
+  6: {
+    name: "ECannotChangeTypeWithActiveJobs",
+    explanation: "The profile type cannot change while you have active jobs.",
+    suggestion: "Complete or cancel your active jobs first.",
+  },
+};
+
+const WHITELIST_ERRORS: Record<number, AbortCodeInfo> = {
+  1: {
+    name: "ENoAccess",
+    explanation: "Your address is not on this whitelist.",
+    suggestion: "Ask the whitelist owner to add your address.",
+  },
+  2: {
+    name: "EInvalidCap",
+    explanation: "The Cap does not belong to this whitelist.",
+    suggestion: "Select the Cap that was created with this whitelist.",
+  },
+  3: {
+    name: "EDuplicate",
+    explanation: "The address is already on the whitelist.",
+  },
+  4: {
+    name: "ENotInWhitelist",
+    explanation: "The address is not on the whitelist.",
+  },
+  5: {
+    name: "EWrongVersion",
+    explanation: "The whitelist was created by a different package version.",
+  },
+};
+
+const REPUTATION_ERRORS: Record<number, AbortCodeInfo> = {
+  0: {
+    name: "EInvalidRating",
+    explanation: "Ratings must be between 1 and 5 stars.",
+  },
+  1: {
+    name: "ENotAuthorized",
+    explanation: "You are not allowed to rate this job.",
+    suggestion: "Only the client and freelancer of a job can rate each other.",
+  },
+  2: {
+    name: "ERatingAlreadyExists",
+    explanation: "You have already rated this job.",
+  },
+  3: {
+    name: "EJobNotCompleted",
+    explanation: "The job must be completed before it can be rated.",
+  },
+  4: {
+    name: "ECannotRateSelf",
+    explanation: "You cannot rate yourself.",
+  },
+};
+
+/** Sui framework aborts that surface through our modules (e.g., coin splits) */
+const BALANCE_ERRORS: Record<number, AbortCodeInfo> = {
+  2: {
+    name: "ENotEnough",
+    explanation: "Your balance is too low for this payment.",
+    suggestion: "Top up your wallet and try again.",
+  },
+};
+
+const ABORT_CODES: Record<string, Record<number, AbortCodeInfo>> = {
+  job_escrow: JOB_ESCROW_ERRORS,
+  profile_nft: PROFILE_NFT_ERRORS,
+  whitelist: WHITELIST_ERRORS,
+  reputation: REPUTATION_ERRORS,
+  balance: BALANCE_ERRORS,
+};
+
+/** Non-abort failures matched on the error text */
+const KNOWN_ERRORS: { pattern: RegExp; message: string; suggestion?: string }[] = [
+  {
+    pattern: /rejected|cancell?ed/i,
+    message: "The transaction was cancelled.",
+  },
+  {
+    pattern: /InsufficientGas|GasBalanceTooLow|No valid gas coins|Insufficient gas/i,
+    message: "Not enough SUI to pay for gas.",
+    suggestion: "Top up your wallet with SUI and try again.",
+  },
+  {
+    pattern: /InsufficientCoinBalance/i,
+    message: "Your balance is too low for this payment.",
+    suggestion: "Top up your wallet and try again.",
+  },
+  {
+    pattern: /ObjectVersionUnavailableForConsumption|is not available for consumption/i,
+    message: "An object used by this transaction was modified in the meantime.",
+    suggestion: "Refresh the page and try again.",
+  },
+];
+
+// ======== Decoding ========
+
+/**
+ * Parse a Move abort from an execution error string
+ *
+ * Example: `MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("job_escrow") },
+ * function: 20, instruction: 15, function_name: Some("approve_milestone") }, 1) in command 0`
+ *
+ * @param error Execution error from effects or a thrown error message
+ * @returns Parsed abort, or undefined if the error is not a Move abort
+ */
+export function parseMoveAbort(error: string): MoveAbortLocation | undefined {
+  const match = error.match(
+    /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (\w+), name: Identifier\("(\w+)"\) \}.*?function_name: (?:Some\("(\w+)"\)|None) \}, (\d+)\)/
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  const command = error.match(/in command (\d+)/);
+  return {
+    packageId: match[1].startsWith("0x") ? match[1] : `0x${match[1]}`,
+    module: match[2],
+    functionName: match[3],
+    code: Number(match[4]),
+    command: command ? Number(command[1]) : undefined,
+  };
+}
+
+/**
+ * Look up an abort code in the module tables
+ *
+ * @param module Move module name (e.g., "job_escrow")
+ * @param code Abort code
+ * @returns Constant info, or undefined for unknown modules/codes
+ */
+export function getAbortCodeInfo(module: string, code: number): AbortCodeInfo | undefined {
+  return ABORT_CODES[module]?.[code];
+}
+
+/**
+ * Decode a transaction error (wallet error, failed effects or dry-run error)
+ *
+ * @param error Error object or error text
+ * @returns Decoded error with explanation and suggestion
+ */
+export function decodeTransactionError(error: unknown): DecodedTransactionError {
+  const raw =
+    typeof error === "string"
+      ? error
+      : error instanceof Error
+        ? error.message
+        : String(error ?? "Unknown error");
+
+  const abort = parseMoveAbort(raw);
+  if (abort) {
+    const info = getAbortCodeInfo(abort.module, abort.code);
+    const location = `${abort.module}${abort.functionName ? `::${abort.functionName}` : ""}`;
+    return {
+      message: info ? info.explanation : `Transaction aborted in ${location} with code ${abort.code}.`,
+      suggestion: info?.suggestion,
+      abort,
+      constantName: info?.name,
+      raw,
+    };
+  }
+
+  const known = KNOWN_ERRORS.find(({ pattern }) => pattern.test(raw));
+  if (known) {
+    return { message: known.message, suggestion: known.suggestion, raw };
+  }
+
+  return { message: raw, raw };
+}
+
+/**
+ * Format a transaction error for display (explanation followed by suggested fix)
+ *
+ * @param error Error object or error text
+ * @param fallback Message used when the error has no text
+ * @returns Single-line message for error alerts
+ */
+export function formatTransactionError(error: unknown, fallback: string = "Transaction failed"): string {
+  const decoded = decodeTransactionError(error);
+  if (!decoded.raw) {
+    return fallback;
+  }
+  return decoded.suggestion ? `${decoded.message} ${decoded.suggestion}` : decoded.message;
+}
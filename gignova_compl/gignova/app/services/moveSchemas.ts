@@ -0,0 +1,225 @@
+/**
+ * Move Struct Schemas
+ *
+ * Field layouts of the on-chain structs read by the services, in declaration
+ * order as in job_escrow.move, profile_nft.move, reputation.move and whitelist.move.
+ * Update these together with the contracts; mismatches are reported as schema drift.
+ */
+
+import type { SuiObjectData } from "@mysten/sui/client";
+import { decodeMoveObject, defineStruct, move, type DecodedStruct } from "./objectDecoder";
+
+// ======== job_escrow ========
+
+export const ProposalSchema = defineStruct("job_escrow", "Proposal", {
+  freelancer: move.address,
+  cover_letter_blob_id: move.bytes,
+  proposed_price: move.u64,
+  estimated_duration_ms: move.u64,
+  portfolio_links: move.vector(move.bytes),
+  submitted_at: move.u64,
+});
+
+export const DisputeEvidenceSchema = defineStruct("job_escrow", "DisputeEvidence", {
+  submitted_by: move.address,
+  blob_id: move.bytes,
+  submitted_at: move.u64,
+});
+
+export const DisputeSchema = defineStruct("job_escrow", "Dispute", {
+  raised_by: move.address,
+  reason_blob_id: move.bytes,
+  previous_state: move.u8,
+  evidence: move.vector(move.struct(DisputeEvidenceSchema)),
+  opened_at: move.u64,
+  resolved: move.bool,
+  freelancer_amount: move.u64,
+  client_amount: move.u64,
+  resolution_blob_id: move.option(move.bytes),
+  resolved_at: move.option(move.u64),
+});
+
+export const DeadlineExtensionSchema = defineStruct("job_escrow", "DeadlineExtension", {
+  new_deadline: move.u64,
+  reason_blob_id: move.bytes,
+  requested_at: move.u64,
+});
+
+export const MilestoneSchema = defineStruct("job_escrow", "Milestone", {
+  id: move.u64,
+  description: move.bytes,
+  amount: move.u64,
+  completed: move.bool,
+  approved: move.bool,
+  submission_blob_id: move.option(move.bytes),
+  preview_url: move.option(move.bytes),
+  deliverable_escrow_id: move.option(move.id),
+  whitelist_id: move.option(move.id),
+  nonce: move.option(move.bytes),
+  original_file_name: move.option(move.bytes),
+  submitted_at: move.option(move.u64),
+  approved_at: move.option(move.u64),
+});
+
+export const JobSchema = defineStruct("job_escrow", "Job", {
+  id: move.uid,
+  client: move.address,
+  freelancer: move.option(move.address),
+  title: move.bytes,
+  description_blob_id: move.bytes,
+  category: move.bytes,
+  skills: move.vector(move.bytes),
+  budget: move.u64,
+  escrow: move.balance,
+  state: move.u8,
+  milestones: move.table(move.u64, move.struct(MilestoneSchema)),
+  milestone_count: move.u64,
+  applicants: move.vector(move.address),
+  proposals: move.vector(move.struct(ProposalSchema)),
+  rejected_applicants: move.vector(move.address),
+  created_at: move.u64,
+  deadline: move.u64,
+  deliverable_blob_ids: move.vector(move.bytes),
+  pending_freelancer_completion: move.option(move.u64),
+  dispute: move.option(move.struct(DisputeSchema)),
+  pending_extension: move.option(move.struct(DeadlineExtensionSchema)),
+  reclaimed_at: move.option(move.u64),
+  review_window_ms: move.u64,
+  pending_client_completion: move.option(move.u64),
+});
+
+/** Whitelist Cap held by a DeliverableEscrow (whitelist::Cap) */
+export const WhitelistCapSchema = defineStruct("whitelist", "Cap", {
+  id: move.uid,
+  wl_id: move.id,
+});
+
+export const DeliverableEscrowSchema = defineStruct("job_escrow", "DeliverableEscrow", {
+  id: move.uid,
+  job_id: move.id,
+  milestone_id: move.u64,
+  whitelist_cap: move.struct(WhitelistCapSchema),
+  whitelist_id: move.id,
+  access_granted: move.bool,
+});
+
+export const JobCapSchema = defineStruct("job_escrow", "JobCap", {
+  id: move.uid,
+  job_id: move.id,
+});
+
+// ======== profile_nft ========
+
+export const ProfileSchema = defineStruct("profile_nft", "Profile", {
+  id: move.uid,
+  owner: move.address,
+  zklogin_sub: move.string,
+  email: move.string,
+  profile_type: move.u8,
+  username: move.string,
+  real_name: move.string,
+  bio: move.string,
+  tags: move.vector(move.string),
+  avatar_url: move.string,
+  created_at: move.u64,
+  updated_at: move.u64,
+  completed_jobs: move.u64,
+  total_jobs: move.u64,
+  rating: move.u64,
+  rating_count: move.u64,
+  total_amount: move.u64,
+  verified: move.bool,
+  active_jobs: move.vecSet(move.id),
+});
+
+export const ProfileCapSchema = defineStruct("profile_nft", "ProfileCap", {
+  id: move.uid,
+  profile_id: move.id,
+});
+
+export const IdentityRegistrySchema = defineStruct("profile_nft", "IdentityRegistry", {
+  id: move.uid,
+  zklogin_to_profile: move.table(move.string, move.id),
+});
+
+/**
+ * Entry of IdentityRegistry.zklogin_to_profile: the framework's dynamic field
+ * `Field<String, ID>` (zkLogin sub → Profile ID). Not part of the layout check,
+ * which only covers structs of our packages.
+ */
+export const ZkLoginProfileEntrySchema = defineStruct("dynamic_field", "Field", {
+  id: move.uid,
+  name: move.string,
+  value: move.id,
+});
+
+// ======== reputation ========
+
+export const RatingSchema = defineStruct("reputation", "Rating", {
+  id: move.uid,
+  job_id: move.id,
+  rater: move.address,
+  ratee: move.address,
+  rating: move.u64,
+  review: move.string,
+  created_at: move.u64,
+  disputed: move.bool,
+});
+
+export const BadgeSchema = defineStruct("reputation", "Badge", {
+  id: move.uid,
+  owner: move.address,
+  tier: move.u8,
+  name: move.string,
+  description: move.string,
+  icon_url: move.string,
+  awarded_at: move.u64,
+});
+
+/** Schemas of structs defined in the job escrow package, for layout verification */
+export const JOB_ESCROW_SCHEMAS = [
+  JobSchema,
+  MilestoneSchema,
+  ProposalSchema,
+  DisputeSchema,
+  DisputeEvidenceSchema,
+  DeadlineExtensionSchema,
+  DeliverableEscrowSchema,
+  JobCapSchema,
+  WhitelistCapSchema,
+];
+
+/** Schemas of structs defined in the profile package, for layout verification */
+export const PROFILE_NFT_SCHEMAS = [ProfileSchema, ProfileCapSchema, IdentityRegistrySchema];
+
+/** Schemas of structs defined in the reputation package, for layout verification */
+export const REPUTATION_SCHEMAS = [RatingSchema, BadgeSchema];
+
+// ======== Decoded Types ========
+
+export type JobFields = DecodedStruct<typeof JobSchema>;
+export type MilestoneFields = DecodedStruct<typeof MilestoneSchema>;
+export type ProposalFields = DecodedStruct<typeof ProposalSchema>;
+export type DisputeFields = DecodedStruct<typeof DisputeSchema>;
+export type DeliverableEscrowFields = DecodedStruct<typeof DeliverableEscrowSchema>;
+export type ProfileFields = DecodedStruct<typeof ProfileSchema>;
+export type RatingFields = DecodedStruct<typeof RatingSchema>;
+export type BadgeFields = DecodedStruct<typeof BadgeSchema>;
+
+/**
+ * Decode job fields from Sui object data
+ *
+ * @throws SchemaDriftError if the object does not match JobSchema
+ */
+export function getJobFields(data: SuiObjectData): JobFields | null {
+  return decodeMoveObject(JobSchema, data);
+}
+
+/**
+ * Decode profile fields from Sui object data
+ *
+ * @throws SchemaDriftError if the object does not match ProfileSchema
+ */
+export function getProfileFields(data: SuiObjectData): ProfileFields | null {
+  return decodeMoveObject(ProfileSchema, data);
+}
@@ -0,0 +1,393 @@
+/**
+ * Notification Service
+ * In-app notifications derived from job_escrow and profile_nft events
+ *
+ * ARCHITECTURE PATTERN: Event-Derived Notifications
+ * =================================================
+ * 1. Scan the latest events of both modules once (MoveEventModule, descending),
+ *    then page forward from the newest seen event on every refresh
+ * 2. Keep the last MAX_SCANNED_EVENTS raw events per module in memory
+ * 3. Derive notifications from them for the connected address: events naming the
+ *    address (FreelancerAssigned.freelancer, FundsReleased.recipient, ...) and events
+ *    on jobs the address owns or works on (FreelancerApplied has no client field)
+ * 4. Skip events sent by the address itself, so users aren't notified of their own actions
+ *
+ * Read/unread state is kept in localStorage per network and wallet address.
+ */
+
+import { SuiClient, SuiEvent, EventId } from "@mysten/sui/client";
+import { FUNDS_RELEASED_REFUND } from "./jobEventIndexer";
+
+// ======== Types ========
+
+export type NotificationKind =
+  | "application_received"
+  | "application_withdrawn"
+  | "application_rejected"
+  | "freelancer_assigned"
+  | "job_started"
+  | "milestone_submitted"
+  | "milestone_approved"
+  | "milestone_auto_approved"
+  | "revision_requested"
+  | "payment_released"
+  | "refund_released"
+  | "completion_pending"
+  | "job_completed"
+  | "job_cancelled"
+  | "dispute_opened"
+  | "dispute_evidence"
+  | "dispute_resolved"
+  | "deadline_extension_requested"
+  | "deadline_extended"
+  | "rating_received";
+
+/**
+ * Where a notification leads
+ * - jobDetail: the client's job view
+ * - freelancerJobDetail: the assigned freelancer's job view
+ * - listing: the public job detail (e.g. a declined application)
+ * - profile: the user's profile
+ */
+export type NotificationTarget = "jobDetail" | "freelancerJobDetail" | "listing" | "profile";
+
+export interface AppNotification {
+  /** Event ID (txDigest:eventSeq) */
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  message: string;
+  /** Job the event belongs to (null for profile events) */
+  jobId: string | null;
+  target: NotificationTarget;
+  /** Checkpoint timestamp */
+  timestamp: number;
+  txDigest: string;
+}
+
+/**
+ * What the connected address is involved in, for events without an address field
+ */
+export interface NotificationContext {
+  address: string;
+  /** Jobs the address created */
+  clientJobIds: Set<string>;
+  /** Jobs the address is assigned to */
+  freelancerJobIds: Set<string>;
+  /** Profiles owned by the address */
+  profileIds: Set<string>;
+}
+
+export interface NotificationReadState {
+  /** Notifications up to this time are read */
+  readBefore: number;
+  /** Newer notifications marked read one by one */
+  readIds: string[];
+}
+
+/** Raw events kept per module */
+export const MAX_SCANNED_EVENTS = 500;
+
+/** On first use, notifications older than this are already marked read */
+export const NOTIFICATION_UNREAD_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const NOTIFICATION_MODULES = ["job_escrow", "profile_nft"] as const;
+type NotificationModule = (typeof NOTIFICATION_MODULES)[number];
+
+const PAGE_SIZE = 50;
+const STORAGE_KEY_PREFIX = "gignova:notifications";
+
+interface ModuleEvents {
+  /** Newest event seen, the cursor for the next forward page */
+  cursor: EventId | null;
+  /** Oldest first */
+  events: SuiEvent[];
+}
+
+// ======== Derivation ========
+
+/**
+ * Turn one event into a notification for the connected address
+ *
+ * @param event job_escrow or profile_nft event
+ * @param context Address and the jobs/profiles it is involved in
+ * @returns Notification, or null if the event doesn't concern the address
+ */
+export function deriveNotification(event: SuiEvent, context: NotificationContext): AppNotification | null {
+  const { address } = context;
+  if (event.sender === address) {
+    return null;
+  }
+
+  const data = (event.parsedJson ?? {}) as Record<string, any>;
+  const [, module, type] = event.type.split("::");
+  const jobId: string | null = data.job_id ?? null;
+  const isClient = !!jobId && (context.clientJobIds.has(jobId) || data.client === address);
+  const isFreelancer = !!jobId && (context.freelancerJobIds.has(jobId) || data.freelancer === address);
+
+  const notify = (
+    kind: NotificationKind,
+    title: string,
+    message: string,
+    target: NotificationTarget
+  ): AppNotification => ({
+    id: `${event.id.txDigest}:${event.id.eventSeq}`,
+    kind,
+    title,
+    message,
+    jobId,
+    target,
+    timestamp: Number(event.timestampMs ?? data.timestamp ?? 0),
+    txDigest: event.id.txDigest,
+  });
+
+  if (module === "profile_nft") {
+    if (type === "ReputationUpdated" && context.profileIds.has(data.profile_id)) {
+      const rating = (Number(data.new_rating) / 100).toFixed(1);
+      return notify("rating_received", "New rating", `Your rating is now ${rating} (${data.rating_count} ratings)`, "profile");
+    }
+    return null;
+  }
+
+  switch (type) {
+    case "FreelancerApplied":
+      return isClient ? notify("application_received", "New application", "A freelancer applied to your job", "jobDetail") : null;
+    case "ApplicationWithdrawn":
+      return isClient ? notify("application_withdrawn", "Application withdrawn", "A freelancer withdrew their application", "jobDetail") : null;
+    case "ApplicantRejected":
+      return data.freelancer === address
+        ? notify("application_rejected", "Application declined", "The client declined your application", "listing")
+        : null;
+    case "FreelancerAssigned":
+      return data.freelancer === address
+        ? notify("freelancer_assigned", "You were assigned", "The client assigned you to the job", "freelancerJobDetail")
+        : null;
+    case "JobStarted":
+      return isClient ? notify("job_started", "Work started", "The freelancer started working on your job", "jobDetail") : null;
+    case "MilestoneSubmitted":
+      return isClient
+        ? notify("milestone_submitted", "Milestone submitted", `Milestone ${Number(data.milestone_id) + 1} is ready for review`, "jobDetail")
+        : null;
+    case "MilestoneApproved":
+      return data.freelancer === address
+        ? notify("milestone_approved", "Milestone approved", `Milestone ${Number(data.milestone_id) + 1} was approved`, "freelancerJobDetail")
+        : null;
+    case "MilestoneAutoApproved":
+      return isClient
+        ? notify("milestone_auto_approved", "Milestone auto-approved", `Milestone ${Number(data.milestone_id) + 1} was claimed after the review window`, "jobDetail")
+        : null;
+    case "MilestoneRevisionRequested":
+      return data.freelancer === address
+        ? notify("revision_requested", "Revision requested", `The client requested changes to milestone ${Number(data.milestone_id) + 1}`, "freelancerJobDetail")
+        : null;
+    case "FundsReleased":
+      if (data.recipient !== address) return null;
+      return Number(data.reason) === FUNDS_RELEASED_REFUND
+        ? notify("refund_released", "Refund released", "The escrow was refunded to you", "jobDetail")
+        : notify("payment_released", "Payment released", "Funds were released to you from escrow", "freelancerJobDetail");
+    case "FreelancerCompletionPending":
+      return data.freelancer === address
+        ? notify("completion_pending", "Job ready to complete", "Claim the job completion to update your profile", "freelancerJobDetail")
+        : null;
+    case "JobCompleted":
+      if (data.freelancer === address) {
+        return notify("job_completed", "Job completed", "The job was completed", "freelancerJobDetail");
+      }
+      return data.client === address ? notify("job_completed", "Job completed", "The job was completed", "jobDetail") : null;
+    case "JobCancelled":
+      return isFreelancer ? notify("job_cancelled", "Job cancelled", "The client cancelled the job", "listing") : null;
+    case "DisputeOpened":
+      if (!isClient && !isFreelancer) return null;
+      return notify("dispute_opened", "Dispute opened", "A dispute was opened on the job", isClient ? "jobDetail" : "freelancerJobDetail");
+    case "DisputeEvidenceSubmitted":
+      if (!isClient && !isFreelancer) return null;
+      return notify("dispute_evidence", "New dispute evidence", "Evidence was added to the dispute", isClient ? "jobDetail" : "freelancerJobDetail");
+    case "DisputeResolved":
+      if (!isClient && !isFreelancer) return null;
+      return notify("dispute_resolved", "Dispute resolved", "The arbiter resolved the dispute", isClient ? "jobDetail" : "freelancerJobDetail");
+    case "DeadlineExtensionRequested":
+      return data.client === address
+        ? notify("deadline_extension_requested", "Deadline extension requested", "The freelancer asked for a later deadline", "jobDetail")
+        : null;
+    case "DeadlineExtended":
+      return data.freelancer === address
+        ? notify("deadline_extended", "Deadline extended", "The client accepted your new deadline", "freelancerJobDetail")
+        : null;
+    default:
+      return null;
+  }
+}
+
+// ======== Service ========
+
+export class NotificationService {
+  private suiClient: SuiClient;
+  private packageIds: Record<NotificationModule, string>;
+  private network: string;
+  private scanned = new Map<NotificationModule, ModuleEvents>();
+
+  constructor(suiClient: SuiClient, jobPackageId: string, profilePackageId: string, network: string) {
+    this.suiClient = suiClient;
+    this.packageIds = { job_escrow: jobPackageId, profile_nft: profilePackageId };
+    this.network = network;
+  }
+
+  // ======== Notifications ========
+
+  /**
+   * Get the latest notifications for an address
+   * Fetches only events emitted since the previous call.
+   *
+   * @param context Address and the jobs/profiles it is involved in
+   * @param limit Maximum notifications to return
+   * @returns Notifications, newest first
+   */
+  async getNotifications(context: NotificationContext, limit: number = 50): Promise<AppNotification[]> {
+    const notifications: AppNotification[] = [];
+    for (const module of NOTIFICATION_MODULES) {
+      const { events } = await this.sync(module);
+      for (const event of events) {
+        const notification = deriveNotification(event, context);
+        if (notification) {
+          notifications.push(notification);
+        }
+      }
+    }
+
+    return notifications.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit);
+  }
+
+  private async sync(module: NotificationModule): Promise<ModuleEvents> {
+    const query = { MoveEventModule: { package: this.packageIds[module], module } };
+    const scanned = this.scanned.get(module);
+
+    // First sync: the latest events, newest first
+    if (!scanned) {
+      const events: SuiEvent[] = [];
+      let cursor: EventId | null | undefined = undefined;
+      let hasNextPage = true;
+      while (hasNextPage && events.length < MAX_SCANNED_EVENTS) {
+        const page = await this.suiClient.queryEvents({ query, cursor, limit: PAGE_SIZE, order: "descending" });
+        events.push(...page.data);
+        cursor = page.nextCursor;
+        hasNextPage = page.hasNextPage && page.data.length > 0;
+      }
+
+      const result: ModuleEvents = { cursor: events[0]?.id ?? null, events: events.reverse() };
+      this.scanned.set(module, result);
+      return result;
+    }
+
+    // Later syncs: page forward from the newest seen event
+    let hasNextPage = true;
+    while (hasNextPage) {
+      const page = await this.suiClient.queryEvents({
+        query,
+        cursor: scanned.cursor ?? undefined,
+        limit: PAGE_SIZE,
+        order: "ascending",
+      });
+      scanned.events.push(...page.data);
+      if (page.data.length > 0) {
+        scanned.cursor = page.data[page.data.length - 1].id;
+      }
+      hasNextPage = page.hasNextPage && page.data.length > 0;
+    }
+
+    if (scanned.events.length > MAX_SCANNED_EVENTS) {
+      scanned.events = scanned.events.slice(-MAX_SCANNED_EVENTS);
+    }
+    return scanned;
+  }
+
+  // ======== Read State ========
+
+  /**
+   * Get which notifications of a wallet are read
+   * The first call marks everything older than NOTIFICATION_UNREAD_WINDOW_MS as read.
+   *
+   * @param owner Wallet address
+   * @returns Read state
+   */
+  getReadState(owner: string): NotificationReadState {
+    const fallback: NotificationReadState = { readBefore: Date.now() - NOTIFICATION_UNREAD_WINDOW_MS, readIds: [] };
+    const storage = this.storage();
+    if (!storage) return fallback;
+
+    try {
+      const raw = storage.getItem(this.storageKey(owner));
+      if (raw) {
+        return JSON.parse(raw) as NotificationReadState;
+      }
+    } catch (error) {
+      console.error("Error reading notification state:", error);
+    }
+
+    this.writeReadState(owner, fallback);
+    return fallback;
+  }
+
+  /**
+   * Check whether a notification is read
+   *
+   * @param notification Notification
+   * @param state Read state of the wallet
+   * @returns True if read
+   */
+  isRead(notification: AppNotification, state: NotificationReadState): boolean {
+    return notification.timestamp <= state.readBefore || state.readIds.includes(notification.id);
+  }
+
+  /**
+   * Mark notifications as read
+   *
+   * @param owner Wallet address
+   * @param notificationIds Notification IDs
+   */
+  markRead(owner: string, notificationIds: string[]): void {
+    const state = this.getReadState(owner);
+    const readIds = Array.from(new Set([...state.readIds, ...notificationIds]));
+    this.writeReadState(owner, { ...state, readIds: readIds.slice(-MAX_SCANNED_EVENTS) });
+  }
+
+  /**
+   * Mark every notification up to now as read
+   *
+   * @param owner Wallet address
+   */
+  markAllRead(owner: string): void {
+    this.writeReadState(owner, { readBefore: Date.now(), readIds: [] });
+  }
+
+  // ======== Helpers ========
+
+  private storageKey(owner: string): string {
+    return `${STORAGE_KEY_PREFIX}:${this.network}:${owner}`;
+  }
+
+  private storage(): Storage | null {
+    return typeof window === "undefined" ? null : window.localStorage;
+  }
+
+  private writeReadState(owner: string, state: NotificationReadState): void {
+    this.storage()?.setItem(this.storageKey(owner), JSON.stringify(state));
+  }
+}
+
+/**
+ * Factory function to create NotificationService instance
+ *
+ * @param suiClient Sui client instance
+ * @param jobPackageId Job escrow package ID
+ * @param profilePackageId Profile NFT package ID
+ * @param network Network name (read state is kept per network)
+ * @returns NotificationService instance
+ */
+export function createNotificationService(
+  suiClient: SuiClient,
+  jobPackageId: string,
+  profilePackageId: string,
+  network: string
+): NotificationService {
+  return new NotificationService(suiClient, jobPackageId, profilePackageId, network);
+}
@@ -0,0 +1,521 @@
+/**
+ * Object Decoder
+ *
+ * Schema-checked decoding of Move objects returned by the JSON-RPC API.
+ *
+ * Each struct schema lists its fields with their Move types, in the same order
+ * as the .move source. Decoding checks the JSON shape of every field against its
+ * Move type instead of casting `content.fields`, so a contract change surfaces as
+ * schema drift rather than as `undefined` values in the UI:
+ * - Missing fields and fields with the wrong shape fail the decode (SchemaDriftError)
+ * - Fields the schema does not know about are reported but do not fail the decode
+ *
+ * The same schemas can be compared with the package's normalized struct layouts
+ * (`verifyStructLayouts`) to detect drift before any object is read.
+ */
+
+import type { SuiClient, SuiMoveNormalizedType, SuiObjectData } from "@mysten/sui/client";
+import { vectorU8ToString } from "./types";
+
+// ======== Types ========
+
+/**
+ * Mismatch between a schema and on-chain data
+ */
+export interface SchemaIssue {
+  /** Struct the issue was found in (e.g., "job_escrow::Job") */
+  struct: string;
+  /** Field path (e.g., "dispute.evidence[0].blob_id") */
+  path: string;
+  kind: "missing" | "type_mismatch" | "unexpected";
+  /** Expected Move type */
+  expected?: string;
+  /** Received JSON type or normalized Move type */
+  received?: string;
+}
+
+/**
+ * Schema drift found while decoding an object or verifying a layout
+ */
+export interface SchemaDriftReport {
+  struct: string;
+  /** Object ID (absent for layout verification) */
+  objectId?: string;
+  issues: SchemaIssue[];
+}
+
+/**
+ * Thrown when an object cannot be decoded with its schema
+ */
+export class SchemaDriftError extends Error {
+  readonly struct: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(struct: string, issues: SchemaIssue[]) {
+    super(`Schema drift in ${struct}: ${issues.map(formatSchemaIssue).join("; ")}`);
+    this.name = "SchemaDriftError";
+    this.struct = struct;
+    this.issues = issues;
+  }
+}
+
+interface DecodeContext {
+  struct: string;
+  issues: SchemaIssue[];
+}
+
+/**
+ * Move field type: expected Move signature plus decoder for its JSON-RPC representation
+ */
+export interface MoveFieldType<T> {
+  /** Move type as it appears in the normalized layout (e.g., "Option<vector<u8>>") */
+  signature: string;
+  /** Decode a JSON value; records an issue and returns undefined on mismatch */
+  decode(value: unknown, ctx: DecodeContext, path: string): T | undefined;
+}
+
+type FieldTypes = Record<string, MoveFieldType<unknown>>;
+
+/**
+ * Struct schema (module, name and fields in declaration order)
+ */
+export interface MoveStructSchema<F extends FieldTypes = FieldTypes> {
+  module: string;
+  name: string;
+  fields: F;
+}
+
+/**
+ * Decoded struct: field names as on-chain, values converted to JS types
+ */
+export type DecodedStruct<S extends MoveStructSchema> = {
+  [K in keyof S["fields"]]: S["fields"][K] extends MoveFieldType<infer T> ? T : never;
+};
+
+// ======== Field Types ========
+
+/**
+ * Check a JSON value and convert it, recording a type mismatch on failure
+ */
+function primitive<T>(
+  signature: string,
+  isValid: (value: unknown) => boolean,
+  convert: (value: any) => T
+): MoveFieldType<T> {
+  return {
+    signature,
+    decode(value, ctx, path) {
+      if (!isValid(value)) {
+        mismatch(ctx, path, signature, value);
+        return undefined;
+      }
+      return convert(value);
+    },
+  };
+}
+
+const isIntegerString = (value: unknown) =>
+  (typeof value === "string" && /^\d+$/.test(value)) ||
+  (typeof value === "number" && Number.isSafeInteger(value) && value >= 0);
+const isHexAddress = (value: unknown) =>
+  typeof value === "string" && /^0x[0-9a-fA-F]+$/.test(value);
+const isByteArray = (value: unknown) =>
+  Array.isArray(value) && value.every((byte) => Number.isInteger(byte) && byte >= 0 && byte <= 255);
+
+/**
+ * Move field type constructors
+ *
+ * u64 values are converted to numbers, vector<u8> to UTF-8 strings,
+ * Option<T> to `T | undefined` and UID/ID to object ID strings.
+ */
+export const move = {
+  u8: primitive<number>("u8", (v) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 255, Number),
+  u64: primitive<number>("u64", isIntegerString, Number),
+  bool: primitive<boolean>("bool", (v) => typeof v === "boolean", Boolean),
+  address: primitive<string>("address", isHexAddress, String),
+  id: primitive<string>("ID", isHexAddress, String),
+  uid: primitive<string>(
+    "UID",
+    (v) => isObject(v) && isHexAddress(v.id),
+    (v) => v.id
+  ),
+  string: primitive<string>("String", (v) => typeof v === "string", String),
+  bytes: primitive<string>("vector<u8>", isByteArray, vectorU8ToString),
+  /** Balance<T> of the struct's first type parameter */
+  balance: primitive<number>("Balance<T0>", isIntegerString, Number),
+
+  vector<T>(element: MoveFieldType<T>): MoveFieldType<T[]> {
+    const signature = `vector<${element.signature}>`;
+    return {
+      signature,
+      decode(value, ctx, path) {
+        if (!Array.isArray(value)) {
+          mismatch(ctx, path, signature, value);
+          return undefined;
+        }
+        const decoded = value.map((item, i) => element.decode(item, ctx, `${path}[${i}]`));
+        return decoded.every((item) => item !== undefined) ? (decoded as T[]) : undefined;
+      },
+    };
+  },
+
+  option<T>(inner: MoveFieldType<T>): MoveFieldType<T | undefined> {
+    return {
+      signature: `Option<${inner.signature}>`,
+      // None is rendered as null; Some(x) as x
+      decode: (value, ctx, path) => (value === null ? undefined : inner.decode(value, ctx, path)),
+    };
+  },
+
+  struct<F extends FieldTypes>(schema: MoveStructSchema<F>): MoveFieldType<DecodedStruct<MoveStructSchema<F>>> {
+    return {
+      signature: schema.name,
+      decode(value, ctx, path) {
+        if (!isObject(value) || !isObject(value.fields)) {
+          mismatch(ctx, path, schema.name, value);
+          return undefined;
+        }
+        return decodeFields(schema, value.fields, ctx, `${path}.`);
+      },
+    };
+  },
+
+  /** Table handle; entries are separate dynamic field objects */
+  table(key: MoveFieldType<unknown>, value: MoveFieldType<unknown>): MoveFieldType<{ id: string; size: number }> {
+    return primitive(
+      `Table<${key.signature}, ${value.signature}>`,
+      (v) => isObject(v) && isObject(v.fields) && isObject(v.fields.id) && isHexAddress(v.fields.id.id) && isIntegerString(v.fields.size),
+      (v) => ({ id: v.fields.id.id, size: Number(v.fields.size) })
+    );
+  },
+
+  vecSet<T>(element: MoveFieldType<T>): MoveFieldType<T[]> {
+    const contents = move.vector(element);
+    const signature = `VecSet<${element.signature}>`;
+    return {
+      signature,
+      decode(value, ctx, path) {
+        if (!isObject(value) || !isObject(value.fields)) {
+          mismatch(ctx, path, signature, value);
+          return undefined;
+        }
+        return contents.decode(value.fields.contents, ctx, `${path}.contents`);
+      },
+    };
+  },
+};
+
+/**
+ * Define a struct schema
+ *
+ * @param module Move module name
+ * @param name Struct name
+ * @param fields Field types in declaration order
+ * @returns Struct schema
+ */
+export function defineStruct<F extends FieldTypes>(
+  module: string,
+  name: string,
+  fields: F
+): MoveStructSchema<F> {
+  return { module, name, fields };
+}
+
+// ======== Decoding ========
+
+/**
+ * Decode a Move object with its schema
+ *
+ * @param schema Struct schema
+ * @param data Object data fetched with `showContent: true`
+ * @returns Decoded fields, or null if the object is not a Move object
+ * @throws SchemaDriftError if the object type or fields do not match the schema
+ */
+export function decodeMoveObject<S extends MoveStructSchema>(
+  schema: S,
+  data: SuiObjectData
+): DecodedStruct<S> | null {
+  if (data.content?.dataType !== "moveObject") {
+    return null;
+  }
+
+  const struct = structName(schema);
+  if (!matchesStructType(data.content.type, schema)) {
+    throw new SchemaDriftError(struct, [
+      { struct, path: "", kind: "type_mismatch", expected: struct, received: data.content.type },
+    ]);
+  }
+
+  return decodeWithReport(schema, data.content.fields, data.objectId, "");
+}
+
+/**
+ * Decode the value of a Table entry (dynamic field object `Field<K, V>`)
+ *
+ * @param schema Struct schema of the value type
+ * @param data Dynamic field object data fetched with getDynamicFieldObject
+ * @returns Decoded value, or null if the object is not a Move object
+ * @throws SchemaDriftError if the value does not match the schema
+ */
+export function decodeDynamicFieldValue<S extends MoveStructSchema>(
+  schema: S,
+  data: SuiObjectData
+): DecodedStruct<S> | null {
+  if (data.content?.dataType !== "moveObject") {
+    return null;
+  }
+
+  const wrapper = data.content.fields as Record<string, unknown>;
+  const value = wrapper.value;
+  if (!isObject(value) || !isObject(value.fields)) {
+    const struct = structName(schema);
+    throw new SchemaDriftError(struct, [
+      { struct, path: "value", kind: "type_mismatch", expected: struct, received: describeJson(value) },
+    ]);
+  }
+
+  return decodeWithReport(schema, value.fields, data.objectId, "value.");
+}
+
+function decodeWithReport<S extends MoveStructSchema>(
+  schema: S,
+  fields: unknown,
+  objectId: string,
+  pathPrefix: string
+): DecodedStruct<S> {
+  const ctx: DecodeContext = { struct: structName(schema), issues: [] };
+  const decoded = isObject(fields) ? decodeFields(schema, fields, ctx, pathPrefix) : undefined;
+  if (!isObject(fields)) {
+    mismatch(ctx, pathPrefix.replace(/\.$/, ""), ctx.struct, fields);
+  }
+
+  if (ctx.issues.length > 0) {
+    reportSchemaDrift({ struct: ctx.struct, objectId, issues: ctx.issues });
+  }
+
+  const fatal = ctx.issues.filter((issue) => issue.kind !== "unexpected");
+  if (!decoded || fatal.length > 0) {
+    throw new SchemaDriftError(ctx.struct, fatal);
+  }
+  return decoded;
+}
+
+function decodeFields<S extends MoveStructSchema>(
+  schema: S,
+  fields: Record<string, unknown>,
+  ctx: DecodeContext,
+  pathPrefix: string
+): DecodedStruct<S> | undefined {
+  const decoded: Record<string, unknown> = {};
+  let valid = true;
+
+  for (const [name, type] of Object.entries(schema.fields)) {
+    const path = `${pathPrefix}${name}`;
+    if (!(name in fields)) {
+      ctx.issues.push({ struct: ctx.struct, path, kind: "missing", expected: type.signature });
+      valid = false;
+      continue;
+    }
+    const value = type.decode(fields[name], ctx, path);
+    // Option fields legitimately decode to undefined
+    if (value === undefined && fields[name] !== null) {
+      valid = false;
+    }
+    decoded[name] = value;
+  }
+
+  for (const name of Object.keys(fields)) {
+    if (!(name in schema.fields)) {
+      ctx.issues.push({
+        struct: ctx.struct,
+        path: `${pathPrefix}${name}`,
+        kind: "unexpected",
+        received: describeJson(fields[name]),
+      });
+    }
+  }
+
+  return valid ? (decoded as DecodedStruct<S>) : undefined;
+}
+
+// ======== Layout Verification ========
+
+/**
+ * Compare schemas with the package's normalized struct layouts
+ *
+ * @param suiClient Sui client instance
+ * @param packageId Package that defines the structs
+ * @param schemas Struct schemas to verify
+ * @returns Issues found (empty when every layout matches)
+ * @note Issues are also reported to schema drift listeners
+ */
+export async function verifyStructLayouts(
+  suiClient: SuiClient,
+  packageId: string,
+  schemas: MoveStructSchema[]
+): Promise<SchemaIssue[]> {
+  const issues: SchemaIssue[] = [];
+
+  for (const schema of schemas) {
+    const struct = structName(schema);
+    const structIssues: SchemaIssue[] = [];
+
+    try {
+      const layout = await suiClient.getNormalizedMoveStruct({
+        package: packageId,
+        module: schema.module,
+        struct: schema.name,
+      });
+      const onChain = new Map(layout.fields.map((field) => [field.name, formatNormalizedType(field.type)]));
+
+      for (const [name, type] of Object.entries(schema.fields)) {
+        const received = onChain.get(name);
+        if (received === undefined) {
+          structIssues.push({ struct, path: name, kind: "missing", expected: type.signature });
+        } else if (received !== type.signature) {
+          structIssues.push({ struct, path: name, kind: "type_mismatch", expected: type.signature, received });
+        }
+      }
+      for (const [name, received] of onChain) {
+        if (!(name in schema.fields)) {
+          structIssues.push({ struct, path: name, kind: "unexpected", received });
+        }
+      }
+    } catch (error) {
+      console.warn(`Could not verify layout of ${struct}:`, error);
+      continue;
+    }
+
+    if (structIssues.length > 0) {
+      reportSchemaDrift({ struct, issues: structIssues });
+      issues.push(...structIssues);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Format a normalized Move type the way schemas write it
+ * Example: { Struct: { module: "option", name: "Option", typeArguments: ["U64"] } } → "Option<u64>"
+ */
+export function formatNormalizedType(type: SuiMoveNormalizedType): string {
+  if (typeof type === "string") {
+    return type.toLowerCase();
+  }
+  if ("Vector" in type) {
+    return `vector<${formatNormalizedType(type.Vector)}>`;
+  }
+  if ("TypeParameter" in type) {
+    return `T${type.TypeParameter}`;
+  }
+  if ("Struct" in type) {
+    const { name, typeArguments } = type.Struct;
+    return typeArguments.length > 0
+      ? `${name}<${typeArguments.map(formatNormalizedType).join(", ")}>`
+      : name;
+  }
+  if ("Reference" in type) {
+    return `&${formatNormalizedType(type.Reference)}`;
+  }
+  return `&mut ${formatNormalizedType(type.MutableReference)}`;
+}
+
+// ======== Drift Reporting ========
+
+type SchemaDriftListener = (report: SchemaDriftReport) => void;
+
+const driftListeners = new Set<SchemaDriftListener>();
+const reportedIssues = new Map<string, SchemaIssue>();
+
+/**
+ * Subscribe to schema drift reports
+ *
+ * @param listener Called once per distinct issue set
+ * @returns Unsubscribe function
+ */
+export function onSchemaDrift(listener: SchemaDriftListener): () => void {
+  driftListeners.add(listener);
+  return () => {
+    driftListeners.delete(listener);
+  };
+}
+
+/**
+ * Get all schema issues reported so far in this session
+ *
+ * @returns Distinct issues in the order they were reported
+ */
+export function getReportedSchemaIssues(): SchemaIssue[] {
+  return Array.from(reportedIssues.values());
+}
+
+/**
+ * Log and broadcast schema drift (each distinct issue is reported once per session)
+ */
+function reportSchemaDrift(report: SchemaDriftReport): void {
+  const newIssues = report.issues.filter((issue) => {
+    const key = `${issue.struct}|${issue.path.replace(/\[\d+\]/g, "[]")}|${issue.kind}|${issue.received ?? ""}`;
+    if (reportedIssues.has(key)) {
+      return false;
+    }
+    reportedIssues.set(key, issue);
+    return true;
+  });
+  if (newIssues.length === 0) {
+    return;
+  }
+
+  const hasErrors = newIssues.some((issue) => issue.kind !== "unexpected");
+  const log = hasErrors ? console.error : console.warn;
+  log(
+    `⚠️ Schema drift in ${report.struct}${report.objectId ? ` (${report.objectId})` : ""}:`,
+    newIssues.map(formatSchemaIssue)
+  );
+
+  driftListeners.forEach((listener) => listener({ ...report, issues: newIssues }));
+}
+
+/**
+ * Format a schema issue for logs and error messages
+ */
+export function formatSchemaIssue(issue: SchemaIssue): string {
+  const field = issue.path ? `field \`${issue.path}\`` : "object type";
+  switch (issue.kind) {
+    case "missing":
+      return `missing ${field} (expected ${issue.expected})`;
+    case "unexpected":
+      return `unexpected ${field} (${issue.received})`;
+    default:
+      return `${field} expected ${issue.expected}, received ${issue.received}`;
+  }
+}
+
+// ======== Private Helpers ========
+
+function structName(schema: MoveStructSchema): string {
+  return `${schema.module}::${schema.name}`;
+}
+
+/**
+ * Check "0xpkg::module::Name" or "0xpkg::module::Name<...>" against the schema
+ */
+function matchesStructType(type: string, schema: MoveStructSchema): boolean {
+  const base = type.split("<")[0];
+  return base.endsWith(`::${schema.module}::${schema.name}`);
+}
+
+function mismatch(ctx: DecodeContext, path: string, expected: string, value: unknown): void {
+  ctx.issues.push({ struct: ctx.struct, path, kind: "type_mismatch", expected, received: describeJson(value) });
+}
+
+function describeJson(value: unknown): string {
+  if (value === null) return "null";
+  if (value === undefined) return "undefined";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
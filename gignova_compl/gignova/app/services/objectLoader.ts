@@ -0,0 +1,143 @@
+/**
+ * Object Loader
+ *
+ * Batched object reads for list views. Instead of one getObject call per object:
+ * - IDs are deduplicated and fetched with multiGetObjects in chunks of 50 (RPC limit)
+ * - Chunks run in parallel with bounded concurrency (shared by all loaders)
+ * - Concurrent requests for the same object and options share one in-flight read
+ *
+ * Loading N jobs with their milestones therefore costs ceil(N / 50) + ceil(M / 50)
+ * round-trips instead of N + M sequential calls.
+ */
+
+import { SuiClient, SuiObjectData, SuiObjectDataOptions } from "@mysten/sui/client";
+import { bcs } from "@mysten/sui/bcs";
+import { deriveDynamicFieldID } from "@mysten/sui/utils";
+
+/** Maximum object IDs per multiGetObjects call */
+const MAX_OBJECTS_PER_REQUEST = 50;
+
+/** Maximum RPC requests the loaders run at the same time */
+export const MAX_CONCURRENT_REQUESTS = 4;
+
+/** In-flight reads per client, keyed by `${options}:${objectId}` */
+const inFlight = new WeakMap<SuiClient, Map<string, Promise<SuiObjectData | null>>>();
+
+/**
+ * Create a limiter that runs at most `limit` tasks at once, in submission order
+ */
+function createLimiter(limit: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    if (active >= limit || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+}
+
+const runLimited = createLimiter(MAX_CONCURRENT_REQUESTS);
+
+/**
+ * Derive the object ID of a Table<u64, V> entry
+ *
+ * @param tableId Table object ID
+ * @param key Entry key
+ * @returns Dynamic field object ID
+ */
+export function deriveU64TableEntryId(tableId: string, key: number): string {
+  return deriveDynamicFieldID(tableId, "u64", bcs.u64().serialize(key).toBytes());
+}
+
+export class ObjectLoader {
+  private suiClient: SuiClient;
+
+  constructor(suiClient: SuiClient) {
+    this.suiClient = suiClient;
+  }
+
+  /**
+   * Load objects in batches
+   *
+   * @param ids Object IDs (duplicates are fetched once)
+   * @param options Data options (default: content only)
+   * @returns Object data by ID; null for deleted or missing objects
+   */
+  async getObjects(
+    ids: string[],
+    options: SuiObjectDataOptions = { showContent: true }
+  ): Promise<Map<string, SuiObjectData | null>> {
+    const optionsKey = JSON.stringify(options);
+    let pending = inFlight.get(this.suiClient);
+    if (!pending) {
+      pending = new Map();
+      inFlight.set(this.suiClient, pending);
+    }
+
+    const uniqueIds = Array.from(new Set(ids));
+    const toFetch = uniqueIds.filter((id) => !pending!.has(`${optionsKey}:${id}`));
+
+    for (let i = 0; i < toFetch.length; i += MAX_OBJECTS_PER_REQUEST) {
+      const chunk = toFetch.slice(i, i + MAX_OBJECTS_PER_REQUEST);
+      const request = runLimited(() => this.fetchChunk(chunk, options));
+
+      for (const id of chunk) {
+        const key = `${optionsKey}:${id}`;
+        const read = request.then((objects) => objects.get(id) ?? null);
+        pending.set(key, read);
+        read
+          .catch(() => undefined)
+          .finally(() => pending!.delete(key));
+      }
+    }
+
+    const entries = await Promise.all(
+      uniqueIds.map(async (id) => [id, await pending!.get(`${optionsKey}:${id}`)!] as const)
+    );
+    return new Map(entries);
+  }
+
+  /**
+   * Load one object (batched with concurrent requests for the same ID)
+   *
+   * @param id Object ID
+   * @param options Data options (default: content only)
+   * @returns Object data, or null if it does not exist
+   */
+  async getObject(id: string, options?: SuiObjectDataOptions): Promise<SuiObjectData | null> {
+    const objects = await this.getObjects([id], options);
+    return objects.get(id) ?? null;
+  }
+
+  private async fetchChunk(
+    ids: string[],
+    options: SuiObjectDataOptions
+  ): Promise<Map<string, SuiObjectData | null>> {
+    const responses = await this.suiClient.multiGetObjects({ ids, options });
+    return new Map(ids.map((id, i) => [id, responses[i]?.data ?? null]));
+  }
+}
+
+/**
+ * Factory function to create ObjectLoader
+ *
+ * @param suiClient Sui client instance
+ * @returns ObjectLoader instance
+ */
+export function createObjectLoader(suiClient: SuiClient): ObjectLoader {
+  return new ObjectLoader(suiClient);
+}
@@ -0,0 +1,151 @@
+/**
+ * PDF Document
+ * Minimal text-only PDF writer for invoices and receipts (no dependencies)
+ *
+ * Writes PDF 1.4 with the standard Helvetica fonts (WinAnsi encoding), A4 pages and
+ * automatic page breaks. Characters outside Latin-1 are replaced with "?".
+ * Lines are wrapped by an average glyph width, which is close enough for Helvetica.
+ */
+
+// ======== Types ========
+
+export interface PdfLine {
+  text: string;
+  /** Font size in points (default 10) */
+  size?: number;
+  bold?: boolean;
+  /** Extra space above the line in points */
+  spaceBefore?: number;
+  /** Draw a horizontal rule instead of text */
+  rule?: boolean;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const DEFAULT_FONT_SIZE = 10;
+const LINE_HEIGHT = 1.4;
+/** Average Helvetica glyph width as a share of the font size */
+const AVERAGE_GLYPH_WIDTH = 0.5;
+
+// ======== Writer ========
+
+/**
+ * Render lines of text into a PDF file
+ *
+ * @param lines Lines from top to bottom (long lines wrap)
+ * @param title Document title (PDF metadata)
+ * @returns PDF file bytes
+ */
+export function createTextPdf(lines: PdfLine[], title: string): Uint8Array {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_FONT_SIZE;
+    const wrapped = line.rule ? [""] : wrapText(line.text, size);
+    const height = size * LINE_HEIGHT;
+    y -= line.spaceBefore ?? 0;
+
+    for (const text of wrapped) {
+      if (y - height < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= height;
+
+      const content = pages[pages.length - 1];
+      if (line.rule) {
+        content.push(`0.6 G 0.5 w ${MARGIN} ${y + height / 2} m ${PAGE_WIDTH - MARGIN} ${y + height / 2} l S`);
+      } else {
+        content.push(`BT /${line.bold ? "F2" : "F1"} ${size} Tf ${MARGIN} ${y} Td (${escapePdfText(text)}) Tj ET`);
+      }
+    }
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Title (${escapePdfText(title)}) /Producer (GigNova) >>`;
+  pages.forEach((content, i) => {
+    const stream = content.join("\n");
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Every character is one byte (Latin-1), so string lengths are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) {
+    bytes[i] = pdf.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ======== Helpers ========
+
+/**
+ * Keep Latin-1 characters and escape PDF string delimiters
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+/**
+ * Wrap text to the page width, breaking long words
+ */
+function wrapText(text: string, size: number): string[] {
+  const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * AVERAGE_GLYPH_WIDTH));
+  const lines: string[] = [];
+
+  for (const paragraph of text.split("\n")) {
+    let current = "";
+    for (const word of paragraph.split(" ")) {
+      let rest = word;
+      while (rest.length > maxChars) {
+        if (current) {
+          lines.push(current);
+          current = "";
+        }
+        lines.push(rest.slice(0, maxChars));
+        rest = rest.slice(maxChars);
+      }
+      const candidate = current ? `${current} ${rest}` : rest;
+      if (candidate.length > maxChars) {
+        lines.push(current);
+        current = rest;
+      } else {
+        current = candidate;
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
@@ -18,8 +18,9 @@ import {
   ProfileData,
   ProfileCapData,
   ProfileType,
-  getProfileFields,
 } from "./types";
+import { decodeMoveObject } from "./objectDecoder";
+import { IdentityRegistrySchema, ProfileCapSchema, ZkLoginProfileEntrySchema, getProfileFields } from "./moveSchemas";
 
 export class ProfileService {
   private suiClient: SuiClient;
@@ -206,7 +207,6 @@ export class ProfileService {
         return null;
       }
 
-      // TODO: Parse all fields correctly
       return {
         objectId: profileId,
         owner: fields.owner,
@@ -214,17 +214,17 @@ export class ProfileService {
         username: fields.username,
         realName: fields.real_name,
         bio: fields.bio,
-        tags: fields.tags || [],
+        tags: fields.tags,
         avatarUrl: fields.avatar_url,
-        createdAt: Number(fields.created_at),
-        updatedAt: Number(fields.updated_at),
-        completedJobs: Number(fields.completed_jobs),
-        totalJobs: Number(fields.total_jobs),
-        rating: Number(fields.rating),
-        ratingCount: Number(fields.rating_count),
-        totalAmount: Number(fields.total_amount),
+        createdAt: fields.created_at,
+        updatedAt: fields.updated_at,
+        completedJobs: fields.completed_jobs,
+        totalJobs: fields.total_jobs,
+        rating: fields.rating,
+        ratingCount: fields.rating_count,
+        totalAmount: fields.total_amount,
         verified: fields.verified,
-        activeJobsCount: fields.active_jobs?.contents?.length || 0,
+        activeJobsCount: fields.active_jobs.length,
       };
     } catch (error) {
       console.error("Error fetching profile:", error);
@@ -286,23 +286,13 @@ export class ProfileService {
         options: { showContent: true },
       });
 
-      if (
-        !registry.data ||
-        registry.data.content?.dataType !== "moveObject"
-      ) {
+      const fields = registry.data ? decodeMoveObject(IdentityRegistrySchema, registry.data) : null;
+      if (!fields) {
         console.error("IdentityRegistry not found or invalid");
         return null;
       }
 
-      const fields = registry.data.content.fields as any;
-      const tableField = fields.zklogin_to_profile;
-
-      if (!tableField || !tableField.fields || !tableField.fields.id) {
-        console.error("Invalid table structure in IdentityRegistry");
-        return null;
-      }
-
-      const tableId = tableField.fields.id.id;
+      const tableId = fields.zklogin_to_profile.id;
 
       // Query the dynamic field for this zkLogin sub
       // Dynamic field name for Table<String, ID> is the key itself (zkloginSub)
@@ -315,10 +305,10 @@ export class ProfileService {
           },
         });
 
-        if (dynamicField.data?.content?.dataType === "moveObject") {
-          const dfFields = dynamicField.data.content.fields as any;
+        const entry = dynamicField.data ? decodeMoveObject(ZkLoginProfileEntrySchema, dynamicField.data) : null;
+        if (entry) {
           // The value field contains the Profile ID
-          return dfFields.value || null;
+          return entry.value;
         }
       } catch (dfError: any) {
         // Dynamic field not found means profile doesn't exist
@@ -351,14 +341,11 @@ export class ProfileService {
         options: { showContent: true },
       });
 
-      if (
-        !object.data ||
-        object.data.content?.dataType !== "moveObject"
-      ) {
+      const fields = object.data ? decodeMoveObject(ProfileCapSchema, object.data) : null;
+      if (!fields) {
         return null;
       }
 
-      const fields = object.data.content.fields as any;
       return {
         objectId: capId,
         profileId: fields.profile_id,
@@ -389,10 +376,10 @@ export class ProfileService {
 
       const caps: ProfileCapData[] = [];
       for (const obj of objects.data) {
-        if (obj.data?.content?.dataType === "moveObject") {
-          const fields = obj.data.content.fields as any;
+        const fields = obj.data ? decodeMoveObject(ProfileCapSchema, obj.data) : null;
+        if (fields) {
           caps.push({
-            objectId: obj.data.objectId,
+            objectId: obj.data!.objectId,
             profileId: fields.profile_id,
           });
         }
@@ -0,0 +1,121 @@
+/**
+ * Proposal Service
+ *
+ * Stores and loads application cover letters on Walrus.
+ *
+ * Flow:
+ * 1. Freelancer writes a cover letter in JobDetailView
+ * 2. Cover letter is uploaded to Walrus (register → upload → certify)
+ * 3. The returned file ID is passed to applyForJobTransaction with price, duration and links
+ * 4. Client loads the cover letter by ID when reviewing proposals
+ */
+
+import { Transaction } from "@mysten/sui/transactions";
+import { WalrusService, createWalrusService } from "./walrusServiceSDK";
+import type { ProgressCallback } from "./deliverableService";
+
+/**
+ * Proposal Service Configuration
+ */
+export interface ProposalServiceConfig {
+  network?: "testnet" | "mainnet";
+}
+
+/**
+ * Proposal Service
+ *
+ * Wraps Walrus storage for cover letters attached to job applications.
+ */
+export class ProposalService {
+  private walrusService: WalrusService;
+
+  constructor(config: ProposalServiceConfig = {}) {
+    this.walrusService = createWalrusService({
+      network: config.network || "testnet",
+      epochs: 10, // ~30 days on testnet
+      deletable: false,
+    });
+  }
+
+  /**
+   * Upload a cover letter to Walrus
+   *
+   * Uses the browser upload flow, so the wallet signs the register and certify transactions.
+   *
+   * @param coverLetter Cover letter text
+   * @param jobId Job the application is for (stored as a tag)
+   * @param ownerAddress Freelancer's Sui address (blob owner)
+   * @param signAndExecute Function to sign and execute transactions (must wait for confirmation)
+   * @param onProgress Optional progress callback
+   * @returns Walrus file ID to store in the proposal
+   */
+  async uploadCoverLetter(
+    coverLetter: string,
+    jobId: string,
+    ownerAddress: string,
+    signAndExecute: (params: { transaction: Transaction }) => Promise<{ digest: string }>,
+    onProgress?: ProgressCallback,
+  ): Promise<string> {
+    const flow = this.walrusService.uploadWithFlow(
+      [
+        {
+          contents: coverLetter,
+          identifier: `cover-letter-${jobId}.txt`,
+          tags: {
+            "content-type": "text/plain",
+            "job-id": jobId,
+          },
+        },
+      ],
+      {
+        epochs: 10,
+        deletable: false,
+      },
+    );
+
+    onProgress?.("Encoding cover letter", 10);
+    await flow.encode();
+
+    onProgress?.("Registering cover letter", 30);
+    const registerTx = flow.register({
+      owner: ownerAddress,
+      epochs: 10,
+      deletable: false,
+    });
+    const { digest } = await signAndExecute({ transaction: registerTx });
+
+    onProgress?.("Uploading cover letter", 50);
+    await flow.upload({ digest });
+
+    onProgress?.("Certifying cover letter", 70);
+    await signAndExecute({ transaction: flow.certify() });
+
+    const files = await flow.listFiles();
+    if (!files || files.length === 0) {
+      throw new Error("Failed to upload cover letter to Walrus: no files returned");
+    }
+
+    onProgress?.("Cover letter stored", 80);
+    return files[0].id;
+  }
+
+  /**
+   * Load a cover letter from Walrus
+   *
+   * @param coverLetterId Walrus file ID from the proposal
+   * @returns Cover letter text
+   */
+  async getCoverLetter(coverLetterId: string): Promise<string> {
+    return await this.walrusService.downloadAsText(coverLetterId);
+  }
+}
+
+/**
+ * Factory function to create ProposalService
+ *
+ * @param config Network configuration
+ * @returns ProposalService instance
+ */
+export function createProposalService(config?: ProposalServiceConfig): ProposalService {
+  return new ProposalService(config);
+}
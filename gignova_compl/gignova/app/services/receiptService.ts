@@ -0,0 +1,216 @@
+/**
+ * Receipt Service
+ * Invoices and receipts for approved milestones and completed jobs, as PDF
+ *
+ * A document is built from the Job object, its job_escrow events and both profiles:
+ * - Milestone: the MilestoneApproved / MilestoneAutoApproved event (approval time and digest)
+ * - Job: the JobCompleted event (total paid, completion time and digest)
+ *
+ * The freelancer downloads it as an invoice (billed to the client, marked paid), the
+ * client as a payment receipt. The transaction digest is the proof of payment.
+ */
+
+import type { JobData, ProfileData } from "./types";
+import type { StoredJobEvent } from "./jobEventStore";
+import type { FiatPrice } from "./fiatPriceService";
+import { createTextPdf, type PdfLine } from "./pdfDocument";
+import { type CoinDisplayMetadata, formatCoinAmount, getExplorerTxUrl } from "../utils/formatting";
+
+// ======== Types ========
+
+export type ReceiptKind = "milestone" | "job";
+
+/** Who the document is for: the freelancer's invoice or the client's receipt */
+export type ReceiptAudience = "freelancer" | "client";
+
+export interface ReceiptParty {
+  address: string;
+  username: string;
+  realName: string;
+}
+
+export interface ReceiptItem {
+  milestoneId: number;
+  description: string;
+  /** Base units of the job's coin type */
+  amount: number;
+}
+
+export interface ReceiptData {
+  kind: ReceiptKind;
+  jobId: string;
+  jobTitle: string;
+  /** Set for milestone documents */
+  milestoneId: number | null;
+  /** Milestones paid (one for milestone documents, all for job documents) */
+  items: ReceiptItem[];
+  /** Total in base units of coinType */
+  amount: number;
+  coinType: string;
+  /** Approval or completion time */
+  approvedAt: number;
+  /** Approval or completion transaction */
+  txDigest: string;
+  client: ReceiptParty;
+  freelancer: ReceiptParty;
+}
+
+// ======== Building ========
+
+/**
+ * Find the event a document is based on
+ *
+ * @param events job_escrow events of the job
+ * @param milestoneId Milestone (0-based), or null for the job completion
+ * @returns Approval or completion event, if it happened
+ */
+export function findReceiptEvent(events: StoredJobEvent[], milestoneId: number | null): StoredJobEvent | undefined {
+  const matching = events.filter((event) =>
+    milestoneId === null
+      ? event.type === "JobCompleted"
+      : (event.type === "MilestoneApproved" || event.type === "MilestoneAutoApproved") &&
+        Number(event.data.milestone_id) === milestoneId
+  );
+  return matching[matching.length - 1];
+}
+
+/**
+ * Build the data of a milestone or job document
+ *
+ * @param job Job with its milestones
+ * @param events job_escrow events of the job
+ * @param milestoneId Milestone (0-based), or null for the whole job
+ * @param clientProfile Client's profile (address only if missing)
+ * @param freelancerProfile Freelancer's profile (address only if missing)
+ * @returns Document data
+ * @throws Error if the milestone isn't approved or the job isn't completed yet
+ */
+export function buildReceipt(
+  job: JobData,
+  events: StoredJobEvent[],
+  milestoneId: number | null,
+  clientProfile: ProfileData | null,
+  freelancerProfile: ProfileData | null
+): ReceiptData {
+  const event = findReceiptEvent(events, milestoneId);
+  if (!event) {
+    throw new Error(
+      milestoneId === null
+        ? "The job has no completion on chain yet"
+        : `Milestone ${milestoneId + 1} has not been approved on chain yet`
+    );
+  }
+
+  const freelancerAddress: string = event.data.freelancer ?? job.freelancer ?? "";
+  const items: ReceiptItem[] = job.milestones
+    .filter((milestone) => (milestoneId === null ? milestone.approved : milestone.id === milestoneId))
+    .map((milestone) => ({ milestoneId: milestone.id, description: milestone.description, amount: milestone.amount }));
+  const amount =
+    milestoneId === null ? Number(event.data.total_paid) : Number(event.data.amount ?? items[0]?.amount ?? 0);
+
+  return {
+    kind: milestoneId === null ? "job" : "milestone",
+    jobId: job.objectId,
+    jobTitle: job.title,
+    milestoneId,
+    items,
+    amount,
+    coinType: job.coinType,
+    approvedAt: event.timestampMs,
+    txDigest: event.txDigest,
+    client: toParty(job.client, clientProfile),
+    freelancer: toParty(freelancerAddress, freelancerProfile),
+  };
+}
+
+function toParty(address: string, profile: ProfileData | null): ReceiptParty {
+  return { address, username: profile?.username ?? "", realName: profile?.realName ?? "" };
+}
+
+// ======== Rendering ========
+
+/**
+ * Document number, stable for the same approval
+ */
+export function getReceiptNumber(receipt: ReceiptData): string {
+  const suffix = receipt.milestoneId === null ? "JOB" : `M${receipt.milestoneId + 1}`;
+  return `GN-${receipt.txDigest.slice(0, 8).toUpperCase()}-${suffix}`;
+}
+
+/**
+ * File name of a document, e.g. "invoice-GN-7H3K2D1A-M2.pdf"
+ */
+export function getReceiptFileName(receipt: ReceiptData, audience: ReceiptAudience): string {
+  return `${audience === "freelancer" ? "invoice" : "receipt"}-${getReceiptNumber(receipt)}.pdf`;
+}
+
+/**
+ * Render a document as PDF
+ *
+ * @param receipt Document data
+ * @param audience Freelancer (invoice) or client (receipt)
+ * @param coin Decimals and symbol of the job's coin
+ * @param fiat Coin price on the approval day, if known
+ * @param network Network for the explorer link
+ * @returns PDF file bytes
+ */
+export function renderReceiptPdf(
+  receipt: ReceiptData,
+  audience: ReceiptAudience,
+  coin: CoinDisplayMetadata,
+  fiat: FiatPrice | null,
+  network: string
+): Uint8Array {
+  const title = audience === "freelancer" ? "Invoice" : "Payment receipt";
+  const coinAmount = (amount: number) => formatCoinAmount(amount, coin, coin.decimals);
+  const party = (label: string, p: ReceiptParty): PdfLine[] => [
+    { text: label, bold: true, spaceBefore: 8 },
+    { text: [p.realName, p.username && `@${p.username}`].filter(Boolean).join("  ") || "No profile" },
+    { text: p.address, size: 8 },
+  ];
+
+  const lines: PdfLine[] = [
+    { text: `GigNova ${title}`, size: 20, bold: true },
+    { text: `No. ${getReceiptNumber(receipt)}` },
+    { text: `${receipt.kind === "milestone" ? "Milestone approved" : "Job completed"}: ${new Date(receipt.approvedAt).toUTCString()}` },
+    { text: "Status: PAID from on-chain escrow", bold: true },
+    { text: "", rule: true, spaceBefore: 4 },
+    // The freelancer issues the invoice to the client; the receipt confirms the client's payment
+    ...(audience === "freelancer"
+      ? [...party("From (freelancer)", receipt.freelancer), ...party("Billed to (client)", receipt.client)]
+      : [...party("Paid by (client)", receipt.client), ...party("Paid to (freelancer)", receipt.freelancer)]),
+    { text: "", rule: true, spaceBefore: 4 },
+    { text: "Job", bold: true, spaceBefore: 8 },
+    { text: receipt.jobTitle },
+    { text: receipt.jobId, size: 8 },
+  ];
+
+  lines.push({ text: receipt.kind === "milestone" ? "Milestone" : "Milestones", bold: true, spaceBefore: 8 });
+  for (const item of receipt.items) {
+    lines.push({ text: `#${item.milestoneId + 1}  ${coinAmount(item.amount)}`, bold: true, spaceBefore: 4 });
+    lines.push({ text: item.description || "No description" });
+  }
+
+  lines.push({ text: "", rule: true, spaceBefore: 4 });
+  lines.push({ text: `Total: ${coinAmount(receipt.amount)}`, size: 14, bold: true, spaceBefore: 8 });
+  if (fiat) {
+    const value = (receipt.amount / Math.pow(10, coin.decimals)) * fiat.price;
+    const currency = fiat.currency.toUpperCase();
+    lines.push({ text: `Approx. ${value.toFixed(2)} ${currency} (1 ${coin.symbol} = ${fiat.price.toFixed(4)} ${currency} on ${fiat.date})` });
+  } else {
+    lines.push({ text: "Fiat value unavailable for this coin or date" });
+  }
+
+  lines.push(
+    { text: "Proof of payment", bold: true, spaceBefore: 16 },
+    { text: `Sui ${network} transaction: ${receipt.txDigest}`, size: 9 },
+    { text: getExplorerTxUrl(receipt.txDigest, network), size: 9 },
+    {
+      text: "Generated by GigNova from on-chain job_escrow events. Fiat values use the daily price (UTC) of the approval day.",
+      size: 8,
+      spaceBefore: 16,
+    }
+  );
+
+  return createTextPdf(lines, `${title} ${getReceiptNumber(receipt)}`);
+}
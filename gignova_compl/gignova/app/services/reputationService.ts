@@ -14,6 +14,8 @@
 import { SuiClient } from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
 import { RatingData, BadgeData, BadgeTier } from "./types";
+import { decodeMoveObject } from "./objectDecoder";
+import { BadgeSchema, RatingSchema, type BadgeFields } from "./moveSchemas";
 
 export class ReputationService {
   private suiClient: SuiClient;
@@ -82,15 +84,31 @@ export class ReputationService {
   /**
    * Get rating details
    *
-   * TODO: Implement
-   *
    * @param ratingId Rating object ID
    * @returns Rating data or null
    */
   async getRating(ratingId: string): Promise<RatingData | null> {
     try {
-      // TODO: Implement
-      return null;
+      const object = await this.suiClient.getObject({
+        id: ratingId,
+        options: { showContent: true },
+      });
+
+      const fields = object.data ? decodeMoveObject(RatingSchema, object.data) : null;
+      if (!fields) {
+        return null;
+      }
+
+      return {
+        objectId: ratingId,
+        jobId: fields.job_id,
+        rater: fields.rater,
+        ratee: fields.ratee,
+        rating: fields.rating,
+        review: fields.review,
+        createdAt: fields.created_at,
+        disputed: fields.disputed,
+      };
     } catch (error) {
       console.error("Error fetching rating:", error);
       return null;
@@ -118,15 +136,18 @@ export class ReputationService {
   /**
    * Get badge details
    *
-   * TODO: Implement
-   *
    * @param badgeId Badge object ID
    * @returns Badge data or null
    */
   async getBadge(badgeId: string): Promise<BadgeData | null> {
     try {
-      // TODO: Implement
-      return null;
+      const object = await this.suiClient.getObject({
+        id: badgeId,
+        options: { showContent: true },
+      });
+
+      const fields = object.data ? decodeMoveObject(BadgeSchema, object.data) : null;
+      return fields ? this.parseBadge(badgeId, fields) : null;
     } catch (error) {
       console.error("Error fetching badge:", error);
       return null;
@@ -136,8 +157,6 @@ export class ReputationService {
   /**
    * Get all badges owned by user
    *
-   * TODO: Implement
-   *
    * @param ownerAddress Owner's address
    * @returns Array of badges
    */
@@ -149,9 +168,15 @@ export class ReputationService {
         filter: { StructType: `${this.packageId}::reputation::Badge` },
       });
 
-      // TODO: Parse badge objects
+      const badges: BadgeData[] = [];
+      for (const obj of objects.data) {
+        const fields = obj.data ? decodeMoveObject(BadgeSchema, obj.data) : null;
+        if (fields) {
+          badges.push(this.parseBadge(obj.data!.objectId, fields));
+        }
+      }
 
-      return [];
+      return badges;
     } catch (error) {
       console.error("Error fetching user badges:", error);
       return [];
@@ -160,6 +185,25 @@ export class ReputationService {
 
   // ======== Helper Methods ========
 
+  /**
+   * Parse the on-chain Badge struct
+   *
+   * @param objectId Badge object ID
+   * @param fields Decoded Badge fields
+   * @returns Badge data
+   */
+  private parseBadge(objectId: string, fields: BadgeFields): BadgeData {
+    return {
+      objectId,
+      owner: fields.owner,
+      tier: fields.tier as BadgeTier,
+      name: fields.name,
+      description: fields.description,
+      iconUrl: fields.icon_url,
+      awardedAt: fields.awarded_at,
+    };
+  }
+
   /**
    * Check badge eligibility
    *
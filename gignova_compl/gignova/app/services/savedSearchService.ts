@@ -0,0 +1,163 @@
+/**
+ * Saved Search Service
+ * Named marketplace searches, stored per network and wallet address in localStorage
+ *
+ * A saved search keeps the search text, facet selections and sort of JobMarketplaceView.
+ * Open jobs created after `lastSeenAt` that match it are reported as new until the user
+ * opens them or marks the search as read (see useSavedSearchAlerts).
+ */
+
+import type { JobSearchFacet, JobSearchSort } from "./jobSearchIndex";
+
+// ======== Types ========
+
+export interface SavedSearchQuery {
+  text: string;
+  facets: Partial<Record<JobSearchFacet, string[]>>;
+  sort: JobSearchSort;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: SavedSearchQuery;
+  createdAt: number;
+  /** Jobs created after this time are new for this search */
+  lastSeenAt: number;
+  /** New jobs already opened from an alert */
+  seenJobIds: string[];
+}
+
+/** Saved searches per wallet */
+export const MAX_SAVED_SEARCHES = 20;
+
+const STORAGE_KEY_PREFIX = "gignova:savedSearches";
+
+// ======== Service ========
+
+export class SavedSearchService {
+  private network: string;
+
+  constructor(network: string) {
+    this.network = network;
+  }
+
+  /**
+   * Get the saved searches of a wallet, oldest first
+   *
+   * @param owner Wallet address
+   * @returns Saved searches (empty without localStorage, e.g. during SSR)
+   */
+  list(owner: string): SavedSearch[] {
+    const storage = this.storage();
+    if (!storage) return [];
+
+    try {
+      const raw = storage.getItem(this.storageKey(owner));
+      return raw ? (JSON.parse(raw) as SavedSearch[]) : [];
+    } catch (error) {
+      console.error("Error reading saved searches:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a search under a name
+   * Saving under an existing name (case-insensitive) replaces that search's query.
+   *
+   * @param owner Wallet address
+   * @param name Display name
+   * @param query Search text, facets and sort
+   * @returns Saved search
+   * @throws Error if the name is empty or the wallet already has MAX_SAVED_SEARCHES searches
+   */
+  save(owner: string, name: string, query: SavedSearchQuery): SavedSearch {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error("Saved search name is required");
+    }
+
+    const searches = this.list(owner);
+    const existing = searches.find((search) => search.name.toLowerCase() === trimmedName.toLowerCase());
+    const now = Date.now();
+
+    if (existing) {
+      existing.name = trimmedName;
+      existing.query = query;
+      existing.lastSeenAt = now;
+      existing.seenJobIds = [];
+      this.write(owner, searches);
+      return existing;
+    }
+
+    if (searches.length >= MAX_SAVED_SEARCHES) {
+      throw new Error(`You can save up to ${MAX_SAVED_SEARCHES} searches`);
+    }
+
+    const search: SavedSearch = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: trimmedName,
+      query,
+      createdAt: now,
+      lastSeenAt: now,
+      seenJobIds: [],
+    };
+    this.write(owner, [...searches, search]);
+    return search;
+  }
+
+  /**
+   * Delete a saved search
+   *
+   * @param owner Wallet address
+   * @param searchId Saved search ID
+   */
+  remove(owner: string, searchId: string): void {
+    this.write(owner, this.list(owner).filter((search) => search.id !== searchId));
+  }
+
+  /**
+   * Mark new jobs of a saved search as seen
+   *
+   * @param owner Wallet address
+   * @param searchId Saved search ID
+   * @param jobIds Jobs opened from the alert; omit to mark every job up to now as seen
+   */
+  markSeen(owner: string, searchId: string, jobIds?: string[]): void {
+    const searches = this.list(owner);
+    const search = searches.find((s) => s.id === searchId);
+    if (!search) return;
+
+    if (jobIds) {
+      search.seenJobIds = Array.from(new Set([...search.seenJobIds, ...jobIds]));
+    } else {
+      search.lastSeenAt = Date.now();
+      search.seenJobIds = [];
+    }
+    this.write(owner, searches);
+  }
+
+  // ======== Helpers ========
+
+  private storageKey(owner: string): string {
+    return `${STORAGE_KEY_PREFIX}:${this.network}:${owner}`;
+  }
+
+  private storage(): Storage | null {
+    return typeof window === "undefined" ? null : window.localStorage;
+  }
+
+  private write(owner: string, searches: SavedSearch[]): void {
+    this.storage()?.setItem(this.storageKey(owner), JSON.stringify(searches));
+  }
+}
+
+/**
+ * Factory function to create SavedSearchService instance
+ *
+ * @param network Network name (job IDs differ per network)
+ * @returns SavedSearchService instance
+ */
+export function createSavedSearchService(network: string): SavedSearchService {
+  return new SavedSearchService(network);
+}
@@ -0,0 +1,227 @@
+/**
+ * Skill Taxonomy
+ * Versioned skill and category catalog shipped with the app
+ *
+ * Jobs store category and skill IDs on-chain (create_job / update_job_skills);
+ * labels, grouping and aliases live here so they can change without a contract upgrade.
+ *
+ * Versioning rules:
+ * - IDs are never reused. Renamed or merged skills keep their old ID in RETIRED_SKILL_IDS,
+ *   so jobs tagged with an older taxonomy still resolve.
+ * - Bump SKILL_TAXONOMY_VERSION whenever categories, skills or aliases change.
+ */
+
+export const SKILL_TAXONOMY_VERSION = 1;
+
+export interface SkillDefinition {
+  /** Stable ID stored on-chain (lowercase slug) */
+  id: string;
+  label: string;
+  /** Alternative spellings matched when normalizing free-form tags */
+  aliases?: string[];
+}
+
+export interface SkillCategory {
+  id: string;
+  label: string;
+  skills: SkillDefinition[];
+}
+
+export const SKILL_CATEGORIES: SkillCategory[] = [
+  {
+    id: "development",
+    label: "Development",
+    skills: [
+      { id: "move", label: "Move", aliases: ["sui move", "move language"] },
+      { id: "smart-contracts", label: "Smart Contracts", aliases: ["smart contract", "contracts"] },
+      { id: "rust", label: "Rust" },
+      { id: "solidity", label: "Solidity" },
+      { id: "typescript", label: "TypeScript", aliases: ["ts"] },
+      { id: "javascript", label: "JavaScript", aliases: ["js", "node", "nodejs", "node.js"] },
+      { id: "react", label: "React", aliases: ["reactjs", "react.js", "next.js", "nextjs"] },
+      { id: "python", label: "Python" },
+      { id: "mobile", label: "Mobile Apps", aliases: ["ios", "android", "react native", "flutter"] },
+      { id: "backend", label: "Backend & APIs", aliases: ["api", "apis", "backend development"] },
+    ],
+  },
+  {
+    id: "web3",
+    label: "Web3 & Blockchain",
+    skills: [
+      { id: "defi", label: "DeFi", aliases: ["decentralized finance"] },
+      { id: "nft", label: "NFTs", aliases: ["nfts"] },
+      { id: "tokenomics", label: "Tokenomics" },
+      { id: "security-audit", label: "Security Audits", aliases: ["audit", "audits", "smart contract audit", "security"] },
+      { id: "zk", label: "Zero-Knowledge", aliases: ["zero knowledge", "zk proofs", "zkp", "zklogin"] },
+      { id: "walrus", label: "Walrus Storage", aliases: ["decentralized storage"] },
+    ],
+  },
+  {
+    id: "design",
+    label: "Design",
+    skills: [
+      { id: "ui-design", label: "UI Design", aliases: ["ui", "interface design"] },
+      { id: "ux-research", label: "UX Research", aliases: ["ux", "user research"] },
+      { id: "figma", label: "Figma" },
+      { id: "branding", label: "Branding", aliases: ["brand identity", "logo design", "logo"] },
+      { id: "illustration", label: "Illustration", aliases: ["illustrator"] },
+      { id: "motion-design", label: "Motion Design", aliases: ["animation", "motion graphics"] },
+    ],
+  },
+  {
+    id: "data",
+    label: "Data & AI",
+    skills: [
+      { id: "data-analysis", label: "Data Analysis", aliases: ["analytics", "data analytics"] },
+      { id: "machine-learning", label: "Machine Learning", aliases: ["ml", "ai", "deep learning"] },
+      { id: "sql", label: "SQL", aliases: ["postgres", "postgresql", "mysql"] },
+      { id: "data-engineering", label: "Data Engineering", aliases: ["etl", "indexing", "indexer"] },
+    ],
+  },
+  {
+    id: "writing",
+    label: "Writing & Content",
+    skills: [
+      { id: "technical-writing", label: "Technical Writing", aliases: ["documentation", "docs"] },
+      { id: "copywriting", label: "Copywriting", aliases: ["copy"] },
+      { id: "translation", label: "Translation", aliases: ["localization"] },
+      { id: "content-writing", label: "Content Writing", aliases: ["blogging", "articles", "writing"] },
+    ],
+  },
+  {
+    id: "marketing",
+    label: "Marketing & Community",
+    skills: [
+      { id: "community-management", label: "Community Management", aliases: ["community", "discord", "moderation"] },
+      { id: "social-media", label: "Social Media", aliases: ["twitter", "x"] },
+      { id: "growth-marketing", label: "Growth Marketing", aliases: ["growth", "marketing"] },
+      { id: "seo", label: "SEO" },
+    ],
+  },
+  {
+    id: "operations",
+    label: "Operations",
+    skills: [
+      { id: "project-management", label: "Project Management", aliases: ["pm", "product management"] },
+      { id: "devops", label: "DevOps", aliases: ["ci/cd", "infrastructure", "docker", "kubernetes"] },
+      { id: "qa-testing", label: "QA & Testing", aliases: ["qa", "testing", "test automation"] },
+    ],
+  },
+];
+
+/**
+ * IDs from earlier taxonomy versions, mapped to their current ID
+ * (empty in version 1; add entries instead of deleting skills)
+ */
+const RETIRED_SKILL_IDS: Record<string, string> = {};
+
+// ======== Lookup Tables ========
+
+const skillsById = new Map<string, SkillDefinition & { categoryId: string }>();
+const categoriesById = new Map<string, SkillCategory>();
+/** Normalized id / label / alias -> skill ID */
+const skillsByName = new Map<string, string>();
+
+function normalizeName(value: string): string {
+  return value.trim().toLowerCase().replace(/^#/, "").replace(/[\s_]+/g, " ");
+}
+
+for (const category of SKILL_CATEGORIES) {
+  categoriesById.set(category.id, category);
+  for (const skill of category.skills) {
+    skillsById.set(skill.id, { ...skill, categoryId: category.id });
+    for (const name of [skill.id, skill.id.replace(/-/g, " "), skill.label, ...(skill.aliases ?? [])]) {
+      skillsByName.set(normalizeName(name), skill.id);
+    }
+  }
+}
+
+// ======== Queries ========
+
+/**
+ * Resolve a skill ID, following IDs retired by later taxonomy versions
+ *
+ * @param skillId Skill ID from a job or profile
+ * @returns Skill with its category, or null for unknown IDs
+ */
+export function getSkill(skillId: string): (SkillDefinition & { categoryId: string }) | null {
+  return skillsById.get(RETIRED_SKILL_IDS[skillId] ?? skillId) ?? null;
+}
+
+export function getSkillCategory(categoryId: string): SkillCategory | null {
+  return categoriesById.get(categoryId) ?? null;
+}
+
+/**
+ * Display label of a skill ID (unknown IDs are shown as-is)
+ */
+export function getSkillLabel(skillId: string): string {
+  return getSkill(skillId)?.label ?? skillId;
+}
+
+/**
+ * Display label of a category ID (unknown IDs are shown as-is)
+ */
+export function getCategoryLabel(categoryId: string): string {
+  return getSkillCategory(categoryId)?.label ?? categoryId;
+}
+
+/**
+ * Match a free-form tag (e.g. a profile tag or a "#hashtag") to a skill
+ * Matching ignores case, a leading "#", and dashes vs. spaces, and includes aliases.
+ *
+ * @param tag Free-form tag
+ * @returns Skill ID, or null if the tag is not in the taxonomy
+ */
+export function normalizeSkillTag(tag: string): string | null {
+  const name = normalizeName(tag);
+  const skillId = skillsByName.get(name) ?? skillsByName.get(name.replace(/-/g, " "));
+  return skillId ?? null;
+}
+
+/**
+ * Split free-form tags into taxonomy skills and unmatched tags
+ *
+ * @param tags Free-form tags
+ * @returns Unique skill IDs (in input order) and the tags that did not match
+ */
+export function normalizeSkillTags(tags: string[]): { skills: string[]; unmatched: string[] } {
+  const skills: string[] = [];
+  const unmatched: string[] = [];
+
+  for (const tag of tags) {
+    if (!tag.trim()) continue;
+    const skillId = normalizeSkillTag(tag);
+    if (skillId) {
+      if (!skills.includes(skillId)) skills.push(skillId);
+    } else if (!unmatched.includes(tag.trim())) {
+      unmatched.push(tag.trim());
+    }
+  }
+
+  return { skills, unmatched };
+}
+
+/**
+ * Category that most of the given skills belong to
+ *
+ * @param skillIds Skill IDs
+ * @returns Category ID, or "" when no skill is known
+ */
+export function inferSkillCategory(skillIds: string[]): string {
+  const counts = new Map<string, number>();
+  for (const skillId of skillIds) {
+    const skill = getSkill(skillId);
+    if (skill) counts.set(skill.categoryId, (counts.get(skill.categoryId) ?? 0) + 1);
+  }
+
+  let best = "";
+  let bestCount = 0;
+  counts.forEach((count, categoryId) => {
+    if (count > bestCount) {
+      best = categoryId;
+      bestCount = count;
+    }
+  });
+  return best;
+}
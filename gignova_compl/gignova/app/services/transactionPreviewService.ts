@@ -0,0 +1,213 @@
+/**
+ * Transaction Preview Service
+ *
+ * Pre-flight simulation for transactions built by JobService, ProfileService and WhitelistService.
+ *
+ * Flow:
+ * 1. Component builds a transaction with a `*Transaction` builder
+ * 2. Transaction is copied, the sender set and the copy built (gas estimated) and dry-run
+ * 3. If building fails (gas estimation aborts), the transaction is dev-inspected instead,
+ *    which reports the abort without needing a gas budget
+ * 4. Estimated gas, balance changes and any predicted abort are shown before the wallet prompt
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import type { BalanceChange, GasCostSummary, ObjectOwner } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  decodeTransactionError,
+  parseMoveAbort,
+  type DecodedTransactionError,
+  type MoveAbortLocation,
+} from "./moveErrors";
+
+/**
+ * Estimated gas cost in MIST
+ */
+export interface GasEstimate {
+  computationCost: number;
+  storageCost: number;
+  storageRebate: number;
+  /** Net cost: computation + storage - rebate */
+  total: number;
+}
+
+/**
+ * Predicted balance change for one owner and coin type
+ */
+export interface PreviewBalanceChange {
+  /** Address of the owner (or object ID for object-owned coins) */
+  owner: string;
+  coinType: string;
+  /** Signed amount in base units (negative = outgoing) */
+  amount: bigint;
+}
+
+/**
+ * Move abort parsed from an execution error
+ */
+export type PredictedAbort = MoveAbortLocation;
+
+/**
+ * Result of simulating a transaction
+ */
+export interface TransactionPreview {
+  /** Simulation method used: full dry run or dev-inspect fallback */
+  method: "dryRun" | "devInspect";
+  success: boolean;
+  gas: GasEstimate | null;
+  balanceChanges: PreviewBalanceChange[];
+  /** Raw execution error, if the simulation failed */
+  error?: string;
+  /** Parsed Move abort, if the failure was an abort */
+  abort?: PredictedAbort;
+  /** Explanation and suggested fix for the failure */
+  decoded?: DecodedTransactionError;
+}
+
+/**
+ * Transaction Preview Service
+ *
+ * Simulates transactions for the confirmation dialog shown before signing.
+ */
+export class TransactionPreviewService {
+  private suiClient: SuiClient;
+
+  constructor(suiClient: SuiClient) {
+    this.suiClient = suiClient;
+  }
+
+  /**
+   * Simulate a transaction without executing it
+   *
+   * @param transaction Transaction from a service builder (not modified)
+   * @param sender Address that will sign the transaction
+   * @returns Preview with gas estimate, balance changes and predicted abort
+   * @note Falls back to devInspect when the transaction cannot be built (e.g., gas estimation aborts)
+   */
+  async previewTransaction(transaction: Transaction, sender: string): Promise<TransactionPreview> {
+    // Work on a copy so the wallet still receives the original, unbuilt transaction
+    const tx = Transaction.from(transaction);
+    tx.setSenderIfNotSet(sender);
+
+    let bytes: Uint8Array;
+    try {
+      bytes = await tx.build({ client: this.suiClient });
+    } catch (buildError) {
+      console.warn("Transaction build failed, falling back to devInspect:", buildError);
+      return this.devInspect(transaction, sender, buildError);
+    }
+
+    const result = await this.suiClient.dryRunTransactionBlock({ transactionBlock: bytes });
+    const error = result.effects.status.error ?? undefined;
+
+    return {
+      method: "dryRun",
+      success: result.effects.status.status === "success",
+      gas: this.parseGas(result.effects.gasUsed),
+      balanceChanges: result.balanceChanges.map((change) => this.parseBalanceChange(change)),
+      ...this.parseFailure(error),
+    };
+  }
+
+  // ======== Private Helpers ========
+
+  /**
+   * Dev-inspect a transaction (no gas budget or gas coins required)
+   */
+  private async devInspect(
+    transaction: Transaction,
+    sender: string,
+    buildError: unknown
+  ): Promise<TransactionPreview> {
+    try {
+      const result = await this.suiClient.devInspectTransactionBlock({
+        sender,
+        transactionBlock: transaction,
+      });
+      const error = result.error ?? result.effects.status.error ?? undefined;
+
+      return {
+        method: "devInspect",
+        success: !error,
+        gas: this.parseGas(result.effects.gasUsed),
+        balanceChanges: [],
+        ...this.parseFailure(error),
+      };
+    } catch (inspectError: any) {
+      // Neither simulation worked: surface the original build error
+      const message =
+        buildError instanceof Error ? buildError.message : inspectError?.message || String(buildError);
+      return {
+        method: "devInspect",
+        success: false,
+        gas: null,
+        balanceChanges: [],
+        ...this.parseFailure(message),
+      };
+    }
+  }
+
+  /**
+   * Raw error, parsed abort and decoded explanation for a failed simulation
+   */
+  private parseFailure(
+    error: string | undefined
+  ): Pick<TransactionPreview, "error" | "abort" | "decoded"> {
+    if (!error) {
+      return {};
+    }
+    return {
+      error,
+      abort: parseMoveAbort(error),
+      decoded: decodeTransactionError(error),
+    };
+  }
+
+  private parseGas(gasUsed: GasCostSummary): GasEstimate {
+    const computationCost = Number(gasUsed.computationCost);
+    const storageCost = Number(gasUsed.storageCost);
+    const storageRebate = Number(gasUsed.storageRebate);
+
+    return {
+      computationCost,
+      storageCost,
+      storageRebate,
+      total: computationCost + storageCost - storageRebate,
+    };
+  }
+
+  private parseBalanceChange(change: BalanceChange): PreviewBalanceChange {
+    return {
+      owner: this.getOwnerAddress(change.owner),
+      coinType: change.coinType,
+      amount: BigInt(change.amount),
+    };
+  }
+
+  private getOwnerAddress(owner: ObjectOwner): string {
+    if (typeof owner === "string") {
+      return owner;
+    }
+    if ("AddressOwner" in owner) {
+      return owner.AddressOwner;
+    }
+    if ("ObjectOwner" in owner) {
+      return owner.ObjectOwner;
+    }
+    if ("ConsensusAddressOwner" in owner) {
+      return owner.ConsensusAddressOwner.owner;
+    }
+    return "Shared";
+  }
+}
+
+/**
+ * Factory function to create TransactionPreviewService
+ *
+ * @param suiClient Sui client instance
+ * @returns TransactionPreviewService instance
+ */
+export function createTransactionPreviewService(suiClient: SuiClient): TransactionPreviewService {
+  return new TransactionPreviewService(suiClient);
+}
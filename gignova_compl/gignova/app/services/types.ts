@@ -1,4 +1,5 @@
 import type { SuiObjectData } from "@mysten/sui/client";
+import { SUI_COIN_TYPE } from "../constants";
 
 /**
  * Walrus storage response
@@ -59,6 +60,136 @@ export interface MilestoneData {
   approvedAt?: number;
 }
 
+/**
+ * Freelancer proposal attached to an application
+ */
+export interface ProposalData {
+  freelancer: string;
+  /** Walrus file ID of the cover letter */
+  coverLetterBlobId: string;
+  /** Proposed price in base units of the job's coin */
+  proposedPrice: number;
+  estimatedDurationMs: number;
+  portfolioLinks: string[];
+  submittedAt: number;
+}
+
+/**
+ * Proposal details entered by the freelancer when applying
+ */
+export interface ProposalInput {
+  coverLetterBlobId: string;
+  proposedPrice: number;
+  estimatedDurationMs: number;
+  portfolioLinks: string[];
+}
+
+/**
+ * Changes to an OPEN job (only set fields are updated)
+ */
+export interface JobUpdateInput {
+  title?: string;
+  /** Walrus blob ID of the re-uploaded description (sent together with title) */
+  descriptionBlobId?: string;
+  /** New deadline, Unix timestamp in milliseconds */
+  deadline?: number;
+  /** Additional escrow deposit in base units of the job's coin */
+  topUpAmount?: number;
+  /** Category and required skill IDs from the skill taxonomy (sent together) */
+  category?: string;
+  skills?: string[];
+}
+
+/**
+ * Submitted milestone to approve in a batch approval transaction
+ */
+export interface MilestoneApprovalInput {
+  milestoneId: number;
+  /** DeliverableEscrow object ID (holds the whitelist Cap) */
+  deliverableEscrowId: string;
+  /** Whitelist object ID (client will be added) */
+  whitelistId: string;
+}
+
+/**
+ * Escrow balance compared to the milestones it still has to pay out
+ */
+export interface EscrowCoverage {
+  /** Remaining escrow balance in base units */
+  escrowBalance: number;
+  /** Sum of milestone amounts not yet approved */
+  unapprovedTotal: number;
+  /** Amount missing from escrow (0 when fully covered) */
+  shortfall: number;
+  /** True when the escrow can pay every unapproved milestone */
+  isCovered: boolean;
+}
+
+/**
+ * Status of a freelancer's application, derived from application events
+ */
+export enum ApplicationStatus {
+  /** Waiting for the client's decision */
+  PENDING = "pending",
+  /** Freelancer withdrew the application */
+  WITHDRAWN = "withdrawn",
+  /** Client declined the applicant */
+  REJECTED = "rejected",
+  /** Freelancer was assigned to the job */
+  ACCEPTED = "accepted",
+  /** Job was assigned to someone else or closed */
+  NOT_SELECTED = "not_selected",
+}
+
+/**
+ * Freelancer's application with the job it was submitted to
+ */
+export interface ApplicationData {
+  job: JobData;
+  status: ApplicationStatus;
+  appliedAt: number;
+  /** Time of the latest status change (withdrawal, rejection or assignment) */
+  updatedAt: number;
+}
+
+/**
+ * Dispute evidence entry
+ */
+export interface DisputeEvidenceData {
+  submittedBy: string;
+  /** Evidence text or Walrus blob ID */
+  blobId: string;
+  submittedAt: number;
+}
+
+/**
+ * Dispute record stored on the Job (Option<Dispute> from contract)
+ */
+export interface DisputeData {
+  raisedBy: string;
+  /** Reason text or Walrus blob ID */
+  reasonBlobId: string;
+  /** State the job was in when the dispute was opened */
+  previousState: JobState;
+  evidence: DisputeEvidenceData[];
+  openedAt: number;
+  resolved: boolean;
+  freelancerAmount: number;
+  clientAmount: number;
+  resolutionBlobId?: string;
+  resolvedAt?: number;
+}
+
+/**
+ * Deadline extension proposed by the freelancer (Option<DeadlineExtension> from contract)
+ */
+export interface DeadlineExtensionData {
+  newDeadline: number;
+  /** Reason text or Walrus blob ID */
+  reasonBlobId: string;
+  requestedAt: number;
+}
+
 /**
  * Job data from blockchain
  */
@@ -68,57 +199,95 @@ export interface JobData {
   freelancer?: string;
   title: string;
   descriptionBlobId: string;
+  /** Category ID from the skill taxonomy ("" for uncategorized jobs) */
+  category: string;
+  /** Required skill IDs from the skill taxonomy */
+  skills: string[];
   budget: number;
   state: JobState;
   milestones: MilestoneData[];
   milestoneCount: number;
   applicants: string[];
+  /** Proposals submitted with each application (not available from event fallbacks) */
+  proposals?: ProposalData[];
+  /** Applicants declined by the client (cannot re-apply) */
+  rejectedApplicants?: string[];
   createdAt: number;
   deadline: number;
   deliverableBlobIds: string[];
+  /** Escrow coin type (type argument T of Job<T>, e.g. "0x2::sui::SUI") */
+  coinType: string;
   /**
    * Pending freelancer completion amount (Option<u64> from contract).
    * Set when client approves final milestone, cleared when freelancer claims.
    * If set, freelancer needs to call claim_job_completion to update their profile.
    */
   pendingFreelancerCompletion?: number;
+  /** Remaining escrow balance in base units of coinType */
+  escrowBalance?: number;
+  /** Dispute record, if a dispute was ever opened on this job */
+  dispute?: DisputeData;
+  /** Pending deadline extension request awaiting client acceptance */
+  pendingExtension?: DeadlineExtensionData;
+  /** Set when the client reclaimed the escrow after a missed deadline */
+  reclaimedAt?: number;
+  /** Client review window after a milestone submission, in milliseconds */
+  reviewWindowMs?: number;
+  /**
+   * Pending client completion amount (Option<u64> from contract).
+   * Set when the freelancer claims the final milestone after the review window.
+   * If set, client needs to call claim_client_completion to update their profile.
+   */
+  pendingClientCompletion?: number;
 }
 
 /**
- * Job fields as stored on-chain
+ * JobCap data
  */
-export interface JobFields {
-  client: string;
-  freelancer?: string;
-  title: number[]; // vector<u8>
-  description_blob_id: number[]; // vector<u8>
-  budget: string;
-  state: number;
-  milestones: { fields: { id: { id: string } } }; // Table<u64, Milestone>
-  milestone_count: string;
-  applicants: string[];
-  created_at: string;
-  deadline: string;
-  deliverable_blob_ids: number[][];
-  pending_freelancer_completion?: string | null; // Option<u64>
+export interface JobCapData {
+  objectId: string;
+  jobId: string;
 }
 
 /**
- * JobCap data
+ * DeliverableEscrow data (shared object holding a milestone's whitelist Cap)
  */
-export interface JobCapData {
+export interface DeliverableEscrowData {
   objectId: string;
   jobId: string;
+  milestoneId: number;
+  /** Whitelist Cap object ID held by the escrow */
+  whitelistCapId: string;
+  whitelistId: string;
+  /** True once the client was added to the whitelist on approval */
+  accessGranted: boolean;
 }
 
 /**
- * Extract job fields from Sui object data
+ * ArbiterCap data (platform arbiter, resolves disputes)
  */
-export function getJobFields(data: SuiObjectData): JobFields | null {
-  if (data.content?.dataType !== "moveObject") {
-    return null;
-  }
-  return data.content.fields as unknown as JobFields;
+export interface ArbiterCapData {
+  objectId: string;
+}
+
+/**
+ * Get the escrow coin type from a Job<T> object type
+ * Example: "0xabc::job_escrow::Job<0x2::sui::SUI>" → "0x2::sui::SUI"
+ */
+export function getJobCoinType(data: SuiObjectData): string {
+  const match = data.type?.match(/::job_escrow::Job<(.+)>$/);
+  return match ? normalizeCoinType(match[1]) : SUI_COIN_TYPE;
+}
+
+/**
+ * Normalize a coin type so it can be compared against the configured coin types
+ * Handles TypeName strings from events, which have no 0x prefix and a padded address.
+ */
+export function normalizeCoinType(coinType: string): string {
+  const [address, ...rest] = coinType.split("::");
+  const hex = address.replace(/^0x/, "");
+  const normalizedAddress = /^0*2$/.test(hex) ? "0x2" : `0x${hex.padStart(64, "0")}`;
+  return [normalizedAddress, ...rest].join("::");
 }
 
 /**
@@ -161,28 +330,6 @@ export interface ProfileData {
   activeJobsCount: number;
 }
 
-/**
- * Profile fields as stored on-chain
- */
-export interface ProfileFields {
-  owner: string;
-  profile_type: number;
-  username: string;
-  real_name: string;
-  bio: string;
-  tags: string[];
-  avatar_url: string;
-  created_at: string;
-  updated_at: string;
-  completed_jobs: string;
-  total_jobs: string;
-  rating: string;
-  rating_count: string;
-  total_amount: string;
-  verified: boolean;
-  active_jobs: { contents: Array<{ key: string }> };
-}
-
 /**
  * ProfileCap data
  */
@@ -191,16 +338,6 @@ export interface ProfileCapData {
   profileId: string;
 }
 
-/**
- * Extract profile fields from Sui object data
- */
-export function getProfileFields(data: SuiObjectData): ProfileFields | null {
-  if (data.content?.dataType !== "moveObject") {
-    return null;
-  }
-  return data.content.fields as unknown as ProfileFields;
-}
-
 // ======== Reputation Types ========
 
 /**
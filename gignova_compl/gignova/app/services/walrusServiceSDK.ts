@@ -13,6 +13,7 @@
  */
 
 import { SuiClient, getFullnodeUrl } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
 import { WalrusFile, WalrusClient } from "@mysten/walrus";
 
 // Walrus Aggregator URL for direct blob downloads (same as CLI uses)
@@ -232,23 +233,9 @@ export class WalrusService {
       timestamp: new Date().toISOString(),
     });
 
-    // Convert files to WalrusFile format
-    const walrusFiles = files.map((file) => {
-      const contents =
-        typeof file.contents === "string"
-          ? new TextEncoder().encode(file.contents)
-          : file.contents;
-
-      const fileConfig: any = { contents };
-      if (file.identifier) fileConfig.identifier = file.identifier;
-      if (file.tags) fileConfig.tags = file.tags;
-
-      return WalrusFile.from(fileConfig);
-    });
-
     // Use writeFilesFlow from Walrus SDK
     const flow = this.client.walrus.writeFilesFlow({
-      files: walrusFiles,
+      files: this.toWalrusFiles(files),
     });
 
     console.log("[WALRUS] Upload flow created successfully");
@@ -257,6 +244,10 @@ export class WalrusService {
 
   /**
    * Upload multiple files to Walrus (more efficient as a single quilt)
+   *
+   * Pass either a keypair `signer`, or `owner` and `signAndExecute` to sign the
+   * register and certify transactions with a browser wallet (runs uploadWithFlow).
+   * All returned entries share the quilt's blobId.
    */
   async uploadFiles(
     files: Array<{
@@ -267,10 +258,49 @@ export class WalrusService {
     options: {
       epochs?: number;
       deletable?: boolean;
-      signer: any;
+      signer?: any;
+      owner?: string;
+      signAndExecute?: (params: { transaction: Transaction }) => Promise<{ digest: string }>;
     },
   ): Promise<{ blobId: string; id: string }[]> {
-    const walrusFiles = files.map((file) => {
+    const epochs = options?.epochs || this.defaultEpochs;
+    const deletable =
+      options?.deletable !== undefined ? options.deletable : this.defaultDeletable;
+
+    if (!options.signer) {
+      if (!options.owner || !options.signAndExecute) {
+        throw new Error("uploadFiles requires a signer, or an owner and signAndExecute");
+      }
+
+      const flow = this.uploadWithFlow(files, { epochs, deletable });
+      await flow.encode();
+      const { digest } = await options.signAndExecute({
+        transaction: flow.register({ owner: options.owner, epochs, deletable }),
+      });
+      await flow.upload({ digest });
+      await options.signAndExecute({ transaction: flow.certify() });
+      return await flow.listFiles();
+    }
+
+    return await this.client.walrus.writeFiles({
+      files: this.toWalrusFiles(files),
+      epochs,
+      deletable,
+      signer: options.signer,
+    });
+  }
+
+  /**
+   * Convert upload inputs to WalrusFile instances (strings are UTF-8 encoded)
+   */
+  private toWalrusFiles(
+    files: Array<{
+      contents: Uint8Array | Blob | string;
+      identifier?: string;
+      tags?: Record<string, string>;
+    }>,
+  ): WalrusFile[] {
+    return files.map((file) => {
       const contents =
         typeof file.contents === "string"
           ? new TextEncoder().encode(file.contents)
@@ -282,16 +312,6 @@ export class WalrusService {
 
       return WalrusFile.from(fileConfig);
     });
-
-    return await this.client.walrus.writeFiles({
-      files: walrusFiles,
-      epochs: options?.epochs || this.defaultEpochs,
-      deletable:
-        options?.deletable !== undefined
-          ? options.deletable
-          : this.defaultDeletable,
-      signer: options.signer,
-    });
   }
 
   /**
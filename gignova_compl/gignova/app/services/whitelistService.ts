@@ -1,5 +1,7 @@
 import { SuiClient } from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
+import { decodeMoveObject } from "./objectDecoder";
+import { WhitelistCapSchema } from "./moveSchemas";
 
 export interface WhitelistData {
   objectId: string;
@@ -91,16 +93,11 @@ export class WhitelistService {
         },
       });
 
-      if (!object.data || !object.data.content) {
+      const fields = object.data ? decodeMoveObject(WhitelistCapSchema, object.data) : null;
+      if (!fields) {
         return null;
       }
 
-      const content = object.data.content;
-      if (content.dataType !== "moveObject") {
-        return null;
-      }
-
-      const fields = content.fields as any;
       return {
         objectId: capId,
         whitelistId: fields.wl_id,
@@ -192,14 +189,10 @@ export class WhitelistService {
       const caps: CapData[] = [];
 
       for (const obj of objects.data) {
-        if (
-          obj.data &&
-          obj.data.content &&
-          obj.data.content.dataType === "moveObject"
-        ) {
-          const fields = obj.data.content.fields as any;
+        const fields = obj.data ? decodeMoveObject(WhitelistCapSchema, obj.data) : null;
+        if (fields) {
           caps.push({
-            objectId: obj.data.objectId,
+            objectId: obj.data!.objectId,
             whitelistId: fields.wl_id,
           });
         }
@@ -3,17 +3,54 @@
  * Helper functions for displaying blockchain data in user-friendly formats
  */
 
+import { JobState } from "../services/types";
+import { SUI_COIN_METADATA } from "../constants";
+
+/**
+ * Coin display metadata (subset of on-chain CoinMetadata)
+ */
+export interface CoinDisplayMetadata {
+  decimals: number;
+  symbol: string;
+}
+
+/**
+ * Format a coin amount in base units using its metadata
+ * Example: 1_500_000_000 with SUI metadata → "1.50 SUI", 2_000_000 with USDC → "2.00 USDC"
+ *
+ * @param amount Amount in base units (MIST for SUI)
+ * @param metadata Coin decimals and symbol (default: SUI)
+ * @param displayDecimals Number of decimal places (default: 2)
+ * @returns Formatted string with coin symbol
+ */
+export function formatCoinAmount(
+  amount: number,
+  metadata: CoinDisplayMetadata = SUI_COIN_METADATA,
+  displayDecimals: number = 2
+): string {
+  const value = amount / Math.pow(10, metadata.decimals);
+  return `${value.toFixed(displayDecimals)} ${metadata.symbol}`;
+}
+
 /**
- * Format MIST (smallest SUI unit) to SUI with decimal places
- * 1 SUI = 1,000,000,000 MIST
+ * Convert a decimal coin amount to base units (for transactions)
  *
- * @param mist Amount in MIST
- * @param decimals Number of decimal places (default: 2)
- * @returns Formatted string with SUI symbol
+ * @param value Amount in whole coins
+ * @param decimals Coin decimals
+ * @returns Amount in base units
  */
-export function formatSUI(mist: number, decimals: number = 2): string {
-  const sui = mist / 1_000_000_000;
-  return `${sui.toFixed(decimals)} SUI`;
+export function toBaseUnits(value: number, decimals: number): number {
+  return Math.floor(value * Math.pow(10, decimals));
+}
+
+/**
+ * Get a short display name from a coin type (e.g., "0x2::sui::SUI" → "SUI")
+ *
+ * @param coinType Fully qualified coin type
+ * @returns Struct name of the coin type
+ */
+export function getCoinSymbolFromType(coinType: string): string {
+  return coinType.split("::").pop() || coinType;
 }
 
 /**
@@ -23,7 +60,7 @@ export function formatSUI(mist: number, decimals: number = 2): string {
  * @returns Amount in MIST
  */
 export function suiToMist(sui: number): number {
-  return Math.floor(sui * 1_000_000_000);
+  return toBaseUnits(sui, SUI_COIN_METADATA.decimals);
 }
 
 /**
@@ -114,6 +151,20 @@ export function isDeadlinePassed(deadline: number): boolean {
   return deadline < Date.now();
 }
 
+/**
+ * Check if a job is overdue (deadline passed while work is still outstanding)
+ *
+ * @param deadline Unix timestamp in milliseconds
+ * @param state Current job state
+ * @returns true if the job is ASSIGNED or IN_PROGRESS past its deadline
+ */
+export function isJobOverdue(deadline: number, state: JobState): boolean {
+  return (
+    (state === JobState.ASSIGNED || state === JobState.IN_PROGRESS) &&
+    isDeadlinePassed(deadline)
+  );
+}
+
 /**
  * Shorten Sui address for display
  * Example: 0x1234...5678
@@ -134,6 +185,18 @@ export function shortenAddress(
   return `${address.slice(0, startChars)}...${address.slice(-endChars)}`;
 }
 
+/**
+ * Get the SuiVision explorer URL of a transaction
+ *
+ * @param digest Transaction digest
+ * @param network Network name (mainnet, testnet, devnet)
+ * @returns Explorer URL
+ */
+export function getExplorerTxUrl(digest: string, network: string = "testnet"): string {
+  const host = network === "mainnet" ? "suivision.xyz" : `${network}.suivision.xyz`;
+  return `https://${host}/txblock/${digest}`;
+}
+
 /**
  * Format large numbers with K, M, B suffixes
  *
@@ -216,6 +279,47 @@ export function getRelativeTime(timestamp: number): string {
   return "Just now";
 }
 
+/**
+ * Format a countdown duration (e.g., "2d 4h 13m", "12m 05s")
+ *
+ * @param ms Remaining time in milliseconds
+ * @returns Countdown string, "0s" when expired
+ */
+export function formatCountdown(ms: number): string {
+  if (ms <= 0) {
+    return "0s";
+  }
+
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`;
+}
+
+/**
+ * Format an estimated duration (e.g., "3 days", "1 day", "12 hours")
+ *
+ * @param ms Duration in milliseconds
+ * @returns Duration rounded to whole days, or hours below one day
+ */
+export function formatDuration(ms: number): string {
+  const hours = Math.round(ms / 3_600_000);
+  if (hours < 24) {
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  const days = Math.round(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"}`;
+}
+
 /**
  * Validate SUI amount input
  *
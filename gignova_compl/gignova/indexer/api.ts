@@ -0,0 +1,215 @@
+/**
+ * Indexer REST API
+ * Read-only JSON endpoints over the SQLite projections
+ *
+ * GET /health                   Sync status and stream cursors
+ * GET /jobs                     ?state=OPEN|0&client=&freelancer=&coinType=&category=&skill=&q=
+ *                               &sort=newest|oldest|budget|deadline
+ * GET /jobs/:id                 Job projection
+ * GET /jobs/:id/events          Stored job_escrow events of a job, oldest first
+ * GET /profiles                 ?owner=&type=freelancer|client|0|1&sort=rating|newest|completed
+ * GET /profiles/:id             Profile projection
+ * GET /ratings                  ?ratee=&rater=&jobId=
+ * GET /earnings                 ?recipient=&coinType=&jobId=&reason=&from=&to= (with totals per coin type)
+ *
+ * List endpoints take ?limit= (max 200, default 50) and ?offset= and return { items, total, limit, offset }.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { JobState, ProfileType } from "../app/services/types";
+import type { IndexerConfig } from "./config";
+import type { IndexerDatabase, JobFilter, Page, ProfileFilter } from "./database";
+import type { EventFollower } from "./eventFollower";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Error with an HTTP status, reported to the client as { error }
+ */
+class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function parsePage(params: URLSearchParams): Page {
+  const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  const offset = Number(params.get("offset") ?? 0);
+  if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(offset) || offset < 0) {
+    throw new ApiError(400, "limit and offset must be non-negative integers");
+  }
+  return { limit: Math.min(limit, MAX_PAGE_SIZE), offset };
+}
+
+function optionalNumber(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new ApiError(400, `${name} must be a number`);
+  }
+  return number;
+}
+
+function optionalString(params: URLSearchParams, name: string): string | undefined {
+  return params.get(name) || undefined;
+}
+
+/**
+ * Parse an enum query value given by name (OPEN) or number (0)
+ */
+function parseEnum<T extends Record<string, string | number>>(
+  enumObject: T,
+  params: URLSearchParams,
+  name: string
+): number | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  const byName = enumObject[value.toUpperCase() as keyof T];
+  const parsed = typeof byName === "number" ? byName : Number(value);
+  if (!Number.isInteger(parsed) || enumObject[parsed as unknown as keyof T] === undefined) {
+    throw new ApiError(400, `Unknown ${name} "${value}"`);
+  }
+  return parsed;
+}
+
+function parseSort<T extends string>(params: URLSearchParams, allowed: readonly T[]): T | undefined {
+  const sort = params.get("sort");
+  if (sort === null) return undefined;
+  if (!allowed.includes(sort as T)) {
+    throw new ApiError(400, `sort must be one of ${allowed.join(", ")}`);
+  }
+  return sort as T;
+}
+
+/**
+ * Create the API server (not listening yet)
+ *
+ * @param db Indexer database
+ * @param follower Event follower (for /health)
+ * @param config Indexer configuration
+ * @returns HTTP server
+ */
+export function createApiServer(db: IndexerDatabase, follower: EventFollower, config: IndexerConfig): Server {
+  const route = (req: IncomingMessage): unknown => {
+    if (req.method !== "GET") {
+      throw new ApiError(405, "Only GET is supported");
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const params = url.searchParams;
+    const segments = url.pathname.split("/").filter(Boolean);
+
+    switch (segments[0]) {
+      case "health":
+        return {
+          status: follower.getStatus().lastError ? "degraded" : "ok",
+          network: config.network,
+          rpcUrl: config.rpcUrl,
+          ...follower.getStatus(),
+          cursors: db.getCursors(),
+        };
+
+      case "jobs": {
+        if (segments[1]) {
+          if (segments[2] === "events") {
+            return { items: db.getJobEvents(segments[1]) };
+          }
+          const job = db.getJob(segments[1]);
+          if (!job) throw new ApiError(404, "Job not found");
+          return job;
+        }
+
+        const page = parsePage(params);
+        const filter: JobFilter = {
+          state: parseEnum(JobState, params, "state"),
+          client: optionalString(params, "client"),
+          freelancer: optionalString(params, "freelancer"),
+          coinType: optionalString(params, "coinType"),
+          category: optionalString(params, "category"),
+          skill: optionalString(params, "skill"),
+          search: optionalString(params, "q"),
+          sort: parseSort(params, ["newest", "oldest", "budget", "deadline"] as const),
+        };
+        return { ...db.queryJobs(filter, page), ...page };
+      }
+
+      case "profiles": {
+        if (segments[1]) {
+          const profile = db.getProfile(segments[1]);
+          if (!profile) throw new ApiError(404, "Profile not found");
+          return profile;
+        }
+
+        const page = parsePage(params);
+        const filter: ProfileFilter = {
+          owner: optionalString(params, "owner"),
+          profileType: parseEnum(ProfileType, params, "type"),
+          sort: parseSort(params, ["rating", "newest", "completed"] as const),
+        };
+        return { ...db.queryProfiles(filter, page), ...page };
+      }
+
+      case "ratings": {
+        const page = parsePage(params);
+        const filter = {
+          ratee: optionalString(params, "ratee"),
+          rater: optionalString(params, "rater"),
+          jobId: optionalString(params, "jobId"),
+        };
+        return { ...db.queryRatings(filter, page), ...page };
+      }
+
+      case "earnings": {
+        const page = parsePage(params);
+        const filter = {
+          recipient: optionalString(params, "recipient"),
+          coinType: optionalString(params, "coinType"),
+          jobId: optionalString(params, "jobId"),
+          reason: optionalNumber(params, "reason"),
+          from: optionalNumber(params, "from"),
+          to: optionalNumber(params, "to"),
+        };
+        return { ...db.queryEarnings(filter, page), ...page };
+      }
+
+      default:
+        throw new ApiError(404, `Unknown endpoint ${url.pathname}`);
+    }
+  };
+
+  return createServer((req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET",
+      });
+      res.end();
+      return;
+    }
+
+    try {
+      sendJson(res, 200, route(req));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error("Error handling request:", error);
+        sendJson(res, 500, { error: "Internal error" });
+      }
+    }
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Indexer Configuration
+ * Read from environment variables; package IDs default to the dApp's constants for the network
+ *
+ * SUI_NETWORK            devnet | testnet | mainnet | localnet (default: testnet)
+ * SUI_RPC_URL            Fullnode URL (default: the network's public fullnode, or http://127.0.0.1:9000 for localnet)
+ * JOB_ESCROW_PACKAGE_ID  Package of job_escrow (required for localnet)
+ * PROFILE_NFT_PACKAGE_ID Package of profile_nft (default: JOB_ESCROW_PACKAGE_ID)
+ * REPUTATION_PACKAGE_ID  Package of reputation (default: JOB_ESCROW_PACKAGE_ID)
+ * INDEXER_DB_PATH        SQLite file (default: indexer/data/gignova-<network>.db)
+ * INDEXER_PORT           HTTP port of the API (default: 4000)
+ * INDEXER_POLL_MS        Interval between event polls (default: 2000)
+ */
+
+import { getFullnodeUrl } from "@mysten/sui/client";
+import {
+  DEVNET_JOB_ESCROW_PACKAGE_ID,
+  TESTNET_JOB_ESCROW_PACKAGE_ID,
+  MAINNET_JOB_ESCROW_PACKAGE_ID,
+  DEVNET_PROFILE_NFT_PACKAGE_ID,
+  TESTNET_PROFILE_NFT_PACKAGE_ID,
+  MAINNET_PROFILE_NFT_PACKAGE_ID,
+  DEVNET_REPUTATION_PACKAGE_ID,
+  TESTNET_REPUTATION_PACKAGE_ID,
+  MAINNET_REPUTATION_PACKAGE_ID,
+} from "../app/constants";
+
+export type IndexerNetwork = "devnet" | "testnet" | "mainnet" | "localnet";
+
+export interface IndexerConfig {
+  network: IndexerNetwork;
+  rpcUrl: string;
+  jobEscrowPackageId: string;
+  profileNftPackageId: string;
+  reputationPackageId: string;
+  dbPath: string;
+  port: number;
+  pollIntervalMs: number;
+}
+
+const DEFAULT_PACKAGES: Record<
+  Exclude<IndexerNetwork, "localnet">,
+  { jobEscrow: string; profileNft: string; reputation: string }
+> = {
+  devnet: {
+    jobEscrow: DEVNET_JOB_ESCROW_PACKAGE_ID,
+    profileNft: DEVNET_PROFILE_NFT_PACKAGE_ID,
+    reputation: DEVNET_REPUTATION_PACKAGE_ID,
+  },
+  testnet: {
+    jobEscrow: TESTNET_JOB_ESCROW_PACKAGE_ID,
+    profileNft: TESTNET_PROFILE_NFT_PACKAGE_ID,
+    reputation: TESTNET_REPUTATION_PACKAGE_ID,
+  },
+  mainnet: {
+    jobEscrow: MAINNET_JOB_ESCROW_PACKAGE_ID,
+    profileNft: MAINNET_PROFILE_NFT_PACKAGE_ID,
+    reputation: MAINNET_REPUTATION_PACKAGE_ID,
+  },
+};
+
+/** Fullnode of a local network started with `sui start` */
+const LOCALNET_RPC_URL = "http://127.0.0.1:9000";
+
+/**
+ * Load the indexer configuration
+ *
+ * @param env Environment variables (default: process.env)
+ * @returns Indexer configuration
+ * @throws Error if the network is unknown or no package ID is configured
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  const network = (env.SUI_NETWORK || "testnet") as IndexerNetwork;
+  if (!["devnet", "testnet", "mainnet", "localnet"].includes(network)) {
+    throw new Error(`Unknown SUI_NETWORK "${network}" (expected devnet, testnet, mainnet or localnet)`);
+  }
+
+  const defaults = network === "localnet" ? undefined : DEFAULT_PACKAGES[network];
+  const jobEscrowPackageId = env.JOB_ESCROW_PACKAGE_ID || defaults?.jobEscrow;
+  if (!jobEscrowPackageId || jobEscrowPackageId.includes("TODO")) {
+    throw new Error(`JOB_ESCROW_PACKAGE_ID is required for ${network}`);
+  }
+
+  return {
+    network,
+    rpcUrl: env.SUI_RPC_URL || (network === "localnet" ? LOCALNET_RPC_URL : getFullnodeUrl(network)),
+    jobEscrowPackageId,
+    profileNftPackageId: env.PROFILE_NFT_PACKAGE_ID || defaults?.profileNft || jobEscrowPackageId,
+    reputationPackageId: env.REPUTATION_PACKAGE_ID || defaults?.reputation || jobEscrowPackageId,
+    dbPath: env.INDEXER_DB_PATH || `indexer/data/gignova-${network}.db`,
+    port: Number(env.INDEXER_PORT || 4000),
+    pollIntervalMs: Number(env.INDEXER_POLL_MS || 2000),
+  };
+}
@@ -0,0 +1,544 @@
+/**
+ * Indexer Database
+ * SQLite storage for raw events, follow cursors and the job, profile, rating and earnings projections
+ *
+ * Uses the built-in node:sqlite module (Node 22.13+, see main.ts), so the indexer has no native dependencies.
+ * Raw events are the source of truth; projections are updated as events are applied.
+ */
+
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { DatabaseSync, SQLInputValue, SQLOutputValue } from "node:sqlite";
+import type { EventId } from "@mysten/sui/client";
+import type { JobProjection, StoredJobEvent } from "../app/services/jobEventStore";
+import type { IndexedEarning, IndexedProfile, IndexedRating } from "../app/services/indexerApiClient";
+import { JobState } from "../app/services/types";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    key TEXT PRIMARY KEY,
+    module TEXT NOT NULL,
+    type TEXT NOT NULL,
+    job_id TEXT,
+    sender TEXT NOT NULL,
+    tx_digest TEXT NOT NULL,
+    event_seq INTEGER NOT NULL,
+    timestamp_ms INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS events_job_id ON events (job_id);
+
+  CREATE TABLE IF NOT EXISTS cursors (
+    stream TEXT PRIMARY KEY,
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS jobs (
+    job_id TEXT PRIMARY KEY,
+    client TEXT NOT NULL,
+    freelancer TEXT,
+    state INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    coin_type TEXT NOT NULL,
+    budget INTEGER NOT NULL,
+    deadline INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_event_at INTEGER NOT NULL,
+    projection TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS jobs_state ON jobs (state);
+  CREATE INDEX IF NOT EXISTS jobs_client ON jobs (client);
+  CREATE INDEX IF NOT EXISTS jobs_freelancer ON jobs (freelancer);
+
+  CREATE TABLE IF NOT EXISTS profiles (
+    profile_id TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    profile_type INTEGER NOT NULL,
+    username TEXT NOT NULL,
+    rating INTEGER NOT NULL DEFAULT 0,
+    rating_count INTEGER NOT NULL DEFAULT 0,
+    completed_jobs INTEGER NOT NULL DEFAULT 0,
+    total_amount INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS profiles_owner ON profiles (owner);
+
+  CREATE TABLE IF NOT EXISTS ratings (
+    rating_id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    rater TEXT NOT NULL,
+    ratee TEXT NOT NULL,
+    rating INTEGER NOT NULL,
+    disputed INTEGER NOT NULL DEFAULT 0,
+    dispute_reason TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS ratings_ratee ON ratings (ratee);
+
+  CREATE TABLE IF NOT EXISTS earnings (
+    key TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    coin_type TEXT NOT NULL,
+    reason INTEGER NOT NULL,
+    tx_digest TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS earnings_recipient ON earnings (recipient);
+`;
+
+/**
+ * Event row as saved by the follower
+ */
+export interface IndexedEvent {
+  key: string;
+  module: string;
+  type: string;
+  jobId: string | null;
+  sender: string;
+  txDigest: string;
+  eventSeq: number;
+  timestampMs: number;
+  data: Record<string, any>;
+}
+
+/** Records are served as-is by the API, so they share the dApp client's types */
+export type ProfileRecord = IndexedProfile;
+export type RatingRecord = IndexedRating;
+export type EarningRecord = IndexedEarning;
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  total: number;
+}
+
+export interface JobFilter {
+  state?: JobState;
+  client?: string;
+  freelancer?: string;
+  coinType?: string;
+  /** Taxonomy category ID */
+  category?: string;
+  /** Taxonomy skill ID the job requires */
+  skill?: string;
+  /** Case-insensitive title search */
+  search?: string;
+  sort?: "newest" | "oldest" | "budget" | "deadline";
+}
+
+export interface ProfileFilter {
+  owner?: string;
+  profileType?: number;
+  sort?: "rating" | "newest" | "completed";
+}
+
+export interface RatingFilter {
+  ratee?: string;
+  rater?: string;
+  jobId?: string;
+}
+
+export interface EarningFilter {
+  recipient?: string;
+  coinType?: string;
+  jobId?: string;
+  reason?: number;
+  from?: number;
+  to?: number;
+}
+
+const JOB_SORT: Record<NonNullable<JobFilter["sort"]>, string> = {
+  newest: "created_at DESC",
+  oldest: "created_at ASC",
+  budget: "budget DESC",
+  deadline: "deadline ASC",
+};
+
+const PROFILE_SORT: Record<NonNullable<ProfileFilter["sort"]>, string> = {
+  rating: "rating DESC, rating_count DESC",
+  newest: "created_at DESC",
+  completed: "completed_jobs DESC",
+};
+
+/**
+ * Build a WHERE clause from optional conditions
+ */
+function where(conditions: [string, SQLInputValue | undefined][]): { sql: string; params: SQLInputValue[] } {
+  const active = conditions.filter(([, value]) => value !== undefined) as [string, SQLInputValue][];
+  return {
+    sql: active.length > 0 ? `WHERE ${active.map(([clause]) => clause).join(" AND ")}` : "",
+    params: active.map(([, value]) => value),
+  };
+}
+
+function toNumber(value: SQLOutputValue): number {
+  return Number(value ?? 0);
+}
+
+export class IndexerDatabase {
+  private db: DatabaseSync;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new DatabaseSync(path);
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Run writes atomically
+   *
+   * @param fn Writes to run
+   * @returns Result of fn
+   * @throws Rethrows the error of fn after rolling back
+   */
+  transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // ======== Events & Cursors ========
+
+  getCursor(stream: string): EventId | null {
+    const row = this.db
+      .prepare("SELECT tx_digest, event_seq FROM cursors WHERE stream = ?")
+      .get(stream);
+    return row ? { txDigest: String(row.tx_digest), eventSeq: String(row.event_seq) } : null;
+  }
+
+  getCursors(): Record<string, EventId> {
+    const cursors: Record<string, EventId> = {};
+    for (const row of this.db.prepare("SELECT stream, tx_digest, event_seq FROM cursors").all()) {
+      cursors[String(row.stream)] = { txDigest: String(row.tx_digest), eventSeq: String(row.event_seq) };
+    }
+    return cursors;
+  }
+
+  setCursor(stream: string, cursor: EventId) {
+    this.db
+      .prepare(
+        `INSERT INTO cursors (stream, tx_digest, event_seq) VALUES (?, ?, ?)
+         ON CONFLICT (stream) DO UPDATE SET tx_digest = excluded.tx_digest, event_seq = excluded.event_seq`
+      )
+      .run(stream, cursor.txDigest, cursor.eventSeq);
+  }
+
+  /**
+   * Save an event
+   *
+   * @param event Event to save
+   * @returns false if the event was already saved (projections must not apply it again)
+   */
+  insertEvent(event: IndexedEvent): boolean {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO events (key, module, type, job_id, sender, tx_digest, event_seq, timestamp_ms, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        event.key,
+        event.module,
+        event.type,
+        event.jobId,
+        event.sender,
+        event.txDigest,
+        event.eventSeq,
+        event.timestampMs,
+        JSON.stringify(event.data)
+      );
+    return Number(result.changes) > 0;
+  }
+
+  /**
+   * Get the job_escrow events of a job in the shape used by projectJob
+   * Rows are inserted in stream (chain) order, so the rowid is the event sequence.
+   *
+   * @param jobId Job object ID
+   * @returns Events, oldest first
+   */
+  getJobEvents(jobId: string): StoredJobEvent[] {
+    return this.db
+      .prepare(
+        `SELECT rowid, * FROM events WHERE job_id = ? AND module = 'job_escrow'
+         ORDER BY rowid ASC`
+      )
+      .all(jobId)
+      .map((row) => ({
+        key: String(row.key),
+        type: String(row.type) as StoredJobEvent["type"],
+        jobId: String(row.job_id),
+        txDigest: String(row.tx_digest),
+        eventSeq: toNumber(row.event_seq),
+        sender: String(row.sender),
+        timestampMs: toNumber(row.timestamp_ms),
+        sequence: toNumber(row.rowid),
+        data: JSON.parse(String(row.data)),
+      }));
+  }
+
+  // ======== Jobs ========
+
+  upsertJob(job: JobProjection) {
+    this.db
+      .prepare(
+        `INSERT INTO jobs (job_id, client, freelancer, state, title, coin_type, budget, deadline, created_at, last_event_at, projection)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (job_id) DO UPDATE SET
+           freelancer = excluded.freelancer, state = excluded.state, title = excluded.title,
+           budget = excluded.budget, deadline = excluded.deadline,
+           last_event_at = excluded.last_event_at, projection = excluded.projection`
+      )
+      .run(
+        job.jobId,
+        job.client,
+        job.freelancer ?? null,
+        job.state,
+        job.title,
+        job.coinType,
+        job.budget,
+        job.deadline,
+        job.timestamp,
+        job.lastEventAt,
+        JSON.stringify(job)
+      );
+  }
+
+  getJob(jobId: string): JobProjection | null {
+    const row = this.db.prepare("SELECT projection FROM jobs WHERE job_id = ?").get(jobId);
+    return row ? JSON.parse(String(row.projection)) : null;
+  }
+
+  getJobCoinType(jobId: string): string | null {
+    const row = this.db.prepare("SELECT coin_type FROM jobs WHERE job_id = ?").get(jobId);
+    return row ? String(row.coin_type) : null;
+  }
+
+  queryJobs(filter: JobFilter, page: Page): PageResult<JobProjection> {
+    const { sql, params } = where([
+      ["state = ?", filter.state],
+      ["client = ?", filter.client],
+      ["freelancer = ?", filter.freelancer],
+      ["coin_type = ?", filter.coinType],
+      ["json_extract(projection, '$.category') = ?", filter.category],
+      ["EXISTS (SELECT 1 FROM json_each(projection, '$.skills') WHERE value = ?)", filter.skill],
+      ["title LIKE ?", filter.search ? `%${filter.search}%` : undefined],
+    ]);
+    const order = JOB_SORT[filter.sort ?? "newest"];
+
+    const total = this.db.prepare(`SELECT COUNT(*) AS total FROM jobs ${sql}`).get(...params);
+    const items = this.db
+      .prepare(`SELECT projection FROM jobs ${sql} ORDER BY ${order} LIMIT ? OFFSET ?`)
+      .all(...params, page.limit, page.offset)
+      .map((row) => JSON.parse(String(row.projection)) as JobProjection);
+
+    return { items, total: toNumber(total?.total ?? 0) };
+  }
+
+  // ======== Profiles ========
+
+  insertProfile(profile: Pick<ProfileRecord, "profileId" | "owner" | "profileType" | "username" | "createdAt">) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO profiles (profile_id, owner, profile_type, username, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(profile.profileId, profile.owner, profile.profileType, profile.username, profile.createdAt, profile.createdAt);
+  }
+
+  updateProfile(
+    profileId: string,
+    changes: Partial<Pick<ProfileRecord, "profileType" | "rating" | "ratingCount">>,
+    updatedAt: number
+  ) {
+    this.db
+      .prepare(
+        `UPDATE profiles SET
+           profile_type = COALESCE(?, profile_type),
+           rating = COALESCE(?, rating),
+           rating_count = COALESCE(?, rating_count),
+           updated_at = MAX(updated_at, ?)
+         WHERE profile_id = ?`
+      )
+      .run(
+        changes.profileType ?? null,
+        changes.rating ?? null,
+        changes.ratingCount ?? null,
+        updatedAt,
+        profileId
+      );
+  }
+
+  addProfileCompletion(profileId: string, amount: number, updatedAt: number) {
+    this.db
+      .prepare(
+        `UPDATE profiles SET
+           completed_jobs = completed_jobs + 1,
+           total_amount = total_amount + ?,
+           updated_at = MAX(updated_at, ?)
+         WHERE profile_id = ?`
+      )
+      .run(amount, updatedAt, profileId);
+  }
+
+  getProfile(profileId: string): ProfileRecord | null {
+    const row = this.db.prepare("SELECT * FROM profiles WHERE profile_id = ?").get(profileId);
+    return row ? this.toProfileRecord(row) : null;
+  }
+
+  queryProfiles(filter: ProfileFilter, page: Page): PageResult<ProfileRecord> {
+    const { sql, params } = where([
+      ["owner = ?", filter.owner],
+      ["profile_type = ?", filter.profileType],
+    ]);
+    const order = PROFILE_SORT[filter.sort ?? "rating"];
+
+    const total = this.db.prepare(`SELECT COUNT(*) AS total FROM profiles ${sql}`).get(...params);
+    const items = this.db
+      .prepare(`SELECT * FROM profiles ${sql} ORDER BY ${order} LIMIT ? OFFSET ?`)
+      .all(...params, page.limit, page.offset)
+      .map((row) => this.toProfileRecord(row));
+
+    return { items, total: toNumber(total?.total ?? 0) };
+  }
+
+  private toProfileRecord(row: Record<string, SQLOutputValue>): ProfileRecord {
+    return {
+      profileId: String(row.profile_id),
+      owner: String(row.owner),
+      profileType: toNumber(row.profile_type),
+      username: String(row.username),
+      rating: toNumber(row.rating),
+      ratingCount: toNumber(row.rating_count),
+      completedJobs: toNumber(row.completed_jobs),
+      totalAmount: toNumber(row.total_amount),
+      createdAt: toNumber(row.created_at),
+      updatedAt: toNumber(row.updated_at),
+    };
+  }
+
+  // ======== Ratings ========
+
+  insertRating(rating: Omit<RatingRecord, "disputed" | "disputeReason">) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO ratings (rating_id, job_id, rater, ratee, rating, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(rating.ratingId, rating.jobId, rating.rater, rating.ratee, rating.rating, rating.createdAt);
+  }
+
+  markRatingDisputed(ratingId: string, reason: string) {
+    this.db
+      .prepare("UPDATE ratings SET disputed = 1, dispute_reason = ? WHERE rating_id = ?")
+      .run(reason, ratingId);
+  }
+
+  queryRatings(filter: RatingFilter, page: Page): PageResult<RatingRecord> {
+    const { sql, params } = where([
+      ["ratee = ?", filter.ratee],
+      ["rater = ?", filter.rater],
+      ["job_id = ?", filter.jobId],
+    ]);
+
+    const total = this.db.prepare(`SELECT COUNT(*) AS total FROM ratings ${sql}`).get(...params);
+    const items = this.db
+      .prepare(`SELECT * FROM ratings ${sql} ORDER BY created_at DESC LIMIT ? OFFSET ?`)
+      .all(...params, page.limit, page.offset)
+      .map((row) => ({
+        ratingId: String(row.rating_id),
+        jobId: String(row.job_id),
+        rater: String(row.rater),
+        ratee: String(row.ratee),
+        rating: toNumber(row.rating),
+        disputed: toNumber(row.disputed) === 1,
+        disputeReason: row.dispute_reason === null ? null : String(row.dispute_reason),
+        createdAt: toNumber(row.created_at),
+      }));
+
+    return { items, total: toNumber(total?.total ?? 0) };
+  }
+
+  // ======== Earnings ========
+
+  insertEarning(earning: EarningRecord) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO earnings (key, job_id, recipient, amount, coin_type, reason, tx_digest, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        earning.key,
+        earning.jobId,
+        earning.recipient,
+        earning.amount,
+        earning.coinType,
+        earning.reason,
+        earning.txDigest,
+        earning.createdAt
+      );
+  }
+
+  /**
+   * Query payments with totals per coin type (totals cover all matches, not just the page)
+   */
+  queryEarnings(
+    filter: EarningFilter,
+    page: Page
+  ): PageResult<EarningRecord> & { totals: { coinType: string; amount: number; count: number }[] } {
+    const { sql, params } = where([
+      ["recipient = ?", filter.recipient],
+      ["coin_type = ?", filter.coinType],
+      ["job_id = ?", filter.jobId],
+      ["reason = ?", filter.reason],
+      ["created_at >= ?", filter.from],
+      ["created_at < ?", filter.to],
+    ]);
+
+    const totals = this.db
+      .prepare(
+        `SELECT coin_type, SUM(amount) AS amount, COUNT(*) AS count FROM earnings ${sql} GROUP BY coin_type`
+      )
+      .all(...params)
+      .map((row) => ({
+        coinType: String(row.coin_type),
+        amount: toNumber(row.amount),
+        count: toNumber(row.count),
+      }));
+    const items = this.db
+      .prepare(`SELECT * FROM earnings ${sql} ORDER BY created_at DESC LIMIT ? OFFSET ?`)
+      .all(...params, page.limit, page.offset)
+      .map((row) => ({
+        key: String(row.key),
+        jobId: String(row.job_id),
+        recipient: String(row.recipient),
+        amount: toNumber(row.amount),
+        coinType: String(row.coin_type),
+        reason: toNumber(row.reason),
+        txDigest: String(row.tx_digest),
+        createdAt: toNumber(row.created_at),
+      }));
+
+    return { items, total: totals.reduce((sum, total) => sum + total.count, 0), totals };
+  }
+}
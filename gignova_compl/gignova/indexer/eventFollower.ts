@@ -0,0 +1,258 @@
+/**
+ * Event Follower
+ * Follows job_escrow, profile_nft and reputation events and applies them to the SQLite projections
+ *
+ * Each module is one stream with its own cursor. A poll pages through new events in
+ * ascending order (MoveEventModule filter); every page is saved with its cursor in one
+ * SQLite transaction, so a restart resumes exactly where the last page ended.
+ * Job projections reuse projectJob from the dApp's event store, so the API serves the
+ * same job data the browser would compute itself.
+ */
+
+import { SuiClient, SuiEvent } from "@mysten/sui/client";
+import { JOB_ESCROW_EVENT_TYPES, projectJob } from "../app/services/jobEventStore";
+import { SUI_COIN_TYPE } from "../app/constants";
+import type { IndexerConfig } from "./config";
+import type { EarningRecord, IndexerDatabase } from "./database";
+
+export const INDEXED_MODULES = ["job_escrow", "profile_nft", "reputation"] as const;
+
+export type IndexedModule = (typeof INDEXED_MODULES)[number];
+
+interface EventStream {
+  module: IndexedModule;
+  packageId: string;
+}
+
+export interface SyncStatus {
+  lastSyncAt: number | null;
+  lastError: string | null;
+  eventsIndexed: number;
+}
+
+const PAGE_SIZE = 50;
+
+export class EventFollower {
+  private suiClient: SuiClient;
+  private db: IndexerDatabase;
+  private streams: EventStream[];
+  private pollIntervalMs: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private status: SyncStatus = { lastSyncAt: null, lastError: null, eventsIndexed: 0 };
+
+  constructor(suiClient: SuiClient, db: IndexerDatabase, config: IndexerConfig) {
+    this.suiClient = suiClient;
+    this.db = db;
+    this.pollIntervalMs = config.pollIntervalMs;
+    this.streams = [
+      { module: "job_escrow", packageId: config.jobEscrowPackageId },
+      { module: "profile_nft", packageId: config.profileNftPackageId },
+      { module: "reputation", packageId: config.reputationPackageId },
+    ];
+  }
+
+  getStatus(): SyncStatus {
+    return { ...this.status };
+  }
+
+  // ======== Polling ========
+
+  /**
+   * Poll all streams until stopped
+   * Errors are logged and retried on the next poll.
+   */
+  start() {
+    const loop = async () => {
+      await this.syncOnce();
+      this.timer = setTimeout(loop, this.pollIntervalMs);
+    };
+    void loop();
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fetch and apply new events of every stream
+   *
+   * @returns Number of new events applied
+   */
+  async syncOnce(): Promise<number> {
+    let applied = 0;
+    try {
+      for (const stream of this.streams) {
+        applied += await this.syncStream(stream);
+      }
+      this.status.lastSyncAt = Date.now();
+      this.status.lastError = null;
+    } catch (error) {
+      this.status.lastError = error instanceof Error ? error.message : String(error);
+      console.error("Error syncing events:", error);
+    }
+
+    this.status.eventsIndexed += applied;
+    if (applied > 0) {
+      console.log(`📦 Indexer: applied ${applied} new events`);
+    }
+    return applied;
+  }
+
+  private async syncStream(stream: EventStream): Promise<number> {
+    const streamKey = `${stream.packageId}::${stream.module}`;
+    let cursor = this.db.getCursor(streamKey);
+    let applied = 0;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await this.suiClient.queryEvents({
+        query: { MoveEventModule: { package: stream.packageId, module: stream.module } },
+        cursor: cursor ?? undefined,
+        limit: PAGE_SIZE,
+        order: "ascending",
+      });
+      if (page.data.length === 0) {
+        break;
+      }
+
+      const lastEventId = page.data[page.data.length - 1].id;
+      applied += this.db.transaction(() => {
+        const count = this.applyPage(stream.module, page.data);
+        this.db.setCursor(streamKey, lastEventId);
+        return count;
+      });
+
+      cursor = lastEventId;
+      hasNextPage = page.hasNextPage;
+    }
+
+    return applied;
+  }
+
+  // ======== Projections ========
+
+  /**
+   * Save a page of events and update the projections they affect
+   *
+   * @returns Number of events that were not saved before
+   */
+  private applyPage(module: IndexedModule, events: SuiEvent[]): number {
+    const touchedJobs = new Set<string>();
+    const earnings: EarningRecord[] = [];
+    let applied = 0;
+
+    for (const event of events) {
+      const type = event.type.split("::")[2];
+      const data = event.parsedJson as Record<string, any>;
+      const timestampMs = Number(event.timestampMs ?? data.timestamp ?? 0);
+      const key = `${event.id.txDigest}:${event.id.eventSeq}`;
+
+      const inserted = this.db.insertEvent({
+        key,
+        module,
+        type,
+        jobId: data.job_id ?? null,
+        sender: event.sender,
+        txDigest: event.id.txDigest,
+        eventSeq: Number(event.id.eventSeq),
+        timestampMs,
+        data,
+      });
+      if (!inserted) {
+        continue;
+      }
+      applied++;
+
+      switch (module) {
+        case "job_escrow":
+          if (!(JOB_ESCROW_EVENT_TYPES as readonly string[]).includes(type)) break;
+          touchedJobs.add(data.job_id);
+          if (type === "FundsReleased") {
+            earnings.push({
+              key,
+              jobId: data.job_id,
+              recipient: data.recipient,
+              amount: Number(data.amount),
+              coinType: SUI_COIN_TYPE, // Resolved from the job after projecting
+              reason: Number(data.reason),
+              txDigest: event.id.txDigest,
+              createdAt: timestampMs,
+            });
+          }
+          break;
+        case "profile_nft":
+          this.applyProfileEvent(type, data, timestampMs);
+          break;
+        case "reputation":
+          this.applyReputationEvent(type, data, timestampMs);
+          break;
+      }
+    }
+
+    // Replay every touched job from all of its stored events
+    for (const jobId of touchedJobs) {
+      const projection = projectJob(this.db.getJobEvents(jobId));
+      if (projection) {
+        this.db.upsertJob(projection);
+      }
+    }
+
+    for (const earning of earnings) {
+      earning.coinType = this.db.getJobCoinType(earning.jobId) ?? SUI_COIN_TYPE;
+      this.db.insertEarning(earning);
+    }
+
+    return applied;
+  }
+
+  private applyProfileEvent(type: string, data: Record<string, any>, timestampMs: number) {
+    switch (type) {
+      case "ProfileCreated":
+        this.db.insertProfile({
+          profileId: data.profile_id,
+          owner: data.owner,
+          profileType: Number(data.profile_type),
+          username: data.username,
+          createdAt: timestampMs,
+        });
+        break;
+      case "ReputationUpdated":
+        this.db.updateProfile(
+          data.profile_id,
+          { rating: Number(data.new_rating), ratingCount: Number(data.rating_count) },
+          timestampMs
+        );
+        break;
+      case "ProfileTypeChanged":
+        this.db.updateProfile(data.profile_id, { profileType: Number(data.new_type) }, timestampMs);
+        break;
+      case "JobCompleted":
+        this.db.addProfileCompletion(data.profile_id, Number(data.amount), timestampMs);
+        break;
+      case "ProfileUpdated":
+        this.db.updateProfile(data.profile_id, {}, timestampMs);
+        break;
+    }
+  }
+
+  private applyReputationEvent(type: string, data: Record<string, any>, timestampMs: number) {
+    switch (type) {
+      case "RatingSubmitted":
+        this.db.insertRating({
+          ratingId: data.rating_id,
+          jobId: data.job_id,
+          rater: data.rater,
+          ratee: data.ratee,
+          rating: Number(data.rating),
+          createdAt: timestampMs,
+        });
+        break;
+      case "RatingDisputed":
+        this.db.markRatingDisputed(data.rating_id, data.dispute_reason);
+        break;
+    }
+  }
+}
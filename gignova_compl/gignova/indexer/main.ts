@@ -0,0 +1,66 @@
+/**
+ * Gignova Headless Indexer
+ * Follows the zk_freelance package events, projects them into SQLite and serves a REST/JSON API
+ *
+ * Usage: pnpm indexer   (see indexer/config.ts for environment variables)
+ * Requires Node 22.13+ for the built-in node:sqlite module (no flag needed from that version)
+ * Local network: sui start --with-faucet, publish move/zk_freelance, then
+ *   SUI_NETWORK=localnet JOB_ESCROW_PACKAGE_ID=0x... pnpm indexer
+ */
+
+import { SuiClient } from "@mysten/sui/client";
+import { loadConfig } from "./config";
+import { EventFollower } from "./eventFollower";
+import { createApiServer } from "./api";
+
+/** First Node version with node:sqlite available without --experimental-sqlite */
+const MIN_NODE_VERSION: [number, number] = [22, 13];
+
+/**
+ * Exit with a clear message on Node versions without node:sqlite
+ * (importing it there fails with ERR_UNKNOWN_BUILTIN_MODULE)
+ */
+function assertNodeVersion() {
+  const [major, minor] = process.versions.node.split(".").map(Number);
+  const [minMajor, minMinor] = MIN_NODE_VERSION;
+  if (major < minMajor || (major === minMajor && minor < minMinor)) {
+    console.error(
+      `❌ The indexer needs Node ${minMajor}.${minMinor}+ for node:sqlite, but this is Node ${process.versions.node}. ` +
+        `Switch versions (e.g. nvm use 22) and run pnpm indexer again.`
+    );
+    process.exit(1);
+  }
+}
+
+async function main() {
+  assertNodeVersion();
+  // Loaded after the version check: node:sqlite does not exist on older runtimes
+  const { IndexerDatabase } = await import("./database");
+
+  const config = loadConfig();
+  const suiClient = new SuiClient({ url: config.rpcUrl });
+  const db = new IndexerDatabase(config.dbPath);
+  const follower = new EventFollower(suiClient, db, config);
+  const server = createApiServer(db, follower, config);
+
+  console.log(`🔍 Indexing ${config.network} (${config.rpcUrl}) into ${config.dbPath}`);
+  follower.start();
+  server.listen(config.port, () => {
+    console.log(`✅ Indexer API listening on http://localhost:${config.port}`);
+  });
+
+  const shutdown = () => {
+    follower.stop();
+    server.close(() => {
+      db.close();
+      process.exit(0);
+    });
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("❌ Indexer failed to start:", error);
+  process.exit(1);
+});
@@ -15,6 +15,8 @@ module zk_freelance::job_escrow {
     use sui::coin::{Self, Coin};
     use sui::balance::{Self, Balance};
     use sui::sui::SUI;
+    use std::type_name;
+    use std::ascii::String as AsciiString;
     use sui::table::{Self, Table};
     use sui::event;
     use sui::clock::{Self, Clock};
@@ -31,7 +33,6 @@ module zk_freelance::job_escrow {
     const STATE_AWAITING_REVIEW: u8 = 4;
     const STATE_COMPLETED: u8 = 5;
     const STATE_CANCELLED: u8 = 6;
-    #[allow(unused_const)]
     const STATE_DISPUTED: u8 = 7;
 
     /// Error codes
@@ -45,11 +46,35 @@ module zk_freelance::job_escrow {
     const EFreelancerNotAssigned: u64 = 7;
     const ENoPendingCompletion: u64 = 8;
     const ERevisionReasonRequired: u64 = 9;
+    const ENoActiveDispute: u64 = 10;
+    const EDisputeAlreadyResolved: u64 = 11;
+    const EDisputeReasonRequired: u64 = 12;
+    const ENoPendingExtension: u64 = 13;
+    const EDeadlineNotPassed: u64 = 14;
+    const EInvalidDeadline: u64 = 15;
+    const EReviewWindowActive: u64 = 16;
+    const EInvalidProposal: u64 = 17;
+    const ENotApplicant: u64 = 18;
+    const EApplicantRejected: u64 = 19;
+    const EInvalidSkills: u64 = 20;
+    const EInvalidReviewWindow: u64 = 21;
+
+    /// Default client review window after a milestone submission (7 days)
+    const DEFAULT_REVIEW_WINDOW_MS: u64 = 604_800_000;
+    /// Maximum client review window (14 days), keeps submitted_at + window from overflowing
+    const MAX_REVIEW_WINDOW_MS: u64 = 1_209_600_000;
+    /// Maximum portfolio links attached to a proposal
+    const MAX_PORTFOLIO_LINKS: u64 = 5;
+    /// Maximum required skills on a job
+    const MAX_JOB_SKILLS: u64 = 10;
+    /// Maximum length of a category or skill ID (taxonomy slugs, e.g. "smart-contracts")
+    const MAX_TAXONOMY_ID_LENGTH: u64 = 64;
 
     // ======== Structs ========
 
     /// Main Job object - shared object
-    public struct Job has key {
+    /// Generic over the escrow coin type T (SUI, USDC or any other Coin<T>)
+    public struct Job<phantom T> has key {
         id: UID,
         /// Client who posted the job
         client: address,
@@ -59,10 +84,14 @@ module zk_freelance::job_escrow {
         title: vector<u8>,
         /// Description stored on Walrus (blob ID)
         description_blob_id: vector<u8>,
-        /// Total budget in MIST
+        /// Category ID from the app's skill taxonomy (empty if uncategorized)
+        category: vector<u8>,
+        /// Required skill IDs from the app's skill taxonomy
+        skills: vector<vector<u8>>,
+        /// Total budget in base units of T
         budget: u64,
         /// Escrow holding the funds
-        escrow: Balance<SUI>,
+        escrow: Balance<T>,
         /// Current state
         state: u8,
         /// Milestones table
@@ -71,6 +100,10 @@ module zk_freelance::job_escrow {
         milestone_count: u64,
         /// List of applicants
         applicants: vector<address>,
+        /// Proposals submitted with each application (same order as applicants)
+        proposals: vector<Proposal>,
+        /// Applicants declined by the client (cannot re-apply)
+        rejected_applicants: vector<address>,
         /// Job creation timestamp
         created_at: u64,
         /// Job deadline timestamp
@@ -80,6 +113,67 @@ module zk_freelance::job_escrow {
         /// Pending freelancer completion claim (amount to record in profile)
         /// Set when client approves final milestone, cleared when freelancer claims
         pending_freelancer_completion: Option<u64>,
+        /// Dispute record (set when either party opens a dispute)
+        dispute: Option<Dispute>,
+        /// Deadline extension proposed by the freelancer, awaiting client acceptance
+        pending_extension: Option<DeadlineExtension>,
+        /// Set when the client reclaims the escrow after a missed deadline
+        reclaimed_at: Option<u64>,
+        /// Time the client has to review a submission before the freelancer can claim it
+        review_window_ms: u64,
+        /// Pending client completion claim (amount to record in profile)
+        /// Set when the freelancer auto-claims the final milestone, cleared when client claims
+        pending_client_completion: Option<u64>,
+    }
+
+    /// Deadline extension request (freelancer proposes, client accepts)
+    public struct DeadlineExtension has store, copy, drop {
+        new_deadline: u64,
+        /// Reason text or Walrus blob ID
+        reason_blob_id: vector<u8>,
+        requested_at: u64,
+    }
+
+    /// Dispute record stored inside the Job
+    /// While unresolved, the job stays in STATE_DISPUTED and the escrow is frozen
+    public struct Dispute has store, drop {
+        /// Address that opened the dispute (client or freelancer)
+        raised_by: address,
+        /// Reason text or Walrus blob ID
+        reason_blob_id: vector<u8>,
+        /// State the job was in when the dispute was opened
+        previous_state: u8,
+        /// Evidence submitted by both parties
+        evidence: vector<DisputeEvidence>,
+        opened_at: u64,
+        /// Resolution data (set by arbiter)
+        resolved: bool,
+        freelancer_amount: u64,
+        client_amount: u64,
+        resolution_blob_id: Option<vector<u8>>,
+        resolved_at: Option<u64>,
+    }
+
+    /// Freelancer proposal attached to an application
+    public struct Proposal has store, copy, drop {
+        freelancer: address,
+        /// Cover letter stored on Walrus (blob ID)
+        cover_letter_blob_id: vector<u8>,
+        /// Proposed price in the job's coin
+        proposed_price: u64,
+        /// Estimated duration in milliseconds
+        estimated_duration_ms: u64,
+        /// Optional portfolio links (URLs)
+        portfolio_links: vector<vector<u8>>,
+        submitted_at: u64,
+    }
+
+    /// Single piece of dispute evidence
+    public struct DisputeEvidence has store, copy, drop {
+        submitted_by: address,
+        /// Evidence text or Walrus blob ID
+        blob_id: vector<u8>,
+        submitted_at: u64,
     }
 
     /// Milestone struct
@@ -127,6 +221,12 @@ module zk_freelance::job_escrow {
         job_id: ID,
     }
 
+    /// Arbiter capability - created at publish time, held by the platform arbiter
+    /// Required to resolve disputes and split the frozen escrow
+    public struct ArbiterCap has key, store {
+        id: UID,
+    }
+
     // ======== Events ========
     //
     // NOTE: Events include comprehensive data for client-side indexing
@@ -138,8 +238,11 @@ module zk_freelance::job_escrow {
     public struct JobCreated has copy, drop {
         job_id: ID,
         client: address,
+        coin_type: AsciiString,  // Fully qualified escrow coin type
         title: vector<u8>,
         description_blob_id: vector<u8>,
+        category: vector<u8>,
+        skills: vector<vector<u8>>,
         budget: u64,
         deadline: u64,
         milestone_count: u64,
@@ -147,6 +250,20 @@ module zk_freelance::job_escrow {
         timestamp: u64,
     }
 
+    /// Emitted when the client edits an OPEN job (title, description, skills, deadline or budget top-up)
+    /// Carries the full editable snapshot so indexers can replace JobCreated values
+    public struct JobUpdated has copy, drop {
+        job_id: ID,
+        client: address,
+        title: vector<u8>,
+        description_blob_id: vector<u8>,
+        category: vector<u8>,
+        skills: vector<vector<u8>>,
+        budget: u64,
+        deadline: u64,
+        timestamp: u64,
+    }
+
     /// Emitted when a freelancer applies for a job
     public struct FreelancerApplied has copy, drop {
         job_id: ID,
@@ -154,6 +271,32 @@ module zk_freelance::job_escrow {
         timestamp: u64,
     }
 
+    /// Emitted alongside FreelancerApplied with the application's proposal
+    public struct ProposalSubmitted has copy, drop {
+        job_id: ID,
+        freelancer: address,
+        cover_letter_blob_id: vector<u8>,
+        proposed_price: u64,
+        estimated_duration_ms: u64,
+        portfolio_links: vector<vector<u8>>,
+        timestamp: u64,
+    }
+
+    /// Emitted when a freelancer withdraws their application
+    public struct ApplicationWithdrawn has copy, drop {
+        job_id: ID,
+        freelancer: address,
+        timestamp: u64,
+    }
+
+    /// Emitted when the client declines an applicant
+    public struct ApplicantRejected has copy, drop {
+        job_id: ID,
+        client: address,
+        freelancer: address,
+        timestamp: u64,
+    }
+
     /// Emitted when client assigns a freelancer to a job
     /// Includes both client and freelancer for bi-directional queries
     public struct FreelancerAssigned has copy, drop {
@@ -180,6 +323,15 @@ module zk_freelance::job_escrow {
         timestamp: u64,
     }
 
+    /// Emitted when the client adds a milestone (budget includes the deposited payment)
+    /// No clock is passed to add_milestone; indexers use the checkpoint timestamp
+    public struct MilestoneAdded has copy, drop {
+        job_id: ID,
+        milestone_id: u64,
+        amount: u64,
+        budget: u64,
+    }
+
     /// Emitted when freelancer submits milestone
     public struct MilestoneSubmitted has copy, drop {
         job_id: ID,
@@ -202,6 +354,25 @@ module zk_freelance::job_escrow {
         timestamp: u64,
     }
 
+    /// Emitted when the freelancer claims a milestone after the review window expired
+    public struct MilestoneAutoApproved has copy, drop {
+        job_id: ID,
+        milestone_id: u64,
+        amount: u64,
+        freelancer: address,
+        submitted_at: u64,
+        review_window_ms: u64,
+        timestamp: u64,
+    }
+
+    /// Emitted when client records an auto-completed job in their profile
+    public struct ClientCompletionClaimed has copy, drop {
+        job_id: ID,
+        client: address,
+        total_paid: u64,
+        timestamp: u64,
+    }
+
     /// Emitted when job is fully completed
     public struct JobCompleted has copy, drop {
         job_id: ID,
@@ -267,53 +438,131 @@ module zk_freelance::job_escrow {
         timestamp: u64,
     }
 
+    /// Emitted when client or freelancer opens a dispute
+    public struct DisputeOpened has copy, drop {
+        job_id: ID,
+        raised_by: address,
+        client: address,
+        freelancer: address,
+        reason_blob_id: vector<u8>,
+        previous_state: u8,
+        escrow_amount: u64,
+        timestamp: u64,
+    }
+
+    /// Emitted when either party adds evidence to an open dispute
+    public struct DisputeEvidenceSubmitted has copy, drop {
+        job_id: ID,
+        submitted_by: address,
+        evidence_blob_id: vector<u8>,
+        timestamp: u64,
+    }
+
+    /// Emitted when the arbiter resolves a dispute and splits the escrow
+    public struct DisputeResolved has copy, drop {
+        job_id: ID,
+        client: address,
+        freelancer: address,
+        freelancer_amount: u64,
+        client_amount: u64,
+        resolution_blob_id: vector<u8>,
+        timestamp: u64,
+    }
+
+    /// Emitted when the freelancer proposes a new deadline
+    public struct DeadlineExtensionRequested has copy, drop {
+        job_id: ID,
+        freelancer: address,
+        client: address,
+        current_deadline: u64,
+        new_deadline: u64,
+        reason_blob_id: vector<u8>,
+        timestamp: u64,
+    }
+
+    /// Emitted when the client accepts a deadline extension
+    public struct DeadlineExtended has copy, drop {
+        job_id: ID,
+        client: address,
+        freelancer: address,
+        old_deadline: u64,
+        new_deadline: u64,
+        timestamp: u64,
+    }
+
+    // ======== Init Function ========
+
+    /// Create the ArbiterCap for the publisher (one-time setup)
+    fun init(ctx: &mut TxContext) {
+        transfer::transfer(ArbiterCap { id: object::new(ctx) }, ctx.sender());
+    }
+
     // ======== Public Functions ========
 
     /// Create a new job with escrow funding
     /// Returns JobCap to the client
     ///
-    /// Validates budget and deadline, creates Job object with escrow,
+    /// Validates budget, deadline, review window and skills, creates Job object with escrow,
     /// creates JobCap for client, emits JobCreated event
     #[allow(lint(self_transfer))]
-    public fun create_job(
+    public fun create_job<T>(
         client_profile: &mut Profile,
         title: vector<u8>,
         description_blob_id: vector<u8>,
-        budget: Coin<SUI>,
+        category: vector<u8>,
+        skills: vector<vector<u8>>,
+        budget: Coin<T>,
         deadline: u64,
+        review_window_ms: u64,
         clock: &Clock,
         ctx: &mut TxContext
     ) {
         let sender = ctx.sender();
         let timestamp = clock::timestamp_ms(clock);
         let budget_amount = coin::value(&budget);
+        let review_window_ms = if (review_window_ms == 0) {
+            DEFAULT_REVIEW_WINDOW_MS
+        } else {
+            review_window_ms
+        };
 
         // Validation
         assert!(budget_amount > 0, EInsufficientFunds);
         assert!(deadline > timestamp, EDeadlinePassed);
+        assert!(review_window_ms <= MAX_REVIEW_WINDOW_MS, EInvalidReviewWindow);
         assert!(vector::length(&title) > 0, EInvalidState);
+        assert_valid_skills(&category, &skills);
         assert!(profile_nft::get_owner(client_profile) == sender, ENotAuthorized);
 
         // Create Job object
         let job_uid = object::new(ctx);
         let job_id = object::uid_to_inner(&job_uid);
 
-        let job = Job {
+        let job = Job<T> {
             id: job_uid,
             client: sender,
             freelancer: option::none(),
             title,
             description_blob_id,
+            category,
+            skills,
             budget: budget_amount,
             escrow: coin::into_balance(budget),
             state: STATE_OPEN,
             milestones: table::new(ctx),
             milestone_count: 0,
             applicants: vector::empty(),
+            proposals: vector::empty(),
+            rejected_applicants: vector::empty(),
             created_at: timestamp,
             deadline,
             deliverable_blob_ids: vector::empty(),
             pending_freelancer_completion: option::none(),
+            dispute: option::none(),
+            pending_extension: option::none(),
+            reclaimed_at: option::none(),
+            review_window_ms,
+            pending_client_completion: option::none(),
         };
 
         // Create JobCap
@@ -326,8 +575,11 @@ module zk_freelance::job_escrow {
         event::emit(JobCreated {
             job_id,
             client: sender,
+            coin_type: type_name::into_string(type_name::get<T>()),
             title,
             description_blob_id,
+            category,
+            skills,
             budget: budget_amount,
             deadline,
             milestone_count: 0,
@@ -349,9 +601,14 @@ module zk_freelance::job_escrow {
     /// Apply for a job as freelancer
     ///
     /// Validates job is open, freelancer hasn't applied, adds to applicants
-    public fun apply_for_job(
-        job: &mut Job,
+    /// and records the proposal (cover letter blob, price, duration, portfolio links)
+    public fun apply_for_job<T>(
+        job: &mut Job<T>,
         freelancer_profile: &Profile,
+        cover_letter_blob_id: vector<u8>,
+        proposed_price: u64,
+        estimated_duration_ms: u64,
+        portfolio_links: vector<vector<u8>>,
         clock: &Clock,
         ctx: &mut TxContext
     ) {
@@ -363,25 +620,101 @@ module zk_freelance::job_escrow {
         assert!(!is_deadline_passed(job, clock), EDeadlinePassed);
         assert!(sender != job.client, ENotAuthorized);
         assert!(!vector::contains(&job.applicants, &sender), EAlreadyApplied);
+        assert!(!vector::contains(&job.rejected_applicants, &sender), EApplicantRejected);
         assert!(profile_nft::get_owner(freelancer_profile) == sender, ENotAuthorized);
+        assert!(!vector::is_empty(&cover_letter_blob_id), EInvalidProposal);
+        assert!(proposed_price > 0 && estimated_duration_ms > 0, EInvalidProposal);
+        assert!(vector::length(&portfolio_links) <= MAX_PORTFOLIO_LINKS, EInvalidProposal);
 
         // Add to applicants
         vector::push_back(&mut job.applicants, sender);
+        vector::push_back(&mut job.proposals, Proposal {
+            freelancer: sender,
+            cover_letter_blob_id,
+            proposed_price,
+            estimated_duration_ms,
+            portfolio_links,
+            submitted_at: timestamp,
+        });
 
-        // Emit event
+        // Emit events
         event::emit(FreelancerApplied {
             job_id: object::id(job),
             freelancer: sender,
             timestamp,
         });
+
+        event::emit(ProposalSubmitted {
+            job_id: object::id(job),
+            freelancer: sender,
+            cover_letter_blob_id,
+            proposed_price,
+            estimated_duration_ms,
+            portfolio_links,
+            timestamp,
+        });
+    }
+
+    /// Withdraw an application (freelancer only)
+    ///
+    /// Removes the sender from applicants along with their proposal.
+    /// Only possible while the job is OPEN; the freelancer may re-apply later.
+    public fun withdraw_application<T>(
+        job: &mut Job<T>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let sender = ctx.sender();
+
+        // Validation
+        assert!(job.state == STATE_OPEN, EJobNotOpen);
+        assert!(vector::contains(&job.applicants, &sender), ENotApplicant);
+
+        remove_application(job, sender);
+
+        event::emit(ApplicationWithdrawn {
+            job_id: object::id(job),
+            freelancer: sender,
+            timestamp: clock::timestamp_ms(clock),
+        });
+    }
+
+    /// Reject an applicant (client only)
+    ///
+    /// Removes the freelancer from applicants along with their proposal
+    /// and records them so they cannot re-apply to this job.
+    public fun reject_applicant<T>(
+        job: &mut Job<T>,
+        cap: &JobCap,
+        freelancer: address,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let sender = ctx.sender();
+
+        // Validation
+        verify_cap(job, cap);
+        assert!(sender == job.client, ENotAuthorized);
+        assert!(job.state == STATE_OPEN, EJobNotOpen);
+        assert!(vector::contains(&job.applicants, &freelancer), ENotApplicant);
+
+        remove_application(job, freelancer);
+        vector::push_back(&mut job.rejected_applicants, freelancer);
+
+        event::emit(ApplicantRejected {
+            job_id: object::id(job),
+            client: job.client,
+            freelancer,
+            timestamp: clock::timestamp_ms(clock),
+        });
     }
 
     /// Assign freelancer to job (client only)
     ///
     /// Validates JobCap, assigns freelancer from applicants, transitions to ASSIGNED
     /// Profile updates (increment_total_jobs, add_active_job) moved to start_job
-    public fun assign_freelancer(
-        job: &mut Job,
+    public fun assign_freelancer<T>(
+        job: &mut Job<T>,
         cap: &JobCap,
         freelancer: address,
         clock: &Clock,
@@ -422,8 +755,8 @@ module zk_freelance::job_escrow {
     ///
     /// Validates assigned freelancer, transitions job to IN_PROGRESS
     /// Updates freelancer profile (increment total_jobs, add active job)
-    public fun start_job(
-        job: &mut Job,
+    public fun start_job<T>(
+        job: &mut Job<T>,
         freelancer_profile: &mut Profile,
         clock: &Clock,
         ctx: &mut TxContext
@@ -469,6 +802,8 @@ module zk_freelance::job_escrow {
     /// Submit milestone completion with encrypted deliverable (freelancer only)
     ///
     /// Validates freelancer, stores encrypted deliverable metadata, transitions to SUBMITTED.
+    /// Further milestones can be submitted while earlier ones await review, so the
+    /// client can approve several in one transaction.
     /// Creates a DeliverableEscrow shared object that holds the whitelist Cap.
     /// When the client approves the milestone, the contract uses the Cap to grant access.
     ///
@@ -482,8 +817,8 @@ module zk_freelance::job_escrow {
     /// @param original_file_name - Original file name for display
     /// @param clock - Clock object for timestamps
     /// @param ctx - Transaction context
-    public fun submit_milestone(
-        job: &mut Job,
+    public fun submit_milestone<T>(
+        job: &mut Job<T>,
         milestone_id: u64,
         proof_blob_id: vector<u8>,
         preview_url: vector<u8>,
@@ -499,7 +834,7 @@ module zk_freelance::job_escrow {
         let job_id = object::id(job);
 
         // Validation
-        assert!(job.state == STATE_IN_PROGRESS, EInvalidState);
+        assert!(job.state == STATE_IN_PROGRESS || job.state == STATE_SUBMITTED, EInvalidState);
         assert!(option::contains(&job.freelancer, &sender), EFreelancerNotAssigned);
         assert!(table::contains(&job.milestones, milestone_id), EInvalidMilestone);
 
@@ -552,13 +887,15 @@ module zk_freelance::job_escrow {
             timestamp,
         });
 
-        event::emit(JobStateChanged {
-            job_id,
-            old_state,
-            new_state: STATE_SUBMITTED,
-            freelancer: job.freelancer,
-            timestamp,
-        });
+        if (old_state != STATE_SUBMITTED) {
+            event::emit(JobStateChanged {
+                job_id,
+                old_state,
+                new_state: STATE_SUBMITTED,
+                freelancer: job.freelancer,
+                timestamp,
+            });
+        };
     }
 
     /// Approve milestone, release funds, and grant client access to encrypted deliverable (client only)
@@ -579,8 +916,8 @@ module zk_freelance::job_escrow {
     /// @param client_profile - Client's profile for stats update
     /// @param clock - Clock object for timestamps
     /// @param ctx - Transaction context
-    public fun approve_milestone(
-        job: &mut Job,
+    public fun approve_milestone<T>(
+        job: &mut Job<T>,
         cap: &JobCap,
         milestone_id: u64,
         deliverable_escrow: &mut DeliverableEscrow,
@@ -596,90 +933,18 @@ module zk_freelance::job_escrow {
         assert!(job.state == STATE_SUBMITTED || job.state == STATE_AWAITING_REVIEW, EInvalidState);
         assert!(table::contains(&job.milestones, milestone_id), EInvalidMilestone);
         assert!(option::is_some(&job.freelancer), EFreelancerNotAssigned);
-
-        let freelancer = *option::borrow(&job.freelancer);
         assert!(profile_nft::get_owner(client_profile) == job.client, ENotAuthorized);
 
-        // Validate deliverable escrow matches the milestone
-        assert!(deliverable_escrow.job_id == object::id(job), EInvalidState);
-        assert!(deliverable_escrow.milestone_id == milestone_id, EInvalidState);
-        assert!(!deliverable_escrow.access_granted, EInvalidState);
-
-        // Get milestone
-        let milestone = table::borrow_mut(&mut job.milestones, milestone_id);
-        assert!(milestone.completed && !milestone.approved, EInvalidState);
-
-        // Verify whitelist matches the one stored in milestone and escrow
-        assert!(option::is_some(&milestone.whitelist_id), EInvalidState);
-        let stored_whitelist_id = *option::borrow(&milestone.whitelist_id);
-        assert!(object::id(whitelist) == stored_whitelist_id, EInvalidState);
-        assert!(deliverable_escrow.whitelist_id == stored_whitelist_id, EInvalidState);
-
-        // Grant client access to decrypt the deliverable using the escrow's Cap
-        whitelist::add(whitelist, &deliverable_escrow.whitelist_cap, job.client);
-
-        // Mark access as granted in escrow (prevents double-grant)
-        deliverable_escrow.access_granted = true;
-
-        // Mark approved
-        milestone.approved = true;
-        milestone.approved_at = option::some(timestamp);
-
-        let amount = milestone.amount;
-
-        // Get submission data for event (before releasing funds)
-        let submission_blob_id = *option::borrow(&milestone.submission_blob_id);
-        let nonce = *option::borrow(&milestone.nonce);
-
-        // Release funds from escrow
-        let payment = coin::take(&mut job.escrow, amount, ctx);
-        transfer::public_transfer(payment, freelancer);
-
-        // Emit payment event
-        event::emit(FundsReleased {
-            job_id: object::id(job),
-            recipient: freelancer,
-            amount,
-            reason: 0,  // 0 = milestone payment
-            timestamp,
-        });
-
-        // Emit milestone approved event
-        event::emit(MilestoneApproved {
-            job_id: object::id(job),
-            milestone_id,
-            amount,
-            freelancer,
-            timestamp,
-        });
-
-        // Emit access granted event (client can now decrypt)
-        event::emit(DeliverableAccessGranted {
-            job_id: object::id(job),
-            milestone_id,
-            client: job.client,
-            whitelist_id: stored_whitelist_id,
-            submission_blob_id,
-            nonce,
-            timestamp,
-        });
+        // Grant access, release payment and emit approval events
+        release_milestone(job, milestone_id, deliverable_escrow, whitelist, clock, ctx);
 
         // Check if all milestones approved
         if (all_milestones_approved(job)) {
             // Complete job with only client profile update
             complete_job_client_side(job, client_profile, clock);
         } else {
-            // Back to IN_PROGRESS for next milestone
-            let old_state = job.state;
-            job.state = STATE_IN_PROGRESS;
-
-            event::emit(JobStateChanged {
-                job_id: object::id(job),
-                old_state,
-                new_state: STATE_IN_PROGRESS,
-                freelancer: job.freelancer,
-                timestamp,
-            });
+            // Back to IN_PROGRESS unless other submissions still await review
+            resume_if_no_pending_review(job, timestamp);
         }
     }
 
@@ -687,8 +952,10 @@ module zk_freelance::job_escrow {
     ///
     /// Resets milestone for freelancer to resubmit, job returns to IN_PROGRESS.
     /// Feedback is required to help freelancer understand needed changes.
-    public fun request_revision(
-        job: &mut Job,
+    /// Not allowed after the deadline: the reset would put the job back to IN_PROGRESS
+    /// and let the client reclaim the escrow of delivered work (reclaim_after_deadline).
+    public fun request_revision<T>(
+        job: &mut Job<T>,
         cap: &JobCap,
         milestone_id: u64,
         reason_blob_id: vector<u8>,
@@ -703,6 +970,7 @@ module zk_freelance::job_escrow {
             job.state == STATE_SUBMITTED || job.state == STATE_AWAITING_REVIEW,
             EInvalidState
         );
+        assert!(!is_deadline_passed(job, clock), EDeadlinePassed);
         assert!(table::contains(&job.milestones, milestone_id), EInvalidMilestone);
         assert!(option::is_some(&job.freelancer), EFreelancerNotAssigned);
         assert!(vector::length(&reason_blob_id) > 0, ERevisionReasonRequired);
@@ -718,10 +986,6 @@ module zk_freelance::job_escrow {
         milestone.submission_blob_id = option::none();
         milestone.submitted_at = option::none();
 
-        // State transition: SUBMITTED → IN_PROGRESS
-        let old_state = job.state;
-        job.state = STATE_IN_PROGRESS;
-
         // Emit events
         event::emit(MilestoneRevisionRequested {
             job_id: object::id(job),
@@ -732,28 +996,39 @@ module zk_freelance::job_escrow {
             timestamp,
         });
 
-        event::emit(JobStateChanged {
-            job_id: object::id(job),
-            old_state,
-            new_state: STATE_IN_PROGRESS,
-            freelancer: job.freelancer,
-            timestamp,
-        });
+        // State transition: SUBMITTED → IN_PROGRESS (once nothing else awaits review)
+        resume_if_no_pending_review(job, timestamp);
     }
 
-    /// Add milestone to job (client only, before assignment)
+    /// Add milestone to job (client only, OPEN / ASSIGNED / IN_PROGRESS)
     ///
-    /// Validates JobCap, adds milestone with amount validation
-    public fun add_milestone(
-        job: &mut Job,
+    /// Validates JobCap, deposits `payment` into escrow (raising the budget) and
+    /// requires the escrow to cover every unapproved milestone including the new one.
+    /// Pass a zero-value coin when the existing budget already covers the amount.
+    /// Emits MilestoneAdded with the new milestone ID and the resulting budget, so event
+    /// indexers can follow budget changes without reading the Job object.
+    public fun add_milestone<T>(
+        job: &mut Job<T>,
         cap: &JobCap,
         description: vector<u8>,
         amount: u64,
+        payment: Coin<T>,
         _ctx: &mut TxContext
     ) {
         // Validation
         verify_cap(job, cap);
-        assert!(job.state == STATE_OPEN, EInvalidState);
+        assert!(
+            job.state == STATE_OPEN ||
+            job.state == STATE_ASSIGNED ||
+            job.state == STATE_IN_PROGRESS,
+            EInvalidState
+        );
+
+        // Deposit payment for the new milestone
+        let paid = coin::value(&payment);
+        balance::join(&mut job.escrow, coin::into_balance(payment));
+        job.budget = job.budget + paid;
+
         assert!(amount > 0 && amount <= job.budget, EInvalidMilestone);
 
         // Validate total milestones don't exceed budget
@@ -766,6 +1041,12 @@ module zk_freelance::job_escrow {
         };
         assert!(total_milestone_amount <= job.budget, EInvalidMilestone);
 
+        // Escrow must cover all outstanding milestones
+        assert!(
+            unapproved_milestone_total(job) + amount <= balance::value(&job.escrow),
+            EInsufficientFunds
+        );
+
         // Create milestone with empty deliverable fields
         let milestone = Milestone {
             id: job.milestone_count,
@@ -785,14 +1066,22 @@ module zk_freelance::job_escrow {
 
         // Add to table
         table::add(&mut job.milestones, job.milestone_count, milestone);
+
+        event::emit(MilestoneAdded {
+            job_id: object::id(job),
+            milestone_id: job.milestone_count,
+            amount,
+            budget: job.budget,
+        });
+
         job.milestone_count = job.milestone_count + 1;
     }
 
     /// Cancel job and refund (client only, before IN_PROGRESS, OPEN state - no freelancer)
     ///
     /// Validates JobCap, refunds escrow to client, transitions to CANCELLED
-    public fun cancel_job(
-        job: &mut Job,
+    public fun cancel_job<T>(
+        job: &mut Job<T>,
         cap: &JobCap,
         client_profile: &mut Profile,
         clock: &Clock,
@@ -846,8 +1135,8 @@ module zk_freelance::job_escrow {
     /// Cancel job with freelancer assigned (client only, ASSIGNED state)
     ///
     /// Validates JobCap, refunds escrow to client, transitions to CANCELLED
-    public fun cancel_job_with_freelancer(
-        job: &mut Job,
+    public fun cancel_job_with_freelancer<T>(
+        job: &mut Job<T>,
         cap: &JobCap,
         client_profile: &mut Profile,
         freelancer_profile: &mut Profile,
@@ -910,8 +1199,8 @@ module zk_freelance::job_escrow {
     /// Called by freelancer after client approves final milestone.
     /// Updates freelancer's profile with job completion stats.
     /// This solves the ownership issue where client cannot mutate freelancer's profile.
-    public fun claim_job_completion(
-        job: &mut Job,
+    public fun claim_job_completion<T>(
+        job: &mut Job<T>,
         freelancer_profile: &mut Profile,
         clock: &Clock,
         ctx: &mut TxContext
@@ -932,7 +1221,7 @@ module zk_freelance::job_escrow {
         let total_paid = option::extract(&mut job.pending_freelancer_completion);
 
         // Update freelancer profile
-        profile_nft::record_job_completion(freelancer_profile, object::id(job), total_paid, clock);
+        profile_nft::record_job_completion(freelancer_profile, object::id(job), profile_earnings<T>(total_paid), clock);
 
         // Emit event
         event::emit(FreelancerCompletionClaimed {
@@ -943,23 +1232,712 @@ module zk_freelance::job_escrow {
         });
     }
 
-    // ======== Internal Helper Functions ========
-
-    /// Complete job - client side (internal, called when all milestones approved)
+    /// Claim a submitted milestone after the review window expired (freelancer only)
     ///
-    /// Transitions job to COMPLETED, updates client profile, sets pending for freelancer.
-    /// Freelancer must call claim_job_completion() to update their profile.
-    fun complete_job_client_side(
-        job: &mut Job,
-        client_profile: &mut Profile,
-        clock: &Clock,
-    ) {
-        let timestamp = clock::timestamp_ms(clock);
-
-        // State transition
-        let old_state = job.state;
-        job.state = STATE_COMPLETED;
-
+    /// Protects the freelancer from a client who never reviews. Runs the same
+    /// DeliverableEscrow access grant and payment as approve_milestone.
+    /// If this was the final milestone, the freelancer's profile is updated here and
+    /// pending_client_completion is set for the client (see claim_client_completion).
+    ///
+    /// @param job - The job object
+    /// @param milestone_id - Which milestone to claim
+    /// @param deliverable_escrow - The escrow object holding the whitelist Cap
+    /// @param whitelist - The whitelist object (must match milestone's whitelist_id)
+    /// @param freelancer_profile - Freelancer's profile for stats update
+    /// @param clock - Clock object for timestamps
+    /// @param ctx - Transaction context
+    public fun claim_milestone_after_review_window<T>(
+        job: &mut Job<T>,
+        milestone_id: u64,
+        deliverable_escrow: &mut DeliverableEscrow,
+        whitelist: &mut Whitelist,
+        freelancer_profile: &mut Profile,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let sender = ctx.sender();
+        let timestamp = clock::timestamp_ms(clock);
+
+        // Validation
+        assert!(job.state == STATE_SUBMITTED || job.state == STATE_AWAITING_REVIEW, EInvalidState);
+        assert!(table::contains(&job.milestones, milestone_id), EInvalidMilestone);
+        assert!(option::contains(&job.freelancer, &sender), EFreelancerNotAssigned);
+        assert!(profile_nft::get_owner(freelancer_profile) == sender, ENotAuthorized);
+
+        // Review window must have expired since submission
+        let milestone = table::borrow(&job.milestones, milestone_id);
+        assert!(option::is_some(&milestone.submitted_at), EInvalidState);
+        let submitted_at = *option::borrow(&milestone.submitted_at);
+        assert!(timestamp >= submitted_at + job.review_window_ms, EReviewWindowActive);
+        let amount = milestone.amount;
+
+        // Grant access, release payment and emit approval events
+        release_milestone(job, milestone_id, deliverable_escrow, whitelist, clock, ctx);
+
+        event::emit(MilestoneAutoApproved {
+            job_id: object::id(job),
+            milestone_id,
+            amount,
+            freelancer: sender,
+            submitted_at,
+            review_window_ms: job.review_window_ms,
+            timestamp,
+        });
+
+        if (all_milestones_approved(job)) {
+            // Complete job with only freelancer profile update
+            complete_job_freelancer_side(job, freelancer_profile, clock);
+        } else {
+            // Back to IN_PROGRESS unless other submissions still await review
+            resume_if_no_pending_review(job, timestamp);
+        }
+    }
+
+    /// Claim job completion (client only)
+    ///
+    /// Counterpart of claim_job_completion for jobs completed by
+    /// claim_milestone_after_review_window, where the freelancer cannot mutate the client's profile.
+    public fun claim_client_completion<T>(
+        job: &mut Job<T>,
+        client_profile: &mut Profile,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let sender = ctx.sender();
+        let timestamp = clock::timestamp_ms(clock);
+
+        // Validation
+        assert!(job.state == STATE_COMPLETED, EInvalidState);
+        assert!(sender == job.client, ENotAuthorized);
+        assert!(profile_nft::get_owner(client_profile) == job.client, ENotAuthorized);
+        assert!(option::is_some(&job.pending_client_completion), ENoPendingCompletion);
+
+        // Get and clear pending completion
+        let total_paid = option::extract(&mut job.pending_client_completion);
+
+        // Update client profile
+        profile_nft::record_job_completion(client_profile, object::id(job), profile_earnings<T>(total_paid), clock);
+
+        event::emit(ClientCompletionClaimed {
+            job_id: object::id(job),
+            client: job.client,
+            total_paid,
+            timestamp,
+        });
+    }
+
+    // ======== Job Update Functions ========
+
+    /// Update title and description of an OPEN job (client only)
+    ///
+    /// Applicants are kept; the new description should be uploaded to Walrus first
+    public fun update_job_details<T>(
+        job: &mut Job<T>,
+        cap: &JobCap,
+        title: vector<u8>,
+        description_blob_id: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert_can_update(job, cap, ctx);
+        assert!(vector::length(&title) > 0, EInvalidState);
+
+        job.title = title;
+        job.description_blob_id = description_blob_id;
+
+        emit_job_updated(job, clock);
+    }
+
+    /// Replace the category and required skills of an OPEN job (client only)
+    ///
+    /// IDs come from the app's skill taxonomy; the contract only bounds their size
+    public fun update_job_skills<T>(
+        job: &mut Job<T>,
+        cap: &JobCap,
+        category: vector<u8>,
+        skills: vector<vector<u8>>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert_can_update(job, cap, ctx);
+        assert_valid_skills(&category, &skills);
+
+        job.category = category;
+        job.skills = skills;
+
+        emit_job_updated(job, clock);
+    }
+
+    /// Move the deadline of an OPEN job (client only)
+    ///
+    /// The new deadline may be earlier or later but must be in the future
+    public fun update_job_deadline<T>(
+        job: &mut Job<T>,
+        cap: &JobCap,
+        new_deadline: u64,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert_can_update(job, cap, ctx);
+        assert!(new_deadline > clock::timestamp_ms(clock), EInvalidDeadline);
+
+        job.deadline = new_deadline;
+
+        emit_job_updated(job, clock);
+    }
+
+    /// Deposit additional escrow into an OPEN job (client only)
+    ///
+    /// Increases the budget by the payment value
+    public fun top_up_escrow<T>(
+        job: &mut Job<T>,
+        cap: &JobCap,
+        payment: Coin<T>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        assert_can_update(job, cap, ctx);
+        let amount = coin::value(&payment);
+        assert!(amount > 0, EInsufficientFunds);
+
+        balance::join(&mut job.escrow, coin::into_balance(payment));
+        job.budget = job.budget + amount;
+
+        emit_job_updated(job, clock);
+    }
+
+    // ======== Dispute Functions ========
+
+    /// Open a dispute (client or freelancer)
+    ///
+    /// Freezes the escrow by moving the job to DISPUTED. Every other state-changing
+    /// function checks for a specific state, so no funds can move until the arbiter resolves.
+    public fun open_dispute<T>(
+        job: &mut Job<T>,
+        reason_blob_id: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let sender = ctx.sender();
+        let timestamp = clock::timestamp_ms(clock);
+
+        // Validation
+        assert!(
+            job.state == STATE_IN_PROGRESS
+                || job.state == STATE_SUBMITTED
+                || job.state == STATE_AWAITING_REVIEW,
+            EInvalidState
+        );
+        assert!(option::is_some(&job.freelancer), EFreelancerNotAssigned);
+        let freelancer = *option::borrow(&job.freelancer);
+        assert!(sender == job.client || sender == freelancer, ENotAuthorized);
+        assert!(vector::length(&reason_blob_id) > 0, EDisputeReasonRequired);
+
+        let old_state = job.state;
+        job.dispute = option::some(Dispute {
+            raised_by: sender,
+            reason_blob_id,
+            previous_state: old_state,
+            evidence: vector::empty(),
+            opened_at: timestamp,
+            resolved: false,
+            freelancer_amount: 0,
+            client_amount: 0,
+            resolution_blob_id: option::none(),
+            resolved_at: option::none(),
+        });
+
+        // State transition
+        job.state = STATE_DISPUTED;
+
+        // Emit events
+        event::emit(DisputeOpened {
+            job_id: object::id(job),
+            raised_by: sender,
+            client: job.client,
+            freelancer,
+            reason_blob_id,
+            previous_state: old_state,
+            escrow_amount: balance::value(&job.escrow),
+            timestamp,
+        });
+
+        event::emit(JobStateChanged {
+            job_id: object::id(job),
+            old_state,
+            new_state: STATE_DISPUTED,
+            freelancer: job.freelancer,
+            timestamp,
+        });
+    }
+
+    /// Submit evidence for an open dispute (client or freelancer)
+    public fun submit_dispute_evidence<T>(
+        job: &mut Job<T>,
+        evidence_blob_id: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let sender = ctx.sender();
+        let timestamp = clock::timestamp_ms(clock);
+
+        // Validation
+        assert!(job.state == STATE_DISPUTED, EInvalidState);
+        assert!(option::is_some(&job.dispute), ENoActiveDispute);
+        let freelancer = *option::borrow(&job.freelancer);
+        assert!(sender == job.client || sender == freelancer, ENotAuthorized);
+        assert!(vector::length(&evidence_blob_id) > 0, EDisputeReasonRequired);
+
+        let dispute = option::borrow_mut(&mut job.dispute);
+        assert!(!dispute.resolved, EDisputeAlreadyResolved);
+
+        vector::push_back(&mut dispute.evidence, DisputeEvidence {
+            submitted_by: sender,
+            blob_id: evidence_blob_id,
+            submitted_at: timestamp,
+        });
+
+        event::emit(DisputeEvidenceSubmitted {
+            job_id: object::id(job),
+            submitted_by: sender,
+            evidence_blob_id,
+            timestamp,
+        });
+    }
+
+    /// Resolve a dispute (arbiter only)
+    ///
+    /// Splits the remaining escrow: freelancer_amount goes to the freelancer,
+    /// the rest is refunded to the client. Job transitions to CANCELLED.
+    /// Both parties then call release_disputed_job to clear their active jobs.
+    public fun resolve_dispute<T>(
+        job: &mut Job<T>,
+        _arbiter: &ArbiterCap,
+        freelancer_amount: u64,
+        resolution_blob_id: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let timestamp = clock::timestamp_ms(clock);
+        let job_id = object::id(job);
+
+        // Validation
+        assert!(job.state == STATE_DISPUTED, EInvalidState);
+        assert!(option::is_some(&job.dispute), ENoActiveDispute);
+        assert!(!option::borrow(&job.dispute).resolved, EDisputeAlreadyResolved);
+
+        let remaining = balance::value(&job.escrow);
+        assert!(freelancer_amount <= remaining, EInsufficientFunds);
+        let client_amount = remaining - freelancer_amount;
+        let freelancer = *option::borrow(&job.freelancer);
+
+        // Record resolution
+        let dispute = option::borrow_mut(&mut job.dispute);
+        dispute.resolved = true;
+        dispute.freelancer_amount = freelancer_amount;
+        dispute.client_amount = client_amount;
+        dispute.resolution_blob_id = option::some(resolution_blob_id);
+        dispute.resolved_at = option::some(timestamp);
+
+        // Split escrow
+        if (freelancer_amount > 0) {
+            let payment = coin::take(&mut job.escrow, freelancer_amount, ctx);
+            transfer::public_transfer(payment, freelancer);
+
+            event::emit(FundsReleased {
+                job_id,
+                recipient: freelancer,
+                amount: freelancer_amount,
+                reason: 3,  // 3 = dispute settlement
+                timestamp,
+            });
+        };
+
+        if (client_amount > 0) {
+            let refund = coin::take(&mut job.escrow, client_amount, ctx);
+            transfer::public_transfer(refund, job.client);
+
+            event::emit(FundsReleased {
+                job_id,
+                recipient: job.client,
+                amount: client_amount,
+                reason: 3,  // 3 = dispute settlement
+                timestamp,
+            });
+        };
+
+        // State transition
+        let old_state = job.state;
+        job.state = STATE_CANCELLED;
+
+        // Emit events
+        event::emit(DisputeResolved {
+            job_id,
+            client: job.client,
+            freelancer,
+            freelancer_amount,
+            client_amount,
+            resolution_blob_id,
+            timestamp,
+        });
+
+        event::emit(JobStateChanged {
+            job_id,
+            old_state,
+            new_state: STATE_CANCELLED,
+            freelancer: job.freelancer,
+            timestamp,
+        });
+    }
+
+    /// Remove a resolved disputed job from the caller's profile (client or freelancer)
+    ///
+    /// The arbiter cannot mutate owned profiles, so each party clears
+    /// their own active job after resolution (same split pattern as claim_job_completion).
+    public fun release_disputed_job<T>(
+        job: &Job<T>,
+        profile: &mut Profile,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let sender = ctx.sender();
+
+        // Validation
+        assert!(option::is_some(&job.dispute), ENoActiveDispute);
+        assert!(option::borrow(&job.dispute).resolved, EInvalidState);
+        assert!(profile_nft::get_owner(profile) == sender, ENotAuthorized);
+        let freelancer = *option::borrow(&job.freelancer);
+        assert!(sender == job.client || sender == freelancer, ENotAuthorized);
+
+        profile_nft::remove_active_job(profile, object::id(job), clock);
+    }
+
+    // ======== Deadline Functions ========
+
+    /// Reclaim escrow after a missed deadline (client only, IN_PROGRESS state)
+    ///
+    /// IN_PROGRESS means the freelancer has no submission under review, so once the
+    /// deadline has passed the client can refund the remaining escrow and cancel the job.
+    /// The freelancer clears their active job with release_reclaimed_job.
+    public fun reclaim_after_deadline<T>(
+        job: &mut Job<T>,
+        cap: &JobCap,
+        client_profile: &mut Profile,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let timestamp = clock::timestamp_ms(clock);
+        let job_id = object::id(job);
+
+        // Validation
+        verify_cap(job, cap);
+        assert!(job.state == STATE_IN_PROGRESS, EInvalidState);
+        assert!(is_deadline_passed(job, clock), EDeadlineNotPassed);
+        assert!(profile_nft::get_owner(client_profile) == job.client, ENotAuthorized);
+
+        let old_state = job.state;
+        job.state = STATE_CANCELLED;
+        job.reclaimed_at = option::some(timestamp);
+        job.pending_extension = option::none();
+
+        // Refund remaining escrow to client
+        let refund_amount = balance::value(&job.escrow);
+        let refund = coin::take(&mut job.escrow, refund_amount, ctx);
+        transfer::public_transfer(refund, job.client);
+
+        // Remove job from client profile
+        profile_nft::remove_active_job(client_profile, job_id, clock);
+
+        // Emit events
+        event::emit(FundsReleased {
+            job_id,
+            recipient: job.client,
+            amount: refund_amount,
+            reason: 2,  // 2 = refund
+            timestamp,
+        });
+
+        event::emit(JobCancelled {
+            job_id,
+            client: job.client,
+            refund_amount,
+            cancelled_state: old_state,
+            timestamp,
+        });
+
+        event::emit(JobStateChanged {
+            job_id,
+            old_state,
+            new_state: STATE_CANCELLED,
+            freelancer: job.freelancer,
+            timestamp,
+        });
+    }
+
+    /// Remove a reclaimed job from the freelancer's profile (freelancer only)
+    ///
+    /// Same split pattern as claim_job_completion: the client cannot mutate the freelancer's profile.
+    public fun release_reclaimed_job<T>(
+        job: &Job<T>,
+        freelancer_profile: &mut Profile,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let sender = ctx.sender();
+
+        // Validation
+        assert!(option::is_some(&job.reclaimed_at), EInvalidState);
+        assert!(option::is_some(&job.freelancer), EFreelancerNotAssigned);
+        assert!(sender == *option::borrow(&job.freelancer), ENotAuthorized);
+        assert!(profile_nft::get_owner(freelancer_profile) == sender, ENotAuthorized);
+
+        profile_nft::remove_active_job(freelancer_profile, object::id(job), clock);
+    }
+
+    /// Request a deadline extension (freelancer only, ASSIGNED or IN_PROGRESS state)
+    ///
+    /// Also valid after the deadline has passed (late-delivery claim).
+    /// A new request replaces any pending one.
+    public fun request_deadline_extension<T>(
+        job: &mut Job<T>,
+        new_deadline: u64,
+        reason_blob_id: vector<u8>,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let sender = ctx.sender();
+        let timestamp = clock::timestamp_ms(clock);
+
+        // Validation
+        assert!(job.state == STATE_ASSIGNED || job.state == STATE_IN_PROGRESS, EInvalidState);
+        assert!(option::is_some(&job.freelancer), EFreelancerNotAssigned);
+        let freelancer = *option::borrow(&job.freelancer);
+        assert!(sender == freelancer, ENotAuthorized);
+        assert!(new_deadline > job.deadline && new_deadline > timestamp, EInvalidDeadline);
+
+        job.pending_extension = option::some(DeadlineExtension {
+            new_deadline,
+            reason_blob_id,
+            requested_at: timestamp,
+        });
+
+        event::emit(DeadlineExtensionRequested {
+            job_id: object::id(job),
+            freelancer,
+            client: job.client,
+            current_deadline: job.deadline,
+            new_deadline,
+            reason_blob_id,
+            timestamp,
+        });
+    }
+
+    /// Accept the pending deadline extension (client only)
+    ///
+    /// Validates JobCap, moves the deadline and clears the request
+    public fun accept_deadline_extension<T>(
+        job: &mut Job<T>,
+        cap: &JobCap,
+        clock: &Clock,
+        _ctx: &mut TxContext
+    ) {
+        let timestamp = clock::timestamp_ms(clock);
+
+        // Validation
+        verify_cap(job, cap);
+        assert!(job.state == STATE_ASSIGNED || job.state == STATE_IN_PROGRESS, EInvalidState);
+        assert!(option::is_some(&job.pending_extension), ENoPendingExtension);
+
+        let extension = option::extract(&mut job.pending_extension);
+        assert!(extension.new_deadline > timestamp, EInvalidDeadline);
+
+        let old_deadline = job.deadline;
+        job.deadline = extension.new_deadline;
+
+        event::emit(DeadlineExtended {
+            job_id: object::id(job),
+            client: job.client,
+            freelancer: *option::borrow(&job.freelancer),
+            old_deadline,
+            new_deadline: extension.new_deadline,
+            timestamp,
+        });
+    }
+
+    // ======== Internal Helper Functions ========
+
+    /// Sum of milestone amounts not yet paid out of escrow
+    fun unapproved_milestone_total<T>(job: &Job<T>): u64 {
+        let mut total = 0;
+        let mut i = 0;
+        while (i < job.milestone_count) {
+            let milestone = table::borrow(&job.milestones, i);
+            if (!milestone.approved) {
+                total = total + milestone.amount;
+            };
+            i = i + 1;
+        };
+        total
+    }
+
+    /// Validate that the sender may edit the job (client with matching cap, job OPEN)
+    fun assert_can_update<T>(job: &Job<T>, cap: &JobCap, ctx: &TxContext) {
+        verify_cap(job, cap);
+        assert!(ctx.sender() == job.client, ENotAuthorized);
+        assert!(job.state == STATE_OPEN, EJobNotOpen);
+    }
+
+    /// Emit JobUpdated with the job's current editable fields
+    fun emit_job_updated<T>(job: &Job<T>, clock: &Clock) {
+        event::emit(JobUpdated {
+            job_id: object::id(job),
+            client: job.client,
+            title: job.title,
+            description_blob_id: job.description_blob_id,
+            category: job.category,
+            skills: job.skills,
+            budget: job.budget,
+            deadline: job.deadline,
+            timestamp: clock::timestamp_ms(clock),
+        });
+    }
+
+    /// Check the category and skill list sizes (at most MAX_JOB_SKILLS non-empty, unique IDs)
+    fun assert_valid_skills(category: &vector<u8>, skills: &vector<vector<u8>>) {
+        assert!(vector::length(category) <= MAX_TAXONOMY_ID_LENGTH, EInvalidSkills);
+
+        let count = vector::length(skills);
+        assert!(count <= MAX_JOB_SKILLS, EInvalidSkills);
+
+        let mut i = 0;
+        while (i < count) {
+            let skill = vector::borrow(skills, i);
+            let length = vector::length(skill);
+            assert!(length > 0 && length <= MAX_TAXONOMY_ID_LENGTH, EInvalidSkills);
+
+            let mut j = i + 1;
+            while (j < count) {
+                assert!(vector::borrow(skills, j) != skill, EInvalidSkills);
+                j = j + 1;
+            };
+            i = i + 1;
+        };
+    }
+
+    /// Remove a freelancer from applicants and drop their proposal
+    fun remove_application<T>(job: &mut Job<T>, freelancer: address) {
+        let (found, index) = vector::index_of(&job.applicants, &freelancer);
+        if (found) {
+            vector::remove(&mut job.applicants, index);
+        };
+
+        let mut i = 0;
+        let len = vector::length(&job.proposals);
+        while (i < len) {
+            if (vector::borrow(&job.proposals, i).freelancer == freelancer) {
+                vector::remove(&mut job.proposals, i);
+                break
+            };
+            i = i + 1;
+        };
+    }
+
+    /// Grant the client access to the deliverable and pay the freelancer for a milestone
+    ///
+    /// Shared by approve_milestone and claim_milestone_after_review_window.
+    /// Caller validates state and authorization; this checks escrow/whitelist consistency.
+    fun release_milestone<T>(
+        job: &mut Job<T>,
+        milestone_id: u64,
+        deliverable_escrow: &mut DeliverableEscrow,
+        whitelist: &mut Whitelist,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let timestamp = clock::timestamp_ms(clock);
+        let freelancer = *option::borrow(&job.freelancer);
+
+        // Validate deliverable escrow matches the milestone
+        assert!(deliverable_escrow.job_id == object::id(job), EInvalidState);
+        assert!(deliverable_escrow.milestone_id == milestone_id, EInvalidState);
+        assert!(!deliverable_escrow.access_granted, EInvalidState);
+
+        // Get milestone
+        let milestone = table::borrow_mut(&mut job.milestones, milestone_id);
+        assert!(milestone.completed && !milestone.approved, EInvalidState);
+
+        // Verify whitelist matches the one stored in milestone and escrow
+        assert!(option::is_some(&milestone.whitelist_id), EInvalidState);
+        let stored_whitelist_id = *option::borrow(&milestone.whitelist_id);
+        assert!(object::id(whitelist) == stored_whitelist_id, EInvalidState);
+        assert!(deliverable_escrow.whitelist_id == stored_whitelist_id, EInvalidState);
+
+        // Grant client access to decrypt the deliverable using the escrow's Cap
+        whitelist::add(whitelist, &deliverable_escrow.whitelist_cap, job.client);
+
+        // Mark access as granted in escrow (prevents double-grant)
+        deliverable_escrow.access_granted = true;
+
+        // Mark approved
+        milestone.approved = true;
+        milestone.approved_at = option::some(timestamp);
+
+        let amount = milestone.amount;
+
+        // Get submission data for event (before releasing funds)
+        let submission_blob_id = *option::borrow(&milestone.submission_blob_id);
+        let nonce = *option::borrow(&milestone.nonce);
+
+        // Release funds from escrow
+        assert!(balance::value(&job.escrow) >= amount, EInsufficientFunds);
+        let payment = coin::take(&mut job.escrow, amount, ctx);
+        transfer::public_transfer(payment, freelancer);
+
+        // Emit payment event
+        event::emit(FundsReleased {
+            job_id: object::id(job),
+            recipient: freelancer,
+            amount,
+            reason: 0,  // 0 = milestone payment
+            timestamp,
+        });
+
+        // Emit milestone approved event
+        event::emit(MilestoneApproved {
+            job_id: object::id(job),
+            milestone_id,
+            amount,
+            freelancer,
+            timestamp,
+        });
+
+        // Emit access granted event (client can now decrypt)
+        event::emit(DeliverableAccessGranted {
+            job_id: object::id(job),
+            milestone_id,
+            client: job.client,
+            whitelist_id: stored_whitelist_id,
+            submission_blob_id,
+            nonce,
+            timestamp,
+        });
+    }
+
+    /// Complete job - client side (internal, called when all milestones approved)
+    ///
+    /// Transitions job to COMPLETED, updates client profile, sets pending for freelancer.
+    /// Freelancer must call claim_job_completion() to update their profile.
+    fun complete_job_client_side<T>(
+        job: &mut Job<T>,
+        client_profile: &mut Profile,
+        clock: &Clock,
+    ) {
+        let timestamp = clock::timestamp_ms(clock);
+
+        // State transition
+        let old_state = job.state;
+        job.state = STATE_COMPLETED;
+
         let freelancer = *option::borrow(&job.freelancer);
         let job_id = object::id(job);
 
@@ -973,7 +1951,7 @@ module zk_freelance::job_escrow {
         };
 
         // Update client profile - record completion
-        profile_nft::record_job_completion(client_profile, job_id, total_paid, clock);
+        profile_nft::record_job_completion(client_profile, job_id, profile_earnings<T>(total_paid), clock);
 
         // Set pending freelancer completion (freelancer will claim later)
         job.pending_freelancer_completion = option::some(total_paid);
@@ -1003,40 +1981,91 @@ module zk_freelance::job_escrow {
         });
     }
 
+    /// Complete job when the freelancer claimed the final milestone
+    ///
+    /// Mirror of complete_job_client_side: the freelancer's profile is updated now and
+    /// pending_client_completion is left for the client to claim.
+    fun complete_job_freelancer_side<T>(
+        job: &mut Job<T>,
+        freelancer_profile: &mut Profile,
+        clock: &Clock,
+    ) {
+        let timestamp = clock::timestamp_ms(clock);
+
+        // State transition
+        let old_state = job.state;
+        job.state = STATE_COMPLETED;
+
+        let freelancer = *option::borrow(&job.freelancer);
+        let job_id = object::id(job);
+
+        // Calculate total paid
+        let mut total_paid = 0;
+        let mut i = 0;
+        while (i < job.milestone_count) {
+            let milestone = table::borrow(&job.milestones, i);
+            total_paid = total_paid + milestone.amount;
+            i = i + 1;
+        };
+
+        // Update freelancer profile - record completion
+        profile_nft::record_job_completion(freelancer_profile, job_id, profile_earnings<T>(total_paid), clock);
+
+        // Set pending client completion (client will claim later)
+        job.pending_client_completion = option::some(total_paid);
+
+        // Emit events
+        event::emit(JobCompleted {
+            job_id,
+            client: job.client,
+            freelancer,
+            total_paid,
+            timestamp,
+        });
+
+        event::emit(JobStateChanged {
+            job_id,
+            old_state,
+            new_state: STATE_COMPLETED,
+            freelancer: job.freelancer,
+            timestamp,
+        });
+    }
+
     // ======== Getter Functions ========
 
     /// Get job state
-    public fun get_state(job: &Job): u8 {
+    public fun get_state<T>(job: &Job<T>): u8 {
         job.state
     }
 
     /// Get job client
-    public fun get_client(job: &Job): address {
+    public fun get_client<T>(job: &Job<T>): address {
         job.client
     }
 
     /// Get assigned freelancer
-    public fun get_freelancer(job: &Job): Option<address> {
+    public fun get_freelancer<T>(job: &Job<T>): Option<address> {
         job.freelancer
     }
 
     /// Get job budget
-    public fun get_budget(job: &Job): u64 {
+    public fun get_budget<T>(job: &Job<T>): u64 {
         job.budget
     }
 
     /// Get job deadline
-    public fun get_deadline(job: &Job): u64 {
+    public fun get_deadline<T>(job: &Job<T>): u64 {
         job.deadline
     }
 
     /// Get milestone count
-    public fun get_milestone_count(job: &Job): u64 {
+    public fun get_milestone_count<T>(job: &Job<T>): u64 {
         job.milestone_count
     }
 
     /// Check if address is in applicants
-    public fun is_applicant(job: &Job, addr: address): bool {
+    public fun is_applicant<T>(job: &Job<T>, addr: address): bool {
         vector::contains(&job.applicants, &addr)
     }
 
@@ -1046,47 +2075,129 @@ module zk_freelance::job_escrow {
     }
 
     /// Get job title
-    public fun get_title(job: &Job): vector<u8> {
+    public fun get_title<T>(job: &Job<T>): vector<u8> {
         job.title
     }
 
     /// Get description blob ID
-    public fun get_description_blob_id(job: &Job): vector<u8> {
+    public fun get_description_blob_id<T>(job: &Job<T>): vector<u8> {
         job.description_blob_id
     }
 
+    /// Get category ID
+    public fun get_category<T>(job: &Job<T>): vector<u8> {
+        job.category
+    }
+
+    /// Get required skill IDs
+    public fun get_skills<T>(job: &Job<T>): vector<vector<u8>> {
+        job.skills
+    }
+
     /// Get escrow balance
-    public fun get_escrow_balance(job: &Job): u64 {
+    public fun get_escrow_balance<T>(job: &Job<T>): u64 {
         balance::value(&job.escrow)
     }
 
+    /// Get total amount of milestones not yet approved (must be covered by escrow)
+    public fun get_unapproved_milestone_total<T>(job: &Job<T>): u64 {
+        unapproved_milestone_total(job)
+    }
+
     /// Get applicant count
-    public fun get_applicant_count(job: &Job): u64 {
+    public fun get_applicant_count<T>(job: &Job<T>): u64 {
         vector::length(&job.applicants)
     }
 
+    /// Check if address was rejected by the client
+    public fun is_rejected_applicant<T>(job: &Job<T>, addr: address): bool {
+        vector::contains(&job.rejected_applicants, &addr)
+    }
+
+    /// Get proposal count
+    public fun get_proposal_count<T>(job: &Job<T>): u64 {
+        vector::length(&job.proposals)
+    }
+
+    /// Get an applicant's proposed price (aborts if the address has not applied)
+    public fun get_proposed_price<T>(job: &Job<T>, freelancer: address): u64 {
+        let mut i = 0;
+        let len = vector::length(&job.proposals);
+        while (i < len) {
+            let proposal = vector::borrow(&job.proposals, i);
+            if (proposal.freelancer == freelancer) {
+                return proposal.proposed_price
+            };
+            i = i + 1;
+        };
+        abort ENotAuthorized
+    }
+
     /// Get created timestamp
-    public fun get_created_at(job: &Job): u64 {
+    public fun get_created_at<T>(job: &Job<T>): u64 {
         job.created_at
     }
 
     /// Get deliverable blob IDs count
-    public fun get_deliverable_count(job: &Job): u64 {
+    public fun get_deliverable_count<T>(job: &Job<T>): u64 {
         vector::length(&job.deliverable_blob_ids)
     }
 
     /// Check if freelancer has pending completion to claim
-    public fun has_pending_freelancer_completion(job: &Job): bool {
+    public fun has_pending_freelancer_completion<T>(job: &Job<T>): bool {
         option::is_some(&job.pending_freelancer_completion)
     }
 
     /// Get pending freelancer completion amount (if any)
-    public fun get_pending_freelancer_completion(job: &Job): Option<u64> {
+    public fun get_pending_freelancer_completion<T>(job: &Job<T>): Option<u64> {
         job.pending_freelancer_completion
     }
 
+    /// Check if job has a dispute record
+    public fun has_dispute<T>(job: &Job<T>): bool {
+        option::is_some(&job.dispute)
+    }
+
+    /// Check if job's dispute has been resolved
+    public fun is_dispute_resolved<T>(job: &Job<T>): bool {
+        option::is_some(&job.dispute) && option::borrow(&job.dispute).resolved
+    }
+
+    /// Get number of evidence entries on the dispute
+    public fun get_dispute_evidence_count<T>(job: &Job<T>): u64 {
+        if (option::is_none(&job.dispute)) {
+            return 0
+        };
+        vector::length(&option::borrow(&job.dispute).evidence)
+    }
+
+    /// Get the escrow coin type
+    public fun get_coin_type<T>(_job: &Job<T>): AsciiString {
+        type_name::into_string(type_name::get<T>())
+    }
+
+    /// Get the client review window in milliseconds
+    public fun get_review_window_ms<T>(job: &Job<T>): u64 {
+        job.review_window_ms
+    }
+
+    /// Check if the client has a pending completion claim
+    public fun has_pending_client_completion<T>(job: &Job<T>): bool {
+        option::is_some(&job.pending_client_completion)
+    }
+
+    /// Check if the freelancer has a pending deadline extension request
+    public fun has_pending_extension<T>(job: &Job<T>): bool {
+        option::is_some(&job.pending_extension)
+    }
+
+    /// Check if the client reclaimed the escrow after a missed deadline
+    public fun is_reclaimed<T>(job: &Job<T>): bool {
+        option::is_some(&job.reclaimed_at)
+    }
+
     /// Get milestone (returns reference to milestone)
-    public fun get_milestone(job: &Job, milestone_id: u64): &Milestone {
+    public fun get_milestone<T>(job: &Job<T>, milestone_id: u64): &Milestone {
         table::borrow(&job.milestones, milestone_id)
     }
 
@@ -1150,12 +2261,12 @@ module zk_freelance::job_escrow {
     // ======== Helper Functions ========
 
     /// Verify JobCap matches Job
-    fun verify_cap(job: &Job, cap: &JobCap) {
+    fun verify_cap<T>(job: &Job<T>, cap: &JobCap) {
         assert!(object::id(job) == cap.job_id, ENotAuthorized);
     }
 
     /// Check if deadline has passed
-    fun is_deadline_passed(job: &Job, clock: &Clock): bool {
+    fun is_deadline_passed<T>(job: &Job<T>, clock: &Clock): bool {
         clock::timestamp_ms(clock) > job.deadline
     }
 
@@ -1189,8 +2300,51 @@ module zk_freelance::job_escrow {
     //     false
     // }
 
+    /// Amount recorded in profile earnings for a payout
+    ///
+    /// Profile total_amount is denominated in SUI, so payouts in other coins
+    /// count toward completed jobs but not toward earnings.
+    fun profile_earnings<T>(amount: u64): u64 {
+        if (type_name::get<T>() == type_name::get<SUI>()) {
+            amount
+        } else {
+            0
+        }
+    }
+
+    /// Check if any submitted milestone is still waiting for review
+    fun has_pending_review<T>(job: &Job<T>): bool {
+        let mut i = 0;
+        while (i < job.milestone_count) {
+            let milestone = table::borrow(&job.milestones, i);
+            if (milestone.completed && !milestone.approved) {
+                return true
+            };
+            i = i + 1;
+        };
+        false
+    }
+
+    /// Move the job back to IN_PROGRESS when no submitted milestone awaits review
+    fun resume_if_no_pending_review<T>(job: &mut Job<T>, timestamp: u64) {
+        if (has_pending_review(job)) {
+            return
+        };
+
+        let old_state = job.state;
+        job.state = STATE_IN_PROGRESS;
+
+        event::emit(JobStateChanged {
+            job_id: object::id(job),
+            old_state,
+            new_state: STATE_IN_PROGRESS,
+            freelancer: job.freelancer,
+            timestamp,
+        });
+    }
+
     /// Check if all milestones are approved
-    fun all_milestones_approved(job: &Job): bool {
+    fun all_milestones_approved<T>(job: &Job<T>): bool {
         if (job.milestone_count == 0) {
             return false
         };
@@ -1210,6 +2364,21 @@ module zk_freelance::job_escrow {
 
     #[test_only]
     public fun init_for_testing(ctx: &mut TxContext) {
-        // Test initialization if needed
+        init(ctx)
+    }
+
+    #[test_only]
+    public fun milestone_added_get_milestone_id(event: &MilestoneAdded): u64 {
+        event.milestone_id
+    }
+
+    #[test_only]
+    public fun milestone_added_get_amount(event: &MilestoneAdded): u64 {
+        event.amount
+    }
+
+    #[test_only]
+    public fun milestone_added_get_budget(event: &MilestoneAdded): u64 {
+        event.budget
     }
 }
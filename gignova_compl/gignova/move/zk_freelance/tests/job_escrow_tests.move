@@ -9,10 +9,12 @@ module zk_freelance::job_escrow_tests {
     use sui::sui::SUI;
     use sui::clock::{Self, Clock};
     use sui::test_utils;
+    use sui::event;
     use std::string;
     use std::option::{Self, Option};
     use sui::object;
-    use zk_freelance::job_escrow::{Self, Job, JobCap};
+    use zk_freelance::job_escrow::{Self, Job, JobCap, ArbiterCap, DeliverableEscrow, MilestoneAdded};
+    use zk_freelance::whitelist::{Self, Whitelist};
     use zk_freelance::profile_nft::{Self, Profile, ProfileCap};
 
     // Test constants
@@ -28,6 +30,9 @@ module zk_freelance::job_escrow_tests {
     const CURRENT_TIME: u64 = 1000000;
     const FUTURE_DEADLINE: u64 = 2000000;
     const PAST_DEADLINE: u64 = 500000;
+    const DEFAULT_REVIEW_WINDOW: u64 = 604_800_000; // 7 days
+    const MAX_REVIEW_WINDOW: u64 = 1_209_600_000; // 14 days
+    const PROPOSAL_DURATION: u64 = 86_400_000; // 1 day
 
     // Error codes (match job_escrow.move)
     const ENotAuthorized: u64 = 0;
@@ -38,6 +43,17 @@ module zk_freelance::job_escrow_tests {
     const EJobNotOpen: u64 = 5;
     const EAlreadyApplied: u64 = 6;
     const EFreelancerNotAssigned: u64 = 7;
+    const EDeadlineNotPassed: u64 = 14;
+    const EInvalidDeadline: u64 = 15;
+    const EReviewWindowActive: u64 = 16;
+    const EInvalidProposal: u64 = 17;
+    const ENotApplicant: u64 = 18;
+    const EApplicantRejected: u64 = 19;
+    const EInvalidSkills: u64 = 20;
+    const EInvalidReviewWindow: u64 = 21;
+
+    /// Stand-in stablecoin for generic escrow tests
+    public struct TEST_USDC has drop {}
 
     // Job states
     const STATE_OPEN: u8 = 0;
@@ -137,8 +153,11 @@ module zk_freelance::job_escrow_tests {
                 &mut client_profile,
                 b"Test Job",
                 b"blob_123",
+                b"development",
+                vector[b"move"],
                 budget_coin,
                 FUTURE_DEADLINE,
+                0, // Default review window
                 clock,
                 ts::ctx(scenario)
             );
@@ -148,13 +167,57 @@ module zk_freelance::job_escrow_tests {
 
     /// Add a milestone to job
     fun add_test_milestone(
-        job: &mut Job,
+        job: &mut Job<SUI>,
         cap: &JobCap,
         description: vector<u8>,
         amount: u64,
         scenario: &mut Scenario
     ) {
-        job_escrow::add_milestone(job, cap, description, amount, ts::ctx(scenario));
+        job_escrow::add_milestone(job, cap, description, amount, coin::zero<SUI>(ts::ctx(scenario)), ts::ctx(scenario));
+    }
+
+    /// Create a job with one milestone and take it to IN_PROGRESS with FREELANCER assigned
+    fun setup_in_progress_job(scenario: &mut Scenario, clock: &Clock) {
+        init_registry(scenario);
+        create_client_profile(CLIENT, scenario, clock);
+        create_freelancer_profile(FREELANCER, scenario, clock);
+        create_test_job(scenario, clock);
+
+        ts::next_tx(scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(scenario);
+            let cap = ts::take_from_sender<JobCap>(scenario);
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(scenario)), ts::ctx(scenario));
+            ts::return_to_sender(scenario, cap);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(scenario);
+            let profile = ts::take_from_sender<Profile>(scenario);
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], clock, ts::ctx(scenario));
+            ts::return_to_sender(scenario, profile);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(scenario);
+            let cap = ts::take_from_sender<JobCap>(scenario);
+            job_escrow::assign_freelancer(&mut job, &cap, FREELANCER, clock, ts::ctx(scenario));
+            ts::return_to_sender(scenario, cap);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(scenario);
+            let mut freelancer_profile = ts::take_from_sender<Profile>(scenario);
+            job_escrow::start_job(&mut job, &mut freelancer_profile, clock, ts::ctx(scenario));
+            ts::return_to_sender(scenario, freelancer_profile);
+            ts::return_shared(job);
+        };
     }
 
     // ======== 1. Function-Specific Tests: create_job() ========
@@ -175,8 +238,11 @@ module zk_freelance::job_escrow_tests {
                 &mut client_profile,
                 b"Software Development",
                 b"description_blob_456",
+                b"development",
+                vector[b"move"],
                 budget_coin,
                 FUTURE_DEADLINE,
+                0, // Default review window
                 &clock,
                 ts::ctx(&mut scenario)
             );
@@ -186,13 +252,15 @@ module zk_freelance::job_escrow_tests {
         // Verify Job was created and shared
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let job = ts::take_shared<Job>(&scenario);
+            let job = ts::take_shared<Job<SUI>>(&scenario);
             assert!(job_escrow::get_state(&job) == STATE_OPEN, 0);
             assert!(job_escrow::get_client(&job) == CLIENT, 1);
             assert!(job_escrow::get_budget(&job) == BUDGET, 2);
             assert!(job_escrow::get_escrow_balance(&job) == BUDGET, 3);
             assert!(job_escrow::get_deadline(&job) == FUTURE_DEADLINE, 4);
             assert!(job_escrow::get_milestone_count(&job) == 0, 5);
+            assert!(job_escrow::get_category(&job) == b"development", 7);
+            assert!(job_escrow::get_skills(&job) == vector[b"move"], 8);
             ts::return_shared(job);
         };
 
@@ -223,8 +291,11 @@ module zk_freelance::job_escrow_tests {
                 &mut client_profile,
                 b"Test Job",
                 b"blob_123",
+                b"development",
+                vector[b"move"],
                 budget_coin,
                 FUTURE_DEADLINE,
+                0, // Default review window
                 &clock,
                 ts::ctx(&mut scenario)
             );
@@ -252,8 +323,11 @@ module zk_freelance::job_escrow_tests {
                 &mut client_profile,
                 b"Test Job",
                 b"blob_123",
+                b"development",
+                vector[b"move"],
                 budget_coin,
                 PAST_DEADLINE, // Past deadline
+                0, // Default review window
                 &clock,
                 ts::ctx(&mut scenario)
             );
@@ -281,8 +355,11 @@ module zk_freelance::job_escrow_tests {
                 &mut client_profile,
                 b"", // Empty title
                 b"blob_123",
+                b"development",
+                vector[b"move"],
                 budget_coin,
                 FUTURE_DEADLINE,
+                0, // Default review window
                 &clock,
                 ts::ctx(&mut scenario)
             );
@@ -311,8 +388,43 @@ module zk_freelance::job_escrow_tests {
                 &mut client_profile,
                 b"Test Job",
                 b"blob_123",
+                b"development",
+                vector[b"move"],
                 budget_coin,
                 CURRENT_TIME, // Deadline == current time
+                0, // Default review window
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+            ts::return_to_sender(&scenario, client_profile);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EInvalidReviewWindow, location = zk_freelance::job_escrow)]
+    fun test_create_job_review_window_too_long() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut client_profile = ts::take_from_sender<Profile>(&scenario);
+            let budget_coin = coin::mint_for_testing<SUI>(BUDGET, ts::ctx(&mut scenario));
+            job_escrow::create_job(
+                &mut client_profile,
+                b"Test Job",
+                b"blob_123",
+                b"development",
+                vector[b"move"],
+                budget_coin,
+                FUTURE_DEADLINE,
+                MAX_REVIEW_WINDOW + 1,
                 &clock,
                 ts::ctx(&mut scenario)
             );
@@ -339,9 +451,9 @@ module zk_freelance::job_escrow_tests {
         // Freelancer applies
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
 
             assert!(job_escrow::is_applicant(&job, FREELANCER), 0);
             assert!(job_escrow::get_applicant_count(&job) == 1, 1);
@@ -369,9 +481,9 @@ module zk_freelance::job_escrow_tests {
         // Freelancer 1 applies
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
@@ -379,9 +491,9 @@ module zk_freelance::job_escrow_tests {
         // Freelancer 2 applies
         ts::next_tx(&mut scenario, FREELANCER2);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
 
             assert!(job_escrow::get_applicant_count(&job) == 2, 0);
             assert!(job_escrow::is_applicant(&job, FREELANCER), 1);
@@ -409,12 +521,12 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
 
             // Apply again - should fail
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
 
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
@@ -436,10 +548,10 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
             // Client tries to apply to own job
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
@@ -465,9 +577,9 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
@@ -492,9 +604,9 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
@@ -502,7 +614,7 @@ module zk_freelance::job_escrow_tests {
         // Client assigns freelancer
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -538,7 +650,7 @@ module zk_freelance::job_escrow_tests {
         // Client tries to assign someone who didn't apply
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut random_profile = ts::take_from_address<Profile>(&scenario, RANDOM_USER);
 
@@ -566,7 +678,7 @@ module zk_freelance::job_escrow_tests {
         create_test_job(&mut scenario, &clock);
 
         ts::next_tx(&mut scenario, CLIENT);
-        let job1 = ts::take_shared<Job>(&scenario);
+        let job1 = ts::take_shared<Job<SUI>>(&scenario);
         let job1_id = object::id(&job1);
         ts::return_shared(job1);
 
@@ -584,8 +696,11 @@ module zk_freelance::job_escrow_tests {
                 &mut client_profile,
                 b"Second Job",
                 b"blob_456",
+                b"development",
+                vector[b"move"],
                 budget_coin,
                 FUTURE_DEADLINE,
+                0, // Default review window
                 &clock,
                 ts::ctx(&mut scenario)
             );
@@ -594,7 +709,7 @@ module zk_freelance::job_escrow_tests {
 
         // Get job2 and its ID
         ts::next_tx(&mut scenario, CLIENT);
-        let job2 = ts::take_shared<Job>(&scenario);
+        let job2 = ts::take_shared<Job<SUI>>(&scenario);
         let job2_id = object::id(&job2);
         ts::return_shared(job2);
 
@@ -605,7 +720,7 @@ module zk_freelance::job_escrow_tests {
         {
             let mut job2 = ts::take_shared_by_id<Job>(&scenario, job2_id);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job2, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job2, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job2);
         };
@@ -642,10 +757,10 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
-            job_escrow::add_milestone(&mut job, &cap, b"Milestone 1", MILESTONE_AMOUNT, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone 1", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
 
             assert!(job_escrow::get_milestone_count(&job) == 1, 0);
 
@@ -673,11 +788,11 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
-            job_escrow::add_milestone(&mut job, &cap, b"Milestone 1", MILESTONE_AMOUNT, ts::ctx(&mut scenario));
-            job_escrow::add_milestone(&mut job, &cap, b"Milestone 2", MILESTONE_AMOUNT, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone 1", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone 2", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
 
             assert!(job_escrow::get_milestone_count(&job) == 2, 0);
 
@@ -689,6 +804,47 @@ module zk_freelance::job_escrow_tests {
         ts::end(scenario);
     }
 
+    #[test]
+    fun test_add_milestone_emits_milestone_added() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+
+            // Second milestone needs a payment: 0.5 + 0.6 SUI exceeds the 1 SUI budget
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone 1", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+            let payment = coin::mint_for_testing<SUI>(SMALL_AMOUNT, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone 2", MILESTONE_AMOUNT + SMALL_AMOUNT, payment, ts::ctx(&mut scenario));
+
+            let events = event::events_by_type<MilestoneAdded>();
+            assert!(vector::length(&events) == 2, 0);
+
+            let first = vector::borrow(&events, 0);
+            assert!(job_escrow::milestone_added_get_milestone_id(first) == 0, 1);
+            assert!(job_escrow::milestone_added_get_amount(first) == MILESTONE_AMOUNT, 2);
+            assert!(job_escrow::milestone_added_get_budget(first) == BUDGET, 3);
+
+            let second = vector::borrow(&events, 1);
+            assert!(job_escrow::milestone_added_get_milestone_id(second) == 1, 4);
+            assert!(job_escrow::milestone_added_get_amount(second) == MILESTONE_AMOUNT + SMALL_AMOUNT, 5);
+            assert!(job_escrow::milestone_added_get_budget(second) == BUDGET + SMALL_AMOUNT, 6);
+            assert!(job_escrow::get_budget(&job) == BUDGET + SMALL_AMOUNT, 7);
+
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
     #[test]
     #[expected_failure(abort_code = EInvalidMilestone, location = zk_freelance::job_escrow)]
     fun test_add_milestone_exceeds_budget() {
@@ -701,11 +857,11 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             // Try to add milestone larger than budget
-            job_escrow::add_milestone(&mut job, &cap, b"Too Large", BUDGET + 1, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Too Large", BUDGET + 1, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
 
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
@@ -727,12 +883,12 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
-            job_escrow::add_milestone(&mut job, &cap, b"Milestone 1", 600_000_000, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone 1", 600_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             // This should fail - total would be 1.1 SUI
-            job_escrow::add_milestone(&mut job, &cap, b"Milestone 2", 500_000_000, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone 2", 500_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
 
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
@@ -743,7 +899,6 @@ module zk_freelance::job_escrow_tests {
     }
 
     #[test]
-    #[expected_failure(abort_code = EInvalidState, location = zk_freelance::job_escrow)]
     fun test_add_milestone_after_assignment() {
         let mut scenario = ts::begin(CLIENT);
         let clock = create_clock(CURRENT_TIME, &mut scenario);
@@ -757,16 +912,16 @@ module zk_freelance::job_escrow_tests {
         // Apply and assign
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -776,13 +931,16 @@ module zk_freelance::job_escrow_tests {
             ts::return_shared(job);
         };
 
-        // Try to add milestone after assignment
+        // Add milestone after assignment (existing budget covers it)
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
-            job_escrow::add_milestone(&mut job, &cap, b"Late Milestone", MILESTONE_AMOUNT, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Late Milestone", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+
+            assert!(job_escrow::get_milestone_count(&job) == 1, 0);
+            assert!(job_escrow::get_state(&job) == STATE_ASSIGNED, 1);
 
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
@@ -808,16 +966,16 @@ module zk_freelance::job_escrow_tests {
         // Apply and assign
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -830,7 +988,7 @@ module zk_freelance::job_escrow_tests {
         // Freelancer starts job
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
 
@@ -859,16 +1017,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             job_escrow::assign_freelancer(&mut job, &cap, FREELANCER, &clock, ts::ctx(&mut scenario));
@@ -879,7 +1037,7 @@ module zk_freelance::job_escrow_tests {
         // Different freelancer tries to start (should fail - not assigned)
         ts::next_tx(&mut scenario, FREELANCER2);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer2_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer2_profile, &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, freelancer2_profile);
@@ -904,16 +1062,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -928,7 +1086,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, freelancer_profile);
@@ -953,9 +1111,9 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"Design Phase", MILESTONE_AMOUNT, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Design Phase", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         };
@@ -964,16 +1122,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -985,7 +1143,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, freelancer_profile);
@@ -995,7 +1153,7 @@ module zk_freelance::job_escrow_tests {
         // Submit milestone
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             job_escrow::submit_milestone(&mut job, 0, b"proof_blob_789", &clock, ts::ctx(&mut scenario));
 
             assert!(job_escrow::get_state(&job) == STATE_SUBMITTED, 0);
@@ -1029,16 +1187,16 @@ module zk_freelance::job_escrow_tests {
         // Setup to IN_PROGRESS
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -1050,7 +1208,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, freelancer_profile);
@@ -1060,7 +1218,7 @@ module zk_freelance::job_escrow_tests {
         // Try to submit milestone that doesn't exist
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             job_escrow::submit_milestone(&mut job, 999, b"proof", &clock, ts::ctx(&mut scenario));
             ts::return_shared(job);
         };
@@ -1082,9 +1240,9 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"Milestone", MILESTONE_AMOUNT, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         };
@@ -1093,16 +1251,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -1114,7 +1272,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, freelancer_profile);
@@ -1123,7 +1281,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             job_escrow::submit_milestone(&mut job, 0, b"proof", &clock, ts::ctx(&mut scenario));
 
             // Try to submit same milestone again
@@ -1150,9 +1308,9 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"Milestone", MILESTONE_AMOUNT, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         };
@@ -1161,16 +1319,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -1182,7 +1340,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             job_escrow::submit_milestone(&mut job, 0, b"proof", &clock, ts::ctx(&mut scenario));
@@ -1193,7 +1351,7 @@ module zk_freelance::job_escrow_tests {
         // Approve milestone
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             let escrow_before = job_escrow::get_escrow_balance(&job);
@@ -1237,9 +1395,9 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"Full Job", BUDGET, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Full Job", BUDGET, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         };
@@ -1248,16 +1406,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -1269,7 +1427,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             job_escrow::submit_milestone(&mut job, 0, b"proof", &clock, ts::ctx(&mut scenario));
@@ -1279,7 +1437,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
@@ -1313,7 +1471,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
@@ -1351,16 +1509,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -1373,7 +1531,7 @@ module zk_freelance::job_escrow_tests {
         // Cancel after assignment
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
@@ -1407,16 +1565,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -1428,7 +1586,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, freelancer_profile);
@@ -1438,7 +1596,7 @@ module zk_freelance::job_escrow_tests {
         // Try to cancel in IN_PROGRESS - this should fail because job is not in OPEN or ASSIGNED
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
@@ -1471,7 +1629,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let job = ts::take_shared<Job>(&scenario);
+            let job = ts::take_shared<Job<SUI>>(&scenario);
             assert!(job_escrow::get_state(&job) == STATE_OPEN, 0);
             ts::return_shared(job);
         };
@@ -1479,9 +1637,9 @@ module zk_freelance::job_escrow_tests {
         // Add milestone
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"Milestone", BUDGET, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone", BUDGET, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         };
@@ -1491,9 +1649,9 @@ module zk_freelance::job_escrow_tests {
         // Apply
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
@@ -1501,7 +1659,7 @@ module zk_freelance::job_escrow_tests {
         // ASSIGNED
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -1515,7 +1673,7 @@ module zk_freelance::job_escrow_tests {
         // IN_PROGRESS
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             assert!(job_escrow::get_state(&job) == STATE_IN_PROGRESS, 2);
@@ -1526,7 +1684,7 @@ module zk_freelance::job_escrow_tests {
         // SUBMITTED
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             job_escrow::submit_milestone(&mut job, 0, b"proof", &clock, ts::ctx(&mut scenario));
             assert!(job_escrow::get_state(&job) == STATE_SUBMITTED, 3);
             ts::return_shared(job);
@@ -1535,7 +1693,7 @@ module zk_freelance::job_escrow_tests {
         // COMPLETED (all milestones approved)
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
@@ -1563,7 +1721,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
@@ -1593,9 +1751,9 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"M1", BUDGET, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M1", BUDGET, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         create_freelancer_profile(FREELANCER, &mut scenario, &clock);
@@ -1604,16 +1762,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -1625,7 +1783,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             job_escrow::submit_milestone(&mut job, 0, b"proof", &clock, ts::ctx(&mut scenario));
@@ -1635,7 +1793,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             assert!(job_escrow::get_escrow_balance(&job) == BUDGET, 0);
@@ -1668,7 +1826,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             assert!(job_escrow::get_escrow_balance(&job) == BUDGET, 0);
@@ -1701,7 +1859,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             // Test basic getters
@@ -1748,10 +1906,10 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
-            job_escrow::add_milestone(&mut job, &cap, b"Test Milestone", MILESTONE_AMOUNT, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Test Milestone", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
 
             let milestone = job_escrow::get_milestone(&job, 0);
             assert!(job_escrow::milestone_get_id(milestone) == 0, 0);
@@ -1799,52 +1957,52 @@ module zk_freelance::job_escrow_tests {
         // Add 5 applicants to demonstrate large applicant handling
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, FREELANCER2);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, @0xA2);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, @0xA3);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, @0xA4);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let job = ts::take_shared<Job>(&scenario);
+            let job = ts::take_shared<Job<SUI>>(&scenario);
             assert!(job_escrow::get_applicant_count(&job) == 5, 0);
             assert!(job_escrow::is_applicant(&job, FREELANCER), 1);
             assert!(job_escrow::is_applicant(&job, FREELANCER2), 2);
@@ -1868,12 +2026,12 @@ module zk_freelance::job_escrow_tests {
         // Add 3 milestones
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
-            job_escrow::add_milestone(&mut job, &cap, b"M1", 300_000_000, ts::ctx(&mut scenario));
-            job_escrow::add_milestone(&mut job, &cap, b"M2", 300_000_000, ts::ctx(&mut scenario));
-            job_escrow::add_milestone(&mut job, &cap, b"M3", 400_000_000, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M1", 300_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M2", 300_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M3", 400_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
 
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
@@ -1883,16 +2041,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -1904,7 +2062,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, freelancer_profile);
@@ -1914,14 +2072,14 @@ module zk_freelance::job_escrow_tests {
         // Submit and approve M1
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             job_escrow::submit_milestone(&mut job, 0, b"proof1", &clock, ts::ctx(&mut scenario));
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
@@ -1939,14 +2097,14 @@ module zk_freelance::job_escrow_tests {
         // Submit and approve M2
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             job_escrow::submit_milestone(&mut job, 1, b"proof2", &clock, ts::ctx(&mut scenario));
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
@@ -1962,14 +2120,14 @@ module zk_freelance::job_escrow_tests {
         // Submit and approve M3 - should complete job
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             job_escrow::submit_milestone(&mut job, 2, b"proof3", &clock, ts::ctx(&mut scenario));
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
@@ -2000,12 +2158,12 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             // Add milestones totaling 0.6 SUI (less than 1 SUI budget)
-            job_escrow::add_milestone(&mut job, &cap, b"M1", 300_000_000, ts::ctx(&mut scenario));
-            job_escrow::add_milestone(&mut job, &cap, b"M2", 300_000_000, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M1", 300_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M2", 300_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
 
             assert!(job_escrow::get_milestone_count(&job) == 2, 0);
 
@@ -2033,9 +2191,9 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
@@ -2050,7 +2208,7 @@ module zk_freelance::job_escrow_tests {
         // RANDOM_USER tries to assign using CLIENT's cap (should fail due to sender check)
         ts::next_tx(&mut scenario, RANDOM_USER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -2080,25 +2238,25 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"M1", BUDGET, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M1", BUDGET, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -2110,7 +2268,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             job_escrow::submit_milestone(&mut job, 0, b"proof", &clock, ts::ctx(&mut scenario));
@@ -2148,7 +2306,7 @@ module zk_freelance::job_escrow_tests {
         // RANDOM_USER tries to approve milestone using their own profile (should fail)
         ts::next_tx(&mut scenario, RANDOM_USER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut random_profile = ts::take_from_sender<Profile>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
@@ -2206,7 +2364,7 @@ module zk_freelance::job_escrow_tests {
         // RANDOM_USER tries to cancel using their own profile (should fail)
         ts::next_tx(&mut scenario, RANDOM_USER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut random_profile = ts::take_from_sender<Profile>(&scenario);
 
@@ -2234,9 +2392,9 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"M1", BUDGET, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M1", BUDGET, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         create_freelancer_profile(FREELANCER, &mut scenario, &clock);
@@ -2245,16 +2403,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -2266,7 +2424,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, freelancer_profile);
@@ -2276,7 +2434,7 @@ module zk_freelance::job_escrow_tests {
         // Different user tries to submit
         ts::next_tx(&mut scenario, RANDOM_USER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             job_escrow::submit_milestone(&mut job, 0, b"proof", &clock, ts::ctx(&mut scenario));
             ts::return_shared(job);
         };
@@ -2300,10 +2458,10 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
             // Should succeed - before deadline
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
@@ -2328,8 +2486,11 @@ module zk_freelance::job_escrow_tests {
                 &mut client_profile,
                 b"Test Job",
                 b"blob_123",
+                b"development",
+                vector[b"move"],
                 budget_coin,
                 FUTURE_DEADLINE + 1000, // Slightly future
+                0, // Default review window
                 &clock,
                 ts::ctx(&mut scenario)
             );
@@ -2340,9 +2501,9 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
@@ -2363,25 +2524,25 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"M1", BUDGET, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M1", BUDGET, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -2393,7 +2554,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, freelancer_profile);
@@ -2406,7 +2567,7 @@ module zk_freelance::job_escrow_tests {
         // Submit should still work (deadline only blocks apply/start)
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             job_escrow::submit_milestone(&mut job, 0, b"proof", &clock, ts::ctx(&mut scenario));
             ts::return_shared(job);
         };
@@ -2429,10 +2590,10 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
-            job_escrow::add_milestone(&mut job, &cap, b"Zero Amount", 0, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"Zero Amount", 0, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
 
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
@@ -2453,13 +2614,13 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
 
             // Exact budget match
-            job_escrow::add_milestone(&mut job, &cap, b"M1", 400_000_000, ts::ctx(&mut scenario));
-            job_escrow::add_milestone(&mut job, &cap, b"M2", 300_000_000, ts::ctx(&mut scenario));
-            job_escrow::add_milestone(&mut job, &cap, b"M3", 300_000_000, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M1", 400_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M2", 300_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M3", 300_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
 
             assert!(job_escrow::get_milestone_count(&job) == 3, 0);
 
@@ -2489,8 +2650,11 @@ module zk_freelance::job_escrow_tests {
                 &mut client_profile,
                 b"Large Project",
                 b"blob_large",
+                b"development",
+                vector[b"move"],
                 budget_coin,
                 FUTURE_DEADLINE,
+                0, // Default review window
                 &clock,
                 ts::ctx(&mut scenario)
             );
@@ -2499,7 +2663,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let job = ts::take_shared<Job>(&scenario);
+            let job = ts::take_shared<Job<SUI>>(&scenario);
             assert!(job_escrow::get_budget(&job) == large_budget, 0);
             assert!(job_escrow::get_escrow_balance(&job) == large_budget, 1);
             ts::return_shared(job);
@@ -2525,16 +2689,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -2546,7 +2710,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
 
@@ -2576,16 +2740,16 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -2598,9 +2762,9 @@ module zk_freelance::job_escrow_tests {
         // Try to apply after job is assigned
         ts::next_tx(&mut scenario, FREELANCER2);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
@@ -2622,7 +2786,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let job = ts::take_shared<Job>(&scenario);
+            let job = ts::take_shared<Job<SUI>>(&scenario);
             let initial_balance = job_escrow::get_escrow_balance(&job);
             assert!(initial_balance == BUDGET, 0);
 
@@ -2648,25 +2812,25 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"M1", BUDGET, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M1", BUDGET, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -2678,7 +2842,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             job_escrow::submit_milestone(&mut job, 0, b"proof", &clock, ts::ctx(&mut scenario));
@@ -2688,7 +2852,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
@@ -2756,7 +2920,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let job = ts::take_shared<Job>(&scenario);
+            let job = ts::take_shared<Job<SUI>>(&scenario);
 
             // Verify data that would be used for profile integration
             let client_addr = job_escrow::get_client(&job);
@@ -2802,16 +2966,16 @@ module zk_freelance::job_escrow_tests {
         // Try full flow without adding milestones
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -2823,7 +2987,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
 
@@ -2850,26 +3014,26 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
-            job_escrow::add_milestone(&mut job, &cap, b"M1", 500_000_000, ts::ctx(&mut scenario));
-            job_escrow::add_milestone(&mut job, &cap, b"M2", 500_000_000, ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M1", 500_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+            job_escrow::add_milestone(&mut job, &cap, b"M2", 500_000_000, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, cap);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let profile = ts::take_from_sender<Profile>(&scenario);
-            job_escrow::apply_for_job(&mut job, &profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, profile);
             ts::return_shared(job);
         };
 
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
 
@@ -2881,7 +3045,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
             job_escrow::start_job(&mut job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
             ts::return_to_sender(&scenario, freelancer_profile);
@@ -2891,7 +3055,7 @@ module zk_freelance::job_escrow_tests {
         // Submit first milestone
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             assert!(job_escrow::get_deliverable_count(&job) == 0, 0);
 
             job_escrow::submit_milestone(&mut job, 0, b"blob_proof_1", &clock, ts::ctx(&mut scenario));
@@ -2904,7 +3068,7 @@ module zk_freelance::job_escrow_tests {
         // Approve and submit second
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             let cap = ts::take_from_sender<JobCap>(&scenario);
             let mut client_profile = ts::take_from_address<Profile>(&scenario, CLIENT);
             let mut freelancer_profile = ts::take_from_address<Profile>(&scenario, FREELANCER);
@@ -2918,7 +3082,7 @@ module zk_freelance::job_escrow_tests {
 
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
             job_escrow::submit_milestone(&mut job, 1, b"blob_proof_2", &clock, ts::ctx(&mut scenario));
 
             assert!(job_escrow::get_deliverable_count(&job) == 2, 2);
@@ -2929,4 +3093,984 @@ module zk_freelance::job_escrow_tests {
         clock::destroy_for_testing(clock);
         ts::end(scenario);
     }
+
+    // ======== 20. Dispute Tests ========
+
+    #[test]
+    fun test_open_dispute_freezes_job() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            job_escrow::open_dispute(&mut job, b"client_unresponsive", &clock, ts::ctx(&mut scenario));
+
+            assert!(job_escrow::get_state(&job) == STATE_DISPUTED, 0);
+            assert!(job_escrow::has_dispute(&job), 1);
+            assert!(!job_escrow::is_dispute_resolved(&job), 2);
+            assert!(job_escrow::get_escrow_balance(&job) == BUDGET, 3);
+
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            job_escrow::submit_dispute_evidence(&mut job, b"evidence_blob", &clock, ts::ctx(&mut scenario));
+            assert!(job_escrow::get_dispute_evidence_count(&job) == 1, 4);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = ENotAuthorized, location = zk_freelance::job_escrow)]
+    fun test_non_party_cannot_open_dispute() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, RANDOM_USER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            job_escrow::open_dispute(&mut job, b"reason", &clock, ts::ctx(&mut scenario));
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun test_resolve_dispute_splits_escrow() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            job_escrow::init_for_testing(ts::ctx(&mut scenario));
+        };
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            job_escrow::open_dispute(&mut job, b"work_incomplete", &clock, ts::ctx(&mut scenario));
+            ts::return_shared(job);
+        };
+
+        // ArbiterCap was sent to CLIENT (publisher) by init_for_testing
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let arbiter = ts::take_from_sender<ArbiterCap>(&scenario);
+
+            job_escrow::resolve_dispute(&mut job, &arbiter, SMALL_AMOUNT, b"partial_payment", &clock, ts::ctx(&mut scenario));
+
+            assert!(job_escrow::get_state(&job) == STATE_CANCELLED, 0);
+            assert!(job_escrow::is_dispute_resolved(&job), 1);
+            assert!(job_escrow::get_escrow_balance(&job) == 0, 2);
+
+            ts::return_to_sender(&scenario, arbiter);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let payment = ts::take_from_sender<Coin<SUI>>(&scenario);
+            assert!(coin::value(&payment) == SMALL_AMOUNT, 3);
+            ts::return_to_sender(&scenario, payment);
+
+            let job = ts::take_shared<Job<SUI>>(&scenario);
+            let mut profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::release_disputed_job(&job, &mut profile, &clock, ts::ctx(&mut scenario));
+            assert!(!profile_nft::is_job_active(&profile, object::id(&job)), 4);
+            ts::return_to_sender(&scenario, profile);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EInvalidState, location = zk_freelance::job_escrow)]
+    fun test_cannot_add_evidence_after_resolution() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            job_escrow::init_for_testing(ts::ctx(&mut scenario));
+        };
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let arbiter = ts::take_from_sender<ArbiterCap>(&scenario);
+            job_escrow::open_dispute(&mut job, b"reason", &clock, ts::ctx(&mut scenario));
+            job_escrow::resolve_dispute(&mut job, &arbiter, 0, b"full_refund", &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, arbiter);
+            ts::return_shared(job);
+        };
+
+        // Resolved job is CANCELLED - evidence is no longer accepted
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            job_escrow::submit_dispute_evidence(&mut job, b"late_evidence", &clock, ts::ctx(&mut scenario));
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    // ======== 21. Deadline Enforcement Tests ========
+
+    #[test]
+    fun test_reclaim_after_deadline_refunds_client() {
+        let mut scenario = ts::begin(CLIENT);
+        let mut clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+        clock::set_for_testing(&mut clock, FUTURE_DEADLINE + 1);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            let mut client_profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::reclaim_after_deadline(&mut job, &cap, &mut client_profile, &clock, ts::ctx(&mut scenario));
+
+            assert!(job_escrow::get_state(&job) == STATE_CANCELLED, 0);
+            assert!(job_escrow::is_reclaimed(&job), 1);
+            assert!(job_escrow::get_escrow_balance(&job) == 0, 2);
+
+            ts::return_to_sender(&scenario, client_profile);
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let refund = ts::take_from_sender<Coin<SUI>>(&scenario);
+            assert!(coin::value(&refund) == BUDGET, 3);
+            ts::return_to_sender(&scenario, refund);
+        };
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let job = ts::take_shared<Job<SUI>>(&scenario);
+            let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::release_reclaimed_job(&job, &mut freelancer_profile, &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, freelancer_profile);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EDeadlineNotPassed, location = zk_freelance::job_escrow)]
+    fun test_cannot_reclaim_before_deadline() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            let mut client_profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::reclaim_after_deadline(&mut job, &cap, &mut client_profile, &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, client_profile);
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun test_deadline_extension_request_and_accept() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+        let new_deadline = FUTURE_DEADLINE + 500000;
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            job_escrow::request_deadline_extension(&mut job, new_deadline, b"scope_grew", &clock, ts::ctx(&mut scenario));
+            assert!(job_escrow::has_pending_extension(&job), 0);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            job_escrow::accept_deadline_extension(&mut job, &cap, &clock, ts::ctx(&mut scenario));
+
+            assert!(job_escrow::get_deadline(&job) == new_deadline, 1);
+            assert!(!job_escrow::has_pending_extension(&job), 2);
+
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    // ======== 22. Review Window Tests ========
+
+    /// Helper: freelancer submits milestone 0 with a fresh whitelist
+    fun submit_with_whitelist(scenario: &mut Scenario, clock: &Clock) {
+        submit_milestone_with_whitelist(0, scenario, clock);
+    }
+
+    /// Helper: freelancer submits the given milestone with a fresh whitelist
+    fun submit_milestone_with_whitelist(milestone_id: u64, scenario: &mut Scenario, clock: &Clock) {
+        ts::next_tx(scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(scenario);
+            let (cap, wl) = whitelist::create_whitelist(ts::ctx(scenario));
+            let wl_id = object::id(&wl);
+            whitelist::share_whitelist(wl);
+            job_escrow::submit_milestone(
+                &mut job,
+                milestone_id,
+                b"encrypted_blob",
+                b"https://preview.example",
+                cap,
+                wl_id,
+                b"nonce",
+                b"deliverable.zip",
+                clock,
+                ts::ctx(scenario)
+            );
+            ts::return_shared(job);
+        };
+    }
+
+    #[test]
+    fun test_freelancer_claims_after_review_window() {
+        let mut scenario = ts::begin(CLIENT);
+        let mut clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+        submit_with_whitelist(&mut scenario, &clock);
+        clock::set_for_testing(&mut clock, CURRENT_TIME + DEFAULT_REVIEW_WINDOW);
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let mut escrow = ts::take_shared<DeliverableEscrow>(&scenario);
+            let mut wl = ts::take_shared<Whitelist>(&scenario);
+            let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
+
+            job_escrow::claim_milestone_after_review_window(
+                &mut job,
+                0,
+                &mut escrow,
+                &mut wl,
+                &mut freelancer_profile,
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+
+            assert!(job_escrow::get_state(&job) == STATE_COMPLETED, 0);
+            assert!(job_escrow::has_pending_client_completion(&job), 1);
+
+            ts::return_to_sender(&scenario, freelancer_profile);
+            ts::return_shared(wl);
+            ts::return_shared(escrow);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let mut client_profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::claim_client_completion(&mut job, &mut client_profile, &clock, ts::ctx(&mut scenario));
+            assert!(!job_escrow::has_pending_client_completion(&job), 2);
+            ts::return_to_sender(&scenario, client_profile);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EReviewWindowActive, location = zk_freelance::job_escrow)]
+    fun test_cannot_claim_during_review_window() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+        submit_with_whitelist(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let mut escrow = ts::take_shared<DeliverableEscrow>(&scenario);
+            let mut wl = ts::take_shared<Whitelist>(&scenario);
+            let mut freelancer_profile = ts::take_from_sender<Profile>(&scenario);
+
+            job_escrow::claim_milestone_after_review_window(
+                &mut job,
+                0,
+                &mut escrow,
+                &mut wl,
+                &mut freelancer_profile,
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+
+            ts::return_to_sender(&scenario, freelancer_profile);
+            ts::return_shared(wl);
+            ts::return_shared(escrow);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EDeadlinePassed, location = zk_freelance::job_escrow)]
+    fun test_cannot_reclaim_submitted_work_via_revision_after_deadline() {
+        let mut scenario = ts::begin(CLIENT);
+        let mut clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+        submit_with_whitelist(&mut scenario, &clock);
+        clock::set_for_testing(&mut clock, FUTURE_DEADLINE + 1);
+
+        // Revision would move the job back to IN_PROGRESS, where the escrow is reclaimable
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            let mut client_profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::request_revision(&mut job, &cap, 0, b"revision_blob", &clock, ts::ctx(&mut scenario));
+            job_escrow::reclaim_after_deadline(&mut job, &cap, &mut client_profile, &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, client_profile);
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    // ======== 23. Generic Coin Escrow Tests ========
+
+    #[test]
+    fun test_create_job_with_custom_coin() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+        let usdc_budget: u64 = 250_000_000; // 250 USDC (6 decimals)
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut client_profile = ts::take_from_sender<Profile>(&scenario);
+            let budget_coin = coin::mint_for_testing<TEST_USDC>(usdc_budget, ts::ctx(&mut scenario));
+            job_escrow::create_job(
+                &mut client_profile,
+                b"Stablecoin Job",
+                b"blob_usdc",
+                b"development",
+                vector[b"move"],
+                budget_coin,
+                FUTURE_DEADLINE,
+                0, // Default review window
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+            ts::return_to_sender(&scenario, client_profile);
+        };
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let job = ts::take_shared<Job<TEST_USDC>>(&scenario);
+            assert!(job_escrow::get_budget(&job) == usdc_budget, 0);
+            assert!(job_escrow::get_escrow_balance(&job) == usdc_budget, 1);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    // ======== 24. Proposal Tests ========
+
+    #[test]
+    fun test_apply_records_proposal() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+        create_freelancer_profile(FREELANCER, &mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::apply_for_job(
+                &mut job,
+                &profile,
+                b"cover_letter_blob",
+                SMALL_AMOUNT,
+                PROPOSAL_DURATION,
+                vector[b"https://github.com/freelancer", b"https://dribbble.com/freelancer"],
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+
+            assert!(job_escrow::get_proposal_count(&job) == 1, 0);
+            assert!(job_escrow::get_proposed_price(&job, FREELANCER) == SMALL_AMOUNT, 1);
+
+            ts::return_to_sender(&scenario, profile);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EInvalidProposal, location = zk_freelance::job_escrow)]
+    fun test_apply_without_cover_letter_fails() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+        create_freelancer_profile(FREELANCER, &mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::apply_for_job(&mut job, &profile, b"", SMALL_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
+
+            ts::return_to_sender(&scenario, profile);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    // ======== 25. Application Withdrawal & Rejection Tests ========
+
+    #[test]
+    fun test_withdraw_application_success() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+        create_freelancer_profile(FREELANCER, &mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, profile);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            job_escrow::withdraw_application(&mut job, &clock, ts::ctx(&mut scenario));
+
+            assert!(!job_escrow::is_applicant(&job, FREELANCER), 0);
+            assert!(job_escrow::get_applicant_count(&job) == 0, 1);
+            assert!(job_escrow::get_proposal_count(&job) == 0, 2);
+            assert!(!job_escrow::is_rejected_applicant(&job, FREELANCER), 3);
+
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = ENotApplicant, location = zk_freelance::job_escrow)]
+    fun test_withdraw_without_application_fails() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            job_escrow::withdraw_application(&mut job, &clock, ts::ctx(&mut scenario));
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun test_reject_applicant_keeps_other_proposals() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+        create_freelancer_profile(FREELANCER, &mut scenario, &clock);
+        create_freelancer_profile(FREELANCER2, &mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, profile);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(&mut scenario, FREELANCER2);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", SMALL_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, profile);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+
+            job_escrow::reject_applicant(&mut job, &cap, FREELANCER, &clock, ts::ctx(&mut scenario));
+
+            assert!(!job_escrow::is_applicant(&job, FREELANCER), 0);
+            assert!(job_escrow::is_rejected_applicant(&job, FREELANCER), 1);
+            assert!(job_escrow::get_proposal_count(&job) == 1, 2);
+            assert!(job_escrow::get_proposed_price(&job, FREELANCER2) == SMALL_AMOUNT, 3);
+
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EApplicantRejected, location = zk_freelance::job_escrow)]
+    fun test_rejected_applicant_cannot_reapply() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+        create_freelancer_profile(FREELANCER, &mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, profile);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            job_escrow::reject_applicant(&mut job, &cap, FREELANCER, &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        ts::next_tx(&mut scenario, FREELANCER);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let profile = ts::take_from_sender<Profile>(&scenario);
+            job_escrow::apply_for_job(&mut job, &profile, b"cover_letter_blob", MILESTONE_AMOUNT, PROPOSAL_DURATION, vector[], &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, profile);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    // ======== 26. Job Update Tests ========
+
+    #[test]
+    fun test_update_open_job() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            let top_up = coin::mint_for_testing<SUI>(SMALL_AMOUNT, ts::ctx(&mut scenario));
+
+            job_escrow::update_job_details(&mut job, &cap, b"Updated Job", b"blob_456", &clock, ts::ctx(&mut scenario));
+            job_escrow::update_job_deadline(&mut job, &cap, FUTURE_DEADLINE + 1000, &clock, ts::ctx(&mut scenario));
+            job_escrow::top_up_escrow(&mut job, &cap, top_up, &clock, ts::ctx(&mut scenario));
+
+            assert!(job_escrow::get_title(&job) == b"Updated Job", 0);
+            assert!(job_escrow::get_description_blob_id(&job) == b"blob_456", 1);
+            assert!(job_escrow::get_deadline(&job) == FUTURE_DEADLINE + 1000, 2);
+            assert!(job_escrow::get_budget(&job) == BUDGET + SMALL_AMOUNT, 3);
+            assert!(job_escrow::get_escrow_balance(&job) == BUDGET + SMALL_AMOUNT, 4);
+            assert!(job_escrow::get_state(&job) == STATE_OPEN, 5);
+
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EInvalidDeadline, location = zk_freelance::job_escrow)]
+    fun test_update_job_deadline_in_past_fails() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            job_escrow::update_job_deadline(&mut job, &cap, PAST_DEADLINE, &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EJobNotOpen, location = zk_freelance::job_escrow)]
+    fun test_update_job_after_assignment_fails() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            job_escrow::update_job_details(&mut job, &cap, b"Updated Job", b"blob_456", &clock, ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun test_update_job_skills() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+
+            job_escrow::update_job_skills(
+                &mut job,
+                &cap,
+                b"design",
+                vector[b"figma", b"ui-design"],
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+
+            assert!(job_escrow::get_category(&job) == b"design", 0);
+            assert!(job_escrow::get_skills(&job) == vector[b"figma", b"ui-design"], 1);
+            assert!(job_escrow::get_state(&job) == STATE_OPEN, 2);
+
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EInvalidSkills, location = zk_freelance::job_escrow)]
+    fun test_create_job_too_many_skills() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut client_profile = ts::take_from_sender<Profile>(&scenario);
+            let budget_coin = coin::mint_for_testing<SUI>(BUDGET, ts::ctx(&mut scenario));
+            job_escrow::create_job(
+                &mut client_profile,
+                b"Test Job",
+                b"blob_123",
+                b"development",
+                vector[b"s1", b"s2", b"s3", b"s4", b"s5", b"s6", b"s7", b"s8", b"s9", b"s10", b"s11"],
+                budget_coin,
+                FUTURE_DEADLINE,
+                0, // Default review window
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+            ts::return_to_sender(&scenario, client_profile);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EInvalidSkills, location = zk_freelance::job_escrow)]
+    fun test_update_job_skills_duplicate_fails() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        init_registry(&mut scenario);
+        create_client_profile(CLIENT, &mut scenario, &clock);
+        create_test_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            job_escrow::update_job_skills(
+                &mut job,
+                &cap,
+                b"development",
+                vector[b"move", b"move"],
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    // ======== 27. Mid-Job Milestone Funding Tests ========
+
+    #[test]
+    fun test_add_milestone_in_progress_with_payment() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        // Remaining budget is MILESTONE_AMOUNT; top up the difference for a larger milestone
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            let payment = coin::mint_for_testing<SUI>(SMALL_AMOUNT, ts::ctx(&mut scenario));
+
+            job_escrow::add_milestone(&mut job, &cap, b"Extra Scope", MILESTONE_AMOUNT + SMALL_AMOUNT, payment, ts::ctx(&mut scenario));
+
+            assert!(job_escrow::get_milestone_count(&job) == 2, 0);
+            assert!(job_escrow::get_budget(&job) == BUDGET + SMALL_AMOUNT, 1);
+            assert!(job_escrow::get_escrow_balance(&job) == BUDGET + SMALL_AMOUNT, 2);
+            assert!(job_escrow::get_unapproved_milestone_total(&job) == BUDGET + SMALL_AMOUNT, 3);
+            assert!(job_escrow::get_state(&job) == STATE_IN_PROGRESS, 4);
+
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = EInvalidMilestone, location = zk_freelance::job_escrow)]
+    fun test_add_milestone_in_progress_underfunded_fails() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            let payment = coin::mint_for_testing<SUI>(SMALL_AMOUNT - 1, ts::ctx(&mut scenario));
+
+            job_escrow::add_milestone(&mut job, &cap, b"Extra Scope", MILESTONE_AMOUNT + SMALL_AMOUNT, payment, ts::ctx(&mut scenario));
+
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    // ======== 28. Batch Milestone Approval Tests ========
+
+    /// Helper: client approves a submitted milestone using its recorded escrow and whitelist
+    fun approve_submitted_milestone(
+        job: &mut Job<SUI>,
+        cap: &JobCap,
+        milestone_id: u64,
+        client_profile: &mut Profile,
+        clock: &Clock,
+        scenario: &mut Scenario
+    ) {
+        let milestone = job_escrow::get_milestone(job, milestone_id);
+        let escrow_id = *option::borrow(&job_escrow::milestone_get_deliverable_escrow_id(milestone));
+        let wl_id = *option::borrow(&job_escrow::milestone_get_whitelist_id(milestone));
+        let mut escrow = ts::take_shared_by_id<DeliverableEscrow>(scenario, escrow_id);
+        let mut wl = ts::take_shared_by_id<Whitelist>(scenario, wl_id);
+
+        job_escrow::approve_milestone(job, cap, milestone_id, &mut escrow, &mut wl, client_profile, clock, ts::ctx(scenario));
+
+        ts::return_shared(wl);
+        ts::return_shared(escrow);
+    }
+
+    #[test]
+    fun test_approve_multiple_milestones_in_one_transaction() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone 2", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        // Second submission is accepted while the first awaits review
+        submit_milestone_with_whitelist(0, &mut scenario, &clock);
+        submit_milestone_with_whitelist(1, &mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            let mut client_profile = ts::take_from_sender<Profile>(&scenario);
+
+            assert!(job_escrow::get_state(&job) == STATE_SUBMITTED, 0);
+
+            approve_submitted_milestone(&mut job, &cap, 0, &mut client_profile, &clock, &mut scenario);
+            // Milestone 1 still awaits review
+            assert!(job_escrow::get_state(&job) == STATE_SUBMITTED, 1);
+
+            approve_submitted_milestone(&mut job, &cap, 1, &mut client_profile, &clock, &mut scenario);
+            assert!(job_escrow::get_state(&job) == STATE_COMPLETED, 2);
+            assert!(job_escrow::get_escrow_balance(&job) == BUDGET - 2 * MILESTONE_AMOUNT, 3);
+
+            ts::return_to_sender(&scenario, client_profile);
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun test_revision_keeps_other_submissions_in_review() {
+        let mut scenario = ts::begin(CLIENT);
+        let clock = create_clock(CURRENT_TIME, &mut scenario);
+
+        setup_in_progress_job(&mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+            job_escrow::add_milestone(&mut job, &cap, b"Milestone 2", MILESTONE_AMOUNT, coin::zero<SUI>(ts::ctx(&mut scenario)), ts::ctx(&mut scenario));
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        submit_milestone_with_whitelist(0, &mut scenario, &clock);
+        submit_milestone_with_whitelist(1, &mut scenario, &clock);
+
+        ts::next_tx(&mut scenario, CLIENT);
+        {
+            let mut job = ts::take_shared<Job<SUI>>(&scenario);
+            let cap = ts::take_from_sender<JobCap>(&scenario);
+
+            job_escrow::request_revision(&mut job, &cap, 0, b"revision_blob", &clock, ts::ctx(&mut scenario));
+            assert!(job_escrow::get_state(&job) == STATE_SUBMITTED, 0);
+
+            job_escrow::request_revision(&mut job, &cap, 1, b"revision_blob", &clock, ts::ctx(&mut scenario));
+            assert!(job_escrow::get_state(&job) == STATE_IN_PROGRESS, 1);
+
+            ts::return_to_sender(&scenario, cap);
+            ts::return_shared(job);
+        };
+
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
 }
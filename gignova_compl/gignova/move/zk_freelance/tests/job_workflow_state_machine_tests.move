@@ -142,8 +142,11 @@ module zk_freelance::job_workflow_state_machine_tests {
                 &mut client_profile,
                 b"Test Job Title",
                 b"description_blob_id",
+                b"development",
+                vector[b"move"],
                 payment,
                 deadline,
+                0, // Default review window
                 clock,
                 ts::ctx(scenario)
             );
@@ -154,7 +157,7 @@ module zk_freelance::job_workflow_state_machine_tests {
         // Add milestones
         if (milestone_count > 0) {
             ts::next_tx(scenario, client_addr);
-            let mut job = ts::take_shared<Job>(scenario);
+            let mut job = ts::take_shared<Job<SUI>>(scenario);
             let job_cap = ts::take_from_sender<JobCap>(scenario);
 
             let mut i = 0;
@@ -164,6 +167,7 @@ module zk_freelance::job_workflow_state_machine_tests {
                     &job_cap,
                     b"Milestone description",
                     amount_per_milestone,
+                    coin::zero<SUI>(ts::ctx(scenario)),
                     ts::ctx(scenario)
                 );
                 i = i + 1;
@@ -184,12 +188,16 @@ module zk_freelance::job_workflow_state_machine_tests {
         // Freelancer applies
         ts::next_tx(scenario, freelancer_addr);
         {
-            let mut job = ts::take_shared<Job>(scenario);
+            let mut job = ts::take_shared<Job<SUI>>(scenario);
             let freelancer_profile = ts::take_from_sender<Profile>(scenario);
 
             job_escrow::apply_for_job(
                 &mut job,
                 &freelancer_profile,
+                b"cover_letter_blob",
+                MILESTONE_AMOUNT,
+                ONE_DAY,
+                vector[],
                 clock,
                 ts::ctx(scenario)
             );
@@ -201,7 +209,7 @@ module zk_freelance::job_workflow_state_machine_tests {
         // Client assigns freelancer (no profile needed - ownership fix)
         ts::next_tx(scenario, client_addr);
         {
-            let mut job = ts::take_shared<Job>(scenario);
+            let mut job = ts::take_shared<Job<SUI>>(scenario);
             let job_cap = ts::take_from_sender<JobCap>(scenario);
 
             job_escrow::assign_freelancer(
@@ -220,7 +228,7 @@ module zk_freelance::job_workflow_state_machine_tests {
     /// Freelancer starts the job (now includes profile update)
     fun start_job(freelancer_addr: address, scenario: &mut Scenario, clock: &Clock) {
         ts::next_tx(scenario, freelancer_addr);
-        let mut job = ts::take_shared<Job>(scenario);
+        let mut job = ts::take_shared<Job<SUI>>(scenario);
         let mut freelancer_profile = ts::take_from_sender<Profile>(scenario);
 
         job_escrow::start_job(&mut job, &mut freelancer_profile, clock, ts::ctx(scenario));
@@ -237,7 +245,7 @@ module zk_freelance::job_workflow_state_machine_tests {
         clock: &Clock
     ) {
         ts::next_tx(scenario, freelancer_addr);
-        let mut job = ts::take_shared<Job>(scenario);
+        let mut job = ts::take_shared<Job<SUI>>(scenario);
 
         job_escrow::submit_milestone(
             &mut job,
@@ -259,7 +267,7 @@ module zk_freelance::job_workflow_state_machine_tests {
         clock: &Clock
     ) {
         ts::next_tx(scenario, client_addr);
-        let mut job = ts::take_shared<Job>(scenario);
+        let mut job = ts::take_shared<Job<SUI>>(scenario);
         let job_cap = ts::take_from_sender<JobCap>(scenario);
         let mut client_profile = ts::take_from_sender<Profile>(scenario);
         let mut freelancer_profile = ts::take_from_address<Profile>(scenario, freelancer_addr);
@@ -286,7 +294,7 @@ module zk_freelance::job_workflow_state_machine_tests {
         expected_escrow_balance: u64,
         scenario: &Scenario
     ) {
-        let job = ts::take_shared<Job>(scenario);
+        let job = ts::take_shared<Job<SUI>>(scenario);
 
         assert!(job_escrow::get_state(&job) == expected_state, 0);
         assert!(job_escrow::get_escrow_balance(&job) == expected_escrow_balance, 1);
@@ -441,7 +449,7 @@ module zk_freelance::job_workflow_state_machine_tests {
         // Client cancels job
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&mut scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&mut scenario);
             let job_cap = ts::take_from_sender<JobCap>(&mut scenario);
             let mut client_profile = ts::take_from_sender<Profile>(&mut scenario);
 
@@ -490,7 +498,7 @@ module zk_freelance::job_workflow_state_machine_tests {
         // Cancel with freelancer
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&mut scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&mut scenario);
             let job_cap = ts::take_from_sender<JobCap>(&mut scenario);
             let mut client_profile = ts::take_from_sender<Profile>(&mut scenario);
             let mut freelancer_profile = ts::take_from_address<Profile>(&mut scenario, FREELANCER);
@@ -579,30 +587,30 @@ module zk_freelance::job_workflow_state_machine_tests {
         // All 3 freelancers apply
         ts::next_tx(&mut scenario, FREELANCER);
         {
-            let mut job = ts::take_shared<Job>(&mut scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&mut scenario);
             let freelancer_profile = ts::take_from_sender<Profile>(&mut scenario);
 
-            job_escrow::apply_for_job(&mut job, &freelancer_profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &freelancer_profile, b"cover_letter_blob", MILESTONE_AMOUNT, ONE_DAY, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_shared(job);
             ts::return_to_sender(&mut scenario, freelancer_profile);
         };
 
         ts::next_tx(&mut scenario, FREELANCER2);
         {
-            let mut job = ts::take_shared<Job>(&mut scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&mut scenario);
             let freelancer_profile = ts::take_from_sender<Profile>(&mut scenario);
 
-            job_escrow::apply_for_job(&mut job, &freelancer_profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &freelancer_profile, b"cover_letter_blob", MILESTONE_AMOUNT, ONE_DAY, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_shared(job);
             ts::return_to_sender(&mut scenario, freelancer_profile);
         };
 
         ts::next_tx(&mut scenario, FREELANCER3);
         {
-            let mut job = ts::take_shared<Job>(&mut scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&mut scenario);
             let freelancer_profile = ts::take_from_sender<Profile>(&mut scenario);
 
-            job_escrow::apply_for_job(&mut job, &freelancer_profile, &clock, ts::ctx(&mut scenario));
+            job_escrow::apply_for_job(&mut job, &freelancer_profile, b"cover_letter_blob", MILESTONE_AMOUNT, ONE_DAY, vector[], &clock, ts::ctx(&mut scenario));
             ts::return_shared(job);
             ts::return_to_sender(&mut scenario, freelancer_profile);
         };
@@ -610,7 +618,7 @@ module zk_freelance::job_workflow_state_machine_tests {
         // Client can assign FREELANCER (no profile needed - ownership fix)
         ts::next_tx(&mut scenario, CLIENT);
         {
-            let mut job = ts::take_shared<Job>(&mut scenario);
+            let mut job = ts::take_shared<Job<SUI>>(&mut scenario);
             let job_cap = ts::take_from_sender<JobCap>(&mut scenario);
 
             job_escrow::assign_freelancer(